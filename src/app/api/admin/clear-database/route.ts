@@ -1,13 +1,26 @@
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import { getDatabase } from '@/lib/mongodb'
+import { verifyToken } from '@/lib/auth'
+import { isPlatformAdmin } from '@/lib/permissions'
 
 // WARNING: This endpoint clears ALL data! Only use in development.
-export async function POST() {
+export async function POST(request: NextRequest) {
     // Only allow in development
     if (process.env.NODE_ENV === 'production') {
         return NextResponse.json({ error: 'Not allowed in production' }, { status: 403 })
     }
 
+    const token = request.cookies.get('auth-token')?.value
+    const decoded = token ? verifyToken(token) : null
+    if (!decoded) {
+        return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    // Platform admins are listed in ADMIN_USER_IDS
+    if (!isPlatformAdmin(decoded.id)) {
+        return NextResponse.json({ error: 'Platform admin access required' }, { status: 403 })
+    }
+
     try {
         const db = await getDatabase()
 
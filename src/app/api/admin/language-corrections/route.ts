@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import { isPlatformAdmin } from '@/lib/permissions'
+import { getLanguageCorrectionService } from '@/services'
+
+// GET - Export language corrections (?since= ISO date) with their texts grouped by language,
+// in the shape of the detector's training corpus
+export async function GET(request: NextRequest) {
+    const token = request.cookies.get('auth-token')?.value
+    const decoded = token ? verifyToken(token) : null
+    if (!decoded) {
+        return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    // Platform admins are listed in ADMIN_USER_IDS
+    if (!isPlatformAdmin(decoded.id)) {
+        return NextResponse.json({ error: 'Platform admin access required' }, { status: 403 })
+    }
+
+    const sinceParam = new URL(request.url).searchParams.get('since')
+    const since = sinceParam ? new Date(sinceParam) : undefined
+    if (since && isNaN(since.getTime())) {
+        return NextResponse.json({ error: 'since must be a date' }, { status: 400 })
+    }
+
+    try {
+        const service = getLanguageCorrectionService()
+        const [corrections, corpus] = await Promise.all([
+            service.getCorrections(since),
+            service.exportCorpus(since)
+        ])
+
+        return NextResponse.json(
+            { corpus, corrections, count: corrections.length },
+            { headers: { 'Content-Disposition': 'attachment; filename="language-corrections.json"' } }
+        )
+    } catch (error: unknown) {
+        console.error('Export language corrections error:', error)
+        return NextResponse.json(
+            { error: 'Failed to export language corrections' },
+            { status: 500 }
+        )
+    }
+}
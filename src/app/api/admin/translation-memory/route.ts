@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import { isPlatformAdmin } from '@/lib/permissions'
+import { getTranslationCache } from '@/services'
+import { ChatError } from '@/lib/errors'
+
+// Resolve the requesting platform admin, or the response to send instead
+function requireAdmin(request: NextRequest): NextResponse | null {
+    const token = request.cookies.get('auth-token')?.value
+    const decoded = token ? verifyToken(token) : null
+    if (!decoded) {
+        return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    // Platform admins are listed in ADMIN_USER_IDS
+    if (!isPlatformAdmin(decoded.id)) {
+        return NextResponse.json({ error: 'Platform admin access required' }, { status: 403 })
+    }
+    return null
+}
+
+// GET - Export the translation memory as { key: { value, timestamp } }
+export async function GET(request: NextRequest) {
+    const denied = requireAdmin(request)
+    if (denied) return denied
+
+    try {
+        const data = await getTranslationCache().exportData()
+
+        return NextResponse.json(
+            { entries: data, count: Object.keys(data).length },
+            { headers: { 'Content-Disposition': 'attachment; filename="translation-memory.json"' } }
+        )
+    } catch (error: unknown) {
+        console.error('Export translation memory error:', error)
+        return NextResponse.json(
+            { error: 'Failed to export translation memory' },
+            { status: 500 }
+        )
+    }
+}
+
+// POST - Import entries ({ entries: { key: { value, timestamp } } }, as produced by GET)
+export async function POST(request: NextRequest) {
+    const denied = requireAdmin(request)
+    if (denied) return denied
+
+    try {
+        const { entries } = await request.json()
+
+        if (!entries || typeof entries !== 'object' || Array.isArray(entries)) {
+            return NextResponse.json(
+                { error: 'An entries object is required' },
+                { status: 400 }
+            )
+        }
+
+        let imported: number
+        try {
+            imported = await getTranslationCache().importData(entries)
+        } catch (error: unknown) {
+            if (error instanceof ChatError && error.statusCode < 500) {
+                return NextResponse.json({ error: error.message }, { status: error.statusCode })
+            }
+            throw error
+        }
+
+        return NextResponse.json({ imported })
+    } catch (error: unknown) {
+        console.error('Import translation memory error:', error)
+        return NextResponse.json(
+            { error: 'Failed to import translation memory' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import { getAttachmentService, getCommunityService, getConversationService } from '@/services'
+import { ChatError } from '@/lib/errors'
+import { isInlineImage, contentDisposition } from '@/lib/fileTypes'
+
+// GET - Stream an attachment (?thumbnail=1 for an image's thumbnail) to members of its
+// channel or conversation; only inline-safe images are shown in the browser, the rest download
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const token = request.cookies.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = verifyToken(token)
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const thumbnail = new URL(request.url).searchParams.get('thumbnail') === '1'
+    const attachmentService = getAttachmentService()
+
+    const attachment = await attachmentService.getAttachment(id)
+    if (!attachment) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      )
+    }
+
+    try {
+      if (attachment.conversationId) {
+        await getConversationService().requireParticipant(attachment.conversationId, decoded.id)
+      } else {
+        await getCommunityService().requireChannelPermission(attachment.channelId, decoded.id, 'view_channels')
+      }
+    } catch (error: unknown) {
+      if (error instanceof ChatError && error.statusCode < 500) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode })
+      }
+      throw error
+    }
+
+    const stream = await attachmentService.openAttachment(attachment, thumbnail)
+    if (!stream) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      )
+    }
+
+    const inline = isInlineImage(attachment.mimeType)
+    return new Response(stream, {
+      headers: {
+        'Content-Type': thumbnail ? 'image/webp' : attachment.mimeType,
+        ...(thumbnail ? {} : { 'Content-Length': String(attachment.size) }),
+        'Content-Disposition': contentDisposition(attachment.name, inline),
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': "default-src 'none'; sandbox",
+        'Cache-Control': 'private, max-age=86400, immutable'
+      }
+    })
+  } catch (error: unknown) {
+    console.error('Download attachment API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to download attachment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import {
+  getAttachmentService,
+  getAttachmentTextService,
+  getCommunityService,
+  getConversationService
+} from '@/services'
+import { SUPPORTED_LANGUAGES } from '@/lib/constants'
+import { ChatError } from '@/lib/errors'
+import { LanguageCode } from '@/types'
+
+// GET - The text of a text, PDF or image attachment translated into a language (?language=);
+// translation is null when the file has no readable text
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const token = request.cookies.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = verifyToken(token)
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      )
+    }
+
+    const textService = getAttachmentTextService()
+    if (!textService.isEnabled()) {
+      return NextResponse.json(
+        { error: 'Attachment translation is turned off' },
+        { status: 404 }
+      )
+    }
+
+    const { id } = await params
+    const language = new URL(request.url).searchParams.get('language')
+
+    if (!language || !Object.hasOwn(SUPPORTED_LANGUAGES, language)) {
+      return NextResponse.json(
+        { error: 'A supported language is required' },
+        { status: 400 }
+      )
+    }
+
+    const attachment = await getAttachmentService().getAttachment(id)
+    if (!attachment) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      )
+    }
+
+    let communityId: string | undefined
+    try {
+      if (attachment.conversationId) {
+        await getConversationService().requireParticipant(attachment.conversationId, decoded.id)
+      } else {
+        ({ communityId } = await getCommunityService().requireChannelPermission(attachment.channelId, decoded.id, 'view_channels'))
+      }
+    } catch (error: unknown) {
+      if (error instanceof ChatError && error.statusCode < 500) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode })
+      }
+      throw error
+    }
+
+    return NextResponse.json({
+      translation: await textService.translateAttachment(attachment, language as LanguageCode, communityId)
+    })
+  } catch (error: unknown) {
+    console.error('Attachment translation API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to translate attachment' },
+      { status: 500 }
+    )
+  }
+}
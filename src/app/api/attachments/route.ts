@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import { getAttachmentService, getCommunityService, getConversationService } from '@/services'
+import { ATTACHMENT_CONFIG } from '@/lib/constants'
+import { ChatError } from '@/lib/errors'
+
+// Room for the multipart boundaries and form fields around the file
+const MULTIPART_OVERHEAD = 64 * 1024
+
+// POST - Upload a file as multipart form data (file, and channelId or conversationId);
+// returns the attachment to reference when sending the message
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = verifyToken(token)
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      )
+    }
+
+    const tooLarge = NextResponse.json(
+      { error: `Attachment too large (max ${ATTACHMENT_CONFIG.MAX_FILE_SIZE / (1024 * 1024)}MB)` },
+      { status: 413 }
+    )
+
+    // Refuse oversized uploads before reading the body
+    const contentLength = Number(request.headers.get('content-length'))
+    if (contentLength > ATTACHMENT_CONFIG.MAX_FILE_SIZE + MULTIPART_OVERHEAD) {
+      return tooLarge
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const channelId = formData.get('channelId')
+    const conversationId = formData.get('conversationId')
+
+    if (!(file instanceof File) || (typeof channelId !== 'string' && typeof conversationId !== 'string')) {
+      return NextResponse.json(
+        { error: 'A file and a channel or conversation ID are required' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > ATTACHMENT_CONFIG.MAX_FILE_SIZE) {
+      return tooLarge
+    }
+
+    try {
+      if (typeof conversationId === 'string') {
+        await getConversationService().requireParticipant(conversationId, decoded.id)
+      } else {
+        await getCommunityService().requireChannelPermission(channelId as string, decoded.id, 'send_messages')
+      }
+
+      // Direct messages keep the conversation ID in channelId, as messages do
+      const scopeId = typeof conversationId === 'string' ? conversationId : channelId as string
+      const attachmentService = getAttachmentService()
+      const stored = await attachmentService.upload({
+        data: Buffer.from(await file.arrayBuffer()),
+        name: file.name,
+        declaredType: file.type,
+        channelId: scopeId,
+        conversationId: typeof conversationId === 'string' ? conversationId : undefined
+      }, decoded.id)
+
+      return NextResponse.json({
+        attachment: await attachmentService.resolveMessageAttachment(stored.id, decoded.id, scopeId)
+      })
+    } catch (error: unknown) {
+      if (error instanceof ChatError && error.statusCode < 500) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode })
+      }
+      throw error
+    }
+  } catch (error: unknown) {
+    console.error('Upload attachment API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to upload attachment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import { getUserService } from '@/services'
+import { ChatError } from '@/lib/errors'
+
+// GET - The signed-in user's understood languages and per-channel language overrides
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = verifyToken(token)
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      )
+    }
+
+    try {
+      return NextResponse.json({ preferences: await getUserService().getLanguagePreferences(decoded.id) })
+    } catch (error: unknown) {
+      if (error instanceof ChatError && error.statusCode < 500) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode })
+      }
+      throw error
+    }
+  } catch (error: unknown) {
+    console.error('Get language preferences error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get language preferences' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Replace the understood languages ({ understoodLanguages }) and/or set a channel's
+// language ({ channelId, language }, with language null to follow the primary language again)
+export async function PUT(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = verifyToken(token)
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      )
+    }
+
+    const { understoodLanguages, channelId, language } = await request.json()
+
+    if (understoodLanguages === undefined && !channelId) {
+      return NextResponse.json(
+        { error: 'Understood languages or a channel ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const userService = getUserService()
+
+    try {
+      let preferences = understoodLanguages !== undefined
+        ? await userService.setUnderstoodLanguages(decoded.id, understoodLanguages)
+        : null
+
+      if (channelId) {
+        preferences = await userService.setChannelLanguage(decoded.id, channelId, language || null)
+      }
+
+      return NextResponse.json({ preferences })
+    } catch (error: unknown) {
+      if (error instanceof ChatError && error.statusCode < 500) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode })
+      }
+      throw error
+    }
+  } catch (error: unknown) {
+    console.error('Update language preferences error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update language preferences' },
+      { status: 500 }
+    )
+  }
+}
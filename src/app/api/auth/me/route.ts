@@ -39,6 +39,8 @@ export async function GET(request: NextRequest) {
         email: user.email,
         username: user.username,
         primaryLanguage: user.primaryLanguage,
+        understoodLanguages: user.understoodLanguages || [],
+        channelLanguages: user.channelLanguages || {},
         avatar: user.avatar,
         status: user.status
       }
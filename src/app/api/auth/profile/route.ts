@@ -50,6 +50,8 @@ export async function PUT(request: NextRequest) {
         email: result.email,
         username: result.username,
         primaryLanguage: result.primaryLanguage,
+        understoodLanguages: result.understoodLanguages || [],
+        channelLanguages: result.channelLanguages || {},
         avatar: result.avatar,
         status: result.status
       }
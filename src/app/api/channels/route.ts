@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { verifyToken } from '@/lib/auth'
 import { getCommunityService } from '@/services'
+import { ChatError } from '@/lib/errors'
 
 export async function POST(request: NextRequest) {
     try {
@@ -40,13 +41,14 @@ export async function POST(request: NextRequest) {
 
         const communityService = getCommunityService()
 
-        // Verify user is a member of the community
-        const isMember = await communityService.isUserMember(communityId, decoded.id)
-        if (!isMember) {
-            return NextResponse.json(
-                { error: 'You must be a member of this community to create channels' },
-                { status: 403 }
-            )
+        // Verify the user's role allows creating channels
+        try {
+            await communityService.requirePermission(communityId, decoded.id, 'manage_channels')
+        } catch (error: unknown) {
+            if (error instanceof ChatError && error.statusCode < 500) {
+                return NextResponse.json({ error: error.message }, { status: error.statusCode })
+            }
+            throw error
         }
 
         // Create the channel
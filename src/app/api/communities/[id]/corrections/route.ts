@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import { getCommunityService, getTranslationCorrectionService } from '@/services'
+import { ChatError } from '@/lib/errors'
+import { TranslationCorrectionStatus } from '@/types'
+
+const STATUSES: TranslationCorrectionStatus[] = ['pending', 'approved', 'rejected']
+
+// GET - Translation corrections of a community (?status=pending|approved|rejected); requires moderate_messages
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const token = request.cookies.get('auth-token')?.value
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        const decoded = verifyToken(token)
+        if (!decoded) {
+            return NextResponse.json(
+                { error: 'Invalid token' },
+                { status: 401 }
+            )
+        }
+
+        const { id: communityId } = await params
+        const { searchParams } = new URL(request.url)
+        const status = (searchParams.get('status') || 'pending') as TranslationCorrectionStatus
+
+        if (!STATUSES.includes(status)) {
+            return NextResponse.json(
+                { error: `Status must be one of: ${STATUSES.join(', ')}` },
+                { status: 400 }
+            )
+        }
+
+        try {
+            await getCommunityService().requirePermission(communityId, decoded.id, 'moderate_messages')
+        } catch (error: unknown) {
+            if (error instanceof ChatError && error.statusCode < 500) {
+                return NextResponse.json({ error: error.message }, { status: error.statusCode })
+            }
+            throw error
+        }
+
+        return NextResponse.json({
+            corrections: await getTranslationCorrectionService().getCommunityCorrections(communityId, status)
+        })
+    } catch (error: unknown) {
+        console.error('Get corrections error:', error)
+        return NextResponse.json(
+            { error: 'Failed to get corrections' },
+            { status: 500 }
+        )
+    }
+}
+
+// PATCH - Approve or reject a correction ({ correctionId, action: 'approve' | 'reject', note? });
+// requires moderate_messages
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const token = request.cookies.get('auth-token')?.value
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        const decoded = verifyToken(token)
+        if (!decoded) {
+            return NextResponse.json(
+                { error: 'Invalid token' },
+                { status: 401 }
+            )
+        }
+
+        const { id: communityId } = await params
+        const { correctionId, action, note } = await request.json()
+
+        if (!correctionId || (action !== 'approve' && action !== 'reject')) {
+            return NextResponse.json(
+                { error: 'A correction ID and an action (approve or reject) are required' },
+                { status: 400 }
+            )
+        }
+
+        try {
+            await getCommunityService().requirePermission(communityId, decoded.id, 'moderate_messages')
+            const correction = await getTranslationCorrectionService().reviewCorrection(
+                communityId,
+                correctionId,
+                decoded.id,
+                action === 'approve',
+                note
+            )
+            return NextResponse.json({ correction })
+        } catch (error: unknown) {
+            if (error instanceof ChatError && error.statusCode < 500) {
+                return NextResponse.json({ error: error.message }, { status: error.statusCode })
+            }
+            throw error
+        }
+    } catch (error: unknown) {
+        console.error('Review correction error:', error)
+        return NextResponse.json(
+            { error: 'Failed to review correction' },
+            { status: 500 }
+        )
+    }
+}
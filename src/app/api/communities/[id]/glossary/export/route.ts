@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import { getCommunityService, getGlossaryManager } from '@/services'
+import { ChatError } from '@/lib/errors'
+import { serializeGlossary } from '@/lib/glossaryFormats'
+
+// GET - Download the community glossary (?format=csv|tbx, default csv)
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const token = request.cookies.get('auth-token')?.value
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        const decoded = verifyToken(token)
+        if (!decoded) {
+            return NextResponse.json(
+                { error: 'Invalid token' },
+                { status: 401 }
+            )
+        }
+
+        const { id: communityId } = await params
+        const { searchParams } = new URL(request.url)
+        const format = searchParams.get('format') || 'csv'
+
+        if (format !== 'csv' && format !== 'tbx') {
+            return NextResponse.json(
+                { error: 'Format must be csv or tbx' },
+                { status: 400 }
+            )
+        }
+
+        try {
+            await getCommunityService().requirePermission(communityId, decoded.id, 'view_channels')
+        } catch (error: unknown) {
+            if (error instanceof ChatError && error.statusCode < 500) {
+                return NextResponse.json({ error: error.message }, { status: error.statusCode })
+            }
+            throw error
+        }
+
+        const terms = await getGlossaryManager().getCustomTerms(communityId)
+
+        return new NextResponse(serializeGlossary(terms, format), {
+            headers: {
+                'Content-Type': format === 'tbx' ? 'application/x-tbx+xml; charset=utf-8' : 'text/csv; charset=utf-8',
+                'Content-Disposition': `attachment; filename="glossary-${communityId}.${format}"`
+            }
+        })
+    } catch (error: unknown) {
+        console.error('Export glossary error:', error)
+        return NextResponse.json(
+            { error: 'Failed to export glossary' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import { getCommunityService, getGlossaryManager } from '@/services'
+import { ChatError } from '@/lib/errors'
+import { GLOSSARY_CONFIG } from '@/lib/constants'
+import { detectGlossaryFormat, parseGlossary } from '@/lib/glossaryFormats'
+
+// POST - Import a CSV or TBX glossary ({ content, format?, sourceLanguage?, dryRun? });
+// with dryRun nothing is written and the preview of added, duplicate and conflicting
+// terms is returned. Requires manage_glossary
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const token = request.cookies.get('auth-token')?.value
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        const decoded = verifyToken(token)
+        if (!decoded) {
+            return NextResponse.json(
+                { error: 'Invalid token' },
+                { status: 401 }
+            )
+        }
+
+        const { id: communityId } = await params
+        const { content, format, sourceLanguage, dryRun } = await request.json()
+
+        if (!content || typeof content !== 'string') {
+            return NextResponse.json(
+                { error: 'Glossary file content is required' },
+                { status: 400 }
+            )
+        }
+
+        if (Buffer.byteLength(content) > GLOSSARY_CONFIG.MAX_IMPORT_SIZE) {
+            return NextResponse.json(
+                { error: `Glossary files must be at most ${GLOSSARY_CONFIG.MAX_IMPORT_SIZE / 1024} KB` },
+                { status: 413 }
+            )
+        }
+
+        if (format !== undefined && format !== 'csv' && format !== 'tbx') {
+            return NextResponse.json(
+                { error: 'Format must be csv or tbx' },
+                { status: 400 }
+            )
+        }
+
+        const glossary = getGlossaryManager()
+
+        try {
+            await getCommunityService().requirePermission(communityId, decoded.id, 'manage_glossary')
+
+            const entries = parseGlossary(content, format || detectGlossaryFormat(content), sourceLanguage || 'en')
+            const preview = dryRun
+                ? await glossary.previewImport(communityId, entries)
+                : await glossary.importTerms(communityId, entries, decoded.id)
+
+            return NextResponse.json({
+                dryRun: !!dryRun,
+                preview,
+                ...(dryRun ? {} : { terms: await glossary.getCustomTerms(communityId) })
+            })
+        } catch (error: unknown) {
+            if (error instanceof ChatError && error.statusCode < 500) {
+                return NextResponse.json({ error: error.message }, { status: error.statusCode })
+            }
+            throw error
+        }
+    } catch (error: unknown) {
+        console.error('Import glossary error:', error)
+        return NextResponse.json(
+            { error: 'Failed to import glossary' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,236 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import { getCommunityService, getGlossaryManager } from '@/services'
+import { ChatError } from '@/lib/errors'
+
+// GET - Custom glossary terms of a community, or with ?q= a search over custom and default terms
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const token = request.cookies.get('auth-token')?.value
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        const decoded = verifyToken(token)
+        if (!decoded) {
+            return NextResponse.json(
+                { error: 'Invalid token' },
+                { status: 401 }
+            )
+        }
+
+        const { id: communityId } = await params
+        const { searchParams } = new URL(request.url)
+        const query = searchParams.get('q')?.trim()
+
+        try {
+            await getCommunityService().requirePermission(communityId, decoded.id, 'view_channels')
+        } catch (error: unknown) {
+            if (error instanceof ChatError && error.statusCode < 500) {
+                return NextResponse.json({ error: error.message }, { status: error.statusCode })
+            }
+            throw error
+        }
+
+        const glossary = getGlossaryManager()
+
+        if (query) {
+            return NextResponse.json({ results: await glossary.searchTerms(communityId, query) })
+        }
+
+        return NextResponse.json({
+            terms: await glossary.getCustomTerms(communityId),
+            defaults: glossary.getDefaultGlossary()
+        })
+    } catch (error: unknown) {
+        console.error('Get glossary error:', error)
+        return NextResponse.json(
+            { error: 'Failed to get glossary' },
+            { status: 500 }
+        )
+    }
+}
+
+// POST - Add one term ({ term }) or several at once ({ terms: string[] }); requires manage_glossary
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const token = request.cookies.get('auth-token')?.value
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        const decoded = verifyToken(token)
+        if (!decoded) {
+            return NextResponse.json(
+                { error: 'Invalid token' },
+                { status: 401 }
+            )
+        }
+
+        const { id: communityId } = await params
+        const { term, terms } = await request.json()
+
+        if (!term && !Array.isArray(terms)) {
+            return NextResponse.json(
+                { error: 'A term or a list of terms is required' },
+                { status: 400 }
+            )
+        }
+
+        const glossary = getGlossaryManager()
+
+        try {
+            await getCommunityService().requirePermission(communityId, decoded.id, 'manage_glossary')
+
+            if (Array.isArray(terms)) {
+                await glossary.addMultipleTerms(communityId, terms, decoded.id)
+            } else {
+                await glossary.addProtectedTerm(communityId, term, decoded.id)
+            }
+        } catch (error: unknown) {
+            if (error instanceof ChatError && error.statusCode < 500) {
+                return NextResponse.json({ error: error.message }, { status: error.statusCode })
+            }
+            throw error
+        }
+
+        return NextResponse.json({ terms: await glossary.getCustomTerms(communityId) })
+    } catch (error: unknown) {
+        console.error('Add glossary terms error:', error)
+        return NextResponse.json(
+            { error: 'Failed to add glossary terms' },
+            { status: 500 }
+        )
+    }
+}
+
+// PATCH - Change a term's settings ({ term, category?, preserveCase?, caseRule?, translations? });
+// requires manage_glossary
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const token = request.cookies.get('auth-token')?.value
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        const decoded = verifyToken(token)
+        if (!decoded) {
+            return NextResponse.json(
+                { error: 'Invalid token' },
+                { status: 401 }
+            )
+        }
+
+        const { id: communityId } = await params
+        const { term, category, preserveCase, caseRule, translations } = await request.json()
+
+        if (!term || typeof term !== 'string') {
+            return NextResponse.json(
+                { error: 'Term is required' },
+                { status: 400 }
+            )
+        }
+
+        const glossary = getGlossaryManager()
+
+        try {
+            await getCommunityService().requirePermission(communityId, decoded.id, 'manage_glossary')
+            await glossary.updateTermSettings(
+                communityId,
+                term,
+                { category, preserveCase, caseRule, translations },
+                decoded.id
+            )
+        } catch (error: unknown) {
+            if (error instanceof ChatError && error.statusCode < 500) {
+                return NextResponse.json({ error: error.message }, { status: error.statusCode })
+            }
+            throw error
+        }
+
+        return NextResponse.json({ terms: await glossary.getCustomTerms(communityId) })
+    } catch (error: unknown) {
+        console.error('Update glossary term error:', error)
+        return NextResponse.json(
+            { error: 'Failed to update glossary term' },
+            { status: 500 }
+        )
+    }
+}
+
+// DELETE - Remove a term (?term=); requires manage_glossary
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const token = request.cookies.get('auth-token')?.value
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        const decoded = verifyToken(token)
+        if (!decoded) {
+            return NextResponse.json(
+                { error: 'Invalid token' },
+                { status: 401 }
+            )
+        }
+
+        const { id: communityId } = await params
+        const { searchParams } = new URL(request.url)
+        const term = searchParams.get('term')
+
+        if (!term) {
+            return NextResponse.json(
+                { error: 'Term is required' },
+                { status: 400 }
+            )
+        }
+
+        try {
+            await getCommunityService().requirePermission(communityId, decoded.id, 'manage_glossary')
+        } catch (error: unknown) {
+            if (error instanceof ChatError && error.statusCode < 500) {
+                return NextResponse.json({ error: error.message }, { status: error.statusCode })
+            }
+            throw error
+        }
+
+        const glossary = getGlossaryManager()
+        await glossary.removeProtectedTerm(communityId, term)
+
+        return NextResponse.json({ terms: await glossary.getCustomTerms(communityId) })
+    } catch (error: unknown) {
+        console.error('Remove glossary term error:', error)
+        return NextResponse.json(
+            { error: 'Failed to remove glossary term' },
+            { status: 500 }
+        )
+    }
+}
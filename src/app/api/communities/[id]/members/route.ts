@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ObjectId } from 'mongodb'
+import { verifyToken } from '@/lib/auth'
+import { getCommunityService } from '@/services'
+import { ChatError } from '@/lib/errors'
+import { isCommunityRole } from '@/lib/permissions'
+
+// GET - Members of a community with their roles (members only)
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const token = request.cookies.get('auth-token')?.value
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        const decoded = verifyToken(token)
+        if (!decoded) {
+            return NextResponse.json(
+                { error: 'Invalid token' },
+                { status: 401 }
+            )
+        }
+
+        const { id: communityId } = await params
+        const communityService = getCommunityService()
+
+        try {
+            const role = await communityService.requirePermission(communityId, decoded.id, 'view_channels')
+            const members = await communityService.getCommunityMembers(communityId)
+
+            return NextResponse.json({ members, role })
+        } catch (error: unknown) {
+            if (error instanceof ChatError && error.statusCode < 500) {
+                return NextResponse.json({ error: error.message }, { status: error.statusCode })
+            }
+            throw error
+        }
+    } catch (error: unknown) {
+        console.error('Get community members error:', error)
+        return NextResponse.json(
+            { error: 'Failed to get community members' },
+            { status: 500 }
+        )
+    }
+}
+
+// PATCH - Change a member's role ({ userId, role }); requires manage_roles
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const token = request.cookies.get('auth-token')?.value
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        const decoded = verifyToken(token)
+        if (!decoded) {
+            return NextResponse.json(
+                { error: 'Invalid token' },
+                { status: 401 }
+            )
+        }
+
+        const { id: communityId } = await params
+        const { userId, role } = await request.json()
+
+        if (typeof userId !== 'string' || !ObjectId.isValid(userId) || !isCommunityRole(role)) {
+            return NextResponse.json(
+                { error: 'User ID and a valid role are required' },
+                { status: 400 }
+            )
+        }
+
+        const communityService = getCommunityService()
+
+        try {
+            await communityService.setMemberRole(communityId, decoded.id, userId, role)
+            const members = await communityService.getCommunityMembers(communityId)
+
+            return NextResponse.json({ members })
+        } catch (error: unknown) {
+            if (error instanceof ChatError && error.statusCode < 500) {
+                return NextResponse.json({ error: error.message }, { status: error.statusCode })
+            }
+            throw error
+        }
+    } catch (error: unknown) {
+        console.error('Update member role error:', error)
+        return NextResponse.json(
+            { error: 'Failed to update member role' },
+            { status: 500 }
+        )
+    }
+}
+
+// DELETE - Remove a member (?userId=), or leave the community when no user is given
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const token = request.cookies.get('auth-token')?.value
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        const decoded = verifyToken(token)
+        if (!decoded) {
+            return NextResponse.json(
+                { error: 'Invalid token' },
+                { status: 401 }
+            )
+        }
+
+        const { id: communityId } = await params
+        const { searchParams } = new URL(request.url)
+        const userId = searchParams.get('userId') || decoded.id
+
+        const communityService = getCommunityService()
+
+        try {
+            await communityService.removeMember(communityId, decoded.id, userId)
+        } catch (error: unknown) {
+            if (error instanceof ChatError && error.statusCode < 500) {
+                return NextResponse.json({ error: error.message }, { status: error.statusCode })
+            }
+            throw error
+        }
+
+        return NextResponse.json({ success: true })
+    } catch (error: unknown) {
+        console.error('Remove community member error:', error)
+        return NextResponse.json(
+            { error: 'Failed to remove member' },
+            { status: 500 }
+        )
+    }
+}
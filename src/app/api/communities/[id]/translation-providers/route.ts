@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import { getCommunityService, getTranslationProviderRegistry } from '@/services'
+import { ChatError, ValidationError } from '@/lib/errors'
+
+// GET - Translation provider fallback chain of a community
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const token = request.cookies.get('auth-token')?.value
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        const decoded = verifyToken(token)
+        if (!decoded) {
+            return NextResponse.json(
+                { error: 'Invalid token' },
+                { status: 401 }
+            )
+        }
+
+        const { id: communityId } = await params
+        const communityService = getCommunityService()
+
+        const isMember = await communityService.isUserMember(communityId, decoded.id)
+        if (!isMember) {
+            return NextResponse.json(
+                { error: 'Not a member of this community' },
+                { status: 403 }
+            )
+        }
+
+        const registry = getTranslationProviderRegistry()
+        const configured = await communityService.getTranslationProviders(communityId)
+
+        return NextResponse.json({
+            providers: configured,
+            defaultChain: registry.getDefaultChain(),
+            available: registry.getProviderNames().map(name => ({
+                name,
+                available: registry.getProvider(name)?.isAvailable() ?? false
+            }))
+        })
+    } catch (error: unknown) {
+        console.error('Get translation providers error:', error)
+        return NextResponse.json(
+            { error: 'Failed to get translation providers' },
+            { status: 500 }
+        )
+    }
+}
+
+// PUT - Replace the chain ({ providers: string[] }), or reset to the default with { providers: null }
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const token = request.cookies.get('auth-token')?.value
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        const decoded = verifyToken(token)
+        if (!decoded) {
+            return NextResponse.json(
+                { error: 'Invalid token' },
+                { status: 401 }
+            )
+        }
+
+        const { id: communityId } = await params
+        const communityService = getCommunityService()
+
+        const community = await communityService.getCommunityById(communityId)
+        if (!community) {
+            return NextResponse.json(
+                { error: 'Community not found' },
+                { status: 404 }
+            )
+        }
+
+        try {
+            await communityService.requirePermission(communityId, decoded.id, 'manage_translation')
+        } catch (error: unknown) {
+            if (error instanceof ChatError && error.statusCode < 500) {
+                return NextResponse.json({ error: error.message }, { status: error.statusCode })
+            }
+            throw error
+        }
+
+        const { providers } = await request.json()
+
+        let chain: string[] | null = null
+        if (providers !== null) {
+            try {
+                chain = getTranslationProviderRegistry().validateChain(providers)
+            } catch (error: unknown) {
+                if (error instanceof ValidationError) {
+                    return NextResponse.json({ error: error.message }, { status: 400 })
+                }
+                throw error
+            }
+        }
+
+        await communityService.setTranslationProviders(communityId, chain)
+
+        return NextResponse.json({ providers: chain })
+    } catch (error: unknown) {
+        console.error('Update translation providers error:', error)
+        return NextResponse.json(
+            { error: 'Failed to update translation providers' },
+            { status: 500 }
+        )
+    }
+}
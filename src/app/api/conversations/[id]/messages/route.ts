@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import {
+    getMessageService,
+    getConversationService,
+    getUserService,
+    getRealTimeBroadcaster,
+    getAttachmentService,
+    queueMessageTranslations,
+    queueViewerTranslations
+} from '@/services'
+import { getDatabase } from '@/lib/mongodb'
+import { ObjectId } from 'mongodb'
+import { Message, MessagePage, LanguagePreferences } from '@/types'
+import { ChatError } from '@/lib/errors'
+import { getViewerLanguage } from '@/lib/utils'
+import { SUPPORTED_LANGUAGES } from '@/lib/constants'
+
+// GET - Page of a conversation's messages (?before=&after=&limit=); marks the conversation read
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const token = request.cookies.get('auth-token')?.value
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        const decoded = verifyToken(token)
+        if (!decoded) {
+            return NextResponse.json(
+                { error: 'Invalid token' },
+                { status: 401 }
+            )
+        }
+
+        const { id: conversationId } = await params
+        const { searchParams } = new URL(request.url)
+        const limit = parseInt(searchParams.get('limit') || '50')
+        const before = searchParams.get('before') || undefined
+        const after = searchParams.get('after') || undefined
+
+        if (before && after) {
+            return NextResponse.json(
+                { error: 'Use either before or after, not both' },
+                { status: 400 }
+            )
+        }
+
+        const conversationService = getConversationService()
+        let page: MessagePage
+        let preferences: LanguagePreferences
+        try {
+            await conversationService.requireParticipant(conversationId, decoded.id)
+            // Conversations can override the language like channels
+            preferences = await getUserService().getLanguagePreferences(decoded.id)
+            page = await getMessageService().getConversationMessagePage(conversationId, decoded.id, {
+                before,
+                after,
+                limit: isNaN(limit) ? undefined : limit,
+                viewerLanguage: getViewerLanguage(preferences, conversationId)
+            })
+        } catch (error: unknown) {
+            if (error instanceof ChatError && error.statusCode < 500) {
+                return NextResponse.json({ error: error.message }, { status: error.statusCode })
+            }
+            throw error
+        }
+
+        // Opening the latest window means the viewer has caught up
+        if (!before) {
+            await conversationService.markRead(conversationId, decoded.id)
+        }
+
+        const messages = await queueViewerTranslations(
+            page.messages,
+            decoded.id,
+            getViewerLanguage(preferences, conversationId),
+            conversationId,
+            preferences.understoodLanguages
+        )
+
+        return NextResponse.json({
+            messages,
+            hasMoreBefore: page.hasMoreBefore,
+            hasMoreAfter: page.hasMoreAfter,
+            oldestCursor: page.oldestCursor,
+            newestCursor: page.newestCursor
+        })
+    } catch (error: unknown) {
+        console.error('Conversation messages API error:', error)
+        return NextResponse.json(
+            { error: 'Failed to fetch messages' },
+            { status: 500 }
+        )
+    }
+}
+
+// POST - Send a direct message; it is translated into each participant's primary language
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const token = request.cookies.get('auth-token')?.value
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        const decoded = verifyToken(token)
+        if (!decoded) {
+            return NextResponse.json(
+                { error: 'Invalid token' },
+                { status: 401 }
+            )
+        }
+
+        const { id: conversationId } = await params
+        const { content, attachment, language } = await request.json()
+
+        if (!content && !attachment) {
+            return NextResponse.json(
+                { error: 'Content (or attachment) is required' },
+                { status: 400 }
+            )
+        }
+
+        // The sender can pin the message's language instead of having it detected
+        if (language && (typeof language !== 'string' || !Object.hasOwn(SUPPORTED_LANGUAGES, language))) {
+            return NextResponse.json(
+                { error: 'Unsupported language' },
+                { status: 400 }
+            )
+        }
+
+        // Files are uploaded to /api/attachments first and referenced by ID
+        if (attachment && typeof attachment.id !== 'string') {
+            return NextResponse.json(
+                { error: 'Attachments must be uploaded before sending' },
+                { status: 400 }
+            )
+        }
+
+        const conversationService = getConversationService()
+        let message: Message
+        try {
+            await conversationService.requireParticipant(conversationId, decoded.id)
+            const storedAttachment = attachment
+                ? await getAttachmentService().resolveMessageAttachment(attachment.id, decoded.id, conversationId)
+                : undefined
+            message = await getMessageService().createConversationMessage(
+                conversationId,
+                content || '',
+                decoded.id,
+                storedAttachment,
+                language || undefined
+            )
+        } catch (error: unknown) {
+            if (error instanceof ChatError && error.statusCode < 500) {
+                return NextResponse.json({ error: error.message }, { status: error.statusCode })
+            }
+            throw error
+        }
+
+        await conversationService.recordMessage(conversationId, decoded.id, message.timestamp)
+
+        const db = await getDatabase()
+        const sender = await db.collection('users').findOne({ _id: new ObjectId(decoded.id) })
+        const messageWithSender = {
+            ...message,
+            senderName: sender?.username || 'Unknown User',
+            senderAvatar: sender?.avatar
+        }
+
+        const broadcaster = getRealTimeBroadcaster()
+        await broadcaster.broadcastMessage(conversationId, messageWithSender)
+
+        // Refresh the other participants' sidebars (ordering and unread counts)
+        const conversation = await conversationService.getConversationById(conversationId)
+        if (conversation) {
+            await Promise.all(conversation.participants
+                .filter(participantId => participantId !== decoded.id)
+                .map(participantId => broadcaster.broadcastToUser(participantId, { type: 'conversation', conversation })))
+        }
+
+        // Respond once the message is stored; translations follow over the realtime stream
+        void queueMessageTranslations(message)
+
+        return NextResponse.json({ message: messageWithSender })
+    } catch (error: unknown) {
+        console.error('Send conversation message API error:', error)
+        return NextResponse.json(
+            { error: 'Failed to send message' },
+            { status: 500 }
+        )
+    }
+}
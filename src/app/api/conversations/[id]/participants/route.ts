@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import { getConversationService, getRealTimeBroadcaster } from '@/services'
+import { ChatError } from '@/lib/errors'
+import { Conversation } from '@/types'
+
+// POST - Add users (usernames or IDs) to a group conversation
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const token = request.cookies.get('auth-token')?.value
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        const decoded = verifyToken(token)
+        if (!decoded) {
+            return NextResponse.json(
+                { error: 'Invalid token' },
+                { status: 401 }
+            )
+        }
+
+        const { id: conversationId } = await params
+        const { participants } = await request.json()
+
+        if (!Array.isArray(participants) || participants.length === 0) {
+            return NextResponse.json(
+                { error: 'At least one participant is required' },
+                { status: 400 }
+            )
+        }
+        if (!participants.every(participant => typeof participant === 'string')) {
+            return NextResponse.json(
+                { error: 'Participants must be usernames or user IDs' },
+                { status: 400 }
+            )
+        }
+
+        const conversationService = getConversationService()
+        const userIds = await conversationService.resolveUserIds(participants)
+        const conversation = await conversationService.addParticipants(conversationId, decoded.id, userIds)
+
+        await notifyParticipants(conversation, conversation.participants)
+
+        return NextResponse.json({ conversation })
+    } catch (error: unknown) {
+        if (error instanceof ChatError && error.statusCode < 500) {
+            return NextResponse.json({ error: error.message }, { status: error.statusCode })
+        }
+        console.error('Add participants API error:', error)
+        return NextResponse.json(
+            { error: 'Failed to add participants' },
+            { status: 500 }
+        )
+    }
+}
+
+// DELETE - Remove a participant (?userId=); omit userId to leave the group
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const token = request.cookies.get('auth-token')?.value
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        const decoded = verifyToken(token)
+        if (!decoded) {
+            return NextResponse.json(
+                { error: 'Invalid token' },
+                { status: 401 }
+            )
+        }
+
+        const { id: conversationId } = await params
+        const { searchParams } = new URL(request.url)
+        const userId = searchParams.get('userId') || decoded.id
+
+        const conversation = await getConversationService().removeParticipant(conversationId, decoded.id, userId)
+
+        // The removed user is told too, so the group drops out of their sidebar
+        await notifyParticipants(conversation, [...conversation.participants, userId])
+
+        return NextResponse.json({ conversation })
+    } catch (error: unknown) {
+        if (error instanceof ChatError && error.statusCode < 500) {
+            return NextResponse.json({ error: error.message }, { status: error.statusCode })
+        }
+        console.error('Remove participant API error:', error)
+        return NextResponse.json(
+            { error: 'Failed to remove participant' },
+            { status: 500 }
+        )
+    }
+}
+
+async function notifyParticipants(conversation: Conversation, userIds: string[]) {
+    const broadcaster = getRealTimeBroadcaster()
+    await Promise.all(userIds.map(userId =>
+        broadcaster.broadcastToUser(userId, { type: 'conversation', conversation })
+    ))
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import { getConversationService } from '@/services'
+import { ChatError } from '@/lib/errors'
+
+// POST - Mark a conversation as read by the current user
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const token = request.cookies.get('auth-token')?.value
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        const decoded = verifyToken(token)
+        if (!decoded) {
+            return NextResponse.json(
+                { error: 'Invalid token' },
+                { status: 401 }
+            )
+        }
+
+        const { id: conversationId } = await params
+        const conversationService = getConversationService()
+
+        try {
+            await conversationService.requireParticipant(conversationId, decoded.id)
+        } catch (error: unknown) {
+            if (error instanceof ChatError && error.statusCode < 500) {
+                return NextResponse.json({ error: error.message }, { status: error.statusCode })
+            }
+            throw error
+        }
+
+        await conversationService.markRead(conversationId, decoded.id)
+
+        return NextResponse.json({ success: true })
+    } catch (error: unknown) {
+        console.error('Mark conversation read API error:', error)
+        return NextResponse.json(
+            { error: 'Failed to mark conversation as read' },
+            { status: 500 }
+        )
+    }
+}
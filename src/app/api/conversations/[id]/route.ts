@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import { getConversationService, getRealTimeBroadcaster } from '@/services'
+import { ChatError } from '@/lib/errors'
+
+// PATCH - Rename a group conversation
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const token = request.cookies.get('auth-token')?.value
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        const decoded = verifyToken(token)
+        if (!decoded) {
+            return NextResponse.json(
+                { error: 'Invalid token' },
+                { status: 401 }
+            )
+        }
+
+        const { id: conversationId } = await params
+        const { name } = await request.json()
+
+        if (typeof name !== 'string') {
+            return NextResponse.json(
+                { error: 'Name is required' },
+                { status: 400 }
+            )
+        }
+
+        const conversation = await getConversationService().renameConversation(conversationId, decoded.id, name)
+
+        const broadcaster = getRealTimeBroadcaster()
+        await Promise.all(conversation.participants.map(participantId =>
+            broadcaster.broadcastToUser(participantId, { type: 'conversation', conversation })
+        ))
+
+        return NextResponse.json({ conversation })
+    } catch (error: unknown) {
+        if (error instanceof ChatError && error.statusCode < 500) {
+            return NextResponse.json({ error: error.message }, { status: error.statusCode })
+        }
+        console.error('Rename conversation API error:', error)
+        return NextResponse.json(
+            { error: 'Failed to rename conversation' },
+            { status: 500 }
+        )
+    }
+}
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { MongoConversationService } from '@/services/MongoConversationService'
 import { verifyToken } from '@/lib/auth'
-import { ValidationError } from '@/lib/errors'
+import { ChatError } from '@/lib/errors'
 import { getDatabase } from '@/lib/mongodb'
 import { ObjectId } from 'mongodb'
+import { getRealTimeBroadcaster, getConversationService } from '@/services'
 
 export async function GET(request: NextRequest) {
     try {
@@ -21,7 +22,7 @@ export async function GET(request: NextRequest) {
         console.error('Error fetching conversations:', error)
         return NextResponse.json(
             { error: error.message || 'Failed to fetch conversations' },
-            { status: error instanceof ValidationError ? 400 : 500 }
+            { status: error instanceof ChatError ? error.statusCode : 500 }
         )
     }
 }
@@ -35,7 +36,25 @@ export async function POST(request: NextRequest) {
         if (!user) return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
 
         const body = await request.json()
-        const { targetUserId, targetUsername } = body
+        const { targetUserId, targetUsername, participants, name } = body
+
+        // A participant list (usernames or IDs) creates a group conversation
+        if (Array.isArray(participants)) {
+            if (!participants.every(participant => typeof participant === 'string')) {
+                return NextResponse.json({ error: 'Participants must be usernames or user IDs' }, { status: 400 })
+            }
+
+            const conversationService = getConversationService()
+            const participantIds = await conversationService.resolveUserIds(participants)
+            const conversation = await conversationService.createGroupConversation(user.id, participantIds, name)
+
+            const broadcaster = getRealTimeBroadcaster()
+            await Promise.all(conversation.participants
+                .filter(participantId => participantId !== user.id)
+                .map(participantId => broadcaster.broadcastToUser(participantId, { type: 'conversation', conversation })))
+
+            return NextResponse.json({ conversation })
+        }
 
         let finalTargetId = targetUserId
 
@@ -63,12 +82,15 @@ export async function POST(request: NextRequest) {
         const conversationService = new MongoConversationService()
         const conversation = await conversationService.createConversation(user.id, finalTargetId)
 
+        // Let the other participant's sidebar pick up the conversation without polling
+        await getRealTimeBroadcaster().broadcastToUser(finalTargetId, { type: 'conversation', conversation })
+
         return NextResponse.json({ conversation })
     } catch (error: any) {
         console.error('Error creating conversation:', error)
         return NextResponse.json(
             { error: error.message || 'Failed to create conversation' },
-            { status: error instanceof ValidationError ? 400 : 500 }
+            { status: error instanceof ChatError ? error.statusCode : 500 }
         )
     }
 }
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import { getMessageService, getCommunityService, getTranslationCorrectionService } from '@/services'
+import { ChatError } from '@/lib/errors'
+
+// GET - Correction history of a message (?messageId=)
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = verifyToken(token)
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const messageId = searchParams.get('messageId')
+
+    if (!messageId) {
+      return NextResponse.json(
+        { error: 'Message ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const message = await getMessageService().getMessageById(messageId)
+    if (!message || message.conversationId) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      )
+    }
+
+    try {
+      await getCommunityService().requireChannelPermission(message.channelId, decoded.id, 'view_channels')
+    } catch (error: unknown) {
+      if (error instanceof ChatError && error.statusCode < 500) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode })
+      }
+      throw error
+    }
+
+    return NextResponse.json({
+      corrections: await getTranslationCorrectionService().getMessageCorrections(messageId)
+    })
+  } catch (error: unknown) {
+    console.error('Get corrections API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get corrections' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Flag a translation and propose a corrected version ({ messageId, language, translation, reason? });
+// the correction waits for a community moderator's review
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = verifyToken(token)
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      )
+    }
+
+    const { messageId, language, translation, reason } = await request.json()
+
+    if (!messageId || !language) {
+      return NextResponse.json(
+        { error: 'Message ID and language are required' },
+        { status: 400 }
+      )
+    }
+
+    const message = await getMessageService().getMessageById(messageId)
+    if (!message) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      )
+    }
+
+    try {
+      if (!message.conversationId) {
+        await getCommunityService().requireChannelPermission(message.channelId, decoded.id, 'view_channels')
+      }
+      const correction = await getTranslationCorrectionService().submitCorrection(
+        messageId,
+        language,
+        translation,
+        decoded.id,
+        reason
+      )
+      return NextResponse.json({ correction })
+    } catch (error: unknown) {
+      if (error instanceof ChatError && error.statusCode < 500) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode })
+      }
+      throw error
+    }
+  } catch (error: unknown) {
+    console.error('Submit correction API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to submit correction' },
+      { status: 500 }
+    )
+  }
+}
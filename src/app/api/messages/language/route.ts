@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import { getDatabase } from '@/lib/mongodb'
+import { ObjectId } from 'mongodb'
+import {
+  getMessageService,
+  getLanguageCorrectionService,
+  getRealTimeBroadcaster,
+  requeueMessageTranslations
+} from '@/services'
+import { Message } from '@/types'
+import { ChatError } from '@/lib/errors'
+import { SUPPORTED_LANGUAGES } from '@/lib/constants'
+
+// PATCH - Correct the language a message was detected as ({ messageId, language });
+// allowed for the sender and for moderators of the channel's community
+export async function PATCH(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = verifyToken(token)
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      )
+    }
+
+    const { messageId, language } = await request.json()
+
+    if (!messageId || !language) {
+      return NextResponse.json(
+        { error: 'Message ID and language are required' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof language !== 'string' || !Object.hasOwn(SUPPORTED_LANGUAGES, language)) {
+      return NextResponse.json(
+        { error: 'Unsupported language' },
+        { status: 400 }
+      )
+    }
+
+    const previous = await getMessageService().getMessageById(messageId)
+    if (!previous) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      )
+    }
+
+    let message: Message
+    try {
+      ({ message } = await getLanguageCorrectionService().correctLanguage(messageId, language, decoded.id))
+    } catch (error: unknown) {
+      if (error instanceof ChatError && error.statusCode < 500) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode })
+      }
+      throw error
+    }
+
+    const db = await getDatabase()
+    const sender = await db.collection('users').findOne({ _id: new ObjectId(message.senderId) })
+    const messageWithSender = {
+      ...message,
+      senderName: sender?.username || 'Unknown User',
+      senderAvatar: sender?.avatar
+    }
+
+    // Readers drop the translations made from the wrong language right away
+    await getRealTimeBroadcaster().broadcastMessageEdit(message.channelId, messageWithSender)
+
+    if (await requeueMessageTranslations(previous, message)) {
+      messageWithSender.status = 'translating'
+    }
+
+    return NextResponse.json({ message: messageWithSender })
+  } catch (error: unknown) {
+    console.error('Correct message language API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to correct message language' },
+      { status: 500 }
+    )
+  }
+}
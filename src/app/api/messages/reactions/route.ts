@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { verifyToken } from '@/lib/auth'
 import { getDatabase } from '@/lib/mongodb'
-import { ObjectId } from 'mongodb'
+import { ObjectId, Collection } from 'mongodb'
+import { getRealTimeBroadcaster } from '@/services'
 
 // POST - Add reaction to message
 export async function POST(request: NextRequest) {
@@ -69,6 +70,8 @@ export async function POST(request: NextRequest) {
                 } as any
             )
 
+            await broadcastReactions(messagesCollection, messageId)
+
             return NextResponse.json({
                 success: true,
                 action: 'removed',
@@ -103,6 +106,8 @@ export async function POST(request: NextRequest) {
                 } as any
             )
 
+            await broadcastReactions(messagesCollection, messageId)
+
             return NextResponse.json({
                 success: true,
                 action: 'replaced',
@@ -128,6 +133,8 @@ export async function POST(request: NextRequest) {
                 } as any
             )
 
+            await broadcastReactions(messagesCollection, messageId)
+
             return NextResponse.json({
                 success: true,
                 action: 'added',
@@ -187,6 +194,8 @@ export async function DELETE(request: NextRequest) {
             } as any
         )
 
+        await broadcastReactions(messagesCollection, messageId)
+
         return NextResponse.json({
             success: true,
             action: 'removed',
@@ -242,3 +251,19 @@ export async function GET(request: NextRequest) {
         )
     }
 }
+
+// Push the message's current reaction list to everyone viewing its channel
+async function broadcastReactions(messagesCollection: Collection, messageId: string) {
+    const updated = await messagesCollection.findOne(
+        { _id: new ObjectId(messageId) },
+        { projection: { channelId: 1, reactions: 1 } }
+    )
+
+    if (!updated) return
+
+    await getRealTimeBroadcaster().broadcastReactions(
+        updated.channelId.toString(),
+        messageId,
+        updated.reactions || []
+    )
+}
@@ -1,9 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { verifyToken } from '@/lib/auth'
-import { getMessageService, getTranslationEngine } from '@/services'
+import {
+  getMessageService,
+  getCommunityService,
+  getUserService,
+  getRealTimeBroadcaster,
+  getAttachmentService,
+  queueMessageTranslations,
+  requeueMessageTranslations,
+  queueViewerTranslations
+} from '@/services'
 import { getDatabase } from '@/lib/mongodb'
 import { ObjectId } from 'mongodb'
-import { Translation } from '@/types'
+import { Message, MessagePage, LanguagePreferences } from '@/types'
+import { ChatError } from '@/lib/errors'
+import { getViewerLanguage } from '@/lib/utils'
+import { SUPPORTED_LANGUAGES } from '@/lib/constants'
 
 // Import language detector for proper language detection
 import { LanguageDetectorImpl } from '@/services/LanguageDetector'
@@ -30,6 +42,8 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const channelId = searchParams.get('channelId')
     const limit = parseInt(searchParams.get('limit') || '50')
+    const before = searchParams.get('before') || undefined
+    const after = searchParams.get('after') || undefined
 
     if (!channelId) {
       return NextResponse.json(
@@ -38,91 +52,48 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    const messageService = getMessageService()
-    const messages = await messageService.getChannelMessagesForUser(channelId, decoded.id, limit)
+    if (before && after) {
+      return NextResponse.json(
+        { error: 'Use either before or after, not both' },
+        { status: 400 }
+      )
+    }
 
-    // Get user's language preference
-    const db = await getDatabase()
-    const user = await db.collection('users').findOne({ _id: new ObjectId(decoded.id) })
-    const userLanguage = user?.primaryLanguage || 'en'
-
-    // Add translations for messages that need them
-    const messagesWithTranslations = await Promise.all(
-      messages.map(async (message) => {
-        try {
-          // Skip translation if it's the user's own message
-          if (message.senderId === decoded.id) {
-            return message
-          }
-
-          // Check if translation already exists
-          const existingTranslation = message.translations?.find(t => t.targetLanguage === userLanguage)
-          if (existingTranslation) {
-            return message
-          }
-
-          // Get translation from database if it exists
-          const messageDoc = await db.collection('messages').findOne({ _id: new ObjectId(message.id) })
-          const dbTranslation = messageDoc?.translations?.find((t: Translation) => t.targetLanguage === userLanguage)
-
-          if (dbTranslation) {
-            return {
-              ...message,
-              translations: [{
-                messageId: message.id,
-                targetLanguage: userLanguage,
-                translatedContent: dbTranslation.translatedContent,
-                createdAt: dbTranslation.createdAt
-              }]
-            }
-          }
-
-          // Create translation if it doesn't exist
-          let translatedContent: string
-          try {
-            const translationEngine = getTranslationEngine()
-
-            translatedContent = await translationEngine.translateText(
-              message.content,
-              message.sourceLanguage,
-              userLanguage
-            )
-          } catch (translationError: unknown) {
-            console.warn('Translation API failed:', translationError)
-            return message // Return original message if translation fails
-          }
-
-          // Store translation in database
-          await db.collection('messages').updateOne(
-            { _id: new ObjectId(message.id) },
-            {
-              $push: {
-                translations: {
-                  targetLanguage: userLanguage,
-                  translatedContent,
-                  createdAt: new Date()
-                }
-              } as any
-            }
-          )
-
-          return {
-            ...message,
-            translations: [{
-              messageId: message.id,
-              targetLanguage: userLanguage,
-              translatedContent,
-              createdAt: new Date()
-            }]
-          }
-        } catch (error) {
-          console.error('Translation failed for message:', message.id, error)
-          return message
-        }
+    const messageService = getMessageService()
+    let page: MessagePage
+    let preferences: LanguagePreferences
+    try {
+      await getCommunityService().requireChannelPermission(channelId, decoded.id, 'view_channels')
+      // The channel's language override, if any, replaces the primary language
+      preferences = await getUserService().getLanguagePreferences(decoded.id)
+      page = await messageService.getChannelMessagePage(channelId, decoded.id, {
+        before,
+        after,
+        limit: isNaN(limit) ? undefined : limit,
+        viewerLanguage: getViewerLanguage(preferences, channelId)
       })
+    } catch (error: unknown) {
+      if (error instanceof ChatError && error.statusCode < 500) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode })
+      }
+      throw error
+    }
+    // Missing translations are queued for the background worker; the page is returned right away
+    const messagesWithTranslations = await queueViewerTranslations(
+      page.messages,
+      decoded.id,
+      getViewerLanguage(preferences, channelId),
+      channelId,
+      preferences.understoodLanguages
     )
 
-    return NextResponse.json({ messages: messagesWithTranslations })
+    return NextResponse.json({
+      messages: messagesWithTranslations,
+      hasMoreBefore: page.hasMoreBefore,
+      hasMoreAfter: page.hasMoreAfter,
+      oldestCursor: page.oldestCursor,
+      newestCursor: page.newestCursor
+    })
   } catch (error: unknown) {
     console.error('Messages API error:', error)
     return NextResponse.json(
@@ -151,7 +122,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { channelId, content, attachment } = await request.json()
+    const { channelId, content, attachment, parentMessageId, language } = await request.json()
 
     if (!channelId || (!content && !attachment)) {
       return NextResponse.json(
@@ -160,107 +131,154 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Validate attachment size if present (double check limit)
-    if (attachment && attachment.size > 2 * 1024 * 1024) { // 2MB hard limit
+    // The sender can pin the message's language instead of having it detected
+    if (language && (typeof language !== 'string' || !Object.hasOwn(SUPPORTED_LANGUAGES, language))) {
       return NextResponse.json(
-        { error: 'Attachment too large (max 2MB)' },
-        { status: 413 }
+        { error: 'Unsupported language' },
+        { status: 400 }
       )
     }
 
+    // Files are uploaded to /api/attachments first and referenced by ID
+    if (attachment && typeof attachment.id !== 'string') {
+      return NextResponse.json(
+        { error: 'Attachments must be uploaded before sending' },
+        { status: 400 }
+      )
+    }
+
+    const db = await getDatabase()
     const messageService = getMessageService()
-    const message = await messageService.createMessage(
-      channelId,
-      content || '',
-      decoded.id,
-      undefined,
-      attachment
+    let message: Message
+    try {
+      // Direct messages go through /api/conversations/[id]/messages
+      await getCommunityService().requireChannelPermission(channelId, decoded.id, 'send_messages')
+      const storedAttachment = attachment
+        ? await getAttachmentService().resolveMessageAttachment(attachment.id, decoded.id, channelId)
+        : undefined
+      message = await messageService.createMessage(
+        channelId,
+        content || '',
+        decoded.id,
+        language || undefined,
+        storedAttachment,
+        parentMessageId || undefined
+      )
+    } catch (error: unknown) {
+      if (error instanceof ChatError && error.statusCode < 500) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode })
+      }
+      throw error
+    }
+
+    const broadcaster = getRealTimeBroadcaster()
+
+    // Fetched user details to populate response
+    const sender = await db.collection('users').findOne({ _id: new ObjectId(decoded.id) })
+
+    // Message with populated sender details
+    const messageWithSender = {
+      ...message,
+      senderName: sender?.username || 'Unknown User',
+      senderAvatar: sender?.avatar
+    }
+
+    // Push the original right away; translations follow as they complete
+    await broadcaster.broadcastMessage(channelId, messageWithSender)
+
+    if (message.parentMessageId) {
+      const parent = await messageService.getMessageById(message.parentMessageId)
+      if (parent?.thread) {
+        await broadcaster.broadcastThreadUpdate(channelId, parent.id, parent.thread)
+      }
+    }
+
+    // The message is stored, so respond now; translations are queued in the background
+    // and their status and results are pushed as they complete
+    void queueMessageTranslations(message)
+
+    return NextResponse.json({ message: messageWithSender })
+  } catch (error: unknown) {
+    console.error('Create message API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create message' },
+      { status: 500 }
     )
+  }
+}
 
-    // Get all users in the channel to determine what languages to translate to
-    const db = await getDatabase()
-    const channel = await db.collection('channels').findOne({ _id: new ObjectId(channelId) })
-    if (!channel) {
-      return NextResponse.json({ message })
+// PATCH - Edit the content of one of the sender's own messages
+export async function PATCH(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = verifyToken(token)
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      )
+    }
+
+    const { messageId, content } = await request.json()
+
+    if (!messageId || typeof content !== 'string') {
+      return NextResponse.json(
+        { error: 'Message ID and content are required' },
+        { status: 400 }
+      )
     }
 
-    // Get community members
-    const community = await db.collection('communities').findOne({ _id: channel.communityId })
-    if (!community || !community.members) {
-      return NextResponse.json({ message })
+    const messageService = getMessageService()
+    const previous = await messageService.getMessageById(messageId)
+    if (!previous) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      )
     }
 
-    // Get unique languages from community members (excluding sender's language)
-    const memberLanguages = await db.collection('users')
-      .find({ _id: { $in: community.members } })
-      .toArray()
-
-    const targetLanguages = [...new Set(
-      memberLanguages
-        .map(user => user.primaryLanguage)
-        .filter(lang => lang && lang !== message.sourceLanguage)
-    )]
-
-    // Create translations for each target language
-    if (targetLanguages.length > 0) {
-      try {
-        const translationEngine = getTranslationEngine()
-        const translations = await Promise.all(
-          targetLanguages.map(async (targetLang) => {
-            try {
-              let translatedContent: string
-              try {
-                translatedContent = await translationEngine.translateText(
-                  message.content,
-                  message.sourceLanguage,
-                  targetLang
-                )
-              } catch (translationError: unknown) {
-                console.warn(`Translation API failed for ${targetLang}:`, translationError)
-                return null
-              }
-
-              return {
-                targetLanguage: targetLang,
-                translatedContent,
-                createdAt: new Date()
-              }
-            } catch (error: unknown) {
-              console.error(`Translation failed for ${targetLang}:`, error)
-              return null
-            }
-          })
-        )
-
-        // Filter out failed translations and store successful ones
-        const successfulTranslations = translations.filter(t => t !== null)
-        if (successfulTranslations.length > 0) {
-          await db.collection('messages').updateOne(
-            { _id: new ObjectId(message.id) },
-            { $set: { translations: successfulTranslations } }
-          )
-        }
-      } catch (error: unknown) {
-        console.error('Translation process failed:', error)
-        // Don't fail the message creation if translation fails
+    let message: Message
+    try {
+      message = await messageService.editMessage(messageId, decoded.id, content)
+    } catch (error: unknown) {
+      if (error instanceof ChatError && error.statusCode < 500) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode })
       }
+      throw error
     }
 
-    // Fetched user details to populate response
+    const db = await getDatabase()
     const sender = await db.collection('users').findOne({ _id: new ObjectId(decoded.id) })
-
-    // Return message with populated sender details
     const messageWithSender = {
       ...message,
       senderName: sender?.username || 'Unknown User',
       senderAvatar: sender?.avatar
     }
 
+    // Nothing changed, so there is nothing to re-translate
+    if (!message.editedAt || message.content === previous.content) {
+      return NextResponse.json({ message: messageWithSender })
+    }
+
+    await getRealTimeBroadcaster().broadcastMessageEdit(message.channelId, messageWithSender)
+
+    if (await requeueMessageTranslations(previous, message)) {
+      messageWithSender.status = 'translating'
+    }
+
     return NextResponse.json({ message: messageWithSender })
   } catch (error: unknown) {
-    console.error('Create message API error:', error)
+    console.error('Edit message API error:', error)
     return NextResponse.json(
-      { error: 'Failed to create message' },
+      { error: 'Failed to edit message' },
       { status: 500 }
     )
   }
@@ -295,12 +313,23 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
+    try {
+      await getCommunityService().requireChannelPermission(channelId, decoded.id, 'moderate_messages')
+    } catch (error: unknown) {
+      if (error instanceof ChatError && error.statusCode < 500) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode })
+      }
+      throw error
+    }
+
     // Delete all messages in the channel
     const db = await getDatabase()
     const result = await db.collection('messages').deleteMany({
       channelId: new ObjectId(channelId)
     })
 
+    await getRealTimeBroadcaster().broadcastChannelCleared(channelId)
+
     return NextResponse.json({
       success: true,
       deletedCount: result.deletedCount,
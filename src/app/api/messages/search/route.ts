@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import { getMessageService } from '@/services'
+import { ChatError } from '@/lib/errors'
+import { isValidLanguageCode } from '@/lib/utils'
+import { MessageSearchOptions } from '@/types'
+
+// GET - Search messages in every channel the user can access
+// (?q=&channelId=&senderId=&from=&to=&language=&hasAttachment=&limit=)
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = verifyToken(token)
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = searchParams.get('q')?.trim()
+
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Search query is required' },
+        { status: 400 }
+      )
+    }
+
+    const options: MessageSearchOptions = {
+      channelId: searchParams.get('channelId') || undefined,
+      senderId: searchParams.get('senderId') || undefined
+    }
+
+    for (const key of ['from', 'to'] as const) {
+      const value = searchParams.get(key)
+      if (!value) continue
+      const date = new Date(value)
+      if (isNaN(date.getTime())) {
+        return NextResponse.json(
+          { error: `Invalid ${key} date` },
+          { status: 400 }
+        )
+      }
+      options[key] = date
+    }
+
+    const language = searchParams.get('language')
+    if (language) {
+      if (!isValidLanguageCode(language)) {
+        return NextResponse.json(
+          { error: 'Invalid language code' },
+          { status: 400 }
+        )
+      }
+      options.language = language
+    }
+
+    const hasAttachment = searchParams.get('hasAttachment')
+    if (hasAttachment === 'true' || hasAttachment === 'false') {
+      options.hasAttachment = hasAttachment === 'true'
+    }
+
+    const limit = parseInt(searchParams.get('limit') || '')
+    if (!isNaN(limit)) {
+      options.limit = limit
+    }
+
+    try {
+      const results = await getMessageService().searchUserMessages(decoded.id, query, options)
+      return NextResponse.json({ results })
+    } catch (error: unknown) {
+      if (error instanceof ChatError && error.statusCode < 500) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode })
+      }
+      throw error
+    }
+  } catch (error: unknown) {
+    console.error('Search API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to search messages' },
+      { status: 500 }
+    )
+  }
+}
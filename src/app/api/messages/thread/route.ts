@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import { getMessageService, getCommunityService, getUserService, queueViewerTranslations } from '@/services'
+import { getDatabase } from '@/lib/mongodb'
+import { ObjectId } from 'mongodb'
+import { MessagePage, LanguagePreferences } from '@/types'
+import { ChatError } from '@/lib/errors'
+import { getViewerLanguage } from '@/lib/utils'
+
+// GET - Parent message and a page of its replies (?messageId=&before=&after=&limit=)
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = verifyToken(token)
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const messageId = searchParams.get('messageId')
+    const limit = parseInt(searchParams.get('limit') || '50')
+    const before = searchParams.get('before') || undefined
+    const after = searchParams.get('after') || undefined
+
+    if (!messageId) {
+      return NextResponse.json(
+        { error: 'Message ID is required' },
+        { status: 400 }
+      )
+    }
+
+    if (before && after) {
+      return NextResponse.json(
+        { error: 'Use either before or after, not both' },
+        { status: 400 }
+      )
+    }
+
+    const messageService = getMessageService()
+    const parent = await messageService.getMessageById(messageId)
+    if (!parent) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      )
+    }
+
+    if (parent.parentMessageId) {
+      return NextResponse.json(
+        { error: 'Message is a reply, open its parent thread instead' },
+        { status: 400 }
+      )
+    }
+
+    let page: MessagePage
+    let preferences: LanguagePreferences
+    try {
+      await getCommunityService().requireChannelPermission(parent.channelId, decoded.id, 'view_channels')
+      // Threads follow their channel's language override
+      preferences = await getUserService().getLanguagePreferences(decoded.id)
+      page = await messageService.getThreadMessagePage(messageId, decoded.id, {
+        before,
+        after,
+        limit: isNaN(limit) ? undefined : limit,
+        viewerLanguage: getViewerLanguage(preferences, parent.channelId)
+      })
+    } catch (error: unknown) {
+      if (error instanceof ChatError && error.statusCode < 500) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode })
+      }
+      throw error
+    }
+
+    const db = await getDatabase()
+    const parentSender = await db.collection('users').findOne({ _id: new ObjectId(parent.senderId) })
+
+    const parentWithSender = {
+      ...parent,
+      senderName: parentSender?.username || 'Unknown User',
+      senderAvatar: parentSender?.avatar
+    }
+
+    // Replies are translated per viewer exactly like top-level messages
+    const [translatedParent, ...replies] = await queueViewerTranslations(
+      [parentWithSender, ...page.messages],
+      decoded.id,
+      getViewerLanguage(preferences, parent.channelId),
+      parent.channelId,
+      preferences.understoodLanguages
+    )
+
+    return NextResponse.json({
+      parent: translatedParent,
+      replies,
+      hasMoreBefore: page.hasMoreBefore,
+      hasMoreAfter: page.hasMoreAfter,
+      oldestCursor: page.oldestCursor,
+      newestCursor: page.newestCursor
+    })
+  } catch (error: unknown) {
+    console.error('Thread API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch thread' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import {
+  getMessageService,
+  getCommunityService,
+  getConversationService,
+  getTranslationEngine,
+  getRealTimeBroadcaster
+} from '@/services'
+import { SUPPORTED_LANGUAGES } from '@/lib/constants'
+import { ChatError } from '@/lib/errors'
+
+// GET - A message in any supported language on demand (?messageId=&language=);
+// translations are stored on the message, so later requests and other viewers reuse them
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = verifyToken(token)
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const messageId = searchParams.get('messageId')
+    const language = searchParams.get('language')
+
+    if (!messageId || !language) {
+      return NextResponse.json(
+        { error: 'Message ID and language are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!Object.hasOwn(SUPPORTED_LANGUAGES, language)) {
+      return NextResponse.json(
+        { error: `Unsupported language: ${language}` },
+        { status: 400 }
+      )
+    }
+
+    const messageService = getMessageService()
+    const message = await messageService.getMessageById(messageId)
+    if (!message) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      )
+    }
+
+    let communityId: string | undefined
+    try {
+      if (message.conversationId) {
+        await getConversationService().requireParticipant(message.conversationId, decoded.id)
+      } else {
+        ({ communityId } = await getCommunityService().requireChannelPermission(message.channelId, decoded.id, 'view_channels'))
+      }
+    } catch (error: unknown) {
+      if (error instanceof ChatError && error.statusCode < 500) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode })
+      }
+      throw error
+    }
+
+    if (language === message.sourceLanguage) {
+      return NextResponse.json(
+        { error: 'Message is already in that language' },
+        { status: 400 }
+      )
+    }
+
+    const stored = message.translations?.find(t => t.targetLanguage === language)
+    if (stored) {
+      return NextResponse.json({ translation: stored })
+    }
+
+    const translation = await getTranslationEngine().translateMessageContent(message, language, communityId)
+    if (await messageService.addTranslation(message.id, translation, message.content)) {
+      await getRealTimeBroadcaster().broadcastTranslation(message.conversationId || message.channelId, translation)
+    }
+
+    return NextResponse.json({ translation })
+  } catch (error: unknown) {
+    console.error('Message translation API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to translate message' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyToken } from '@/lib/auth'
+import { getRealTimeBroadcaster, getConversationService, getCommunityService } from '@/services'
+import { ChatError } from '@/lib/errors'
+import { REALTIME_CONFIG } from '@/lib/constants'
+import { RealtimeEvent, Subscription } from '@/types'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET - Server-sent event stream for a channel (?channelId=), a conversation the user
+// takes part in (?conversationId=) or the current user
+export async function GET(request: NextRequest) {
+  const token = request.cookies.get('auth-token')?.value
+
+  if (!token) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  const decoded = verifyToken(token)
+  if (!decoded) {
+    return NextResponse.json(
+      { error: 'Invalid token' },
+      { status: 401 }
+    )
+  }
+
+  const { searchParams } = new URL(request.url)
+  const conversationId = searchParams.get('conversationId')
+  // Conversations share the channel event stream, keyed by conversation ID
+  const channelId = conversationId || searchParams.get('channelId')
+
+  // Conversation streams need the participant check; real channels need view_channels
+  const authorize = conversationId
+    ? () => getConversationService().requireParticipant(conversationId, decoded.id)
+    : channelId
+      ? () => getCommunityService().requireChannelPermission(channelId, decoded.id, 'view_channels')
+      : null
+
+  try {
+    await authorize?.()
+  } catch (error: unknown) {
+    const status = error instanceof ChatError && error.statusCode < 500 ? error.statusCode : 500
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to open stream' },
+      { status }
+    )
+  }
+
+  const broadcaster = getRealTimeBroadcaster()
+  const encoder = new TextEncoder()
+  let subscription: Subscription | null = null
+  let heartbeat: NodeJS.Timeout | null = null
+
+  const cleanup = () => {
+    if (heartbeat) {
+      clearInterval(heartbeat)
+      heartbeat = null
+    }
+    subscription?.unsubscribe()
+    subscription = null
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        } catch {
+          // Stream already closed by the client
+          cleanup()
+        }
+      }
+
+      const close = () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // Already closed
+        }
+      }
+
+      // Access is checked again before every event, so a user removed from the group or
+      // community, or whose role lost view_channels, stops receiving right away.
+      // Events go through one chain to keep their order
+      let delivery: Promise<void> = Promise.resolve()
+      const onEvent = (event: RealtimeEvent) => {
+        delivery = delivery.then(async () => {
+          if (!subscription) return
+          try {
+            await authorize?.()
+          } catch (error: unknown) {
+            if (error instanceof ChatError && error.statusCode < 500) {
+              send('revoked', { channelId, error: error.message })
+              close()
+            } else {
+              console.error('Realtime access check failed:', error)
+            }
+            return
+          }
+          send(event.type, event)
+        })
+      }
+
+      subscription = channelId
+        ? broadcaster.subscribeToChannelEvents(channelId, onEvent)
+        : broadcaster.subscribeToUser(decoded.id, onEvent)
+
+      // Tell EventSource how long to wait before its own reconnect attempt
+      controller.enqueue(encoder.encode(`retry: ${REALTIME_CONFIG.RECONNECT_DELAY}\n\n`))
+      send('ready', { channelId, connectedAt: new Date().toISOString() })
+
+      heartbeat = setInterval(() => {
+        send('heartbeat', { timestamp: Date.now() })
+      }, REALTIME_CONFIG.HEARTBEAT_INTERVAL)
+
+      request.signal.addEventListener('abort', close)
+    },
+    cancel() {
+      cleanup()
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  })
+}
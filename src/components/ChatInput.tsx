@@ -1,16 +1,20 @@
 'use client'
 
 import React, { useState, useRef, useEffect } from 'react'
-import { Send, Loader2, Paperclip, X, Mic } from 'lucide-react'
+import { Send, Loader2, Paperclip, X, Mic, Languages } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { ATTACHMENT_CONFIG, SUPPORTED_LANGUAGES } from '@/lib/constants'
+import { Message as MessageType, LanguageCode } from '@/types'
 import { VoiceMessageButton } from './VoiceMessage'
 
 interface ChatInputProps {
-  onSendMessage: (content: string, attachment?: any) => Promise<void>
+  onSendMessage: (content: string, attachment?: MessageType['attachment'], language?: LanguageCode) => Promise<void>
   placeholder?: string
   disabled?: boolean
   className?: string
   maxLength?: number
+  channelId?: string // Where attachments are uploaded to; without it or a
+  conversationId?: string // conversation ID, attaching files is disabled
 }
 
 export function ChatInput({
@@ -18,15 +22,22 @@ export function ChatInput({
   placeholder = "Type a message...",
   disabled = false,
   className,
-  maxLength = 4000
+  maxLength = 4000,
+  channelId,
+  conversationId
 }: ChatInputProps) {
   const [content, setContent] = useState('')
   const [isSending, setIsSending] = useState(false)
   const [attachment, setAttachment] = useState<{
     file: File,
-    preview: string,
-    type: 'image' | 'file'
+    preview: string, // Object URL of an image, shown until the message is sent
+    type: 'image' | 'file',
+    uploaded: MessageType['attachment'] | null
   } | null>(null)
+  const [uploadError, setUploadError] = useState<string | null>(null)
+  // Language the sender pinned for their messages; empty lets the server detect it
+  const [language, setLanguage] = useState<LanguageCode | ''>('')
+  const canAttach = !!(channelId || conversationId)
 
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
@@ -50,42 +61,60 @@ export function ChatInput({
     await sendMessage()
   }
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
+    // Reset input so same file can be selected again
+    e.target.value = ''
     if (!file) return
 
-    // 2MB limit
-    if (file.size > 2 * 1024 * 1024) {
-      alert('File too large (max 2MB)')
+    if (file.size > ATTACHMENT_CONFIG.MAX_FILE_SIZE) {
+      alert(`File too large (max ${ATTACHMENT_CONFIG.MAX_FILE_SIZE / (1024 * 1024)}MB)`)
       return
     }
 
     const type = file.type.startsWith('image/') ? 'image' : 'file'
-    const reader = new FileReader()
-
-    reader.onloadend = () => {
-      setAttachment({
-        file,
-        preview: reader.result as string,
-        type
-      })
-    }
+    clearAttachment()
+    setAttachment({
+      file,
+      preview: type === 'image' ? URL.createObjectURL(file) : '',
+      type,
+      uploaded: null
+    })
+    textareaRef.current?.focus()
 
-    if (type === 'image') {
-      reader.readAsDataURL(file)
-    } else {
-      // For non-images, we just need the file info, but we'll read as data URL 
-      // anyway to send to backend easily in this hackathon setup
-      reader.readAsDataURL(file)
+    // Upload right away so the message can be sent as soon as the user is done typing
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      if (conversationId) {
+        formData.append('conversationId', conversationId)
+      } else if (channelId) {
+        formData.append('channelId', channelId)
+      }
+
+      const response = await fetch('/api/attachments', { method: 'POST', body: formData })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to upload file')
+      }
+
+      setAttachment(prev => prev?.file === file ? { ...prev, uploaded: data.attachment } : prev)
+    } catch (error) {
+      console.error('Failed to upload attachment:', error)
+      setUploadError(error instanceof Error ? error.message : 'Failed to upload file')
     }
+  }
 
-    // Reset input so same file can be selected again
-    e.target.value = ''
-    textareaRef.current?.focus()
+  const clearAttachment = () => {
+    if (attachment?.preview) {
+      URL.revokeObjectURL(attachment.preview)
+    }
+    setAttachment(null)
+    setUploadError(null)
   }
 
   const removeAttachment = () => {
-    setAttachment(null)
+    clearAttachment()
   }
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -102,22 +131,19 @@ export function ChatInput({
       return
     }
 
+    // Wait for the upload to finish (or be removed after a failure)
+    if (attachment && !attachment.uploaded) {
+      return
+    }
+
     setIsSending(true)
 
     try {
-      const attachmentData = attachment ? {
-        type: attachment.type,
-        url: attachment.preview, // The base64 string
-        name: attachment.file.name,
-        mimeType: attachment.file.type,
-        size: attachment.file.size
-      } : undefined
-
-      await onSendMessage(trimmedContent, attachmentData)
+      await onSendMessage(trimmedContent, attachment?.uploaded || undefined, language || undefined)
 
       // Clear input and refocus after successful send
       setContent('')
-      setAttachment(null)
+      clearAttachment()
       textareaRef.current?.focus()
     } catch (error) {
       console.error('Failed to send message:', error)
@@ -127,8 +153,9 @@ export function ChatInput({
     }
   }
 
+  const isUploading = !!attachment && !attachment.uploaded && !uploadError
   const isContentValid = (content.trim().length > 0 || attachment !== null) && content.length <= maxLength
-  const canSend = isContentValid && !isSending && !disabled
+  const canSend = isContentValid && !isSending && !disabled && (!attachment || !!attachment.uploaded)
 
   return (
     <div className={cn("border-t bg-white p-4", className)}>
@@ -153,6 +180,11 @@ export function ChatInput({
                 </div>
               </div>
             )}
+            {isUploading && (
+              <div className="absolute inset-0 flex items-center justify-center rounded-lg bg-white/70">
+                <Loader2 className="w-4 h-4 animate-spin text-gray-500" />
+              </div>
+            )}
             <button
               onClick={removeAttachment}
               className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity shadow-sm hover:bg-red-600"
@@ -160,6 +192,9 @@ export function ChatInput({
               <X className="w-3 h-3" />
             </button>
           </div>
+          {uploadError && (
+            <p className="ml-3 text-xs text-red-500">{uploadError}</p>
+          )}
         </div>
       )}
 
@@ -172,15 +207,17 @@ export function ChatInput({
           onChange={handleFileSelect}
         />
 
-        <button
-          type="button"
-          onClick={() => fileInputRef.current?.click()}
-          className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors mb-1"
-          title="Attach file"
-          disabled={disabled || isSending}
-        >
-          <Paperclip className="w-5 h-5" />
-        </button>
+        {canAttach && (
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors mb-1"
+            title="Attach file"
+            disabled={disabled || isSending}
+          >
+            <Paperclip className="w-5 h-5" />
+          </button>
+        )}
 
         {/* Voice Message Button */}
         <VoiceMessageButton
@@ -237,7 +274,7 @@ export function ChatInput({
               ? "bg-blue-500 hover:bg-blue-600 text-white"
               : "bg-gray-100 text-gray-400 cursor-not-allowed"
           )}
-          title={canSend ? "Send message (Enter)" : "Enter a message to send"}
+          title={canSend ? "Send message (Enter)" : isUploading ? "Uploading attachment..." : "Enter a message to send"}
         >
           {isSending ? (
             <Loader2 className="w-4 h-4 animate-spin" />
@@ -248,7 +285,24 @@ export function ChatInput({
       </form>
 
       {/* Markdown Help */}
-      <div className="mt-2 text-xs text-gray-500">
+      <div className="mt-2 flex items-center text-xs text-gray-500">
+        <div
+          className="flex items-center gap-1 mr-3"
+          title="Language your messages are written in"
+        >
+          <Languages className="w-3 h-3" />
+          <select
+            value={language}
+            onChange={(e) => setLanguage(e.target.value)}
+            disabled={disabled || isSending}
+            className="bg-transparent text-xs text-gray-500 hover:text-gray-700 focus:outline-none cursor-pointer"
+          >
+            <option value="">Detect language</option>
+            {Object.entries(SUPPORTED_LANGUAGES).map(([code, name]) => (
+              <option key={code} value={code}>{name}</option>
+            ))}
+          </select>
+        </div>
         <span>
           Supports basic formatting: **bold**, *italic*, `code`, ```code blocks```
         </span>
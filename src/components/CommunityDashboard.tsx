@@ -1,7 +1,10 @@
 'use client'
 
 import React, { useState, useEffect } from 'react'
-import { Plus, Search, Users, X, Loader2, ArrowLeft } from 'lucide-react'
+import { Plus, Search, Users, X, Loader2, ArrowLeft, Settings, UserMinus, BookOpen, Pencil, Download, Upload, Check } from 'lucide-react'
+import { CommunityMember, CommunityRole, GlossaryTerm, GlossaryTermCategory, GlossaryCaseRule, GlossaryImportPreview, TranslationCorrection } from '@/types'
+import { COMMUNITY_ROLES, GLOSSARY_TERM_CATEGORIES, GLOSSARY_CASE_RULES } from '@/lib/constants'
+import { canAssignRole, hasPermission } from '@/lib/permissions'
 
 interface Community {
     id: string
@@ -9,26 +12,339 @@ interface Community {
     description?: string
     memberCount?: number
     isMember?: boolean
+    role?: CommunityRole
+}
+
+// Glossary term settings being edited; translations as "es: solicitud de extracción" lines
+interface TermDraft {
+    term: string
+    category: GlossaryTermCategory
+    preserveCase: boolean
+    caseRule: GlossaryCaseRule
+    translations: string
 }
 
 interface CommunityDashboardProps {
     onCommunityJoined: () => void
     onBack?: () => void
+    manageCommunityId?: string
 }
 
-export function CommunityDashboard({ onCommunityJoined, onBack }: CommunityDashboardProps) {
-    const [view, setView] = useState<'main' | 'create' | 'discover'>('main')
+export function CommunityDashboard({ onCommunityJoined, onBack, manageCommunityId }: CommunityDashboardProps) {
+    const [view, setView] = useState<'main' | 'create' | 'discover' | 'manage'>(manageCommunityId ? 'manage' : 'main')
     const [communityName, setCommunityName] = useState('')
     const [communities, setCommunities] = useState<Community[]>([])
     const [loading, setLoading] = useState(false)
     const [error, setError] = useState('')
+    const [myCommunities, setMyCommunities] = useState<Community[]>([])
+    const [managedId, setManagedId] = useState<string | null>(manageCommunityId || null)
+    const [manageTab, setManageTab] = useState<'members' | 'glossary' | 'reviews'>('members')
+    const [members, setMembers] = useState<CommunityMember[]>([])
+    const [glossaryTerms, setGlossaryTerms] = useState<GlossaryTerm[]>([])
+    const [newTerms, setNewTerms] = useState('')
+    const [glossaryQuery, setGlossaryQuery] = useState('')
+    const [glossaryResults, setGlossaryResults] = useState<string[] | null>(null)
+    const [termDraft, setTermDraft] = useState<TermDraft | null>(null)
+    const [pendingImport, setPendingImport] = useState<{ name: string; content: string; preview: GlossaryImportPreview } | null>(null)
+    const [corrections, setCorrections] = useState<TranslationCorrection[]>([])
 
     useEffect(() => {
         if (view === 'discover') {
             loadCommunities()
+        } else if (view === 'manage') {
+            loadMyCommunities()
         }
     }, [view])
 
+    useEffect(() => {
+        if (view !== 'manage' || !managedId) return
+
+        if (manageTab === 'members') {
+            loadMembers(managedId)
+        } else if (manageTab === 'reviews') {
+            loadCorrections(managedId)
+        } else {
+            setGlossaryQuery('')
+            setGlossaryResults(null)
+            setTermDraft(null)
+            setPendingImport(null)
+            loadGlossary(managedId)
+        }
+    }, [view, managedId, manageTab])
+
+    const loadMyCommunities = async () => {
+        setLoading(true)
+        setError('')
+        try {
+            const response = await fetch('/api/communities')
+            if (!response.ok) throw new Error('Failed to load communities')
+            const data = await response.json()
+            const list: Community[] = data.communities || []
+            setMyCommunities(list)
+            setManagedId(current => current && list.some(c => c.id === current) ? current : list[0]?.id || null)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load communities')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const loadMembers = async (communityId: string) => {
+        setError('')
+        try {
+            const response = await fetch(`/api/communities/${communityId}/members`)
+            const data = await response.json()
+            if (!response.ok) throw new Error(data.error || 'Failed to load members')
+            setMembers(data.members || [])
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load members')
+        }
+    }
+
+    const loadGlossary = async (communityId: string) => {
+        setError('')
+        try {
+            const response = await fetch(`/api/communities/${communityId}/glossary`)
+            const data = await response.json()
+            if (!response.ok) throw new Error(data.error || 'Failed to load glossary')
+            setGlossaryTerms(data.terms || [])
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load glossary')
+        }
+    }
+
+    const loadCorrections = async (communityId: string) => {
+        setError('')
+        try {
+            const response = await fetch(`/api/communities/${communityId}/corrections`)
+            const data = await response.json()
+            if (!response.ok) throw new Error(data.error || 'Failed to load corrections')
+            setCorrections(data.corrections || [])
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load corrections')
+        }
+    }
+
+    // Approved corrections replace the message's translation; either way the correction is kept as history
+    const handleReviewCorrection = async (correctionId: string, action: 'approve' | 'reject') => {
+        if (!managedId) return
+
+        setLoading(true)
+        setError('')
+        try {
+            const response = await fetch(`/api/communities/${managedId}/corrections`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ correctionId, action })
+            })
+            const data = await response.json()
+            if (!response.ok) throw new Error(data.error || 'Failed to review correction')
+            setCorrections(prev => prev.filter(c => c.id !== correctionId))
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to review correction')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const handleSearchGlossary = async () => {
+        if (!managedId) return
+        if (!glossaryQuery.trim()) {
+            setGlossaryResults(null)
+            return
+        }
+
+        setError('')
+        try {
+            const response = await fetch(`/api/communities/${managedId}/glossary?q=${encodeURIComponent(glossaryQuery.trim())}`)
+            const data = await response.json()
+            if (!response.ok) throw new Error(data.error || 'Failed to search glossary')
+            setGlossaryResults(data.results || [])
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to search glossary')
+        }
+    }
+
+    // One term per line or comma; several are sent as a bulk add
+    const handleAddTerms = async () => {
+        if (!managedId) return
+        const terms = newTerms.split(/[,\n]/).map(t => t.trim()).filter(Boolean)
+        if (terms.length === 0) return
+
+        setLoading(true)
+        setError('')
+        try {
+            const response = await fetch(`/api/communities/${managedId}/glossary`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(terms.length === 1 ? { term: terms[0] } : { terms })
+            })
+            const data = await response.json()
+            if (!response.ok) throw new Error(data.error || 'Failed to add terms')
+            setGlossaryTerms(data.terms || [])
+            setNewTerms('')
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to add terms')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const startEditingTerm = (term: GlossaryTerm) => {
+        setTermDraft({
+            term: term.term,
+            category: term.category,
+            preserveCase: term.preserveCase,
+            caseRule: term.caseRule || 'match_source',
+            translations: Object.entries(term.translations || {})
+                .map(([lang, value]) => `${lang}: ${value}`)
+                .join('\n')
+        })
+    }
+
+    const handleSaveTerm = async () => {
+        if (!managedId || !termDraft) return
+
+        const translations: Record<string, string> = {}
+        for (const line of termDraft.translations.split('\n')) {
+            const separator = line.indexOf(':')
+            if (separator === -1) continue
+            const lang = line.slice(0, separator).trim()
+            const value = line.slice(separator + 1).trim()
+            if (lang && value) translations[lang] = value
+        }
+
+        setLoading(true)
+        setError('')
+        try {
+            const response = await fetch(`/api/communities/${managedId}/glossary`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    term: termDraft.term,
+                    category: termDraft.category,
+                    preserveCase: termDraft.preserveCase,
+                    caseRule: termDraft.caseRule,
+                    translations
+                })
+            })
+            const data = await response.json()
+            if (!response.ok) throw new Error(data.error || 'Failed to update term')
+            setGlossaryTerms(data.terms || [])
+            setTermDraft(null)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update term')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    // Dry run first; the preview is shown before anything is written
+    const handleImportFile = async (file: File) => {
+        if (!managedId) return
+
+        setLoading(true)
+        setError('')
+        try {
+            const content = await file.text()
+            const response = await fetch(`/api/communities/${managedId}/glossary/import`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ content, dryRun: true })
+            })
+            const data = await response.json()
+            if (!response.ok) throw new Error(data.error || 'Failed to read glossary file')
+            setPendingImport({ name: file.name, content, preview: data.preview })
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to read glossary file')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const handleConfirmImport = async () => {
+        if (!managedId || !pendingImport) return
+
+        setLoading(true)
+        setError('')
+        try {
+            const response = await fetch(`/api/communities/${managedId}/glossary/import`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ content: pendingImport.content })
+            })
+            const data = await response.json()
+            if (!response.ok) throw new Error(data.error || 'Failed to import glossary')
+            setGlossaryTerms(data.terms || [])
+            setPendingImport(null)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to import glossary')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const handleRemoveTerm = async (term: string) => {
+        if (!managedId) return
+
+        setLoading(true)
+        setError('')
+        try {
+            const response = await fetch(`/api/communities/${managedId}/glossary?term=${encodeURIComponent(term)}`, {
+                method: 'DELETE'
+            })
+            const data = await response.json()
+            if (!response.ok) throw new Error(data.error || 'Failed to remove term')
+            setGlossaryTerms(data.terms || [])
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to remove term')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const handleChangeRole = async (userId: string, role: CommunityRole) => {
+        if (!managedId) return
+
+        setLoading(true)
+        setError('')
+        try {
+            const response = await fetch(`/api/communities/${managedId}/members`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ userId, role })
+            })
+            const data = await response.json()
+            if (!response.ok) throw new Error(data.error || 'Failed to change role')
+            setMembers(data.members || [])
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to change role')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const handleRemoveMember = async (userId: string) => {
+        if (!managedId) return
+
+        setLoading(true)
+        setError('')
+        try {
+            const response = await fetch(`/api/communities/${managedId}/members?userId=${userId}`, {
+                method: 'DELETE'
+            })
+            if (!response.ok) {
+                const data = await response.json()
+                throw new Error(data.error || 'Failed to remove member')
+            }
+            setMembers(current => current.filter(member => member.userId !== userId))
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to remove member')
+        } finally {
+            setLoading(false)
+        }
+    }
+
     const loadCommunities = async () => {
         setLoading(true)
         setError('')
@@ -126,6 +442,16 @@ export function CommunityDashboard({ onCommunityJoined, onBack }: CommunityDashb
                             <Search className="w-5 h-5" />
                             Discover Communities
                         </button>
+
+                        {onBack && (
+                            <button
+                                onClick={() => setView('manage')}
+                                className="flex items-center justify-center gap-2 px-6 py-3 bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 rounded-lg font-medium transition-colors shadow-md"
+                            >
+                                <Settings className="w-5 h-5" />
+                                Manage Communities
+                            </button>
+                        )}
                     </div>
                 </div>
             </div>
@@ -195,6 +521,421 @@ export function CommunityDashboard({ onCommunityJoined, onBack }: CommunityDashb
         )
     }
 
+    // Manage communities view
+    if (view === 'manage') {
+        const managed = myCommunities.find(c => c.id === managedId)
+        const myRole = managed?.role
+        const canManageRoles = hasPermission(myRole, 'manage_roles')
+        const canManageGlossary = hasPermission(myRole, 'manage_glossary')
+        const canReviewCorrections = hasPermission(myRole, 'moderate_messages')
+
+        return (
+            <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50 p-8">
+                <div className="max-w-4xl mx-auto">
+                    <div className="flex items-center justify-between mb-8">
+                        <div className="flex items-center gap-3">
+                            <button
+                                onClick={() => manageCommunityId && onBack ? onBack() : setView('main')}
+                                className="text-gray-500 hover:text-gray-700"
+                            >
+                                <ArrowLeft className="w-5 h-5" />
+                            </button>
+                            <h2 className="text-2xl font-bold text-gray-900">Manage Communities</h2>
+                        </div>
+                        {onBack && (
+                            <button
+                                onClick={onBack}
+                                className="text-gray-500 hover:text-gray-700 flex items-center gap-2"
+                            >
+                                <X className="w-5 h-5" />
+                            </button>
+                        )}
+                    </div>
+
+                    {error && (
+                        <div className="bg-red-50 border border-red-200 text-red-600 rounded-lg p-3 mb-4">
+                            {error}
+                        </div>
+                    )}
+
+                    <div className="flex gap-6">
+                        {/* Community list */}
+                        <div className="w-56 flex-shrink-0 space-y-1">
+                            {myCommunities.map(community => (
+                                <button
+                                    key={community.id}
+                                    onClick={() => setManagedId(community.id)}
+                                    className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${community.id === managedId
+                                        ? 'bg-blue-50 text-blue-700 border border-blue-200'
+                                        : 'text-gray-700 hover:bg-gray-100'
+                                        }`}
+                                >
+                                    <div className="font-medium truncate">{community.name}</div>
+                                    <div className="text-xs text-gray-500 capitalize">{community.role}</div>
+                                </button>
+                            ))}
+                        </div>
+
+                        {/* Settings for the selected community */}
+                        <div className="flex-1 bg-white rounded-xl border border-gray-200 shadow-sm">
+                            <div className="flex border-b border-gray-200">
+                                <button
+                                    onClick={() => setManageTab('members')}
+                                    className={`px-4 py-3 text-sm font-medium ${manageTab === 'members'
+                                        ? 'text-blue-600 border-b-2 border-blue-600'
+                                        : 'text-gray-500 hover:text-gray-700'
+                                        }`}
+                                >
+                                    Members
+                                </button>
+                                <button
+                                    onClick={() => setManageTab('glossary')}
+                                    className={`px-4 py-3 text-sm font-medium ${manageTab === 'glossary'
+                                        ? 'text-blue-600 border-b-2 border-blue-600'
+                                        : 'text-gray-500 hover:text-gray-700'
+                                        }`}
+                                >
+                                    Glossary
+                                </button>
+                                {canReviewCorrections && (
+                                    <button
+                                        onClick={() => setManageTab('reviews')}
+                                        className={`px-4 py-3 text-sm font-medium ${manageTab === 'reviews'
+                                            ? 'text-blue-600 border-b-2 border-blue-600'
+                                            : 'text-gray-500 hover:text-gray-700'
+                                            }`}
+                                    >
+                                        Translation reviews
+                                    </button>
+                                )}
+                            </div>
+
+                            {!managed ? (
+                                <div className="p-6 text-sm text-gray-500">
+                                    {loading ? <Loader2 className="w-6 h-6 text-blue-500 animate-spin" /> : 'Select a community'}
+                                </div>
+                            ) : manageTab === 'reviews' && canReviewCorrections ? (
+                                <div className="p-6">
+                                    <p className="text-sm text-gray-500 mb-4">
+                                        Corrections suggested by readers. Approving one replaces the translation
+                                        everywhere it is shown and in the translation memory.
+                                    </p>
+
+                                    {corrections.length === 0 ? (
+                                        <div className="text-sm text-gray-400">No corrections waiting for review</div>
+                                    ) : (
+                                        <div className="space-y-3">
+                                            {corrections.map(correction => (
+                                                <div key={correction.id} className="border border-gray-200 rounded-lg p-3 text-sm">
+                                                    <div className="flex items-center justify-between mb-2 text-xs text-gray-500">
+                                                        <span>
+                                                            {correction.submittedByName} · {correction.targetLanguage.toUpperCase()} · {new Date(correction.createdAt).toLocaleString()}
+                                                        </span>
+                                                        <div className="flex items-center gap-1">
+                                                            <button
+                                                                onClick={() => handleReviewCorrection(correction.id, 'approve')}
+                                                                disabled={loading}
+                                                                className="flex items-center gap-1 px-2 py-1 text-green-700 bg-green-50 hover:bg-green-100 rounded"
+                                                            >
+                                                                <Check className="w-3 h-3" />
+                                                                Approve
+                                                            </button>
+                                                            <button
+                                                                onClick={() => handleReviewCorrection(correction.id, 'reject')}
+                                                                disabled={loading}
+                                                                className="flex items-center gap-1 px-2 py-1 text-red-600 bg-red-50 hover:bg-red-100 rounded"
+                                                            >
+                                                                <X className="w-3 h-3" />
+                                                                Reject
+                                                            </button>
+                                                        </div>
+                                                    </div>
+                                                    <div className="text-gray-500 mb-1">{correction.sourceContent}</div>
+                                                    <div className="text-red-600 line-through mb-1">{correction.originalTranslation}</div>
+                                                    <div className="text-green-700">{correction.proposedTranslation}</div>
+                                                    {correction.reason && (
+                                                        <div className="mt-1 text-xs text-gray-500 italic">{correction.reason}</div>
+                                                    )}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            ) : manageTab === 'glossary' ? (
+                                <div className="p-6">
+                                    <p className="text-sm text-gray-500 mb-4">
+                                        Glossary terms are kept as written when messages are translated, or replaced
+                                        by their approved translation for a language when one is set.
+                                    </p>
+
+                                    {canManageGlossary && (
+                                        <div className="flex gap-2 mb-4">
+                                            <textarea
+                                                value={newTerms}
+                                                onChange={(e) => setNewTerms(e.target.value)}
+                                                placeholder="Add terms, one per line or comma separated"
+                                                rows={2}
+                                                className="flex-1 min-w-0 px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-lg focus:outline-none focus:ring-1 focus:ring-blue-500"
+                                            />
+                                            <button
+                                                onClick={handleAddTerms}
+                                                disabled={loading || !newTerms.trim()}
+                                                className="self-start flex items-center gap-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white text-sm rounded-lg transition-colors"
+                                            >
+                                                <Plus className="w-4 h-4" />
+                                                Add
+                                            </button>
+                                        </div>
+                                    )}
+
+                                    <div className="flex flex-wrap items-center gap-2 mb-4">
+                                        <a
+                                            href={`/api/communities/${managed.id}/glossary/export?format=csv`}
+                                            className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                                        >
+                                            <Download className="w-4 h-4" />
+                                            CSV
+                                        </a>
+                                        <a
+                                            href={`/api/communities/${managed.id}/glossary/export?format=tbx`}
+                                            className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                                        >
+                                            <Download className="w-4 h-4" />
+                                            TBX
+                                        </a>
+                                        {canManageGlossary && (
+                                            <label className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 cursor-pointer">
+                                                <Upload className="w-4 h-4" />
+                                                Import CSV or TBX
+                                                <input
+                                                    type="file"
+                                                    accept=".csv,.tbx,.xml,text/csv,application/xml"
+                                                    className="hidden"
+                                                    disabled={loading}
+                                                    onChange={(e) => {
+                                                        const file = e.target.files?.[0]
+                                                        if (file) handleImportFile(file)
+                                                        e.target.value = ''
+                                                    }}
+                                                />
+                                            </label>
+                                        )}
+                                    </div>
+
+                                    {pendingImport && (
+                                        <div className="mb-4 p-4 border border-blue-200 bg-blue-50 rounded-lg text-sm">
+                                            <div className="font-medium text-gray-900 mb-2">Preview of {pendingImport.name}</div>
+                                            <p className="text-gray-700">
+                                                {pendingImport.preview.added.length} new, {pendingImport.preview.duplicates.length} duplicate
+                                                {pendingImport.preview.invalid.length > 0 && `, ${pendingImport.preview.invalid.length} invalid`}
+                                            </p>
+                                            {pendingImport.preview.conflicts.length > 0 && (
+                                                <p className="mt-1 text-amber-700">
+                                                    Overrides built-in terms: {pendingImport.preview.conflicts.join(', ')}
+                                                </p>
+                                            )}
+                                            {pendingImport.preview.duplicates.length > 0 && (
+                                                <p className="mt-1 text-gray-500">
+                                                    Skipped (already present): {pendingImport.preview.duplicates.join(', ')}
+                                                </p>
+                                            )}
+                                            {pendingImport.preview.invalid.map((item, index) => (
+                                                <p key={index} className="mt-1 text-red-600">{item.term || '(empty)'}: {item.error}</p>
+                                            ))}
+                                            <div className="flex gap-2 mt-3">
+                                                <button
+                                                    onClick={handleConfirmImport}
+                                                    disabled={loading || pendingImport.preview.added.length === 0}
+                                                    className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded"
+                                                >
+                                                    Import {pendingImport.preview.added.length} terms
+                                                </button>
+                                                <button
+                                                    onClick={() => setPendingImport(null)}
+                                                    className="px-3 py-1 text-gray-600 hover:text-gray-800"
+                                                >
+                                                    Cancel
+                                                </button>
+                                            </div>
+                                        </div>
+                                    )}
+
+                                    <div className="relative mb-4">
+                                        <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                                        <input
+                                            type="text"
+                                            value={glossaryQuery}
+                                            onChange={(e) => {
+                                                setGlossaryQuery(e.target.value)
+                                                if (!e.target.value.trim()) setGlossaryResults(null)
+                                            }}
+                                            onKeyDown={(e) => {
+                                                if (e.key === 'Enter') handleSearchGlossary()
+                                            }}
+                                            placeholder="Search custom and built-in terms"
+                                            className="w-full pl-9 pr-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-lg focus:outline-none focus:ring-1 focus:ring-blue-500"
+                                        />
+                                    </div>
+
+                                    {glossaryResults ? (
+                                        <div className="flex flex-wrap gap-2">
+                                            {glossaryResults.length === 0 && (
+                                                <span className="text-sm text-gray-500">No matching terms</span>
+                                            )}
+                                            {glossaryResults.map(term => (
+                                                <span key={term} className="px-2 py-1 text-sm text-gray-700 bg-gray-100 rounded">{term}</span>
+                                            ))}
+                                        </div>
+                                    ) : glossaryTerms.length === 0 ? (
+                                        <div className="text-center py-8">
+                                            <BookOpen className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+                                            <p className="text-sm text-gray-500">No custom terms yet</p>
+                                        </div>
+                                    ) : (
+                                        <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+                                            {glossaryTerms.map(term => termDraft?.term === term.term ? (
+                                                <div key={term.id} className="px-4 py-3 space-y-2 bg-gray-50">
+                                                    <div className="text-sm font-medium text-gray-900">{term.term}</div>
+                                                    <div className="flex flex-wrap items-center gap-2">
+                                                        <select
+                                                            value={termDraft.category}
+                                                            onChange={(e) => setTermDraft({ ...termDraft, category: e.target.value as GlossaryTermCategory })}
+                                                            className="px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded"
+                                                            title="Category"
+                                                        >
+                                                            {GLOSSARY_TERM_CATEGORIES.map(category => (
+                                                                <option key={category} value={category}>{category.replace('_', ' ')}</option>
+                                                            ))}
+                                                        </select>
+                                                        <select
+                                                            value={termDraft.caseRule}
+                                                            onChange={(e) => setTermDraft({ ...termDraft, caseRule: e.target.value as GlossaryCaseRule })}
+                                                            className="px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded"
+                                                            title="Casing of the approved translation"
+                                                        >
+                                                            {GLOSSARY_CASE_RULES.map(rule => (
+                                                                <option key={rule} value={rule}>{rule.replace('_', ' ')}</option>
+                                                            ))}
+                                                        </select>
+                                                        <label className="flex items-center gap-1 text-sm text-gray-600">
+                                                            <input
+                                                                type="checkbox"
+                                                                checked={termDraft.preserveCase}
+                                                                onChange={(e) => setTermDraft({ ...termDraft, preserveCase: e.target.checked })}
+                                                            />
+                                                            Match case
+                                                        </label>
+                                                    </div>
+                                                    <textarea
+                                                        value={termDraft.translations}
+                                                        onChange={(e) => setTermDraft({ ...termDraft, translations: e.target.value })}
+                                                        placeholder={'Approved translations, one per line (es: solicitud de extracción)'}
+                                                        rows={3}
+                                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-lg focus:outline-none focus:ring-1 focus:ring-blue-500"
+                                                    />
+                                                    <div className="flex gap-2">
+                                                        <button
+                                                            onClick={handleSaveTerm}
+                                                            disabled={loading}
+                                                            className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white text-sm rounded"
+                                                        >
+                                                            Save
+                                                        </button>
+                                                        <button
+                                                            onClick={() => setTermDraft(null)}
+                                                            className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800"
+                                                        >
+                                                            Cancel
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            ) : (
+                                                <div key={term.id} className="flex items-center justify-between px-4 py-2">
+                                                    <div className="min-w-0">
+                                                        <span className="text-sm text-gray-900">{term.term}</span>
+                                                        <span className="ml-2 text-xs text-gray-400">{term.category.replace('_', ' ')}</span>
+                                                        {term.translations && Object.keys(term.translations).length > 0 && (
+                                                            <div className="text-xs text-gray-500 truncate">
+                                                                {Object.entries(term.translations).map(([lang, value]) => `${lang}: ${value}`).join(' · ')}
+                                                            </div>
+                                                        )}
+                                                    </div>
+                                                    {canManageGlossary && (
+                                                        <div className="flex items-center gap-1">
+                                                            <button
+                                                                onClick={() => startEditingTerm(term)}
+                                                                disabled={loading}
+                                                                className="p-1 text-gray-400 hover:text-blue-600"
+                                                                title="Edit term"
+                                                            >
+                                                                <Pencil className="w-4 h-4" />
+                                                            </button>
+                                                            <button
+                                                                onClick={() => handleRemoveTerm(term.term)}
+                                                                disabled={loading}
+                                                                className="p-1 text-gray-400 hover:text-red-600"
+                                                                title="Remove term"
+                                                            >
+                                                                <X className="w-4 h-4" />
+                                                            </button>
+                                                        </div>
+                                                    )}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            ) : (
+                                <div className="divide-y divide-gray-100">
+                                    {members.map(member => {
+                                        const assignable = COMMUNITY_ROLES.filter(role =>
+                                            role === member.role || canAssignRole(myRole || 'member', member.role, role))
+                                        const editable = canManageRoles && assignable.length > 1
+
+                                        return (
+                                            <div key={member.userId} className="flex items-center justify-between px-6 py-3">
+                                                <div className="min-w-0">
+                                                    <div className="text-sm font-medium text-gray-900 truncate">{member.username}</div>
+                                                    <div className="text-xs text-gray-400">{member.primaryLanguage?.toUpperCase()}</div>
+                                                </div>
+                                                <div className="flex items-center gap-2">
+                                                    {editable ? (
+                                                        <select
+                                                            value={member.role}
+                                                            onChange={(e) => handleChangeRole(member.userId, e.target.value as CommunityRole)}
+                                                            disabled={loading}
+                                                            className="px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded capitalize focus:outline-none focus:ring-1 focus:ring-blue-500"
+                                                        >
+                                                            {assignable.map(role => (
+                                                                <option key={role} value={role}>{role}</option>
+                                                            ))}
+                                                        </select>
+                                                    ) : (
+                                                        <span className="px-2 py-1 text-xs text-gray-600 bg-gray-100 rounded capitalize">{member.role}</span>
+                                                    )}
+                                                    {canManageRoles && canAssignRole(myRole || 'member', member.role) && (
+                                                        <button
+                                                            onClick={() => handleRemoveMember(member.userId)}
+                                                            disabled={loading}
+                                                            className="p-1 text-gray-400 hover:text-red-600"
+                                                            title="Remove from community"
+                                                        >
+                                                            <UserMinus className="w-4 h-4" />
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        )
+                                    })}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        )
+    }
+
     // Discover communities view
     return (
         <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50 p-8">
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react'
+import { X, UserPlus, UserMinus, LogOut, Loader2 } from 'lucide-react'
+import { Conversation } from '@/types'
+
+interface GroupConversationModalProps {
+    conversation: Conversation
+    isOpen: boolean
+    onClose: () => void
+    currentUserId: string
+    onUpdated: () => void
+    onLeft: (conversationId: string) => void
+}
+
+export function GroupConversationModal({ conversation, isOpen, onClose, currentUserId, onUpdated, onLeft }: GroupConversationModalProps) {
+    const [name, setName] = useState(conversation.name || '')
+    const [newParticipants, setNewParticipants] = useState('')
+    const [busy, setBusy] = useState(false)
+    const [error, setError] = useState('')
+
+    useEffect(() => {
+        setName(conversation.name || '')
+    }, [conversation.name])
+
+    if (!isOpen) return null
+
+    const isCreator = conversation.createdBy === currentUserId
+    const members = conversation.participantsData || []
+
+    // Run a group change, returning the updated conversation (null on error)
+    const runUpdate = async (request: () => Promise<Response>) => {
+        setBusy(true)
+        setError('')
+        try {
+            const res = await request()
+            const data = await res.json()
+            if (!res.ok) throw new Error(data.error || 'Failed to update group')
+            return data.conversation as Conversation
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update group')
+            return null
+        } finally {
+            setBusy(false)
+        }
+    }
+
+    const handleRename = async () => {
+        const updated = await runUpdate(() => fetch(`/api/conversations/${conversation.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name })
+        }))
+        if (updated) onUpdated()
+    }
+
+    const handleAdd = async () => {
+        const participants = newParticipants.split(',').map(p => p.trim()).filter(Boolean)
+        if (participants.length === 0) return
+
+        const updated = await runUpdate(() => fetch(`/api/conversations/${conversation.id}/participants`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ participants })
+        }))
+        if (updated) {
+            setNewParticipants('')
+            onUpdated()
+        }
+    }
+
+    const handleRemove = async (userId: string) => {
+        const updated = await runUpdate(() => fetch(`/api/conversations/${conversation.id}/participants?userId=${userId}`, {
+            method: 'DELETE'
+        }))
+        if (updated) onUpdated()
+    }
+
+    const handleLeave = async () => {
+        const updated = await runUpdate(() => fetch(`/api/conversations/${conversation.id}/participants`, {
+            method: 'DELETE'
+        }))
+        if (updated) onLeft(conversation.id)
+    }
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 p-6">
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold text-gray-900">Group settings</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {error && (
+                    <div className="mb-3 p-2 text-xs text-red-600 bg-red-50 border border-red-200 rounded">{error}</div>
+                )}
+
+                {/* Name */}
+                <label className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">Name</label>
+                <div className="flex gap-2 mb-4">
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="Group name"
+                        className="flex-1 min-w-0 px-2 py-1.5 text-sm text-gray-900 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                    <button
+                        onClick={handleRename}
+                        disabled={busy || name.trim() === (conversation.name || '')}
+                        className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white text-sm rounded transition-colors"
+                    >
+                        Save
+                    </button>
+                </div>
+
+                {/* Members */}
+                <label className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">
+                    Members ({conversation.participants.length})
+                </label>
+                <div className="space-y-1 mb-4 max-h-48 overflow-y-auto">
+                    <div className="px-2 py-1 text-sm text-gray-700">You</div>
+                    {members.map(member => (
+                        <div key={member.id} className="flex items-center justify-between px-2 py-1 text-sm text-gray-700 rounded hover:bg-gray-50">
+                            <span className="truncate">
+                                {member.username}
+                                <span className="ml-2 text-xs text-gray-400">{member.primaryLanguage?.toUpperCase()}</span>
+                            </span>
+                            {isCreator && (
+                                <button
+                                    onClick={() => handleRemove(member.id)}
+                                    disabled={busy}
+                                    className="p-1 text-gray-400 hover:text-red-600"
+                                    title="Remove from group"
+                                >
+                                    <UserMinus className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+
+                {/* Add members */}
+                <div className="flex gap-2 mb-4">
+                    <input
+                        type="text"
+                        value={newParticipants}
+                        onChange={(e) => setNewParticipants(e.target.value)}
+                        placeholder="Usernames, comma separated"
+                        className="flex-1 min-w-0 px-2 py-1.5 text-sm text-gray-900 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleAdd()
+                        }}
+                    />
+                    <button
+                        onClick={handleAdd}
+                        disabled={busy || !newParticipants.trim()}
+                        className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white text-sm rounded transition-colors"
+                    >
+                        {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+                        Add
+                    </button>
+                </div>
+
+                <button
+                    onClick={handleLeave}
+                    disabled={busy}
+                    className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-md transition-colors disabled:opacity-50"
+                >
+                    <LogOut className="w-4 h-4" />
+                    Leave group
+                </button>
+            </div>
+        </div>
+    )
+}
@@ -1,9 +1,12 @@
 'use client'
 
 import React, { useState, useEffect } from 'react'
-import { Globe, User, Clock, Loader2, Volume2 } from 'lucide-react'
-import { Message as MessageType } from '@/types'
-import { formatTimestamp, cn } from '@/lib/utils'
+import { Globe, User, Clock, Loader2, Volume2, Pencil, MessageSquare, AlertTriangle, Languages, Flag, CheckCircle, FileText } from 'lucide-react'
+import { Message as MessageType, Translation, AttachmentTextTranslation } from '@/types'
+import { formatTimestamp, cn, getViewerLanguage, understandsLanguage } from '@/lib/utils'
+import { getTextSource } from '@/lib/fileTypes'
+import { SUPPORTED_LANGUAGES, ROMANIZED_LANGUAGES } from '@/lib/constants'
+import { canTransliterate, getNativeScriptName, transliterate } from '@/lib/transliteration'
 import { useMongoAuth } from '@/contexts/MongoAuthContext'
 import { EmojiReactions, ReactionBadges } from './EmojiReactions'
 import { VoicePlayButton } from './VoiceMessage'
@@ -16,6 +19,10 @@ interface MessageProps {
   onViewProfile?: (userId: string) => void
   onEmojiReaction?: (emoji: string, messageId: string, event: React.MouseEvent) => void
   onReactionBadgeClick?: (emoji: string, messageId: string) => void
+  onEditMessage?: (messageId: string, content: string) => Promise<void>
+  onCorrectLanguage?: (messageId: string, language: string) => Promise<void>
+  canModerate?: boolean // Moderators can correct the language of other members' messages
+  onOpenThread?: (messageId: string) => void
 }
 
 interface MessageToggleState {
@@ -32,12 +39,40 @@ export function Message({
   className,
   onViewProfile,
   onEmojiReaction,
-  onReactionBadgeClick
+  onReactionBadgeClick,
+  onEditMessage,
+  onCorrectLanguage,
+  canModerate = false,
+  onOpenThread
 }: MessageProps) {
   const { user } = useMongoAuth()
   const [showOriginal, setShowOriginal] = useState(() => {
     return messageToggleStates[message.id] ?? false
   })
+  const [isEditing, setIsEditing] = useState(false)
+  const [editContent, setEditContent] = useState(message.content)
+  const [savingEdit, setSavingEdit] = useState(false)
+  const [editError, setEditError] = useState<string | null>(null)
+  // Language picked from "View in", and translations fetched for it on demand
+  const [viewLanguage, setViewLanguage] = useState<string | null>(null)
+  const [requestedTranslations, setRequestedTranslations] = useState<Translation[]>([])
+  const [loadingLanguage, setLoadingLanguage] = useState(false)
+  const [viewLanguageError, setViewLanguageError] = useState<string | null>(null)
+  // Proposed fix for the shown translation, sent to the community's moderators
+  const [correctionDraft, setCorrectionDraft] = useState<{ translation: string; reason: string } | null>(null)
+  const [submittingCorrection, setSubmittingCorrection] = useState(false)
+  const [correctionNotice, setCorrectionNotice] = useState<string | null>(null)
+  // Text of the attachment in the reader's language, fetched when they ask for it
+  const [attachmentTranslation, setAttachmentTranslation] = useState<AttachmentTextTranslation | null>(null)
+  const [loadingAttachmentText, setLoadingAttachmentText] = useState(false)
+  const [attachmentTextNotice, setAttachmentTextNotice] = useState<string | null>(null)
+  const [showAttachmentOriginal, setShowAttachmentOriginal] = useState(false)
+  // Picker for the language the message is really written in, when detection got it wrong
+  const [pickingLanguage, setPickingLanguage] = useState(false)
+  const [savingLanguage, setSavingLanguage] = useState(false)
+  const [languageError, setLanguageError] = useState<string | null>(null)
+
+  const [showNativeScript, setShowNativeScript] = useState(false)
 
   const isOwnMessage = currentUserId === message.senderId
   const hasTranslations = message.translations && message.translations.length > 0
@@ -45,18 +80,94 @@ export function Message({
   const isTranslated = message.status === 'translated'
   const hasFailed = message.status === 'failed'
 
-  // Get the appropriate translation for the current user
-  const userLanguage = user?.primaryLanguage || 'en'
-  const userTranslation = hasTranslations
-    ? message.translations?.find(t => t.targetLanguage === userLanguage)
-    : null
-
-  // Determine what content to show
-  const shouldShowTranslation = showTranslation && !showOriginal && userTranslation && !isOwnMessage
-  const displayContent = shouldShowTranslation ? userTranslation.translatedContent : message.content
+  // Get the appropriate translation for the current user: the channel's language override,
+  // else their primary language; messages in a language they understand stay as written
+  const channelKey = message.conversationId || message.channelId
+  const userLanguage = getViewerLanguage(user || {}, channelKey)
+  const understood = understandsLanguage(user || {}, message.sourceLanguage, channelKey)
+  const findTranslation = (language: string) =>
+    message.translations?.find(t => t.targetLanguage === language) ||
+    requestedTranslations.find(t => t.targetLanguage === language)
+  const userTranslation = viewLanguage
+    ? findTranslation(viewLanguage)
+    : (hasTranslations && !understood ? findTranslation(userLanguage) : null)
+
+  // Determine what content to show; a language picked on demand applies to own messages too
+  const shouldShowTranslation = showTranslation && !showOriginal && userTranslation && (!isOwnMessage || !!viewLanguage)
+  // Romanized text (Hinglish, Arabizi, romaji...) can be read in its language's own script
+  const isRomanized = !!message.isRomanized
+  const canShowNativeScript = isRomanized && canTransliterate(message.sourceLanguage) && !shouldShowTranslation
+  const displayContent = shouldShowTranslation
+    ? userTranslation.translatedContent
+    : canShowNativeScript && showNativeScript ? transliterate(message.content, message.sourceLanguage) : message.content
 
   // Show translation indicator if message has translations
-  const showTranslationControls = !isOwnMessage && (hasTranslations || message.sourceLanguage !== userLanguage)
+  const showTranslationControls = !!viewLanguage || (!isOwnMessage && !understood && (hasTranslations || message.sourceLanguage !== userLanguage))
+  const canViewInOtherLanguage = showTranslation && !!message.content.trim()
+
+  // Show the message in another language, fetching the translation when it is not loaded yet
+  const handleViewLanguage = async (language: string) => {
+    setViewLanguageError(null)
+    if (!language) {
+      setViewLanguage(null)
+      return
+    }
+
+    setShowOriginal(false)
+    messageToggleStates[message.id] = false
+    setViewLanguage(language)
+    if (findTranslation(language)) return
+
+    setLoadingLanguage(true)
+    try {
+      const params = new URLSearchParams({ messageId: message.id, language })
+      const response = await fetch(`/api/messages/translation?${params.toString()}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to translate message')
+      }
+      setRequestedTranslations(prev => [
+        ...prev.filter(t => t.targetLanguage !== language),
+        data.translation
+      ])
+    } catch (err) {
+      setViewLanguageError(err instanceof Error ? err.message : 'Failed to translate message')
+      setViewLanguage(null)
+    } finally {
+      setLoadingLanguage(false)
+    }
+  }
+
+  // Uploaded text, PDF and image attachments can have their text translated
+  const attachmentTextSource = message.attachment?.id ? getTextSource(message.attachment.mimeType) : null
+  const attachmentLanguage = viewLanguage || userLanguage
+  const canTranslateAttachment = showTranslation && !!attachmentTextSource &&
+    attachmentTranslation?.targetLanguage !== attachmentLanguage
+
+  const handleTranslateAttachment = async () => {
+    if (!message.attachment?.id) return
+
+    setLoadingAttachmentText(true)
+    setAttachmentTextNotice(null)
+    try {
+      const params = new URLSearchParams({ language: attachmentLanguage })
+      const response = await fetch(`/api/attachments/${message.attachment.id}/translation?${params.toString()}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to translate attachment')
+      }
+      if (!data.translation) {
+        setAttachmentTextNotice('No text found in this attachment')
+        return
+      }
+      setAttachmentTranslation(data.translation)
+      setShowAttachmentOriginal(false)
+    } catch (err) {
+      setAttachmentTextNotice(err instanceof Error ? err.message : 'Failed to translate attachment')
+    } finally {
+      setLoadingAttachmentText(false)
+    }
+  }
 
   // Handle toggle state changes
   const handleToggle = () => {
@@ -65,6 +176,104 @@ export function Message({
     messageToggleStates[message.id] = newState
   }
 
+  // Corrections are reviewed by community moderators, so direct messages have none
+  const canSuggestCorrection = !isOwnMessage && !message.conversationId
+
+  const handleSubmitCorrection = async () => {
+    if (!correctionDraft || !userTranslation) return
+
+    setSubmittingCorrection(true)
+    setCorrectionNotice(null)
+    try {
+      const response = await fetch('/api/messages/corrections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          messageId: message.id,
+          language: userTranslation.targetLanguage,
+          translation: correctionDraft.translation,
+          reason: correctionDraft.reason
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to submit correction')
+      }
+      setCorrectionDraft(null)
+      setCorrectionNotice('Correction sent for review')
+    } catch (err) {
+      setCorrectionNotice(err instanceof Error ? err.message : 'Failed to submit correction')
+    } finally {
+      setSubmittingCorrection(false)
+    }
+  }
+
+  const canEdit = isOwnMessage && !!onEditMessage
+  // Direct messages have no moderators, so only their sender can correct them
+  const canCorrectLanguage = !!onCorrectLanguage && !!message.content.trim() &&
+    (isOwnMessage || (canModerate && !message.conversationId))
+
+  const handleCorrectLanguage = async (language: string) => {
+    if (!language || language === message.sourceLanguage) {
+      setPickingLanguage(false)
+      return
+    }
+
+    setSavingLanguage(true)
+    setLanguageError(null)
+    try {
+      await onCorrectLanguage?.(message.id, language)
+      setPickingLanguage(false)
+      setViewLanguage(null)
+      setRequestedTranslations([])
+    } catch (err) {
+      setLanguageError(err instanceof Error ? err.message : 'Failed to change message language')
+    } finally {
+      setSavingLanguage(false)
+    }
+  }
+  // Replies cannot start threads of their own
+  const canOpenThread = !!onOpenThread && !message.parentMessageId
+  const replyCount = message.thread?.replyCount || 0
+
+  const startEditing = () => {
+    setEditContent(message.content)
+    setEditError(null)
+    setIsEditing(true)
+  }
+
+  const handleSaveEdit = async () => {
+    const trimmed = editContent.trim()
+    if (trimmed === message.content) {
+      setIsEditing(false)
+      return
+    }
+    if (!trimmed && !message.attachment) {
+      setEditError('Message cannot be empty')
+      return
+    }
+
+    setSavingEdit(true)
+    setEditError(null)
+    try {
+      await onEditMessage?.(message.id, trimmed)
+      setIsEditing(false)
+    } catch (err) {
+      setEditError(err instanceof Error ? err.message : 'Failed to edit message')
+    } finally {
+      setSavingEdit(false)
+    }
+  }
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      handleSaveEdit()
+    } else if (e.key === 'Escape') {
+      setIsEditing(false)
+    }
+  }
+
   useEffect(() => {
     return () => {
       if (showOriginal) {
@@ -111,11 +320,50 @@ export function Message({
             <Clock className="w-3 h-3" />
             {formatTimestamp(message.timestamp)}
           </span>
-          {message.sourceLanguage && (
-            <span className="text-xs text-gray-400 bg-gray-100 px-1.5 py-0.5 rounded">
-              {getLanguageDisplayName(message.sourceLanguage)}
+          {message.editedAt && (
+            <span
+              className="text-xs text-gray-400 italic"
+              title={`Edited ${new Date(message.editedAt).toLocaleString()}`}
+            >
+              (edited)
             </span>
           )}
+          {pickingLanguage ? (
+            <span className="flex items-center gap-1 text-xs">
+              <select
+                autoFocus
+                value={message.sourceLanguage}
+                onChange={(e) => handleCorrectLanguage(e.target.value)}
+                onBlur={() => !savingLanguage && setPickingLanguage(false)}
+                disabled={savingLanguage}
+                className="bg-gray-100 text-xs text-gray-600 px-1 py-0.5 rounded focus:outline-none cursor-pointer"
+                title="Language this message is written in"
+              >
+                {Object.entries(SUPPORTED_LANGUAGES).map(([code, name]) => (
+                  <option key={code} value={code}>{name}</option>
+                ))}
+              </select>
+              {savingLanguage && <Loader2 className="w-3 h-3 animate-spin text-gray-400" />}
+            </span>
+          ) : message.sourceLanguage && (
+            canCorrectLanguage ? (
+              <button
+                onClick={() => {
+                  setLanguageError(null)
+                  setPickingLanguage(true)
+                }}
+                className="text-xs text-gray-400 bg-gray-100 hover:bg-gray-200 hover:text-gray-600 px-1.5 py-0.5 rounded transition-colors"
+                title="Wrong language? Pick the one this message is written in"
+              >
+                {getLanguageDisplayName(message.sourceLanguage, isRomanized)}
+              </button>
+            ) : (
+              <span className="text-xs text-gray-400 bg-gray-100 px-1.5 py-0.5 rounded">
+                {getLanguageDisplayName(message.sourceLanguage, isRomanized)}
+              </span>
+            )
+          )}
+          {languageError && <span className="text-xs text-red-500">{languageError}</span>}
         </div>
 
         <div className="relative">
@@ -124,8 +372,9 @@ export function Message({
             <div className="mb-2">
               {message.attachment.type === 'image' ? (
                 <img
-                  src={message.attachment.url}
-                  alt="Attachment"
+                  src={message.attachment.thumbnailUrl || message.attachment.url}
+                  alt={message.attachment.name || 'Attachment'}
+                  loading="lazy"
                   className="max-w-full sm:max-w-sm rounded-lg border border-gray-200 cursor-pointer hover:opacity-95 transition-opacity"
                   onClick={() => window.open(message.attachment?.url, '_blank')}
                 />
@@ -153,14 +402,97 @@ export function Message({
                   </svg>
                 </a>
               )}
+
+              {/* Translated text of the attachment */}
+              {canTranslateAttachment && (
+                <button
+                  onClick={handleTranslateAttachment}
+                  disabled={loadingAttachmentText}
+                  className="mt-1 flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                >
+                  {loadingAttachmentText ? <Loader2 className="w-3 h-3 animate-spin" /> : <Languages className="w-3 h-3" />}
+                  {attachmentTextSource === 'ocr' ? 'Translate text in image' : 'Translate file text'}
+                </button>
+              )}
+              {attachmentTextNotice && (
+                <p className="mt-1 text-xs text-gray-500">{attachmentTextNotice}</p>
+              )}
+              {attachmentTranslation && (
+                <div className="mt-2 max-w-sm rounded-lg border border-blue-100 bg-blue-50 p-3">
+                  <div className="mb-1 flex items-center justify-between gap-2 text-xs text-blue-700">
+                    <span className="flex items-center gap-1">
+                      <FileText className="w-3 h-3" />
+                      {attachmentTranslation.sourceLanguage === attachmentTranslation.targetLanguage
+                        ? `Text in ${getLanguageDisplayName(attachmentTranslation.sourceLanguage)}`
+                        : `${getLanguageDisplayName(attachmentTranslation.sourceLanguage)} → ${getLanguageDisplayName(attachmentTranslation.targetLanguage)}`}
+                    </span>
+                    {attachmentTranslation.sourceLanguage !== attachmentTranslation.targetLanguage && (
+                      <button
+                        onClick={() => setShowAttachmentOriginal(prev => !prev)}
+                        className="underline hover:text-blue-800"
+                      >
+                        {showAttachmentOriginal ? 'Show translation' : 'Show original'}
+                      </button>
+                    )}
+                  </div>
+                  <p className="max-h-48 overflow-y-auto whitespace-pre-wrap break-words text-sm text-gray-800">
+                    {showAttachmentOriginal ? attachmentTranslation.originalText : attachmentTranslation.translatedText}
+                  </p>
+                  {attachmentTranslation.truncated && (
+                    <p className="mt-1 text-[10px] text-gray-500">Only the start of the file is shown</p>
+                  )}
+                </div>
+              )}
             </div>
           )}
 
-          <div className="text-sm text-gray-800 leading-relaxed">
-            <MessageContent content={displayContent} />
-          </div>
+          {isEditing ? (
+            <div className="space-y-2">
+              <textarea
+                value={editContent}
+                onChange={(e) => setEditContent(e.target.value)}
+                onKeyDown={handleEditKeyDown}
+                disabled={savingEdit}
+                autoFocus
+                rows={Math.min(6, Math.max(2, editContent.split('\n').length))}
+                className="w-full text-sm text-gray-800 border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+              />
+              <div className="flex items-center gap-2 text-xs">
+                <button
+                  onClick={handleSaveEdit}
+                  disabled={savingEdit}
+                  className="px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {savingEdit ? 'Saving...' : 'Save'}
+                </button>
+                <button
+                  onClick={() => setIsEditing(false)}
+                  disabled={savingEdit}
+                  className="px-2 py-1 rounded text-gray-600 hover:bg-gray-100"
+                >
+                  Cancel
+                </button>
+                <span className="text-gray-400">Enter to save · Esc to cancel</span>
+                {editError && <span className="text-red-500">{editError}</span>}
+              </div>
+            </div>
+          ) : (
+            <div className="text-sm text-gray-800 leading-relaxed">
+              <MessageContent content={displayContent} />
+              {canShowNativeScript && (
+                <button
+                  onClick={() => setShowNativeScript(!showNativeScript)}
+                  className="flex items-center gap-1 mt-1 px-1.5 py-0.5 rounded text-xs text-gray-500 hover:bg-gray-100 hover:text-gray-700 transition-colors"
+                  title="Spelled out by rule; some words may be approximate"
+                >
+                  <Languages className="w-3 h-3" />
+                  {showNativeScript ? 'Show as written' : `Show in ${getNativeScriptName(message.sourceLanguage)}`}
+                </button>
+              )}
+            </div>
+          )}
 
-          {isTranslating && (
+          {(isTranslating || loadingLanguage) && (
             <div className="flex items-center gap-2 mt-2 text-xs text-gray-500">
               <Loader2 className="w-3 h-3 animate-spin" />
               <span className="animate-pulse">✨ Translating...</span>
@@ -191,15 +523,45 @@ export function Message({
                   <span className="text-xs text-gray-400 bg-green-50 text-green-600 px-1.5 py-0.5 rounded">
                     Translated to {getLanguageDisplayName(userTranslation.targetLanguage)}
                   </span>
+                  {userTranslation.glossaryViolations && userTranslation.glossaryViolations.length > 0 && (
+                    <span
+                      className="flex items-center gap-1 text-xs bg-amber-50 text-amber-700 px-1.5 py-0.5 rounded"
+                      title={`Approved translation not used for: ${userTranslation.glossaryViolations.join(', ')}`}
+                    >
+                      <AlertTriangle className="w-3 h-3" />
+                      Glossary
+                    </span>
+                  )}
+                  {userTranslation.correctedAt && (
+                    <span
+                      className="flex items-center gap-1 text-xs bg-green-50 text-green-700 px-1.5 py-0.5 rounded"
+                      title={`Corrected ${new Date(userTranslation.correctedAt).toLocaleString()}`}
+                    >
+                      <CheckCircle className="w-3 h-3" />
+                      Corrected
+                    </span>
+                  )}
                   {/* Listen to translation */}
                   <VoicePlayButton
                     text={userTranslation.translatedContent}
                     language={userTranslation.targetLanguage}
                   />
+                  {canSuggestCorrection && !correctionDraft && (
+                    <button
+                      onClick={() => {
+                        setCorrectionNotice(null)
+                        setCorrectionDraft({ translation: userTranslation.translatedContent, reason: '' })
+                      }}
+                      className="p-1 rounded text-gray-400 hover:text-amber-600 hover:bg-amber-50"
+                      title="Flag this translation and suggest a correction"
+                    >
+                      <Flag className="w-3 h-3" />
+                    </button>
+                  )}
                 </div>
               )}
 
-              {hasTranslations && (
+              {hasTranslations && !viewLanguage && (
                 <span className="text-xs text-gray-400 bg-blue-50 text-blue-600 px-1.5 py-0.5 rounded">
                   Translation available
                 </span>
@@ -207,6 +569,68 @@ export function Message({
             </div>
           )}
 
+          {correctionDraft && shouldShowTranslation && (
+            <div className="mt-2 space-y-2 p-2 bg-amber-50/50 border border-amber-200 rounded-lg">
+              <textarea
+                value={correctionDraft.translation}
+                onChange={(e) => setCorrectionDraft({ ...correctionDraft, translation: e.target.value })}
+                disabled={submittingCorrection}
+                rows={Math.min(6, Math.max(2, correctionDraft.translation.split('\n').length))}
+                className="w-full text-sm text-gray-800 border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-amber-400 resize-none"
+              />
+              <input
+                type="text"
+                value={correctionDraft.reason}
+                onChange={(e) => setCorrectionDraft({ ...correctionDraft, reason: e.target.value })}
+                disabled={submittingCorrection}
+                placeholder="What was wrong? (optional)"
+                className="w-full text-xs text-gray-800 border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-amber-400"
+              />
+              <div className="flex items-center gap-2 text-xs">
+                <button
+                  onClick={handleSubmitCorrection}
+                  disabled={submittingCorrection || !correctionDraft.translation.trim()}
+                  className="px-2 py-1 rounded bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50"
+                >
+                  {submittingCorrection ? 'Sending...' : 'Suggest correction'}
+                </button>
+                <button
+                  onClick={() => setCorrectionDraft(null)}
+                  disabled={submittingCorrection}
+                  className="px-2 py-1 rounded text-gray-600 hover:bg-gray-100"
+                >
+                  Cancel
+                </button>
+                <span className="text-gray-400">Moderators review corrections before they replace the translation</span>
+              </div>
+            </div>
+          )}
+
+          {correctionNotice && (
+            <div className="mt-1 text-xs text-gray-500">{correctionNotice}</div>
+          )}
+
+          {canViewInOtherLanguage && !isEditing && (
+            <div className="flex items-center gap-1 mt-1 text-xs text-gray-400">
+              <Languages className="w-3 h-3" />
+              <select
+                value={viewLanguage || ''}
+                onChange={(e) => handleViewLanguage(e.target.value)}
+                disabled={loadingLanguage}
+                className="bg-transparent text-xs text-gray-500 hover:text-gray-700 focus:outline-none cursor-pointer"
+                title="View this message in another language"
+              >
+                <option value="">{viewLanguage ? 'Default language' : 'View in...'}</option>
+                {Object.entries(SUPPORTED_LANGUAGES)
+                  .filter(([code]) => code !== message.sourceLanguage)
+                  .map(([code, name]) => (
+                    <option key={code} value={code}>{name}</option>
+                  ))}
+              </select>
+              {viewLanguageError && <span className="text-red-500">{viewLanguageError}</span>}
+            </div>
+          )}
+
           {hasFailed && (
             <div className="flex items-center gap-2 mt-2 text-xs text-red-500">
               <span>⚠️ Translation failed</span>
@@ -219,16 +643,51 @@ export function Message({
             currentUserId={currentUserId}
             onReactionClick={(emoji) => onReactionBadgeClick?.(emoji, message.id)}
           />
+
+          {canOpenThread && replyCount > 0 && (
+            <button
+              onClick={() => onOpenThread?.(message.id)}
+              className="flex items-center gap-1 mt-1 text-xs font-medium text-blue-600 hover:underline"
+            >
+              <MessageSquare className="w-3 h-3" />
+              {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+              {message.thread?.lastReplyAt && (
+                <span className="font-normal text-gray-400">
+                  · last reply {formatTimestamp(new Date(message.thread.lastReplyAt))}
+                </span>
+              )}
+            </button>
+          )}
         </div>
       </div>
 
-      {/* Emoji Reactions - appears on hover at top-right */}
-      {onEmojiReaction && (
-        <div className="absolute top-1 right-2">
-          <EmojiReactions
-            messageId={message.id}
-            onEmojiSelect={onEmojiReaction}
-          />
+      {/* Emoji Reactions and edit action - appear on hover at top-right */}
+      {(onEmojiReaction || canEdit || canOpenThread) && !isEditing && (
+        <div className="absolute top-1 right-2 flex items-center gap-1">
+          {canOpenThread && (
+            <button
+              onClick={() => onOpenThread?.(message.id)}
+              className="opacity-0 group-hover:opacity-100 p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-100 transition-opacity"
+              title="Reply in thread"
+            >
+              <MessageSquare className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {canEdit && (
+            <button
+              onClick={startEditing}
+              className="opacity-0 group-hover:opacity-100 p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-100 transition-opacity"
+              title="Edit message"
+            >
+              <Pencil className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {onEmojiReaction && (
+            <EmojiReactions
+              messageId={message.id}
+              onEmojiSelect={onEmojiReaction}
+            />
+          )}
         </div>
       )}
     </div>
@@ -373,27 +832,9 @@ function getLanguageDisplayName(languageCode: string | undefined | null, isRoman
   const baseCode = isRomanizedCode ? languageCode.replace('-rom', '') : languageCode
   const shouldShowRomanized = isRomanized || isRomanizedCode
 
-  const languageNames: Record<string, string> = {
-    'en': 'English',
-    'es': 'Spanish',
-    'fr': 'French',
-    'de': 'German',
-    'it': 'Italian',
-    'pt': 'Portuguese',
-    'ru': 'Russian',
-    'ja': 'Japanese',
-    'ko': 'Korean',
-    'zh': 'Chinese',
-    'ar': 'Arabic',
-    'hi': 'Hindi',
-    'ta': 'Tamil',
-    'bn': 'Bengali',
-    'te': 'Telugu',
-    'mr': 'Marathi'
-  }
-
-  const baseName = languageNames[baseCode] || baseCode.toUpperCase()
-  return shouldShowRomanized ? `${baseName} (Romanized)` : baseName
+  const baseName = SUPPORTED_LANGUAGES[baseCode as keyof typeof SUPPORTED_LANGUAGES] || baseCode.toUpperCase()
+  const romanizedName = ROMANIZED_LANGUAGES[baseCode as keyof typeof ROMANIZED_LANGUAGES] || 'Romanized'
+  return shouldShowRomanized ? `${baseName} (${romanizedName})` : baseName
 }
 
 export function MessagePreview({
@@ -0,0 +1,191 @@
+'use client'
+
+import { useState } from 'react'
+import { Search, X, Loader2, Hash, Paperclip, Globe } from 'lucide-react'
+import { Channel as ChannelType, Community, MessageSearchResult } from '@/types'
+import { SUPPORTED_LANGUAGES } from '@/lib/constants'
+import { formatTimestamp } from '@/lib/utils'
+
+interface MessageSearchProps {
+  channels: ChannelType[]
+  communities: Community[]
+  onSelectResult: (result: MessageSearchResult) => void
+  onClose: () => void
+}
+
+export function MessageSearch({ channels, communities, onSelectResult, onClose }: MessageSearchProps) {
+  const [query, setQuery] = useState('')
+  const [channelId, setChannelId] = useState('')
+  const [language, setLanguage] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [hasAttachment, setHasAttachment] = useState(false)
+  const [results, setResults] = useState<MessageSearchResult[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [searched, setSearched] = useState(false)
+
+  const communityNames = new Map(communities.map(community => [community.id, community.name]))
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!query.trim()) return
+
+    const params = new URLSearchParams({ q: query.trim() })
+    if (channelId) params.set('channelId', channelId)
+    if (language) params.set('language', language)
+    // Date inputs are day-granular; include the whole "to" day
+    if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString())
+    if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString())
+    if (hasAttachment) params.set('hasAttachment', 'true')
+
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/messages/search?${params}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Search failed')
+      }
+
+      setResults(data.results || [])
+      setSearched(true)
+    } catch (err) {
+      console.error('Error searching messages:', err)
+      setError(err instanceof Error ? err.message : 'Search failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 pt-20">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 flex flex-col max-h-[80vh]">
+        <form onSubmit={handleSearch} className="p-4 border-b border-gray-200 space-y-3">
+          <div className="flex items-center gap-2">
+            <Search className="w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search messages in any language..."
+              className="flex-1 text-sm outline-none"
+              autoFocus
+            />
+            {loading && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+            <button
+              type="button"
+              onClick={onClose}
+              className="p-1 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-md"
+              title="Close search"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <select
+              value={channelId}
+              onChange={(e) => setChannelId(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded-md"
+            >
+              <option value="">All channels</option>
+              {channels.map(channel => (
+                <option key={channel.id} value={channel.id}>
+                  #{channel.name}
+                  {communityNames.get(channel.communityId) ? ` (${communityNames.get(channel.communityId)})` : ''}
+                </option>
+              ))}
+            </select>
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded-md"
+            >
+              <option value="">Any language</option>
+              {Object.entries(SUPPORTED_LANGUAGES).map(([code, name]) => (
+                <option key={code} value={code}>{name}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded-md"
+              title="From"
+            />
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded-md"
+              title="To"
+            />
+            <label className="flex items-center gap-1 text-gray-600">
+              <input
+                type="checkbox"
+                checked={hasAttachment}
+                onChange={(e) => setHasAttachment(e.target.checked)}
+              />
+              Has attachment
+            </label>
+            <button
+              type="submit"
+              disabled={loading || !query.trim()}
+              className="ml-auto px-3 py-1 text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:opacity-50"
+            >
+              Search
+            </button>
+          </div>
+        </form>
+
+        <div className="flex-1 overflow-y-auto">
+          {error && (
+            <div className="m-4 p-2 text-xs text-red-600 bg-red-50 border border-red-200 rounded">
+              {error}
+            </div>
+          )}
+
+          {searched && !error && results.length === 0 && (
+            <div className="p-8 text-center text-sm text-gray-500">No messages found</div>
+          )}
+
+          {results.map(result => (
+            <button
+              key={result.message.id}
+              onClick={() => onSelectResult(result)}
+              className="w-full text-left px-4 py-3 border-b border-gray-100 hover:bg-gray-50 transition-colors"
+            >
+              <div className="flex items-center gap-2 text-xs text-gray-500 mb-1">
+                <span className="font-medium text-gray-900">{result.message.senderName || 'Unknown User'}</span>
+                <span className="flex items-center">
+                  <Hash className="w-3 h-3" />
+                  {result.channelName}
+                </span>
+                <span>{formatTimestamp(new Date(result.message.timestamp))}</span>
+                {result.message.attachment && <Paperclip className="w-3 h-3" />}
+                {result.matchedLanguage !== result.message.sourceLanguage && (
+                  <span className="flex items-center gap-0.5 text-blue-600" title="Matched a translation">
+                    <Globe className="w-3 h-3" />
+                    {result.matchedLanguage.toUpperCase()}
+                  </span>
+                )}
+              </div>
+              <p className="text-sm text-gray-700">
+                {result.snippet.map((segment, index) => (
+                  segment.highlight ? (
+                    <mark key={index} className="bg-yellow-200 rounded px-0.5">{segment.text}</mark>
+                  ) : (
+                    <span key={index}>{segment.text}</span>
+                  )
+                ))}
+              </p>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
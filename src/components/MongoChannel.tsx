@@ -1,12 +1,16 @@
 'use client'
 
-import { useState, useEffect, useRef, useCallback } from 'react'
+import { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react'
 import { Message } from './Message'
 import { ChatInput } from './ChatInput'
-import { Message as MessageType, Channel as ChannelType } from '@/types'
+import { ThreadPanel } from './ThreadPanel'
+import { Message as MessageType, Channel as ChannelType, RealtimeEvent } from '@/types'
 import { cn } from '@/lib/utils'
-import { Hash, Users, Settings, Trash2 } from 'lucide-react'
+import { SUPPORTED_LANGUAGES } from '@/lib/constants'
+import { useMongoAuth } from '@/contexts/MongoAuthContext'
+import { Hash, Users, Settings, Trash2, WifiOff, Loader2, Languages } from 'lucide-react'
 import { useEmojiThrow } from '@/hooks/useEmojiThrow'
+import { useRealtimeStream } from '@/hooks/useRealtimeStream'
 
 interface ChannelProps {
   channel: ChannelType
@@ -14,16 +18,29 @@ interface ChannelProps {
   className?: string
   isDirectMessage?: boolean
   onViewProfile?: (userId: string) => void
+  onShowMembers?: () => void
+  canModerate?: boolean // Whether the viewer can correct other members' message languages
 }
 
-export function MongoChannel({ channel, currentUserId, className, onViewProfile }: ChannelProps) {
+export function MongoChannel({ channel, currentUserId, className, isDirectMessage = false, onViewProfile, onShowMembers, canModerate = false }: ChannelProps) {
   const [messages, setMessages] = useState<MessageType[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [showClearConfirm, setShowClearConfirm] = useState(false)
   const [clearing, setClearing] = useState(false)
+  const [hasMoreBefore, setHasMoreBefore] = useState(false)
+  const [loadingOlder, setLoadingOlder] = useState(false)
+  const [threadParentId, setThreadParentId] = useState<string | null>(null)
+  const { user, updateLanguagePreferences } = useMongoAuth()
+  const channelLanguage = user?.channelLanguages?.[channel.id] || ''
   const messagesEndRef = useRef<HTMLDivElement>(null)
-  const pollIntervalRef = useRef<NodeJS.Timeout | null>(null)
+  const scrollContainerRef = useRef<HTMLDivElement>(null)
+  const messagesRef = useRef<MessageType[]>([])
+  // Scroll metrics captured before older messages are prepended
+  const scrollAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null)
+  const isNearBottomRef = useRef(true)
+  // Direct messages use the same timeline, scoped to the conversation
+  const messagesUrl = isDirectMessage ? `/api/conversations/${channel.id}/messages` : '/api/messages'
 
   // Emoji throw animation hook
   const { throwEmojiFromPoint } = useEmojiThrow()
@@ -96,25 +113,218 @@ export function MongoChannel({ channel, currentUserId, className, onViewProfile
     addReaction(emoji, messageId, currentUserId, currentUserId)
   }, [addReaction, currentUserId])
 
-  useEffect(() => {
-    loadMessages()
+  // Save an edit of one of the current user's messages
+  const handleEditMessage = useCallback(async (messageId: string, content: string) => {
+    const response = await fetch('/api/messages', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ messageId, content })
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to edit message')
+    }
 
-    // Start polling for new messages every 2 seconds
-    pollIntervalRef.current = setInterval(() => {
-      loadMessages(false) // Don't show loading state for polling
-    }, 2000)
+    const edited = { ...data.message, timestamp: new Date(data.message.timestamp) }
+    setMessages(prev => prev.map(msg =>
+      msg.id === edited.id ? { ...msg, ...edited } : msg
+    ))
+  }, [])
+
+  // Mark a message as written in another language; its translations are redone
+  const handleCorrectLanguage = useCallback(async (messageId: string, language: string) => {
+    const response = await fetch('/api/messages/language', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ messageId, language })
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to change message language')
+    }
 
-    return () => {
-      if (pollIntervalRef.current) {
-        clearInterval(pollIntervalRef.current)
+    const corrected = { ...data.message, timestamp: new Date(data.message.timestamp) }
+    setMessages(prev => prev.map(msg =>
+      msg.id === corrected.id ? { ...msg, ...corrected } : msg
+    ))
+  }, [])
+
+  const closeThread = useCallback(() => setThreadParentId(null), [])
+
+  // Apply pushed events from the server to the local message list
+  const handleRealtimeEvent = useCallback((event: RealtimeEvent) => {
+    switch (event.type) {
+      case 'message': {
+        // Replies live in their thread panel, not the channel timeline
+        if (event.message.parentMessageId) break
+        const incoming = { ...event.message, timestamp: new Date(event.message.timestamp) }
+        setMessages(prev => {
+          if (prev.some(msg => msg.id === incoming.id)) return prev
+          return [...prev, incoming].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+        })
+        break
+      }
+      case 'edit': {
+        const edited = { ...event.message, timestamp: new Date(event.message.timestamp) }
+        setMessages(prev => prev.map(msg =>
+          msg.id === edited.id ? { ...msg, ...edited } : msg
+        ))
+        break
       }
+      case 'thread':
+        setMessages(prev => prev.map(msg =>
+          msg.id === event.messageId ? { ...msg, thread: event.thread } : msg
+        ))
+        break
+      case 'translation':
+        setMessages(prev => prev.map(msg => {
+          if (msg.id !== event.messageId) return msg
+          const others = (msg.translations || []).filter(t => t.targetLanguage !== event.translation.targetLanguage)
+          return { ...msg, translations: [...others, event.translation] }
+        }))
+        break
+      case 'reaction':
+        setMessages(prev => prev.map(msg =>
+          msg.id === event.messageId ? { ...msg, reactions: event.reactions } : msg
+        ))
+        break
+      case 'status':
+        setMessages(prev => prev.map(msg =>
+          msg.id === event.messageId ? { ...msg, status: event.status } : msg
+        ))
+        break
+      case 'deletion':
+        setMessages(prev => prev.filter(msg => !event.messageIds.includes(msg.id)))
+        break
+      case 'cleared':
+        setMessages([])
+        setThreadParentId(null)
+        break
+    }
+  }, [])
+
+  const { status: realtimeStatus, reconnect } = useRealtimeStream(
+    isDirectMessage ? `/api/realtime?conversationId=${channel.id}` : `/api/realtime?channelId=${channel.id}`,
+    {
+      onEvent: handleRealtimeEvent,
+      // Catch up on anything sent while the stream was down
+      onReconnect: () => syncNewerMessages()
     }
+  )
+
+  useEffect(() => {
+    isNearBottomRef.current = true
+    setThreadParentId(null)
+    loadMessages()
   }, [channel.id])
 
   useEffect(() => {
-    scrollToBottom()
+    messagesRef.current = messages
+  }, [messages])
+
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current
+    const anchor = scrollAnchorRef.current
+
+    if (container && anchor) {
+      // Keep the previously visible message in place after older ones are prepended
+      container.scrollTop = container.scrollHeight - anchor.scrollHeight + anchor.scrollTop
+      scrollAnchorRef.current = null
+      return
+    }
+
+    if (isNearBottomRef.current) {
+      scrollToBottom()
+    }
   }, [messages])
 
+  const fetchMessagePage = async (cursor?: { before?: string; after?: string }) => {
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE) })
+    if (!isDirectMessage) params.set('channelId', channel.id)
+    if (cursor?.before) params.set('before', cursor.before)
+    if (cursor?.after) params.set('after', cursor.after)
+
+    const response = await fetch(`${messagesUrl}?${params.toString()}`)
+    if (!response.ok) {
+      throw new Error('Failed to load messages')
+    }
+
+    const data = await response.json()
+    return {
+      messages: (data.messages || []).map((msg: any) => ({
+        ...msg,
+        timestamp: new Date(msg.timestamp) // Convert string to Date object
+      })) as MessageType[],
+      hasMoreBefore: !!data.hasMoreBefore,
+      hasMoreAfter: !!data.hasMoreAfter
+    }
+  }
+
+  // Fetch the page of history just before the oldest loaded message
+  const loadOlderMessages = async () => {
+    const oldest = messagesRef.current[0]
+    if (!oldest || !hasMoreBefore || loadingOlder) return
+
+    setLoadingOlder(true)
+    try {
+      const page = await fetchMessagePage({ before: oldest.id })
+      const container = scrollContainerRef.current
+      if (container) {
+        scrollAnchorRef.current = { scrollHeight: container.scrollHeight, scrollTop: container.scrollTop }
+      }
+      setMessages(prev => mergeMessages(prev, page.messages))
+      setHasMoreBefore(page.hasMoreBefore)
+    } catch (err) {
+      console.error('Error loading older messages:', err)
+    } finally {
+      setLoadingOlder(false)
+    }
+  }
+
+  // Fetch anything newer than the latest loaded message (e.g. after a reconnect)
+  const syncNewerMessages = async () => {
+    const newest = messagesRef.current[messagesRef.current.length - 1]
+    if (!newest) {
+      loadMessages(false)
+      return
+    }
+
+    try {
+      const page = await fetchMessagePage({ after: newest.id })
+      if (page.hasMoreAfter) {
+        // Too far behind to stitch pages together; jump back to the latest window
+        loadMessages(false)
+        return
+      }
+      setMessages(prev => mergeMessages(prev, page.messages))
+    } catch (err) {
+      console.error('Error syncing messages:', err)
+    }
+  }
+
+  const handleScroll = () => {
+    const container = scrollContainerRef.current
+    if (!container) return
+
+    isNearBottomRef.current = container.scrollHeight - container.scrollTop - container.clientHeight < 120
+
+    if (container.scrollTop < 80) {
+      loadOlderMessages()
+    }
+  }
+
+  // Override the language this channel is translated into; reload so the page carries it
+  const handleChannelLanguageChange = async (language: string) => {
+    try {
+      await updateLanguagePreferences({ channelId: channel.id, language: language || null })
+      await loadMessages(false)
+    } catch (err) {
+      console.error('Error updating channel language:', err)
+    }
+  }
+
   const loadMessages = async (showLoading = true) => {
     try {
       if (showLoading) {
@@ -122,16 +332,9 @@ export function MongoChannel({ channel, currentUserId, className, onViewProfile
       }
       setError(null)
 
-      const response = await fetch(`/api/messages?channelId=${channel.id}&limit=50`)
-      if (!response.ok) {
-        throw new Error('Failed to load messages')
-      }
-
-      const data = await response.json()
-      const newMessages = (data.messages || []).map((msg: any) => ({
-        ...msg,
-        timestamp: new Date(msg.timestamp) // Convert string to Date object
-      }))
+      const page = await fetchMessagePage()
+      const newMessages = page.messages
+      setHasMoreBefore(page.hasMoreBefore)
 
       // Proper message deduplication by comparing message IDs and content
       setMessages(prevMessages => {
@@ -171,9 +374,9 @@ export function MongoChannel({ channel, currentUserId, className, onViewProfile
     }
   }
 
-  const handleSendMessage = async (content: string, attachment?: any) => {
+  const handleSendMessage = async (content: string, attachment?: MessageType['attachment'], language?: string) => {
     try {
-      const response = await fetch('/api/messages', {
+      const response = await fetch(messagesUrl, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -181,7 +384,8 @@ export function MongoChannel({ channel, currentUserId, className, onViewProfile
         body: JSON.stringify({
           channelId: channel.id,
           content,
-          attachment
+          attachment,
+          language
         }),
       })
 
@@ -196,6 +400,7 @@ export function MongoChannel({ channel, currentUserId, className, onViewProfile
       }
 
       // Add the new message to the list immediately for instant feedback
+      isNearBottomRef.current = true
       setMessages(prev => {
         // Check if message already exists to avoid duplicates
         const messageExists = prev.some(msg => msg.id === newMessage.id)
@@ -205,10 +410,6 @@ export function MongoChannel({ channel, currentUserId, className, onViewProfile
         return [...prev, newMessage]
       })
 
-      // Also trigger a refresh to get any translations that might have been added
-      setTimeout(() => {
-        loadMessages(false)
-      }, 1000)
     } catch (err: any) {
       console.error('Error sending message:', err)
       setError(err.message || 'Failed to send message')
@@ -234,11 +435,6 @@ export function MongoChannel({ channel, currentUserId, className, onViewProfile
       // Clear messages from UI immediately
       setMessages([])
       setShowClearConfirm(false)
-
-      // Refresh to confirm
-      setTimeout(() => {
-        loadMessages(false)
-      }, 500)
     } catch (err: any) {
       console.error('Error clearing chat:', err)
       setError(err.message || 'Failed to clear chat')
@@ -260,7 +456,7 @@ export function MongoChannel({ channel, currentUserId, className, onViewProfile
   }
 
   return (
-    <div className={cn('flex flex-col h-full', className)}>
+    <div className={cn('relative flex flex-col h-full', className)}>
       {/* Channel Header */}
       <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-white">
         <div className="flex items-center space-x-2">
@@ -269,27 +465,75 @@ export function MongoChannel({ channel, currentUserId, className, onViewProfile
           {channel.description && (
             <span className="text-sm text-gray-500">• {channel.description}</span>
           )}
+          {realtimeStatus === 'reconnecting' && (
+            <span className="text-xs text-amber-600 bg-amber-50 px-2 py-0.5 rounded">Reconnecting...</span>
+          )}
+          {realtimeStatus === 'disconnected' && (
+            <button
+              onClick={reconnect}
+              className="flex items-center gap-1 text-xs text-red-600 bg-red-50 hover:bg-red-100 px-2 py-0.5 rounded transition-colors"
+              title="Live updates stopped. Click to reconnect."
+            >
+              <WifiOff className="w-3 h-3" />
+              Offline - retry
+            </button>
+          )}
         </div>
         <div className="flex items-center space-x-2">
-          <button className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-md">
+          <div
+            className="flex items-center gap-1 text-xs text-gray-500"
+            title="Language messages in this channel are translated into"
+          >
+            <Languages className="w-4 h-4" />
+            <select
+              value={channelLanguage}
+              onChange={(e) => handleChannelLanguageChange(e.target.value)}
+              className="bg-transparent text-xs text-gray-600 focus:outline-none cursor-pointer"
+            >
+              <option value="">
+                {SUPPORTED_LANGUAGES[(user?.primaryLanguage || 'en') as keyof typeof SUPPORTED_LANGUAGES] || user?.primaryLanguage} (default)
+              </option>
+              {Object.entries(SUPPORTED_LANGUAGES).map(([code, name]) => (
+                <option key={code} value={code}>{name}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={onShowMembers}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-md"
+            title="Members"
+          >
             <Users className="w-4 h-4" />
           </button>
           <button className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-md">
             <Settings className="w-4 h-4" />
           </button>
-          <button
-            onClick={() => setShowClearConfirm(true)}
-            className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors"
-            title="Clear all messages"
-            disabled={clearing || messages.length === 0}
-          >
-            <Trash2 className="w-4 h-4" />
-          </button>
+          {!isDirectMessage && (
+            <button
+              onClick={() => setShowClearConfirm(true)}
+              className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors"
+              title="Clear all messages"
+              disabled={clearing || messages.length === 0}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
         </div>
       </div>
 
       {/* Messages Area */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+      <div
+        ref={scrollContainerRef}
+        onScroll={handleScroll}
+        className="flex-1 overflow-y-auto p-4 space-y-4"
+      >
+        {loadingOlder && (
+          <div className="flex items-center justify-center gap-2 text-xs text-gray-500">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Loading older messages...
+          </div>
+        )}
+
         {error && (
           <div className="bg-red-50 border border-red-200 rounded-md p-3 text-red-700 text-sm">
             {error}
@@ -356,6 +600,10 @@ export function MongoChannel({ channel, currentUserId, className, onViewProfile
                 onViewProfile={onViewProfile}
                 onEmojiReaction={handleEmojiReaction}
                 onReactionBadgeClick={handleReactionBadgeClick}
+                onEditMessage={handleEditMessage}
+                onCorrectLanguage={handleCorrectLanguage}
+                canModerate={canModerate}
+                onOpenThread={isDirectMessage ? undefined : setThreadParentId}
               />
             ))}
             <div ref={messagesEndRef} />
@@ -367,10 +615,39 @@ export function MongoChannel({ channel, currentUserId, className, onViewProfile
       <div className="border-t border-gray-200 bg-white">
         <ChatInput
           onSendMessage={handleSendMessage}
-          placeholder={`Message #${channel.name}`}
+          placeholder={isDirectMessage ? `Message ${channel.name}` : `Message #${channel.name}`}
           disabled={loading}
+          channelId={isDirectMessage ? undefined : channel.id}
+          conversationId={isDirectMessage ? channel.id : undefined}
         />
       </div>
+
+      {/* Thread Panel */}
+      {threadParentId && (
+        <ThreadPanel
+          key={threadParentId}
+          channelId={channel.id}
+          parentMessageId={threadParentId}
+          currentUserId={currentUserId}
+          className="absolute inset-y-0 right-0 z-20 w-full sm:w-96 shadow-xl"
+          onClose={closeThread}
+          onViewProfile={onViewProfile}
+          onEditMessage={handleEditMessage}
+          onCorrectLanguage={handleCorrectLanguage}
+          canModerate={canModerate}
+        />
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
+
+const PAGE_SIZE = 50
+
+// Merge a page into the current list, dropping duplicates and keeping chronological order
+function mergeMessages(current: MessageType[], incoming: MessageType[]): MessageType[] {
+  const byId = new Map(current.map(msg => [msg.id, msg]))
+  for (const msg of incoming) {
+    byId.set(msg.id, msg)
+  }
+  return Array.from(byId.values()).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+}
@@ -5,11 +5,16 @@ import { useMongoAuth } from '@/contexts/MongoAuthContext'
 import { MongoChannel } from './MongoChannel'
 import { CommunityDashboard } from './CommunityDashboard'
 import { UserProfileModal } from './UserProfileModal'
+import { MessageSearch } from './MessageSearch'
+import { GroupConversationModal } from './GroupConversationModal'
 import { LogOut, Settings, Globe, Users, Plus, Search, ChevronLeft, Hash, X, Loader2, Upload, MessageSquare } from 'lucide-react'
-import { Channel as ChannelType, Community, Conversation } from '@/types'
+import { Channel as ChannelType, Community, Conversation, MessageSearchResult, RealtimeEvent } from '@/types'
+import { useRealtimeStream } from '@/hooks/useRealtimeStream'
+import { hasPermission } from '@/lib/permissions'
+import { SUPPORTED_LANGUAGES } from '@/lib/constants'
 
 export function MongoChatApp() {
-  const { user, signOut, updateProfile } = useMongoAuth()
+  const { user, signOut, updateProfile, updateLanguagePreferences } = useMongoAuth()
   const [communities, setCommunities] = useState<Community[]>([])
   const [channels, setChannels] = useState<ChannelType[]>([])
   const [selectedCommunity, setSelectedCommunity] = useState<Community | null>(null)
@@ -17,6 +22,7 @@ export function MongoChatApp() {
   const [loading, setLoading] = useState(true)
   const [showSettings, setShowSettings] = useState(false)
   const [showDashboard, setShowDashboard] = useState(false)
+  const [manageCommunityId, setManageCommunityId] = useState<string | null>(null)
   const [showCreateChannel, setShowCreateChannel] = useState(false)
   const [newChannelName, setNewChannelName] = useState('')
   const [creatingChannel, setCreatingChannel] = useState(false)
@@ -32,6 +38,9 @@ export function MongoChatApp() {
   const [dmError, setDmError] = useState('')
   const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null)
   const [viewingUserId, setViewingUserId] = useState<string | null>(null)
+  const [showSearch, setShowSearch] = useState(false)
+  const [newGroupName, setNewGroupName] = useState('')
+  const [showGroupSettings, setShowGroupSettings] = useState(false)
 
   useEffect(() => {
     if (showSettings && user) {
@@ -47,28 +56,45 @@ export function MongoChatApp() {
     }
   }, [user])
 
-  // Poll conversations separately
-  useEffect(() => {
-    if (!user) return
-
-    loadConversations() // Initial load
-    const interval = setInterval(loadConversations, 5000) // Poll every 5 seconds
-
-    return () => clearInterval(interval)
-  }, [user])
+  // Conversations are pushed over the user's realtime stream instead of polled
+  useRealtimeStream(user ? '/api/realtime' : null, {
+    onEvent: (event: RealtimeEvent) => {
+      if (event.type === 'conversation') {
+        // The open conversation is being read as messages arrive, so it never counts as unread
+        if (event.conversation.id === selectedConversation?.id) {
+          markConversationRead(event.conversation.id).then(loadConversations)
+          return
+        }
+        // Reload so the new conversation comes back hydrated with participant data
+        loadConversations()
+      }
+    },
+    onReconnect: () => loadConversations()
+  })
 
   const loadConversations = async () => {
     try {
       const convResponse = await fetch('/api/conversations')
       if (convResponse.ok) {
         const convData = await convResponse.json()
-        setConversations(convData.conversations || [])
+        const loaded: Conversation[] = convData.conversations || []
+        setConversations(loaded)
+        // Keep the open conversation fresh, and close it if the user was removed from it
+        setSelectedConversation(prev => prev ? loaded.find(c => c.id === prev.id) || null : prev)
       }
     } catch (e) {
       console.error('Error loading conversations:', e)
     }
   }
 
+  const markConversationRead = async (conversationId: string) => {
+    try {
+      await fetch(`/api/conversations/${conversationId}/read`, { method: 'POST' })
+    } catch (e) {
+      console.error('Error marking conversation read:', e)
+    }
+  }
+
   const loadCommunitiesAndChannels = async () => {
     try {
       console.log('Loading communities and channels for user:', user?.id)
@@ -86,6 +112,11 @@ export function MongoChatApp() {
       setCommunities(data.communities || [])
       setChannels(data.channels || [])
 
+      // Keep the open community (and the viewer's role in it) in sync; drop it if the user left
+      setSelectedCommunity(current => current
+        ? (data.communities || []).find((c: Community) => c.id === current.id) || null
+        : null)
+
       // Initial load of conversations
       await loadConversations()
 
@@ -105,12 +136,16 @@ export function MongoChatApp() {
 
   const handleCommunityJoined = () => {
     setShowDashboard(false)
+    setManageCommunityId(null)
     loadCommunitiesAndChannels()
   }
 
   const handleBackFromDashboard = () => {
     if (communities.length > 0) {
       setShowDashboard(false)
+      setManageCommunityId(null)
+      // Roles or memberships may have changed while managing
+      loadCommunitiesAndChannels()
     }
   }
 
@@ -119,6 +154,17 @@ export function MongoChatApp() {
     setSelectedChannel(null)
   }
 
+  // Jump to the channel a search result came from
+  const handleSelectSearchResult = (result: MessageSearchResult) => {
+    const channel = channels.find(c => c.id === result.message.channelId)
+    if (channel) {
+      setSelectedCommunity(communities.find(c => c.id === result.communityId) || null)
+      setSelectedConversation(null)
+      setSelectedChannel(channel)
+    }
+    setShowSearch(false)
+  }
+
   const handleBackToCommunities = () => {
     setSelectedCommunity(null)
     setSelectedChannel(null)
@@ -187,10 +233,21 @@ export function MongoChatApp() {
     }
   }
 
+  // Group name, or the other participants' usernames
+  const getConversationLabel = (conversation: Conversation) => {
+    if (conversation.isGroup && conversation.name) return conversation.name
+    const others = conversation.participantsData?.filter(p => p.id !== user?.id) || []
+    return others.map(p => p.username).join(', ') || 'Unknown User'
+  }
+
   const handleCreateDM = async (targetIdentifier?: string) => {
     const identifier = targetIdentifier || newDMUsername
     if (!identifier.trim()) return
 
+    // Several comma-separated usernames start a group conversation
+    const usernames = identifier.split(',').map(name => name.trim()).filter(Boolean)
+    const isGroup = usernames.length > 1
+
     setCreatingDM(true)
     setDmError('')
 
@@ -208,7 +265,9 @@ export function MongoChatApp() {
       const response = await fetch('/api/conversations', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ targetUsername: identifier.trim() })
+        body: JSON.stringify(isGroup
+          ? { participants: usernames, name: newGroupName.trim() || undefined }
+          : { targetUsername: identifier.trim() })
       })
 
       if (!response.ok) {
@@ -217,12 +276,15 @@ export function MongoChatApp() {
       }
 
       const data = await response.json()
-      setConversations(prev => [data.conversation, ...prev])
+      setConversations(prev => [data.conversation, ...prev.filter(c => c.id !== data.conversation.id)])
       setSelectedConversation(data.conversation)
       setSelectedChannel(null)
       setSelectedCommunity(null)
       setShowNewDM(false)
       setNewDMUsername('')
+      setNewGroupName('')
+      // Reload so the new conversation comes back hydrated with participant data
+      loadConversations()
 
     } catch (err: unknown) {
       setDmError(err instanceof Error ? err.message : 'Unknown error')
@@ -239,6 +301,19 @@ export function MongoChatApp() {
     }
   }
 
+  // Messages in understood languages are shown without translation
+  const handleUnderstoodLanguageToggle = async (language: string) => {
+    const current = user?.understoodLanguages || []
+    const understoodLanguages = current.includes(language)
+      ? current.filter(code => code !== language)
+      : [...current, language]
+    try {
+      await updateLanguagePreferences({ understoodLanguages })
+    } catch (error) {
+      console.error('Error updating understood languages:', error)
+    }
+  }
+
   const handleAvatarUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (file) {
@@ -273,6 +348,7 @@ export function MongoChatApp() {
       <CommunityDashboard
         onCommunityJoined={handleCommunityJoined}
         onBack={communities.length > 0 ? handleBackFromDashboard : undefined}
+        manageCommunityId={manageCommunityId || undefined}
       />
     )
   }
@@ -286,6 +362,13 @@ export function MongoChatApp() {
           <div className="flex items-center justify-between">
             <h1 className="text-xl font-bold text-gray-900">FlowTalk</h1>
             <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setShowSearch(true)}
+                className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-md"
+                title="Search messages"
+              >
+                <Search className="w-4 h-4" />
+              </button>
               <button
                 onClick={() => setShowSettings(!showSettings)}
                 className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-md"
@@ -404,6 +487,26 @@ export function MongoChatApp() {
                 <option value="ar">Arabic</option>
                 <option value="hi">Hindi</option>
               </select>
+              <label className="block text-xs text-gray-500 mt-3 mb-1">Also understood (never translated)</label>
+              <div className="flex flex-wrap gap-1">
+                {Object.entries(SUPPORTED_LANGUAGES)
+                  .filter(([code]) => code !== user?.primaryLanguage)
+                  .map(([code, name]) => {
+                    const selected = user?.understoodLanguages?.includes(code)
+                    return (
+                      <button
+                        key={code}
+                        onClick={() => handleUnderstoodLanguageToggle(code)}
+                        className={`px-2 py-0.5 text-xs rounded border transition-colors ${selected
+                          ? 'bg-blue-600 border-blue-600 text-white'
+                          : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-100'
+                          }`}
+                      >
+                        {name}
+                      </button>
+                    )
+                  })}
+              </div>
             </div>
 
             <button
@@ -451,22 +554,36 @@ export function MongoChatApp() {
               </button>
 
               {/* Community name */}
-              <h2 className="text-lg font-semibold text-gray-900 mb-4">
-                {selectedCommunity.name}
-              </h2>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-gray-900 truncate">
+                  {selectedCommunity.name}
+                </h2>
+                <button
+                  onClick={() => {
+                    setManageCommunityId(selectedCommunity.id)
+                    setShowDashboard(true)
+                  }}
+                  className="p-1 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                  title="Community settings"
+                >
+                  <Settings className="w-4 h-4" />
+                </button>
+              </div>
 
               {/* Channels header with create button */}
               <div className="flex items-center justify-between mb-2">
                 <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Channels
                 </h3>
-                <button
-                  onClick={() => setShowCreateChannel(true)}
-                  className="p-1 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
-                  title="Create channel"
-                >
-                  <Plus className="w-4 h-4" />
-                </button>
+                {hasPermission(selectedCommunity.role, 'manage_channels') && (
+                  <button
+                    onClick={() => setShowCreateChannel(true)}
+                    className="p-1 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                    title="Create channel"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                )}
               </div>
 
               {/* Create Channel Form */}
@@ -600,7 +717,7 @@ export function MongoChatApp() {
                     type="text"
                     value={newDMUsername}
                     onChange={(e) => setNewDMUsername(e.target.value)}
-                    placeholder="Username"
+                    placeholder="Username (comma separate for a group)"
                     className="flex-1 min-w-0 px-2 py-1.5 text-sm text-gray-900 bg-white border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
                     autoFocus
                     onKeyDown={(e) => {
@@ -619,12 +736,22 @@ export function MongoChatApp() {
                     {creatingDM ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Go'}
                   </button>
                 </div>
+
+                {newDMUsername.includes(',') && (
+                  <input
+                    type="text"
+                    value={newGroupName}
+                    onChange={(e) => setNewGroupName(e.target.value)}
+                    placeholder="Group name (optional)"
+                    className="w-full mt-2 px-2 py-1.5 text-sm text-gray-900 bg-white border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                )}
               </div>
             )}
 
             <div className="space-y-1">
               {conversations.map((conv) => {
-                const otherUser = conv.participantsData?.find(p => p.id !== user?.id)
+                const otherUser = conv.isGroup ? undefined : conv.participantsData?.find(p => p.id !== user?.id)
                 return (
                   <button
                     key={conv.id}
@@ -632,23 +759,36 @@ export function MongoChatApp() {
                       setSelectedConversation(conv)
                       setSelectedChannel(null)
                       setSelectedCommunity(null)
+                      // Loading the conversation marks it read on the server
+                      setConversations(prev => prev.map(c => c.id === conv.id ? { ...c, unreadCount: 0 } : c))
                     }}
                     className={`w-full text-left px-3 py-2 text-sm rounded-md transition-colors flex items-center gap-2 ${selectedConversation?.id === conv.id
                       ? 'bg-blue-100 text-blue-700 font-medium'
                       : 'text-gray-600 hover:bg-gray-100'
                       }`}
                   >
-                    {otherUser?.avatar ? (
+                    {conv.isGroup ? (
+                      <div className="w-5 h-5 rounded-full bg-blue-100 flex items-center justify-center text-blue-600">
+                        <Users className="w-3 h-3" />
+                      </div>
+                    ) : otherUser?.avatar ? (
                       <img src={otherUser.avatar} className="w-5 h-5 rounded-full object-cover" />
                     ) : (
                       <div className="w-5 h-5 rounded-full bg-gray-200 flex items-center justify-center text-xs font-medium text-gray-500">
                         {otherUser?.username?.[0]?.toUpperCase() || '?'}
                       </div>
                     )}
-                    <span className="truncate">{otherUser?.username || 'Unknown User'}</span>
-                    {otherUser?.status && (
-                      <span className="w-2 h-2 rounded-full bg-green-500 ml-auto" title={otherUser.status}></span>
-                    )}
+                    <span className="truncate">{getConversationLabel(conv)}</span>
+                    <span className="ml-auto flex items-center gap-1.5">
+                      {otherUser?.status && (
+                        <span className="w-2 h-2 rounded-full bg-green-500" title={otherUser.status}></span>
+                      )}
+                      {!!conv.unreadCount && selectedConversation?.id !== conv.id && (
+                        <span className="min-w-[1.25rem] px-1.5 py-0.5 text-xs font-semibold text-white bg-blue-600 rounded-full text-center">
+                          {conv.unreadCount > 99 ? '99+' : conv.unreadCount}
+                        </span>
+                      )}
+                    </span>
                   </button>
                 )
               })}
@@ -667,6 +807,7 @@ export function MongoChatApp() {
             channel={selectedChannel}
             currentUserId={user!.id}
             onViewProfile={setViewingUserId}
+            canModerate={hasPermission(selectedCommunity?.role, 'moderate_messages')}
           />
         ) : selectedConversation ? (
           // Reusing MongoChannel logic but adapted for DMs would be ideal, 
@@ -680,13 +821,14 @@ export function MongoChatApp() {
             channel={{
               id: selectedConversation.id,
               communityId: 'dm', // Special ID
-              name: selectedConversation.participantsData?.find(p => p.id !== user?.id)?.username || 'Chat',
-              description: 'Direct Message',
+              name: getConversationLabel(selectedConversation),
+              description: selectedConversation.isGroup ? 'Group' : 'Direct Message',
               createdAt: selectedConversation.createdAt
             }}
             currentUserId={user!.id}
-            isDirectMessage={true} // We might need to add this prop to MongoChannel to handle different API endpoints
+            isDirectMessage={true} // Scopes loading, sending and live updates to the conversation
             onViewProfile={setViewingUserId}
+            onShowMembers={selectedConversation.isGroup ? () => setShowGroupSettings(true) : undefined}
           />
         ) : (
           <div className="flex-1 flex items-center justify-center bg-gray-50">
@@ -713,6 +855,30 @@ export function MongoChatApp() {
         currentUserId={user?.id || ''}
         onMessageUser={handleCreateDM}
       />
+
+      {selectedConversation?.isGroup && (
+        <GroupConversationModal
+          conversation={selectedConversation}
+          isOpen={showGroupSettings}
+          onClose={() => setShowGroupSettings(false)}
+          currentUserId={user?.id || ''}
+          onUpdated={loadConversations}
+          onLeft={(conversationId) => {
+            setShowGroupSettings(false)
+            setSelectedConversation(null)
+            setConversations(prev => prev.filter(c => c.id !== conversationId))
+          }}
+        />
+      )}
+
+      {showSearch && (
+        <MessageSearch
+          channels={channels}
+          communities={communities}
+          onSelectResult={handleSelectSearchResult}
+          onClose={() => setShowSearch(false)}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,268 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { X, Loader2, MessageSquare } from 'lucide-react'
+import { Message } from './Message'
+import { ChatInput } from './ChatInput'
+import { Message as MessageType, RealtimeEvent } from '@/types'
+import { useRealtimeStream } from '@/hooks/useRealtimeStream'
+import { cn } from '@/lib/utils'
+
+interface ThreadPanelProps {
+  channelId: string
+  parentMessageId: string
+  currentUserId: string
+  className?: string
+  onClose: () => void
+  onViewProfile?: (userId: string) => void
+  onEditMessage?: (messageId: string, content: string) => Promise<void>
+  onCorrectLanguage?: (messageId: string, language: string) => Promise<void>
+  canModerate?: boolean // Whether the viewer can correct other members' message languages
+}
+
+export function ThreadPanel({
+  channelId,
+  parentMessageId,
+  currentUserId,
+  className,
+  onClose,
+  onViewProfile,
+  onEditMessage,
+  onCorrectLanguage,
+  canModerate = false
+}: ThreadPanelProps) {
+  const [parent, setParent] = useState<MessageType | null>(null)
+  const [replies, setReplies] = useState<MessageType[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [hasMoreBefore, setHasMoreBefore] = useState(false)
+  const [loadingOlder, setLoadingOlder] = useState(false)
+  const repliesEndRef = useRef<HTMLDivElement>(null)
+
+  const fetchThread = useCallback(async (cursor?: string) => {
+    const params = new URLSearchParams({ messageId: parentMessageId, limit: String(PAGE_SIZE) })
+    if (cursor) params.set('before', cursor)
+
+    const response = await fetch(`/api/messages/thread?${params}`)
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load thread')
+    }
+
+    return {
+      parent: toMessage(data.parent),
+      replies: (data.replies as MessageType[]).map(toMessage),
+      hasMoreBefore: !!data.hasMoreBefore
+    }
+  }, [parentMessageId])
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    setReplies([])
+
+    fetchThread()
+      .then(result => {
+        if (cancelled) return
+        setParent(result.parent)
+        setReplies(result.replies)
+        setHasMoreBefore(result.hasMoreBefore)
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load thread')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [fetchThread])
+
+  const loadOlderReplies = async () => {
+    if (loadingOlder || replies.length === 0) return
+    setLoadingOlder(true)
+    try {
+      const result = await fetchThread(replies[0].id)
+      setReplies(prev => mergeReplies(result.replies, prev))
+      setHasMoreBefore(result.hasMoreBefore)
+    } catch (err) {
+      console.error('Failed to load older replies:', err)
+    } finally {
+      setLoadingOlder(false)
+    }
+  }
+
+  // Keep the thread in sync with channel events that concern it
+  const handleRealtimeEvent = useCallback((event: RealtimeEvent) => {
+    const updateById = (id: string, update: (msg: MessageType) => MessageType) => {
+      setParent(prev => (prev && prev.id === id ? update(prev) : prev))
+      setReplies(prev => prev.map(msg => (msg.id === id ? update(msg) : msg)))
+    }
+
+    switch (event.type) {
+      case 'message':
+        if (event.message.parentMessageId === parentMessageId) {
+          setReplies(prev => mergeReplies(prev, [toMessage(event.message)]))
+        }
+        break
+      case 'edit':
+        updateById(event.message.id, msg => ({ ...msg, ...toMessage(event.message) }))
+        break
+      case 'thread':
+        updateById(event.messageId, msg => ({ ...msg, thread: event.thread }))
+        break
+      case 'translation':
+        updateById(event.messageId, msg => {
+          const others = (msg.translations || []).filter(t => t.targetLanguage !== event.translation.targetLanguage)
+          return { ...msg, translations: [...others, event.translation] }
+        })
+        break
+      case 'status':
+        updateById(event.messageId, msg => ({ ...msg, status: event.status }))
+        break
+      case 'reaction':
+        updateById(event.messageId, msg => ({ ...msg, reactions: event.reactions }))
+        break
+      case 'deletion':
+        if (event.messageIds.includes(parentMessageId)) {
+          onClose()
+          return
+        }
+        setReplies(prev => prev.filter(msg => !event.messageIds.includes(msg.id)))
+        break
+      case 'cleared':
+        onClose()
+        break
+    }
+  }, [parentMessageId, onClose])
+
+  useRealtimeStream(`/api/realtime?channelId=${channelId}`, { onEvent: handleRealtimeEvent })
+
+  useEffect(() => {
+    repliesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }, [replies.length])
+
+  const handleSendReply = async (content: string, attachment?: MessageType['attachment'], language?: string) => {
+    try {
+      const response = await fetch('/api/messages', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ channelId, content, attachment, parentMessageId, language })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send reply')
+      }
+
+      setReplies(prev => mergeReplies(prev, [toMessage(data.message)]))
+    } catch (err) {
+      console.error('Error sending reply:', err)
+      setError(err instanceof Error ? err.message : 'Failed to send reply')
+    }
+  }
+
+  const replyCount = parent?.thread?.replyCount ?? replies.length
+
+  return (
+    <div className={cn('flex flex-col h-full bg-white border-l border-gray-200', className)}>
+      <div className="flex items-center justify-between p-4 border-b border-gray-200">
+        <div className="flex items-center gap-2">
+          <MessageSquare className="w-4 h-4 text-gray-500" />
+          <h3 className="font-semibold text-gray-900">Thread</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-md"
+          title="Close thread"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {loading ? (
+          <div className="flex items-center justify-center h-full">
+            <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <>
+            {parent && (
+              <Message
+                message={parent}
+                currentUserId={currentUserId}
+                onViewProfile={onViewProfile}
+                onEditMessage={onEditMessage}
+                onCorrectLanguage={onCorrectLanguage}
+                canModerate={canModerate}
+              />
+            )}
+
+            <div className="flex items-center gap-2 px-4 py-2 text-xs text-gray-500">
+              <span>{replyCount} {replyCount === 1 ? 'reply' : 'replies'}</span>
+              <div className="flex-1 border-t border-gray-200" />
+            </div>
+
+            {hasMoreBefore && (
+              <div className="flex justify-center py-2">
+                <button
+                  onClick={loadOlderReplies}
+                  disabled={loadingOlder}
+                  className="text-xs text-blue-600 hover:underline disabled:opacity-50"
+                >
+                  {loadingOlder ? 'Loading...' : 'Load earlier replies'}
+                </button>
+              </div>
+            )}
+
+            {replies.map(reply => (
+              <Message
+                key={reply.id}
+                message={reply}
+                currentUserId={currentUserId}
+                onViewProfile={onViewProfile}
+                onEditMessage={onEditMessage}
+                onCorrectLanguage={onCorrectLanguage}
+                canModerate={canModerate}
+              />
+            ))}
+            <div ref={repliesEndRef} />
+          </>
+        )}
+
+        {error && (
+          <div className="mx-4 my-2 p-2 text-xs text-red-600 bg-red-50 border border-red-200 rounded">
+            {error}
+          </div>
+        )}
+      </div>
+
+      <div className="border-t border-gray-200">
+        <ChatInput
+          onSendMessage={handleSendReply}
+          placeholder="Reply in thread..."
+          disabled={loading || !parent}
+          channelId={channelId}
+        />
+      </div>
+    </div>
+  )
+}
+
+const PAGE_SIZE = 50
+
+function toMessage(raw: MessageType): MessageType {
+  return { ...raw, timestamp: new Date(raw.timestamp) }
+}
+
+// Merge replies, dropping duplicates and keeping chronological order
+function mergeReplies(current: MessageType[], incoming: MessageType[]): MessageType[] {
+  const byId = new Map(current.map(msg => [msg.id, msg]))
+  for (const msg of incoming) {
+    byId.set(msg.id, msg)
+  }
+  return Array.from(byId.values()).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+}
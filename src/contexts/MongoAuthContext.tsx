@@ -10,6 +10,14 @@ interface AuthContextType {
   signUp: (email: string, password: string, username: string, primaryLanguage: string) => Promise<void>
   signOut: () => Promise<void>
   updateProfile: (updates: Partial<AuthUser>) => Promise<void>
+  updateLanguagePreferences: (updates: LanguagePreferenceUpdate) => Promise<void>
+}
+
+// Understood languages, and/or the language one channel or conversation is shown in (null clears it)
+interface LanguagePreferenceUpdate {
+  understoodLanguages?: string[]
+  channelId?: string
+  language?: string | null
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
@@ -103,13 +111,36 @@ export function MongoAuthProvider({ children }: { children: React.ReactNode }) {
     setUser(data.user)
   }
 
+  const updateLanguagePreferences = async (updates: LanguagePreferenceUpdate) => {
+    const response = await fetch('/api/auth/languages', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(updates),
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to update language preferences')
+    }
+
+    const data = await response.json()
+    setUser(prev => prev ? {
+      ...prev,
+      understoodLanguages: data.preferences.understoodLanguages,
+      channelLanguages: data.preferences.channelLanguages
+    } : prev)
+  }
+
   const value = {
     user,
     loading,
     signIn,
     signUp,
     signOut,
-    updateProfile
+    updateProfile,
+    updateLanguagePreferences
   }
 
   return (
@@ -1,2 +1,3 @@
 export { useEmojiThrow } from './useEmojiThrow'
 export { useVoiceRecorder, speakText } from './useVoiceRecorder'
+export { useRealtimeStream } from './useRealtimeStream'
@@ -0,0 +1,128 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { REALTIME_CONFIG } from '@/lib/constants'
+import { RealtimeEvent } from '@/types'
+
+export type RealtimeStatus = 'connecting' | 'open' | 'reconnecting' | 'disconnected'
+
+interface UseRealtimeStreamOptions {
+    onEvent: (event: RealtimeEvent) => void
+    // Called after a dropped connection is re-established, to resync missed state
+    onReconnect?: () => void
+    enabled?: boolean
+}
+
+interface UseRealtimeStreamReturn {
+    status: RealtimeStatus
+    reconnect: () => void
+}
+
+const EVENT_TYPES: RealtimeEvent['type'][] = ['message', 'edit', 'thread', 'translation', 'reaction', 'deletion', 'cleared', 'status', 'conversation']
+
+export function useRealtimeStream(url: string | null, options: UseRealtimeStreamOptions): UseRealtimeStreamReturn {
+    const { enabled = true } = options
+    const [status, setStatus] = useState<RealtimeStatus>('connecting')
+    const [connectionKey, setConnectionKey] = useState(0)
+
+    // Keep latest callbacks without reopening the stream on every render
+    const onEventRef = useRef(options.onEvent)
+    const onReconnectRef = useRef(options.onReconnect)
+    useEffect(() => {
+        onEventRef.current = options.onEvent
+        onReconnectRef.current = options.onReconnect
+    })
+
+    useEffect(() => {
+        if (!url || !enabled) return
+
+        let source: EventSource | null = null
+        let attempts = 0
+        let hasConnected = false
+        let closed = false
+        let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+        let watchdogTimer: ReturnType<typeof setTimeout> | null = null
+
+        // If no heartbeat arrives within two intervals the connection is considered dead
+        const resetWatchdog = () => {
+            if (watchdogTimer) clearTimeout(watchdogTimer)
+            watchdogTimer = setTimeout(() => {
+                console.warn('Realtime heartbeat missed, reconnecting')
+                scheduleReconnect()
+            }, REALTIME_CONFIG.HEARTBEAT_INTERVAL * 2)
+        }
+
+        const scheduleReconnect = () => {
+            source?.close()
+            source = null
+            if (watchdogTimer) clearTimeout(watchdogTimer)
+            if (closed) return
+
+            if (attempts >= REALTIME_CONFIG.MAX_RECONNECT_ATTEMPTS) {
+                setStatus('disconnected')
+                return
+            }
+
+            setStatus('reconnecting')
+            const delay = REALTIME_CONFIG.RECONNECT_DELAY * Math.pow(2, attempts)
+            attempts++
+            reconnectTimer = setTimeout(connect, delay)
+        }
+
+        const connect = () => {
+            if (closed) return
+            source = new EventSource(url)
+
+            source.addEventListener('ready', () => {
+                const isReconnect = hasConnected
+                hasConnected = true
+                attempts = 0
+                setStatus('open')
+                resetWatchdog()
+                if (isReconnect) {
+                    onReconnectRef.current?.()
+                }
+            })
+
+            source.addEventListener('heartbeat', resetWatchdog)
+
+            // Access to the stream was withdrawn (removed from the group or community); stop for good
+            source.addEventListener('revoked', () => {
+                closed = true
+                source?.close()
+                if (watchdogTimer) clearTimeout(watchdogTimer)
+                setStatus('disconnected')
+            })
+
+            for (const type of EVENT_TYPES) {
+                source.addEventListener(type, (e) => {
+                    resetWatchdog()
+                    try {
+                        onEventRef.current(JSON.parse((e as MessageEvent).data) as RealtimeEvent)
+                    } catch (error) {
+                        console.error('Invalid realtime event:', error)
+                    }
+                })
+            }
+
+            // Take over reconnection from EventSource so backoff and attempt limits apply
+            source.onerror = () => scheduleReconnect()
+        }
+
+        setStatus('connecting')
+        connect()
+
+        return () => {
+            closed = true
+            source?.close()
+            if (reconnectTimer) clearTimeout(reconnectTimer)
+            if (watchdogTimer) clearTimeout(watchdogTimer)
+        }
+    }, [url, enabled, connectionKey])
+
+    const reconnect = useCallback(() => {
+        setConnectionKey(key => key + 1)
+    }, [])
+
+    return { status, reconnect }
+}
@@ -0,0 +1,11 @@
+// Runs once per server process on startup
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return
+  }
+
+  // Drain translation jobs left over from a previous run without waiting for traffic
+  const { getTranslationWorker } = await import('@/services')
+  getTranslationWorker().start()
+}
@@ -8,7 +8,9 @@
 // 4. Restore code blocks and inline code in translated content using restoreCodeInTranslation()
 //
 // This ensures that code remains unchanged during translation while allowing
-// natural language text to be properly translated.
+// natural language text to be properly translated. URLs and @mentions are shielded
+// the same way with protectEntities(), and findDamagedPlaceholders() tells whether
+// a translation kept every placeholder intact.
 
 import { ValidationError, handleError } from './errors'
 
@@ -31,6 +33,11 @@ export interface CodeBlock {
   endIndex: number
 }
 
+export interface ProtectedEntity {
+  original: string
+  placeholder: string
+}
+
 export interface MessageGrammar {
   maxLength: number
   allowedElements: string[]
@@ -389,6 +396,57 @@ export class MessageParser {
 
     return restoredContent
   }
+
+  /**
+   * Placeholders getTranslatableContent() puts in place of code
+   */
+  getCodePlaceholders(parsedMessage: ParsedMessage): string[] {
+    if (!parsedMessage.isValid) {
+      return []
+    }
+
+    return [
+      ...parsedMessage.codeBlocks.map((_, index) => `__CODE_BLOCK_${index}__`),
+      ...parsedMessage.inlineCodeSpans.map((_, index) => `__INLINE_CODE_${index}__`)
+    ]
+  }
+
+  /**
+   * Replace URLs and @mentions with placeholders so translation leaves them untouched
+   */
+  protectEntities(content: string): { content: string; entities: ProtectedEntity[] } {
+    const entities: ProtectedEntity[] = []
+    const shield = (prefix: string) => (match: string) => {
+      const placeholder = `__${prefix}_${entities.length}__`
+      entities.push({ original: match, placeholder })
+      return placeholder
+    }
+
+    const protectedContent = content
+      // Trailing sentence punctuation is left outside the URL
+      .replace(/\bhttps?:\/\/[^\s<>"'`]*[^\s<>"'`.,;:!?)\]]/g, shield('URL'))
+      // Not preceded by a word character, so e-mail addresses are not mentions
+      .replace(/(?<![\w@])@[A-Za-z0-9_](?:[\w.-]*[A-Za-z0-9_])?/g, shield('MENTION'))
+
+    return { content: protectedContent, entities }
+  }
+
+  /**
+   * Put the originals of protected entities (or glossary segments) back in place
+   */
+  restorePlaceholders(content: string, entities: ProtectedEntity[]): string {
+    return entities.reduce(
+      (restored, entity) => restored.split(entity.placeholder).join(entity.original),
+      content
+    )
+  }
+
+  /**
+   * Placeholders that do not appear exactly once in translated content
+   */
+  findDamagedPlaceholders(content: string, placeholders: string[]): string[] {
+    return placeholders.filter(placeholder => content.split(placeholder).length !== 2)
+  }
 }
 
 // Default parser instance
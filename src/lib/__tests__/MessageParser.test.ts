@@ -206,6 +206,46 @@ And some *italic* text.`
     })
   })
 
+  describe('protectEntities', () => {
+    it('should replace URLs and mentions with placeholders', () => {
+      const { content, entities } = parser.protectEntities('See https://example.com/a?b=1. Thanks @sam_k!')
+
+      expect(content).toBe('See __URL_0__. Thanks __MENTION_1__!')
+      expect(entities.map(e => e.original)).toEqual(['https://example.com/a?b=1', '@sam_k'])
+    })
+
+    it('should not treat e-mail addresses as mentions', () => {
+      const { content, entities } = parser.protectEntities('Mail me at dev@example.com')
+
+      expect(content).toBe('Mail me at dev@example.com')
+      expect(entities).toHaveLength(0)
+    })
+
+    it('should round-trip through restorePlaceholders', () => {
+      const original = 'Ask @lee about https://flowtalk.dev'
+      const { content, entities } = parser.protectEntities(original)
+
+      expect(parser.restorePlaceholders(content, entities)).toBe(original)
+    })
+  })
+
+  describe('findDamagedPlaceholders', () => {
+    it('should report missing and duplicated placeholders', () => {
+      const placeholders = ['__URL_0__', '__MENTION_1__', '__CODE_BLOCK_0__']
+      const translated = 'Hola __URL_0__ __URL_0__ __MENTION_1__'
+
+      expect(parser.findDamagedPlaceholders(translated, placeholders)).toEqual(['__URL_0__', '__CODE_BLOCK_0__'])
+    })
+
+    it('should accept a translation that keeps every placeholder once', () => {
+      const parsed = parser.parse('Run `npm test` now')
+      const placeholders = parser.getCodePlaceholders(parsed)
+
+      expect(placeholders).toEqual(['__INLINE_CODE_0__'])
+      expect(parser.findDamagedPlaceholders('Ejecuta __INLINE_CODE_0__ ahora', placeholders)).toEqual([])
+    })
+  })
+
   describe('isPrimarilyCode', () => {
     it('should detect when content is primarily code', () => {
       const content = '```js\nconst x = 1\nconst y = 2\nconst z = 3\n```\nShort text'
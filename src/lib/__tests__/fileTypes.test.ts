@@ -0,0 +1,50 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for attachment content-type sniffing and file names
+
+import { sniffContentType, isInlineImage, sanitizeFileName, contentDisposition } from '../fileTypes'
+
+const bytes = (...values: number[]) => new Uint8Array(values)
+const text = (value: string) => new TextEncoder().encode(value)
+
+describe('fileTypes', () => {
+  describe('sniffContentType', () => {
+    it('should recognise images by their signature whatever type was declared', () => {
+      expect(sniffContentType(bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00), 'text/plain')).toBe('image/png')
+      expect(sniffContentType(bytes(0xff, 0xd8, 0xff, 0xe0), 'application/octet-stream')).toBe('image/jpeg')
+      expect(sniffContentType(text('RIFF\u0000\u0000\u0000\u0000WEBPVP8 '), '')).toBe('image/webp')
+      expect(sniffContentType(text('%PDF-1.7\n'), 'image/png')).toBe('application/pdf')
+    })
+
+    it('should not trust a declared image type for other content', () => {
+      expect(sniffContentType(text('<svg onload="alert(1)"></svg>'), 'image/svg+xml')).toBe('text/plain')
+      expect(sniffContentType(text('<script>alert(1)</script>'), 'text/html')).toBe('text/plain')
+      expect(sniffContentType(bytes(0x00, 0x01, 0x02, 0xff), 'image/png')).toBe('application/octet-stream')
+    })
+
+    it('should keep declared text and ZIP-based document types', () => {
+      expect(sniffContentType(text('# Release notes'), 'text/markdown')).toBe('text/markdown')
+      expect(sniffContentType(text('a,b\n1,2'), 'text/csv; charset=utf-8')).toBe('text/csv')
+
+      const docx = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      expect(sniffContentType(bytes(0x50, 0x4b, 0x03, 0x04, 0x14), docx)).toBe(docx)
+      expect(sniffContentType(bytes(0x50, 0x4b, 0x03, 0x04, 0x14), 'text/plain')).toBe('application/zip')
+    })
+  })
+
+  it('should only show raster images inline', () => {
+    expect(isInlineImage('image/png')).toBe(true)
+    expect(isInlineImage('image/svg+xml')).toBe(false)
+    expect(isInlineImage('application/pdf')).toBe(false)
+  })
+
+  it('should strip paths and control characters from file names', () => {
+    expect(sanitizeFileName('../../etc/passwd')).toBe('passwd')
+    expect(sanitizeFileName('C:\\Users\\me\\report "final".pdf')).toBe('report final.pdf')
+    expect(sanitizeFileName('\u0000\n')).toBe('file')
+    expect(contentDisposition('résumé.pdf', false)).toBe(
+      'attachment; filename="r_sum_.pdf"; filename*=UTF-8\'\'r%C3%A9sum%C3%A9.pdf'
+    )
+  })
+})
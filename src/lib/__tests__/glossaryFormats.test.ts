@@ -0,0 +1,120 @@
+// Unit tests for glossary CSV/TBX import and export
+
+import { parseGlossaryCsv, toGlossaryCsv, parseGlossaryTbx, toGlossaryTbx, detectGlossaryFormat } from '../glossaryFormats'
+import { ValidationError } from '../errors'
+import { GlossaryTerm } from '@/types'
+
+const createTerm = (overrides: Partial<GlossaryTerm>): GlossaryTerm => ({
+  id: 'term-1',
+  communityId: 'community-1',
+  term: 'pull request',
+  category: 'technical',
+  preserveCase: false,
+  createdBy: 'user-1',
+  createdAt: new Date(),
+  ...overrides
+})
+
+describe('glossaryFormats', () => {
+  describe('CSV', () => {
+    it('should read settings and language columns from a header row', () => {
+      const entries = parseGlossaryCsv(
+        'term,category,preserve_case,case_rule,es,notes\n' +
+        '"pull request",technical,no,match_source,solicitud de extracción,ignored\n'
+      )
+
+      expect(entries).toEqual([{
+        term: 'pull request',
+        category: 'technical',
+        preserveCase: false,
+        caseRule: 'match_source',
+        translations: { es: 'solicitud de extracción' }
+      }])
+    })
+
+    it('should treat a file without a header as a list of terms', () => {
+      expect(parseGlossaryCsv('Kubernetes\r\nHelm\r\n\r\n')).toEqual([
+        { term: 'Kubernetes' },
+        { term: 'Helm' }
+      ])
+    })
+
+    it('should handle quoted separators and escaped quotes', () => {
+      const entries = parseGlossaryCsv('term,fr\n"Say ""hi"", then",bonjour\n')
+
+      expect(entries[0]).toEqual({ term: 'Say "hi", then', translations: { fr: 'bonjour' } })
+    })
+
+    it('should reject unterminated quotes', () => {
+      expect(() => parseGlossaryCsv('term\n"broken')).toThrow(ValidationError)
+    })
+
+    it('should round-trip exported terms', () => {
+      const terms = [
+        createTerm({ caseRule: 'as_written', translations: { es: 'solicitud, de extracción' } }),
+        createTerm({ term: 'FlowTalk', category: 'brand', preserveCase: true })
+      ]
+
+      const entries = parseGlossaryCsv(toGlossaryCsv(terms))
+
+      expect(entries[0]).toMatchObject({ term: 'pull request', caseRule: 'as_written', translations: { es: 'solicitud, de extracción' } })
+      expect(entries[1]).toEqual({ term: 'FlowTalk', category: 'brand', preserveCase: true })
+    })
+
+    it('should ignore columns named after inherited object properties', () => {
+      const entries = parseGlossaryCsv('term,constructor,toString,es\nFlowTalk,x,y,FlowTalk\n')
+
+      expect(entries).toEqual([{ term: 'FlowTalk', translations: { es: 'FlowTalk' } }])
+    })
+
+    it('should keep exported cells from being read as spreadsheet formulas', () => {
+      const terms = [createTerm({ term: '=HYPERLINK("http://example.com")', translations: { es: '@mención' } })]
+
+      const csv = toGlossaryCsv(terms)
+
+      expect(csv).toContain(`"'=HYPERLINK(""http://example.com"")"`)
+      expect(csv).toContain(`,'@mención`)
+      expect(parseGlossaryCsv(csv)[0]).toMatchObject({ term: '=HYPERLINK("http://example.com")', translations: { es: '@mención' } })
+    })
+  })
+
+  describe('TBX', () => {
+    it('should read TBX v2 term entries, using the source language as the term', () => {
+      const entries = parseGlossaryTbx(`<?xml version="1.0"?>
+        <martif type="TBX"><text><body>
+          <termEntry id="t1">
+            <descrip type="subjectField">brand</descrip>
+            <langSet xml:lang="es-ES"><tig><term>solicitud de extracción</term></tig></langSet>
+            <langSet xml:lang="en-US"><tig><term>pull request</term></tig></langSet>
+            <langSet xml:lang="x-klingon"><tig><term>ignored</term></tig></langSet>
+            <langSet xml:lang="constructor"><tig><term>ignored</term></tig></langSet>
+          </termEntry>
+        </body></text></martif>`)
+
+      expect(entries).toEqual([{
+        term: 'pull request',
+        category: 'brand',
+        translations: { es: 'solicitud de extracción' }
+      }])
+    })
+
+    it('should round-trip exported terms', () => {
+      const terms = [createTerm({ term: 'R&D <team>', caseRule: 'uppercase', translations: { de: 'F&E' } })]
+
+      const tbx = toGlossaryTbx(terms)
+
+      expect(detectGlossaryFormat(tbx)).toBe('tbx')
+      expect(parseGlossaryTbx(tbx)).toEqual([{
+        term: 'R&D <team>',
+        category: 'technical',
+        preserveCase: false,
+        caseRule: 'uppercase',
+        translations: { de: 'F&E' }
+      }])
+    })
+
+    it('should reject documents that are not TBX', () => {
+      expect(() => parseGlossaryTbx('<html></html>')).toThrow(ValidationError)
+    })
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for PDF text extraction
+
+import { deflateSync } from 'zlib'
+import { extractPdfText } from '../pdfText'
+
+// A minimal PDF around the given stream objects; the extractor does not need an xref table
+const buildPdf = (...streams: { dict?: string; data: Buffer }[]) => Buffer.concat([
+  Buffer.from('%PDF-1.4\n1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n', 'latin1'),
+  ...streams.map(({ dict = '', data }, i) => Buffer.concat([
+    Buffer.from(`${i + 3} 0 obj\n<< /Length ${data.length} ${dict} >>\nstream\n`, 'latin1'),
+    data,
+    Buffer.from('\nendstream\nendobj\n', 'latin1')
+  ])),
+  Buffer.from('trailer\n<< /Root 1 0 R >>\n%%EOF\n', 'latin1')
+])
+
+describe('extractPdfText', () => {
+  it('should read text operators of plain and compressed content streams', () => {
+    const page = 'BT /F1 12 Tf 72 712 Td (Fehler beim Speichern) Tj 0 -14 Td [(Bitte) -300 (erneut) -300 (versuchen)] TJ ET'
+
+    expect(extractPdfText(buildPdf({ data: Buffer.from(page, 'latin1') })))
+      .toBe('Fehler beim Speichern\nBitte erneut versuchen')
+    expect(extractPdfText(buildPdf({ dict: '/Filter /FlateDecode', data: deflateSync(page) })))
+      .toBe('Fehler beim Speichern\nBitte erneut versuchen')
+  })
+
+  it('should decode escapes and UTF-16 strings', () => {
+    const page = Buffer.concat([
+      Buffer.from('BT (Caf\\351 \\(ouvert\\)) Tj T* (', 'latin1'),
+      Buffer.from([0xfe, 0xff, 0x00, 0xe9, 0x00, 0x74, 0x00, 0xe9]),
+      Buffer.from(') Tj ET', 'latin1')
+    ])
+
+    expect(extractPdfText(buildPdf({ data: page }))).toBe('Café (ouvert)\nété')
+  })
+
+  it('should map glyph codes through ToUnicode tables', () => {
+    const cmap = [
+      'begincmap',
+      '2 beginbfchar <0001> <0048> <0002> <0069> endbfchar',
+      '1 beginbfrange <0003> <0004> <00E4> endbfrange',
+      'endcmap'
+    ].join('\n')
+    const page = 'BT /F1 12 Tf <00010002> Tj ( ) Tj <00030004> Tj ET'
+
+    expect(extractPdfText(buildPdf(
+      { data: Buffer.from(cmap, 'latin1') },
+      { data: Buffer.from(page, 'latin1') }
+    ))).toBe('Hi äå')
+  })
+
+  it('should stop reading at its decoded size limit instead of inflating a compressed bomb', () => {
+    const page = 'BT (Erste Seite) Tj ET'
+    const bomb = deflateSync(Buffer.alloc(64 * 1024 * 1024, ' '))
+
+    const text = extractPdfText(buildPdf(
+      { data: Buffer.from(page, 'latin1') },
+      { dict: '/Filter /FlateDecode', data: bomb },
+      { data: Buffer.from('BT (Nach der Bombe) Tj ET', 'latin1') }
+    ))
+
+    expect(bomb.length).toBeLessThan(100 * 1024)
+    expect(text).toBe('Erste Seite')
+  })
+
+  it('should skip images and return nothing for documents without text', () => {
+    const image = buildPdf({ dict: '/Subtype /Image /Filter /DCTDecode', data: Buffer.from([0xff, 0xd8, 0xff, 0x00]) })
+    expect(extractPdfText(image)).toBe('')
+  })
+})
@@ -0,0 +1,102 @@
+// Unit tests for community role and permission checks
+
+import { hasPermission, isCommunityRole, outranks, canAssignRole, isPlatformAdmin } from '../permissions'
+
+describe('permissions', () => {
+  describe('hasPermission', () => {
+    it('should grant every permission to owners', () => {
+      expect(hasPermission('owner', 'manage_community')).toBe(true)
+      expect(hasPermission('owner', 'manage_roles')).toBe(true)
+    })
+
+    it('should keep community settings owner-only', () => {
+      expect(hasPermission('admin', 'manage_community')).toBe(false)
+      expect(hasPermission('admin', 'manage_channels')).toBe(true)
+    })
+
+    it('should let moderators moderate and edit the glossary but not manage channels', () => {
+      expect(hasPermission('moderator', 'moderate_messages')).toBe(true)
+      expect(hasPermission('moderator', 'manage_glossary')).toBe(true)
+      expect(hasPermission('moderator', 'manage_channels')).toBe(false)
+    })
+
+    it('should only let members read and post', () => {
+      expect(hasPermission('member', 'view_channels')).toBe(true)
+      expect(hasPermission('member', 'send_messages')).toBe(true)
+      expect(hasPermission('member', 'moderate_messages')).toBe(false)
+    })
+
+    it('should deny everything without a role', () => {
+      expect(hasPermission(null, 'view_channels')).toBe(false)
+      expect(hasPermission(undefined, 'send_messages')).toBe(false)
+    })
+  })
+
+  describe('isCommunityRole', () => {
+    it('should accept known roles only', () => {
+      expect(isCommunityRole('moderator')).toBe(true)
+      expect(isCommunityRole('superuser')).toBe(false)
+      expect(isCommunityRole(undefined)).toBe(false)
+    })
+  })
+
+  describe('outranks', () => {
+    it('should order roles from owner down to member', () => {
+      expect(outranks('owner', 'admin')).toBe(true)
+      expect(outranks('admin', 'moderator')).toBe(true)
+      expect(outranks('moderator', 'member')).toBe(true)
+      expect(outranks('admin', 'admin')).toBe(false)
+      expect(outranks('member', 'owner')).toBe(false)
+    })
+  })
+
+  describe('canAssignRole', () => {
+    it('should let owners promote members to admin', () => {
+      expect(canAssignRole('owner', 'member', 'admin')).toBe(true)
+    })
+
+    it('should let admins assign roles below their own', () => {
+      expect(canAssignRole('admin', 'member', 'moderator')).toBe(true)
+      expect(canAssignRole('admin', 'moderator', 'member')).toBe(true)
+    })
+
+    it('should not let admins promote to admin or change other admins', () => {
+      expect(canAssignRole('admin', 'member', 'admin')).toBe(false)
+      expect(canAssignRole('admin', 'admin', 'member')).toBe(false)
+    })
+
+    it('should never grant or take away ownership', () => {
+      expect(canAssignRole('owner', 'admin', 'owner')).toBe(false)
+      expect(canAssignRole('owner', 'owner', 'admin')).toBe(false)
+    })
+
+    it('should require manage_roles', () => {
+      expect(canAssignRole('moderator', 'member', 'member')).toBe(false)
+      expect(canAssignRole('moderator', 'member')).toBe(false)
+    })
+
+    it('should check removal against the current role only', () => {
+      expect(canAssignRole('admin', 'moderator')).toBe(true)
+      expect(canAssignRole('admin', 'admin')).toBe(false)
+    })
+  })
+
+  describe('isPlatformAdmin', () => {
+    const original = process.env.ADMIN_USER_IDS
+
+    afterEach(() => {
+      process.env.ADMIN_USER_IDS = original
+    })
+
+    it('should read admins from ADMIN_USER_IDS', () => {
+      process.env.ADMIN_USER_IDS = 'user-1, user-2'
+      expect(isPlatformAdmin('user-2')).toBe(true)
+      expect(isPlatformAdmin('user-3')).toBe(false)
+    })
+
+    it('should have no admins when unset', () => {
+      delete process.env.ADMIN_USER_IDS
+      expect(isPlatformAdmin('user-1')).toBe(false)
+    })
+  })
+})
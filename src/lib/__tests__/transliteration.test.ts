@@ -0,0 +1,46 @@
+// Unit tests for rule-based transliteration of romanized text into native scripts
+
+import { transliterate, canTransliterate, getNativeScriptName } from '../transliteration'
+import { ROMANIZED_LANGUAGES } from '../constants'
+
+describe('transliteration', () => {
+  it('should have a native script for every romanized language', () => {
+    for (const language of Object.keys(ROMANIZED_LANGUAGES)) {
+      expect(canTransliterate(language)).toBe(true)
+    }
+    expect(canTransliterate('en')).toBe(false)
+    expect(getNativeScriptName('hi')).toBe('Devanagari')
+    expect(getNativeScriptName('ja')).toBe('Hiragana')
+  })
+
+  it('should write Hinglish and Marathi in Devanagari', () => {
+    expect(transliterate('Namaste, kya haal hai? Main theek hun', 'hi')).toBe('नमस्ते, क्या हाल है? मैं थीक हुं')
+    expect(transliterate('Mi aatach fix push kela aahe', 'mr')).toBe('मि आतच फिक्स पुश केला आहे')
+  })
+
+  it('should follow each Indic script\'s own spelling', () => {
+    expect(transliterate('romba nandri, enna aachu', 'ta')).toBe('ரொம்ப நன்ட்ரி, என்ன ஆசு')
+    expect(transliterate('meeru ela unnaru', 'te')).toBe('మీరు ఎల ఉన్నరు')
+    expect(transliterate('kemon achho', 'bn')).toBe('কেমন আছো')
+  })
+
+  it('should write Roman Urdu and Arabizi in Arabic script', () => {
+    expect(transliterate('Mujhe nahi pata, mein theek hun', 'ur')).toBe('مجھے نہی پتا, میں تھیک ہوں')
+    expect(transliterate('3arabi, ana 7abibi', 'ar')).toBe('عربي, انا حببي')
+  })
+
+  it('should write translit in Cyrillic and romaji in hiragana', () => {
+    expect(transliterate("Privet, kak dela? Eto moy den'", 'ru')).toBe('Привет, как дела? Это мой день')
+    expect(transliterate('Konnichiwa, kyou wa matte kudasai', 'ja')).toBe('こんにちわ, きょう は まって ください')
+  })
+
+  it('should keep code, links, mentions, acronyms and unspellable words as typed', () => {
+    expect(transliterate('Kal https://x.io @ravi #dev `npm test` ASAP 2nd', 'hi'))
+      .toBe('कल https://x.io @ravi #dev `npm test` ASAP 2nd')
+    expect(transliterate('minna pull request', 'ja')).toBe('みんな pull request')
+  })
+
+  it('should leave text in languages without a native script rule unchanged', () => {
+    expect(transliterate('Bonjour tout le monde', 'fr')).toBe('Bonjour tout le monde')
+  })
+})
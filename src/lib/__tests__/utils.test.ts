@@ -1,6 +1,6 @@
 // Test file to verify the testing setup works
 
-import { generateHash, hasCodeBlocks, extractCodeBlocks } from '../utils'
+import { generateHash, hasCodeBlocks, extractCodeBlocks, extractSearchTerms, buildHighlightedSnippet, getViewerLanguage, understandsLanguage } from '../utils'
 
 describe('Utils', () => {
   describe('generateHash', () => {
@@ -56,4 +56,69 @@ describe('Utils', () => {
       expect(blocks).toEqual([])
     })
   })
-})
\ No newline at end of file
+
+  describe('extractSearchTerms', () => {
+    it('should lowercase words and keep quoted phrases whole', () => {
+      expect(extractSearchTerms('Deploy "Release Notes" today!')).toEqual(['release notes', 'deploy', 'today'])
+    })
+
+    it('should skip negated terms', () => {
+      expect(extractSearchTerms('reunión -cancelada')).toEqual(['reunión'])
+    })
+  })
+
+  describe('buildHighlightedSnippet', () => {
+    it('should highlight every occurrence of a term regardless of case', () => {
+      const segments = buildHighlightedSnippet('Hola mundo, hola amigos', ['hola'])
+
+      expect(segments).toEqual([
+        { text: 'Hola', highlight: true },
+        { text: ' mundo, ', highlight: false },
+        { text: 'hola', highlight: true },
+        { text: ' amigos', highlight: false }
+      ])
+    })
+
+    it('should trim long text around the first match', () => {
+      const text = `${'a'.repeat(100)} needle ${'b'.repeat(100)}`
+      const segments = buildHighlightedSnippet(text, ['needle'], 10)
+
+      expect(segments[0]).toEqual({ text: '…', highlight: false })
+      expect(segments[segments.length - 1]).toEqual({ text: '…', highlight: false })
+      expect(segments.find(segment => segment.highlight)?.text).toBe('needle')
+      expect(segments.map(segment => segment.text).join('')).toHaveLength(28)
+    })
+
+    it('should treat regex characters in terms literally', () => {
+      const segments = buildHighlightedSnippet('Call foo(bar) now', ['foo(bar)'])
+
+      expect(segments).toContainEqual({ text: 'foo(bar)', highlight: true })
+    })
+  })
+
+  describe('viewer languages', () => {
+    const preferences = {
+      primaryLanguage: 'en',
+      understoodLanguages: ['es'],
+      channelLanguages: { 'channel-fr': 'fr' }
+    }
+
+    it('should use the channel override before the primary language', () => {
+      expect(getViewerLanguage(preferences, 'channel-fr')).toBe('fr')
+      expect(getViewerLanguage(preferences, 'channel-other')).toBe('en')
+      expect(getViewerLanguage({})).toBe('en')
+    })
+
+    it('should treat understood languages and the viewed language as readable', () => {
+      expect(understandsLanguage(preferences, 'es')).toBe(true)
+      expect(understandsLanguage(preferences, 'en')).toBe(true)
+      expect(understandsLanguage(preferences, 'de')).toBe(false)
+      expect(understandsLanguage(preferences, undefined)).toBe(false)
+    })
+
+    it('should translate the primary language in a channel overridden to another language', () => {
+      expect(understandsLanguage(preferences, 'en', 'channel-fr')).toBe(false)
+      expect(understandsLanguage(preferences, 'fr', 'channel-fr')).toBe(true)
+    })
+  })
+})
@@ -10,6 +10,8 @@ export interface User {
   email: string
   username: string
   primaryLanguage: string
+  understoodLanguages?: string[]
+  channelLanguages?: Record<string, string>
   passwordHash: string
   avatar?: string
   status?: string
@@ -22,6 +24,8 @@ export interface AuthUser {
   email: string
   username: string
   primaryLanguage: string
+  understoodLanguages?: string[]
+  channelLanguages?: Record<string, string>
   avatar?: string
   status?: string
 }
@@ -116,6 +120,8 @@ export async function authenticateUser(email: string, password: string): Promise
     email: user.email,
     username: user.username,
     primaryLanguage: user.primaryLanguage,
+    understoodLanguages: user.understoodLanguages || [],
+    channelLanguages: user.channelLanguages || {},
     avatar: user.avatar,
     status: user.status
   }
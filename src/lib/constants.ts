@@ -65,11 +65,46 @@ export const SUPPORTED_LANGUAGES = {
   'fi': 'Finnish',
   'pl': 'Polish',
   'tr': 'Turkish',
-  'th': 'Thai'
+  'th': 'Thai',
+  'ta': 'Tamil',
+  'te': 'Telugu',
+  'bn': 'Bengali',
+  'mr': 'Marathi',
+  'ur': 'Urdu'
 } as const
 
 export type SupportedLanguageCode = keyof typeof SUPPORTED_LANGUAGES
 
+// Languages also commonly typed in Latin letters, and what that way of writing them is called;
+// each is detected as its own label (e.g. 'ta-rom') and can be shown in its native script
+export const ROMANIZED_LANGUAGES: Partial<Record<SupportedLanguageCode, string>> = {
+  'hi': 'Hinglish',
+  'ta': 'Tanglish',
+  'te': 'Tenglish',
+  'bn': 'Banglish',
+  'mr': 'Romanized Marathi',
+  'ur': 'Roman Urdu',
+  'ar': 'Arabizi',
+  'ru': 'Translit',
+  'ja': 'Romaji'
+}
+
+// Community roles, most privileged first, and what each one may do
+export const COMMUNITY_ROLES = ['owner', 'admin', 'moderator', 'member'] as const
+
+export const ROLE_PERMISSIONS = {
+  owner: [
+    'view_channels', 'send_messages', 'moderate_messages', 'manage_glossary',
+    'manage_channels', 'manage_translation', 'manage_roles', 'manage_community'
+  ],
+  admin: [
+    'view_channels', 'send_messages', 'moderate_messages', 'manage_glossary',
+    'manage_channels', 'manage_translation', 'manage_roles'
+  ],
+  moderator: ['view_channels', 'send_messages', 'moderate_messages', 'manage_glossary'],
+  member: ['view_channels', 'send_messages']
+} as const
+
 // Message status constants
 export const MESSAGE_STATUS = {
   SENT: 'sent',
@@ -82,7 +117,9 @@ export const MESSAGE_STATUS = {
 export const CACHE_CONFIG = {
   DEFAULT_TTL: 24 * 60 * 60 * 1000, // 24 hours in milliseconds
   MAX_ENTRIES: 10000,
-  CLEANUP_INTERVAL: 60 * 60 * 1000 // 1 hour in milliseconds
+  CLEANUP_INTERVAL: 60 * 60 * 1000, // 1 hour in milliseconds
+  MAX_IMPORT_ENTRIES: 50000, // Translation memory entries accepted by one import
+  MAX_EXPORT_ENTRIES: 50000 // Most recently used translation memory entries exported at once
 }
 
 // Translation configuration
@@ -90,7 +127,89 @@ export const TRANSLATION_CONFIG = {
   MAX_RETRIES: 3,
   RETRY_DELAY: 1000, // 1 second
   TIMEOUT: 10000, // 10 seconds
-  BATCH_SIZE: 10 // Maximum translations per batch
+  BATCH_SIZE: 10, // Maximum translations per batch
+  WORKER_POLL_INTERVAL: 1000, // 1 second between idle queue polls
+  JOB_LOCK_TIMEOUT: 60000, // Reclaim jobs whose worker has been silent for 1 minute
+  FAILED_JOB_COOLDOWN: 5 * 60 * 1000, // Jobs that ran out of retries are queued again when asked for after 5 minutes
+  FINISHED_JOB_TTL: 7 * 24 * 60 * 60 * 1000, // Completed and failed jobs are deleted after 7 days
+  DEFAULT_PROVIDER_CHAIN: ['lingo.dev', 'gemini'] // Overridable via TRANSLATION_PROVIDER_CHAIN
+}
+
+// Language detection priors from the sender and the channel
+export const LANGUAGE_DETECTION_CONFIG = {
+  RECENT_MESSAGES: 20, // Sender's latest messages whose languages are taken into account
+  CHANNEL_MESSAGES: 100, // Latest channel messages used to find its dominant language
+  PRIMARY_LANGUAGE_WEIGHT: 0.5,
+  RECENT_LANGUAGES_WEIGHT: 0.3,
+  CHANNEL_LANGUAGE_WEIGHT: 0.2,
+  PRIOR_FADE_LETTERS: 30 // Priors count half as much once a message has this many letters
+}
+
+// Sender and moderator corrections of a message's detected language
+export const LANGUAGE_CORRECTION_CONFIG = {
+  MAX_EXPORT_SIZE: 5000 // Newest corrections exported at once for detection tuning
+}
+
+// Names under which translation providers are registered
+export const TRANSLATION_PROVIDERS = {
+  LINGO: 'lingo.dev',
+  GEMINI: 'gemini',
+  LOCAL: 'local',
+  ECHO: 'echo'
+} as const
+
+// Human translation corrections
+export const CORRECTION_CONFIG = {
+  MAX_TRANSLATION_LENGTH: 4000,
+  MAX_REASON_LENGTH: 500,
+  MAX_LIST_SIZE: 100 // Corrections returned by one review queue or history request
+}
+
+// Attachment configuration
+export const ATTACHMENT_CONFIG = {
+  MAX_FILE_SIZE: 25 * 1024 * 1024, // 25MB
+  THUMBNAIL_SIZE: 320, // Longest edge of image thumbnails, in pixels
+  LOCAL_STORAGE_DIR: 'storage/attachments' // Relative to the working directory
+}
+
+// Text extraction and translation for attachments
+export const ATTACHMENT_TEXT_CONFIG = {
+  MAX_SOURCE_SIZE: 10 * 1024 * 1024, // Larger files are not read for text
+  MAX_TEXT_LENGTH: 4000 // Characters of extracted text kept and translated
+}
+
+// Storage backends for uploaded attachments
+export const ATTACHMENT_STORAGE_BACKENDS = {
+  LOCAL: 'local',
+  S3: 's3'
+} as const
+
+// Image types shown inline; anything else is downloaded
+export const INLINE_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+
+// Conversation configuration
+export const CONVERSATION_CONFIG = {
+  MIN_GROUP_SIZE: 3,
+  MAX_GROUP_SIZE: 20,
+  MAX_NAME_LENGTH: 80
+}
+
+// Community glossary configuration
+export const GLOSSARY_CONFIG = {
+  MAX_TERM_LENGTH: 100,
+  MAX_BULK_TERMS: 500, // Terms accepted by a single bulk add or import
+  MAX_IMPORT_SIZE: 1024 * 1024 // Bytes of an imported CSV/TBX file
+}
+
+export const GLOSSARY_TERM_CATEGORIES = ['technical', 'brand', 'proper_noun', 'custom'] as const
+
+export const GLOSSARY_CASE_RULES = ['match_source', 'as_written', 'lowercase', 'uppercase'] as const
+
+// Message search configuration
+export const SEARCH_CONFIG = {
+  DEFAULT_LIMIT: 20,
+  MAX_LIMIT: 50,
+  SNIPPET_RADIUS: 60 // Characters of context kept on each side of the first match
 }
 
 // Real-time configuration
@@ -74,6 +74,13 @@ export class RealtimeError extends ChatError {
   }
 }
 
+export class StorageError extends ChatError {
+  constructor(message: string, public originalError?: unknown) {
+    super(message, 'STORAGE_ERROR', 500)
+    this.name = 'StorageError'
+  }
+}
+
 /**
  * Handle and log errors consistently
  */
@@ -0,0 +1,136 @@
+// Content-type sniffing and file name handling for uploaded attachments
+
+import { INLINE_IMAGE_TYPES } from './constants'
+import { AttachmentTextSource } from '@/types'
+
+// Leading bytes of the binary formats we recognise; `offset` is where the signature starts
+const SIGNATURES: { mimeType: string; bytes: number[]; offset?: number }[] = [
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] }, // GIF8
+  { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+  { mimeType: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mimeType: 'application/gzip', bytes: [0x1f, 0x8b] },
+  { mimeType: 'audio/mpeg', bytes: [0x49, 0x44, 0x33] }, // ID3
+  { mimeType: 'audio/ogg', bytes: [0x4f, 0x67, 0x67, 0x53] }, // OggS
+  { mimeType: 'video/webm', bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+  { mimeType: 'video/mp4', bytes: [0x66, 0x74, 0x79, 0x70], offset: 4 } // ftyp
+]
+
+// RIFF containers are told apart by the form type at byte 8
+const RIFF_TYPES: Record<string, string> = {
+  WEBP: 'image/webp',
+  WAVE: 'audio/wav'
+}
+
+// Formats stored as ZIP archives; a declared type from this list is kept when the content is a ZIP
+const ZIP_BASED_TYPES = [
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/vnd.oasis.opendocument.text',
+  'application/vnd.oasis.opendocument.spreadsheet',
+  'application/epub+zip'
+]
+
+// Declared text types that are kept for text content; markup a browser would run is stored as plain text
+const TEXT_TYPES = ['text/plain', 'text/markdown', 'text/csv', 'application/json']
+
+const TEXT_SAMPLE_SIZE = 8192
+
+/**
+ * Work out an upload's content type from its leading bytes
+ * The declared type is only trusted where the bytes cannot tell formats apart (ZIP-based
+ * documents, plain-text flavours); unrecognised binary content is application/octet-stream
+ */
+export function sniffContentType(data: Uint8Array, declaredType = ''): string {
+  const declared = declaredType.split(';')[0].trim().toLowerCase()
+
+  const signature = SIGNATURES.find(({ bytes, offset = 0 }) => startsWith(data, bytes, offset))
+  if (signature) {
+    return signature.mimeType === 'application/zip' && ZIP_BASED_TYPES.includes(declared)
+      ? declared
+      : signature.mimeType
+  }
+
+  if (startsWith(data, [0x52, 0x49, 0x46, 0x46])) { // RIFF
+    const form = String.fromCharCode(...data.subarray(8, 12))
+    if (RIFF_TYPES[form]) {
+      return RIFF_TYPES[form]
+    }
+  }
+
+  if (isText(data)) {
+    return TEXT_TYPES.includes(declared) ? declared : 'text/plain'
+  }
+
+  return 'application/octet-stream'
+}
+
+/**
+ * Whether a content type is an image that is safe to show inline
+ */
+export function isInlineImage(mimeType: string): boolean {
+  return INLINE_IMAGE_TYPES.includes(mimeType)
+}
+
+/**
+ * How text can be read from a file of this type for translation, or null when it cannot
+ */
+export function getTextSource(mimeType: string): AttachmentTextSource | null {
+  if (TEXT_TYPES.includes(mimeType)) {
+    return 'text'
+  }
+  if (mimeType === 'application/pdf') {
+    return 'pdf'
+  }
+  return isInlineImage(mimeType) ? 'ocr' : null
+}
+
+/**
+ * Strip path components and control characters from an uploaded file name
+ */
+export function sanitizeFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop() || ''
+  const cleaned = base.replace(/[\u0000-\u001f\u007f"]/g, '').trim().slice(0, 255)
+  return cleaned || 'file'
+}
+
+/**
+ * Content-Disposition header value for a download, with an ASCII fallback name
+ */
+export function contentDisposition(name: string, inline: boolean): string {
+  const fallback = name.replace(/[^\x20-\x7e]/g, '_')
+  return `${inline ? 'inline' : 'attachment'}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(name)}`
+}
+
+/**
+ * Helper: Whether the data holds the given bytes at an offset
+ */
+function startsWith(data: Uint8Array, bytes: number[], offset = 0): boolean {
+  return data.length >= offset + bytes.length && bytes.every((byte, i) => data[offset + i] === byte)
+}
+
+/**
+ * Helper: Whether the start of the data reads as UTF-8 text without NUL bytes
+ */
+function isText(data: Uint8Array): boolean {
+  // Cut back to a character boundary so a truncated multi-byte character does not fail decoding
+  let end = Math.min(data.length, TEXT_SAMPLE_SIZE)
+  if (end < data.length) {
+    while (end > 0 && (data[end] & 0xc0) === 0x80) {
+      end--
+    }
+  }
+  const sample = data.subarray(0, end)
+  if (sample.includes(0)) {
+    return false
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample)
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,306 @@
+// Glossary import/export in CSV and TBX (TermBase eXchange)
+
+import { GlossaryTerm, GlossaryImportEntry, GlossaryFileFormat, GlossaryTermCategory, GlossaryCaseRule, LanguageCode } from '@/types'
+import { GLOSSARY_TERM_CATEGORIES, SUPPORTED_LANGUAGES } from './constants'
+import { ValidationError } from './errors'
+
+// CSV columns besides the term; every other column named after a language holds its approved translation
+const CSV_COLUMNS = ['term', 'category', 'preserve_case', 'case_rule'] as const
+
+// Leading characters that make spreadsheet applications treat a cell as a formula
+const CSV_FORMULA_PREFIX = /^[=+\-@]/
+
+/**
+ * Guess the format of an uploaded glossary from its content
+ */
+export function detectGlossaryFormat(content: string): GlossaryFileFormat {
+  return content.trimStart().startsWith('<') ? 'tbx' : 'csv'
+}
+
+/**
+ * Parse a glossary file in the given format
+ */
+export function parseGlossary(content: string, format: GlossaryFileFormat, sourceLang: LanguageCode = 'en'): GlossaryImportEntry[] {
+  return format === 'tbx' ? parseGlossaryTbx(content, sourceLang) : parseGlossaryCsv(content)
+}
+
+/**
+ * Serialize glossary terms in the given format
+ */
+export function serializeGlossary(terms: GlossaryTerm[], format: GlossaryFileFormat, sourceLang: LanguageCode = 'en'): string {
+  return format === 'tbx' ? toGlossaryTbx(terms, sourceLang) : toGlossaryCsv(terms)
+}
+
+/**
+ * Parse a CSV glossary
+ * With a header row starting with "term", recognised columns are read and language-code
+ * columns become approved translations; without one every row's first cell is a term
+ */
+export function parseGlossaryCsv(content: string): GlossaryImportEntry[] {
+  const rows = parseCsvRows(content).filter(row => row.some(cell => cell.trim()))
+  if (rows.length === 0) {
+    return []
+  }
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase())
+  if (header[0] !== 'term') {
+    return rows.map(row => ({ term: unescapeCsvFormula(row[0].trim()) }))
+  }
+
+  return rows.slice(1).map(row => {
+    const entry: GlossaryImportEntry = { term: '' }
+    const translations: Record<LanguageCode, string> = {}
+
+    header.forEach((column, index) => {
+      const value = unescapeCsvFormula((row[index] ?? '').trim())
+      if (!value) return
+
+      if (column === 'term') {
+        entry.term = value
+      } else if (column === 'category') {
+        entry.category = value.toLowerCase() as GlossaryTermCategory
+      } else if (column === 'preserve_case') {
+        entry.preserveCase = parseBoolean(value)
+      } else if (column === 'case_rule') {
+        entry.caseRule = value.toLowerCase() as GlossaryCaseRule
+      } else if (Object.hasOwn(SUPPORTED_LANGUAGES, column)) {
+        translations[column] = value
+      }
+    })
+
+    if (Object.keys(translations).length > 0) {
+      entry.translations = translations
+    }
+    return entry
+  })
+}
+
+/**
+ * Serialize glossary terms as CSV, with one column per language that has a translation
+ */
+export function toGlossaryCsv(terms: GlossaryTerm[]): string {
+  const languages = Array.from(new Set(terms.flatMap(t => Object.keys(t.translations || {})))).sort()
+  const lines = [[...CSV_COLUMNS, ...languages].join(',')]
+
+  for (const term of terms) {
+    lines.push([
+      term.term,
+      term.category,
+      String(term.preserveCase),
+      term.caseRule || '',
+      ...languages.map(lang => term.translations?.[lang] || '')
+    ].map(escapeCsvCell).join(','))
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Parse a TBX glossary (TBX-Basic v2 termEntry/langSet or v3 conceptEntry/langSec)
+ * The term in `sourceLang` (or the first language) is the glossary term; terms in
+ * other supported languages become its approved translations
+ */
+export function parseGlossaryTbx(content: string, sourceLang: LanguageCode = 'en'): GlossaryImportEntry[] {
+  if (!/<(?:martif|tbx)\b/i.test(content)) {
+    throw new ValidationError('Not a TBX document', 'content')
+  }
+
+  const entries: GlossaryImportEntry[] = []
+  const entryRegex = /<(termEntry|conceptEntry)\b[^>]*>([\s\S]*?)<\/\1>/g
+
+  for (const [, , body] of content.matchAll(entryRegex)) {
+    const languages: Array<{ lang: string; term: string }> = []
+    const langRegex = /<(langSet|langSec)\b[^>]*xml:lang="([^"]+)"[^>]*>([\s\S]*?)<\/\1>/g
+
+    for (const [, , lang, langBody] of body.matchAll(langRegex)) {
+      const term = langBody.match(/<term\b[^>]*>([\s\S]*?)<\/term>/)
+      if (term) {
+        languages.push({ lang: lang.toLowerCase().split(/[-_]/)[0], term: decodeXml(term[1]).trim() })
+      }
+    }
+    if (languages.length === 0) continue
+
+    const source = languages.find(l => l.lang === sourceLang) || languages[0]
+    const entry: GlossaryImportEntry = { term: source.term }
+
+    const translations: Record<LanguageCode, string> = {}
+    for (const { lang, term } of languages) {
+      if (lang !== source.lang && Object.hasOwn(SUPPORTED_LANGUAGES, lang) && term && !translations[lang]) {
+        translations[lang] = term
+      }
+    }
+    if (Object.keys(translations).length > 0) {
+      entry.translations = translations
+    }
+
+    const subject = readTbxField(body, 'descrip', 'subjectField')?.toLowerCase()
+    if (subject && (GLOSSARY_TERM_CATEGORIES as readonly string[]).includes(subject)) {
+      entry.category = subject as GlossaryTermCategory
+    }
+
+    const preserveCase = readTbxField(body, 'termNote', 'x-preserveCase')
+    if (preserveCase) {
+      entry.preserveCase = parseBoolean(preserveCase)
+    }
+
+    const caseRule = readTbxField(body, 'termNote', 'x-caseRule')
+    if (caseRule) {
+      entry.caseRule = caseRule as GlossaryCaseRule
+    }
+
+    entries.push(entry)
+  }
+
+  return entries
+}
+
+/**
+ * Serialize glossary terms as TBX (ISO 30042:2019, DCT style)
+ */
+export function toGlossaryTbx(terms: GlossaryTerm[], sourceLang: LanguageCode = 'en'): string {
+  const entries = terms.map((term, index) => {
+    const translations = Object.entries(term.translations || {})
+      .filter(([lang]) => lang !== sourceLang)
+      .map(([lang, value]) => [
+        `      <langSec xml:lang="${encodeXml(lang)}">`,
+        `        <termSec><term>${encodeXml(value)}</term></termSec>`,
+        '      </langSec>'
+      ].join('\n'))
+
+    return [
+      `    <conceptEntry id="c${index + 1}">`,
+      `      <descrip type="subjectField">${encodeXml(term.category)}</descrip>`,
+      `      <langSec xml:lang="${encodeXml(sourceLang)}">`,
+      '        <termSec>',
+      `          <term>${encodeXml(term.term)}</term>`,
+      `          <termNote type="x-preserveCase">${term.preserveCase}</termNote>`,
+      ...(term.caseRule ? [`          <termNote type="x-caseRule">${encodeXml(term.caseRule)}</termNote>`] : []),
+      '        </termSec>',
+      '      </langSec>',
+      ...translations,
+      '    </conceptEntry>'
+    ].join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tbx type="TBX-Basic" style="dct" xml:lang="${encodeXml(sourceLang)}" xmlns="urn:iso:std:iso:30042:ed-2">`,
+    '  <tbxHeader><fileDesc><sourceDesc><p>FlowTalk community glossary</p></sourceDesc></fileDesc></tbxHeader>',
+    '  <text><body>',
+    ...entries,
+    '  </body></text>',
+    '</tbx>',
+    ''
+  ].join('\n')
+}
+
+/**
+ * Helper: Split CSV text into rows of cells (RFC 4180 quoting)
+ */
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  // Ignore a byte order mark left by spreadsheet exports
+  const text = content.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && !cell) {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (quoted) {
+    throw new ValidationError('Unterminated quoted field in CSV', 'content')
+  }
+  if (cell || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
+
+/**
+ * Helper: Quote a CSV cell when it contains a separator, quote or line break
+ * Cells a spreadsheet would run as a formula get a leading apostrophe
+ */
+function escapeCsvCell(value: string): string {
+  const safe = CSV_FORMULA_PREFIX.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+/**
+ * Helper: Drop the apostrophe escapeCsvCell adds in front of formula-like cells
+ */
+function unescapeCsvFormula(value: string): string {
+  return value.startsWith("'") && CSV_FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value
+}
+
+/**
+ * Helper: Read yes/no style flags
+ */
+function parseBoolean(value: string): boolean | undefined {
+  const normalized = value.trim().toLowerCase()
+  if (['true', 'yes', '1'].includes(normalized)) return true
+  if (['false', 'no', '0'].includes(normalized)) return false
+  return undefined
+}
+
+/**
+ * Helper: Text of the first TBX data category element of a type, e.g. <descrip type="subjectField">
+ */
+function readTbxField(body: string, element: string, type: string): string | undefined {
+  const match = body.match(new RegExp(`<${element}\\b[^>]*type="${type}"[^>]*>([\\s\\S]*?)</${element}>`))
+  return match ? decodeXml(match[1]).trim() : undefined
+}
+
+/**
+ * Helper: Escape text for XML content and attributes
+ */
+function encodeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Helper: Unescape XML text, including CDATA sections and character references
+ */
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
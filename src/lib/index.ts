@@ -4,4 +4,9 @@ export * from './constants'
 export * from './errors'
 export * from './utils'
 export * from './mongodb'
-export * from './MessageParser'
\ No newline at end of file
+export * from './MessageParser'
+export * from './permissions'
+export * from './glossaryFormats'
+export * from './fileTypes'
+export * from './pdfText'
+export * from './transliteration'
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { MongoClient, Db } from 'mongodb'
+import { CACHE_CONFIG, TRANSLATION_CONFIG } from './constants'
 
 const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017'
 const MONGODB_DB_NAME = process.env.MONGODB_DB_NAME || 'flowtalk'
@@ -40,13 +41,51 @@ export async function initializeDatabase() {
   await database.collection('users').createIndex({ email: 1 }, { unique: true })
   await database.collection('users').createIndex({ username: 1 })
   
-  await database.collection('messages').createIndex({ channelId: 1, timestamp: 1 })
-  await database.collection('messages').createIndex({ senderId: 1 })
+  // _id is included so cursor pagination can break timestamp ties from the index
+  await database.collection('messages').createIndex({ channelId: 1, timestamp: 1, _id: 1 })
+  await database.collection('messages').createIndex({ senderId: 1, timestamp: -1 })
+  await database.collection('messages').createIndex({ parentMessageId: 1, timestamp: 1, _id: 1 })
+  await database.collection('messages').createIndex({ conversationId: 1, timestamp: 1, _id: 1 })
+  // Single text index over originals and translations so a query in any language can match;
+  // 'none' disables stemming and stop words, which are language-specific
+  await database.collection('messages').createIndex(
+    { content: 'text', 'translations.translatedContent': 'text' },
+    { name: 'message_text_search', default_language: 'none', weights: { content: 2, 'translations.translatedContent': 1 } }
+  )
   
   await database.collection('communities').createIndex({ name: 1 })
   await database.collection('communities').createIndex({ members: 1 })
   
   await database.collection('channels').createIndex({ communityId: 1 })
+
+  await database.collection('conversations').createIndex({ participants: 1, lastMessageAt: -1 })
+
+  // Terms are unique per community regardless of case
+  await database.collection('glossary_terms').createIndex({ communityId: 1, normalizedTerm: 1 }, { unique: true })
+  
+  // Translation memory keys already encode language pair, content and glossary version
+  await database.collection('translation_memory').createIndex({ key: 1 }, { unique: true })
+  // Entries unused for the cache TTL expire, including keys for superseded glossary versions
+  await database.collection('translation_memory').createIndex(
+    { updatedAt: 1 },
+    { expireAfterSeconds: CACHE_CONFIG.DEFAULT_TTL / 1000 }
+  )
+
+  // One job per message/language pair; workers claim runnable jobs in runAt order
+  await database.collection('translation_jobs').createIndex({ messageId: 1, targetLanguage: 1 }, { unique: true })
+  await database.collection('translation_jobs').createIndex({ status: 1, runAt: 1 })
+  // Finished jobs are kept a while so message status and deduplication still see them, then expire
+  await database.collection('translation_jobs').createIndex(
+    { finishedAt: 1 },
+    { expireAfterSeconds: TRANSLATION_CONFIG.FINISHED_JOB_TTL / 1000 }
+  )
+
+  // Moderators page through a community's review queue; readers see a message's correction history
+  await database.collection('translation_corrections').createIndex({ communityId: 1, status: 1, createdAt: -1 })
+  await database.collection('translation_corrections').createIndex({ messageId: 1, createdAt: -1 })
+
+  // Language corrections are exported newest first for detection tuning
+  await database.collection('language_corrections').createIndex({ createdAt: -1 })
   
   console.log('Database indexes created successfully')
 }
\ No newline at end of file
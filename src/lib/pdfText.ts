@@ -0,0 +1,366 @@
+// Best-effort text extraction from PDF files, without external dependencies
+
+import { inflateSync, constants as zlibConstants } from 'zlib'
+import { ATTACHMENT_TEXT_CONFIG } from './constants'
+
+type Operand = { kind: 'string'; value: string } | { kind: 'number'; value: number } | { kind: 'array'; items: Operand[] } | { kind: 'other' }
+
+// Character codes of the document's fonts mapped to Unicode, keyed by the code in uppercase hex
+interface UnicodeMap {
+  codes: Map<string, string>
+  widths: number[] // Code lengths in bytes, longest first
+}
+
+// Cap on codes read from one bfrange entry, so a malformed table cannot exhaust memory
+const MAX_RANGE_SIZE = 0x10000
+
+// Bytes of decoded streams read from one document, so a compressed bomb cannot exhaust memory.
+// Content streams spend most of their bytes on operators, so this allows far more than the text kept
+const MAX_DECODED_SIZE = ATTACHMENT_TEXT_CONFIG.MAX_TEXT_LENGTH * 1024
+
+/**
+ * Pull the text out of a PDF
+ * Reads the text operators of every content stream (inflating FlateDecode streams) and maps
+ * character codes through the fonts' ToUnicode tables where there are any. All fonts share
+ * one table, and scanned pages have no text, so the result is a preview rather than a copy
+ */
+export function extractPdfText(data: Buffer): string {
+  const streams = readStreams(data)
+
+  const unicode: UnicodeMap = { codes: new Map(), widths: [] }
+  for (const stream of streams) {
+    if (stream.includes('beginbfchar') || stream.includes('beginbfrange')) {
+      readToUnicode(stream, unicode)
+    }
+  }
+  unicode.widths = [...new Set([...unicode.codes.keys()].map(code => code.length / 2))].sort((a, b) => b - a)
+
+  // Only as much text as is kept is read; one character more marks it as truncated
+  const pages: string[] = []
+  let length = 0
+  for (const stream of streams) {
+    if (length > ATTACHMENT_TEXT_CONFIG.MAX_TEXT_LENGTH) {
+      break
+    }
+    if (/\bBT\b/.test(stream)) {
+      const page = readTextOperators(stream, unicode)
+      pages.push(page)
+      length += page.trim().length
+    }
+  }
+  const text = pages.join('\n')
+
+  return text
+    .replace(/[^\S\n]+/g, ' ')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * Helper: Decoded contents of the document's streams as byte strings, skipping images, fonts
+ * and filters other than FlateDecode, up to MAX_DECODED_SIZE bytes in all
+ */
+function readStreams(data: Buffer): string[] {
+  const raw = data.toString('latin1')
+  const streams: string[] = []
+  let remaining = MAX_DECODED_SIZE
+  const streamStart = /stream(?:\r\n|\n|\r)/g
+
+  let match: RegExpExecArray | null
+  while (remaining > 0 && (match = streamStart.exec(raw))) {
+    const dictEnd = raw.lastIndexOf('>>', match.index)
+    if (dictEnd === -1 || raw.slice(dictEnd + 2, match.index).trim()) {
+      continue // "endstream", or "stream" inside content
+    }
+    const dict = raw.slice(findDictionaryStart(raw, dictEnd), dictEnd + 2)
+
+    const start = match.index + match[0].length
+    const end = raw.indexOf('endstream', start)
+    if (end === -1) {
+      break
+    }
+    streamStart.lastIndex = end
+
+    if (/\/Subtype\s*\/Image|\/Length[123]\b/.test(dict)) {
+      continue
+    }
+    const filters = dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1].match(/\/\w+/g) || []
+    if (filters.some(filter => filter !== '/FlateDecode') || filters.length > 1) {
+      continue
+    }
+
+    const bytes = data.subarray(start, end)
+    let decoded: Buffer
+    try {
+      decoded = filters.length
+        ? inflateSync(bytes, { finishFlush: zlibConstants.Z_SYNC_FLUSH, maxOutputLength: remaining })
+        : bytes
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+        break // Everything left to read would not fit
+      }
+      continue // Damaged stream; the rest of the document may still have text
+    }
+
+    if (decoded.length > remaining) {
+      break
+    }
+    remaining -= decoded.length
+    streams.push(decoded.toString('latin1'))
+  }
+
+  return streams
+}
+
+/**
+ * Helper: Position of the "<<" that opens the dictionary closed at dictEnd
+ */
+function findDictionaryStart(raw: string, dictEnd: number): number {
+  let depth = 0
+  for (let i = dictEnd; i > 0; i--) {
+    if (raw[i] === '>' && raw[i - 1] === '>') {
+      depth++
+      i--
+    } else if (raw[i] === '<' && raw[i - 1] === '<') {
+      depth--
+      i--
+      if (depth === 0) {
+        return i
+      }
+    }
+  }
+  return 0
+}
+
+/**
+ * Helper: Add a ToUnicode CMap's bfchar and bfrange entries to the map
+ */
+function readToUnicode(cmap: string, unicode: UnicodeMap): void {
+  for (const [, section] of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, code, target] of section.matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]*)>/g)) {
+      unicode.codes.set(code.toUpperCase(), utf16HexToString(target))
+    }
+  }
+
+  for (const [, section] of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const [, low, high, target, targets] of section.matchAll(
+      /<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]+)>\s*(?:<([0-9A-Fa-f]*)>|\[([^\]]*)\])/g
+    )) {
+      const first = parseInt(low, 16)
+      const count = Math.min(parseInt(high, 16) - first + 1, MAX_RANGE_SIZE)
+      const listed = targets ? [...targets.matchAll(/<([0-9A-Fa-f]*)>/g)].map(([, hex]) => utf16HexToString(hex)) : []
+      const base = target ? utf16HexToString(target) : ''
+
+      for (let i = 0; i < count; i++) {
+        const code = (first + i).toString(16).toUpperCase().padStart(low.length, '0')
+        const text = targets
+          ? listed[i]
+          : base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + i)
+        if (text !== undefined) {
+          unicode.codes.set(code, text)
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Helper: Text shown by a content stream's Tj, TJ, ' and " operators, with line breaks
+ * where the text position moves down
+ */
+function readTextOperators(content: string, unicode: UnicodeMap): string {
+  let text = ''
+  let operands: Operand[] = []
+  const arrays: Operand[][] = []
+  let lastY: number | null = null
+  let i = 0
+
+  const push = (operand: Operand) => {
+    (arrays.length ? arrays[arrays.length - 1] : operands).push(operand)
+  }
+  const show = (operand: Operand | undefined) => {
+    if (operand?.kind === 'string') {
+      text += decodeString(operand.value, unicode)
+    } else if (operand?.kind === 'array') {
+      for (const item of operand.items) {
+        if (item.kind === 'string') {
+          text += decodeString(item.value, unicode)
+        } else if (item.kind === 'number' && item.value < -200) {
+          text += ' ' // A wide negative kern separates words
+        }
+      }
+    }
+  }
+
+  while (i < content.length) {
+    const char = content[i]
+
+    if (/\s/.test(char)) {
+      i++
+    } else if (char === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++
+    } else if (char === '(') {
+      const [value, next] = readLiteralString(content, i)
+      push({ kind: 'string', value })
+      i = next
+    } else if (char === '<' && content[i + 1] !== '<') {
+      const end = content.indexOf('>', i)
+      const hex = content.slice(i + 1, end === -1 ? content.length : end).replace(/\s/g, '')
+      push({ kind: 'string', value: hexToBytes(hex) })
+      i = end === -1 ? content.length : end + 1
+    } else if (char === '[') {
+      arrays.push([])
+      i++
+    } else if (char === ']') {
+      const items = arrays.pop() || []
+      push({ kind: 'array', items })
+      i++
+    } else if (char === '<' || char === '>' || char === '{' || char === '}') {
+      push({ kind: 'other' })
+      i += char === '<' || char === '>' ? 2 : 1
+    } else {
+      let end = i + 1
+      while (end < content.length && !/[\s()<>[\]{}/%]/.test(content[end])) end++
+      const token = content.slice(i, end)
+      i = end
+
+      if (char === '/') {
+        push({ kind: 'other' })
+      } else if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+        push({ kind: 'number', value: parseFloat(token) })
+      } else if (arrays.length === 0) {
+        const last = operands[operands.length - 1]
+        switch (token) {
+          case 'Tj':
+          case 'TJ':
+            show(last)
+            break
+          case '\'':
+          case '"':
+            text += '\n'
+            show(last)
+            break
+          case 'T*':
+          case 'ET':
+            text += '\n'
+            break
+          case 'Td':
+          case 'TD': {
+            const ty = operands[operands.length - 1]
+            text += ty?.kind === 'number' && ty.value !== 0 ? '\n' : ' '
+            break
+          }
+          case 'Tm': {
+            const y = operands[operands.length - 1]
+            const value = y?.kind === 'number' ? y.value : null
+            text += lastY !== null && value !== lastY ? '\n' : ' '
+            lastY = value
+            break
+          }
+        }
+        operands = []
+      }
+    }
+  }
+
+  return text
+}
+
+/**
+ * Helper: Bytes of a literal string starting at "(", and the position after its ")"
+ */
+function readLiteralString(content: string, start: number): [string, number] {
+  const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\' }
+  let depth = 1
+  let value = ''
+  let i = start + 1
+
+  while (i < content.length) {
+    const char = content[i]
+    if (char === '\\') {
+      const next = content[i + 1]
+      if (next in escapes) {
+        value += escapes[next]
+        i += 2
+      } else if (/[0-7]/.test(next)) {
+        const octal = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0]
+        value += String.fromCharCode(parseInt(octal, 8) & 0xff)
+        i += 1 + octal.length
+      } else if (next === '\r' || next === '\n') {
+        i += next === '\r' && content[i + 2] === '\n' ? 3 : 2 // Line continuation
+      } else {
+        i++
+      }
+    } else {
+      if (char === '(') depth++
+      if (char === ')' && --depth === 0) {
+        return [value, i + 1]
+      }
+      value += char
+      i++
+    }
+  }
+
+  return [value, i]
+}
+
+/**
+ * Helper: Text of a string's bytes, through the ToUnicode map when one covers its codes
+ */
+function decodeString(bytes: string, unicode: UnicodeMap): string {
+  if (bytes.startsWith('\u00fe\u00ff')) { // UTF-16BE byte order mark
+    let text = ''
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      text += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1))
+    }
+    return text
+  }
+
+  if (unicode.codes.size === 0) {
+    return bytes
+  }
+
+  let text = ''
+  let i = 0
+  while (i < bytes.length) {
+    const width = unicode.widths.find(w => {
+      return i + w <= bytes.length && unicode.codes.has(bytesToHex(bytes.slice(i, i + w)))
+    })
+    if (width) {
+      text += unicode.codes.get(bytesToHex(bytes.slice(i, i + width)))
+      i += width
+    } else {
+      text += bytes[i]
+      i++
+    }
+  }
+  return text
+}
+
+function hexToBytes(hex: string): string {
+  const padded = hex.length % 2 ? hex + '0' : hex
+  let bytes = ''
+  for (let i = 0; i < padded.length; i += 2) {
+    bytes += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16))
+  }
+  return bytes
+}
+
+function bytesToHex(bytes: string): string {
+  let hex = ''
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes.charCodeAt(i).toString(16).toUpperCase().padStart(2, '0')
+  }
+  return hex
+}
+
+function utf16HexToString(hex: string): string {
+  let text = ''
+  for (let i = 0; i + 3 < hex.length; i += 4) {
+    text += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16))
+  }
+  return text
+}
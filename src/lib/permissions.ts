@@ -0,0 +1,46 @@
+// Community role and permission checks
+
+import { CommunityPermission, CommunityRole } from '@/types'
+import { COMMUNITY_ROLES, ROLE_PERMISSIONS } from './constants'
+
+/**
+ * Check whether a role grants a permission
+ */
+export function hasPermission(role: CommunityRole | null | undefined, permission: CommunityPermission): boolean {
+  if (!role) return false
+  return (ROLE_PERMISSIONS[role] as readonly CommunityPermission[]).includes(permission)
+}
+
+/**
+ * Check whether a string is a known community role
+ */
+export function isCommunityRole(value: unknown): value is CommunityRole {
+  return typeof value === 'string' && (COMMUNITY_ROLES as readonly string[]).includes(value)
+}
+
+/**
+ * Check whether one role ranks strictly above another
+ */
+export function outranks(role: CommunityRole, other: CommunityRole): boolean {
+  return COMMUNITY_ROLES.indexOf(role) < COMMUNITY_ROLES.indexOf(other)
+}
+
+/**
+ * Check whether an actor may change a member's role (or remove them)
+ * Requires manage_roles and ranking above both the current and the new role;
+ * ownership is never granted or taken away this way
+ */
+export function canAssignRole(actorRole: CommunityRole, currentRole: CommunityRole, newRole?: CommunityRole): boolean {
+  if (!hasPermission(actorRole, 'manage_roles')) return false
+  if (currentRole === 'owner' || newRole === 'owner') return false
+  if (!outranks(actorRole, currentRole)) return false
+  return !newRole || outranks(actorRole, newRole)
+}
+
+/**
+ * Check whether a user is a platform administrator (listed in ADMIN_USER_IDS)
+ */
+export function isPlatformAdmin(userId: string): boolean {
+  const adminIds = (process.env.ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean)
+  return adminIds.includes(userId)
+}
@@ -0,0 +1,466 @@
+// Rule-based transliteration of romanized chat text (Hinglish, Arabizi, romaji...) into native scripts
+
+/**
+ * Converts one lowercase word; null leaves the word as it was typed
+ */
+type WordConverter = (word: string) => string | null
+
+// Code, links, mentions, hashtags and Latin words; only words are converted
+const TOKEN_PATTERN = /```[\s\S]*?```|`[^`\n]+`|https?:\/\/\S+|[@#][\w-]+|[A-Za-z0-9]+(?:'[A-Za-z0-9]+)*'?/g
+const WORD_PATTERN = /^[A-Za-z0-9']+$/
+const ACRONYM_PATTERN = /^[A-Z0-9]{2,}$/
+
+/**
+ * Split a word into the longest spellings a table knows, or null when a letter is not in it
+ */
+function splitSpellings(word: string, spellings: string[]): string[] | null {
+  const parts: string[] = []
+  let i = 0
+  while (i < word.length) {
+    const spelling = spellings.find(candidate => word.startsWith(candidate, i))
+    if (!spelling) {
+      return null
+    }
+    parts.push(spelling)
+    i += spelling.length
+  }
+  return parts
+}
+
+const byLength = (spellings: string[]) => [...spellings].sort((a, b) => b.length - a.length)
+
+// --- Indic scripts -------------------------------------------------------------------------
+// Brahmic blocks share Devanagari's layout, so letters are offsets from the start of the block
+
+type IndicVowel = 'a' | 'aa' | 'i' | 'ii' | 'u' | 'uu' | 'e' | 'ai' | 'o' | 'au' | 'eShort' | 'oShort'
+
+// Independent letter and the sign written after a consonant; the inherent a has no sign
+const INDIC_VOWELS: Record<IndicVowel, [number, number | null]> = {
+  a: [0x05, null],
+  aa: [0x06, 0x3e],
+  i: [0x07, 0x3f],
+  ii: [0x08, 0x40],
+  u: [0x09, 0x41],
+  uu: [0x0a, 0x42],
+  e: [0x0f, 0x47],
+  ai: [0x10, 0x48],
+  o: [0x13, 0x4b],
+  au: [0x14, 0x4c],
+  eShort: [0x0e, 0x46],
+  oShort: [0x12, 0x4a]
+}
+
+const VIRAMA = 0x4d
+const ANUSVARA = 0x02
+const NUKTA = 0x3c
+
+// Consonants, with the nukta marking sounds borrowed from Persian and English (f, z, q)
+const INDIC_CONSONANTS: Record<string, { offsets: number[]; nukta?: boolean }> = {
+  chh: { offsets: [0x1b] },
+  kh: { offsets: [0x16] },
+  gh: { offsets: [0x18] },
+  ch: { offsets: [0x1a] },
+  jh: { offsets: [0x1d] },
+  th: { offsets: [0x25] },
+  dh: { offsets: [0x27] },
+  ph: { offsets: [0x2b] },
+  bh: { offsets: [0x2d] },
+  sh: { offsets: [0x36] },
+  zh: { offsets: [0x1c], nukta: true },
+  k: { offsets: [0x15] },
+  c: { offsets: [0x15] },
+  q: { offsets: [0x15], nukta: true },
+  g: { offsets: [0x17] },
+  j: { offsets: [0x1c] },
+  z: { offsets: [0x1c], nukta: true },
+  t: { offsets: [0x24] },
+  d: { offsets: [0x26] },
+  n: { offsets: [0x28] },
+  p: { offsets: [0x2a] },
+  f: { offsets: [0x2b], nukta: true },
+  b: { offsets: [0x2c] },
+  m: { offsets: [0x2e] },
+  y: { offsets: [0x2f] },
+  r: { offsets: [0x30] },
+  l: { offsets: [0x32] },
+  v: { offsets: [0x35] },
+  w: { offsets: [0x35] },
+  s: { offsets: [0x38] },
+  h: { offsets: [0x39] },
+  x: { offsets: [0x15, 0x38] }
+}
+
+const NASALS = [0x28, 0x2e]
+
+// Consonants a nasal joins as a conjunct rather than turning into an anusvara
+const SONORANTS = [0x28, 0x2e, 0x2f, 0x30, 0x32, 0x35, 0x39]
+
+// Long vowels a word-final n only nasalizes (hain, mein, hun), where finalNasalAnusvara is set
+const NASALIZED_VOWELS: IndicVowel[] = ['ai', 'ii', 'e', 'u', 'uu', 'o']
+
+const COMMON_VOWEL_SPELLINGS: Record<string, IndicVowel> = {
+  aa: 'aa', ai: 'ai', au: 'au', ee: 'ii', ii: 'ii', oo: 'uu', uu: 'uu',
+  a: 'a', i: 'i', u: 'u', e: 'e', o: 'o'
+}
+
+interface IndicScript {
+  base: number
+  vowels: Record<string, IndicVowel>
+  consonants?: Record<string, number> // Latin spellings read differently in this language
+  substitutes?: Record<number, number> // Letters the script lacks, and the one written instead
+  nukta?: boolean
+  nasalAnusvara?: boolean // n or m before a consonant is written as an anusvara
+  finalVirama?: boolean // A word-final consonant is marked as having no vowel
+  longFinalA?: boolean // A word-final a is read as aa (Hinglish "mera")
+  inherentO?: boolean // o inside a word is the inherent vowel (Banglish "kotha")
+  finalNasalAnusvara?: boolean // A final n after a long vowel nasalizes it (Hinglish "hain")
+  alveolarN?: boolean // n inside a word is the alveolar ன, except before the dental த (Tamil)
+}
+
+const DEVANAGARI: Omit<IndicScript, 'nukta'> = {
+  base: 0x900,
+  vowels: { ...COMMON_VOWEL_SPELLINGS, ei: 'e' },
+  nasalAnusvara: true,
+  longFinalA: true,
+  finalNasalAnusvara: true
+}
+
+const INDIC_SCRIPTS: Record<string, IndicScript> = {
+  hi: { ...DEVANAGARI, nukta: true },
+  mr: DEVANAGARI,
+  bn: {
+    base: 0x980,
+    vowels: { aa: 'aa', ee: 'ii', ii: 'ii', oo: 'uu', uu: 'uu', a: 'aa', i: 'i', u: 'u', e: 'e', o: 'o' },
+    substitutes: { 0x33: 0x32, 0x35: 0x2c },
+    nukta: true,
+    inherentO: true
+  },
+  ta: {
+    base: 0xb80,
+    vowels: { ...COMMON_VOWEL_SPELLINGS, e: 'eShort', o: 'oShort' },
+    consonants: { t: 0x1f, d: 0x1f, zh: 0x34 },
+    // Tamil writes voiced and aspirated stops with the plain letter
+    substitutes: {
+      0x16: 0x15, 0x17: 0x15, 0x18: 0x15, 0x1b: 0x1a, 0x1d: 0x1c, 0x20: 0x1f, 0x21: 0x1f, 0x22: 0x1f,
+      0x25: 0x24, 0x26: 0x24, 0x27: 0x24, 0x2b: 0x2a, 0x2c: 0x2a, 0x2d: 0x2a
+    },
+    finalVirama: true,
+    alveolarN: true
+  },
+  te: {
+    base: 0xc00,
+    vowels: { ...COMMON_VOWEL_SPELLINGS, e: 'eShort', o: 'oShort' },
+    nasalAnusvara: true,
+    finalVirama: true
+  }
+}
+
+type IndicUnit = { vowel: IndicVowel } | { consonant: number; nukta: boolean }
+
+function indicConverter(script: IndicScript): WordConverter {
+  const spellings = byLength([...Object.keys(script.vowels), ...Object.keys(INDIC_CONSONANTS)])
+  const char = (offset: number) => String.fromCharCode(script.base + offset)
+
+  return (word) => {
+    const parts = splitSpellings(word, spellings)
+    if (!parts) {
+      return null
+    }
+
+    const units = parts.flatMap((part): IndicUnit[] => {
+      if (part in script.vowels) {
+        return [{ vowel: script.vowels[part] }]
+      }
+      const { offsets, nukta = false } = INDIC_CONSONANTS[part]
+      const override = script.consonants?.[part]
+      return (override !== undefined ? [override] : offsets).map(offset => ({
+        consonant: script.substitutes?.[offset] ?? offset,
+        nukta: nukta && override === undefined
+      }))
+    })
+
+    let output = ''
+    units.forEach((unit, i) => {
+      const previous = units[i - 1]
+      const next = units[i + 1]
+
+      if ('vowel' in unit) {
+        let vowel = unit.vowel
+        if (previous && 'consonant' in previous) {
+          if (vowel === 'a' && !next && script.longFinalA) vowel = 'aa'
+          if (vowel === 'o' && next && script.inherentO) vowel = 'a'
+          const sign = INDIC_VOWELS[vowel][1]
+          output += sign === null ? '' : char(sign)
+        } else {
+          output += char(INDIC_VOWELS[vowel][0])
+        }
+        return
+      }
+
+      const isNasal = NASALS.includes(unit.consonant)
+      if (isNasal && previous && 'vowel' in previous) {
+        const beforeConsonant = next && 'consonant' in next && !SONORANTS.includes(next.consonant)
+        const nasalizesVowel = !next && i > 1 && NASALIZED_VOWELS.includes(previous.vowel)
+        if ((beforeConsonant && script.nasalAnusvara) || (nasalizesVowel && script.finalNasalAnusvara)) {
+          output += char(ANUSVARA)
+          return
+        }
+      }
+
+      let consonant = unit.consonant
+      if (script.alveolarN && consonant === 0x28 && previous && !(next && 'consonant' in next && next.consonant === 0x24)) {
+        consonant = 0x29
+      }
+
+      output += char(consonant) + (unit.nukta && script.nukta ? char(NUKTA) : '')
+      if ((next && 'consonant' in next) || (!next && script.finalVirama)) {
+        output += char(VIRAMA)
+      }
+    })
+
+    return output
+  }
+}
+
+// --- Urdu and Arabic -----------------------------------------------------------------------
+
+interface ArabicScript {
+  consonants: Record<string, string>
+  vowels: Record<string, { initial: string; medial: string; final: string }>
+  finalNasal?: { letter: string; after: string[] } // A final n after these vowels only nasalizes them (Urdu nun ghunna)
+}
+
+const URDU_LONG_I = { initial: 'ای', medial: 'ی', final: 'ی' }
+const URDU_LONG_U = { initial: 'او', medial: 'و', final: 'و' }
+
+// Short a, i and u are not written inside a word; Urdu e and o are always long
+const ARABIC_SCRIPTS: Record<string, ArabicScript> = {
+  ur: {
+    consonants: {
+      chh: 'چھ', kh: 'خ', gh: 'غ', sh: 'ش', ch: 'چ', zh: 'ژ', th: 'تھ', ph: 'پھ', bh: 'بھ', dh: 'دھ', jh: 'جھ',
+      b: 'ب', p: 'پ', t: 'ت', j: 'ج', d: 'د', r: 'ر', z: 'ز', s: 'س', f: 'ف', q: 'ق', k: 'ک', c: 'ک',
+      g: 'گ', l: 'ل', m: 'م', n: 'ن', v: 'و', w: 'و', h: 'ہ', y: 'ی', x: 'کس'
+    },
+    vowels: {
+      aa: { initial: 'آ', medial: 'ا', final: 'ا' },
+      ai: { initial: 'ای', medial: 'ی', final: 'ے' },
+      ee: URDU_LONG_I, ii: URDU_LONG_I, ei: URDU_LONG_I,
+      oo: URDU_LONG_U, uu: URDU_LONG_U, au: URDU_LONG_U, ou: URDU_LONG_U, o: URDU_LONG_U,
+      e: { initial: 'ای', medial: 'ی', final: 'ے' },
+      a: { initial: 'ا', medial: '', final: 'ا' },
+      i: { initial: 'ا', medial: '', final: 'ی' },
+      u: { initial: 'ا', medial: '', final: 'و' }
+    },
+    finalNasal: { letter: 'ں', after: ['aa', 'ai', 'ee', 'ii', 'ei', 'e', 'o', 'oo', 'uu', 'au', 'ou', 'u'] }
+  },
+  ar: {
+    // Arabizi writes the letters Latin lacks as digits that look like them
+    consonants: {
+      kh: 'خ', gh: 'غ', sh: 'ش', th: 'ث', dh: 'ذ',
+      '2': 'ء', '3': 'ع', '5': 'خ', '6': 'ط', '7': 'ح', '8': 'غ', '9': 'ق',
+      b: 'ب', p: 'ب', t: 'ت', j: 'ج', g: 'ج', d: 'د', r: 'ر', z: 'ز', s: 'س', f: 'ف', v: 'ف', q: 'ق',
+      k: 'ك', c: 'ك', l: 'ل', m: 'م', n: 'ن', w: 'و', h: 'ه', y: 'ي', x: 'كس'
+    },
+    vowels: {
+      aa: { initial: 'آ', medial: 'ا', final: 'ا' },
+      ee: { initial: 'إي', medial: 'ي', final: 'ي' },
+      ii: { initial: 'إي', medial: 'ي', final: 'ي' },
+      ai: { initial: 'اي', medial: 'ي', final: 'ي' },
+      ei: { initial: 'اي', medial: 'ي', final: 'ي' },
+      oo: { initial: 'او', medial: 'و', final: 'و' },
+      ou: { initial: 'او', medial: 'و', final: 'و' },
+      uu: { initial: 'او', medial: 'و', final: 'و' },
+      a: { initial: 'ا', medial: '', final: 'ا' },
+      e: { initial: 'ا', medial: '', final: 'ي' },
+      i: { initial: 'ا', medial: '', final: 'ي' },
+      o: { initial: 'ا', medial: '', final: 'و' },
+      u: { initial: 'ا', medial: '', final: 'و' }
+    }
+  }
+}
+
+function arabicConverter(script: ArabicScript): WordConverter {
+  const spellings = byLength([...Object.keys(script.vowels), ...Object.keys(script.consonants)])
+
+  return (word) => {
+    const parts = splitSpellings(word, spellings)
+    if (!parts) {
+      return null
+    }
+
+    const last = parts.length - 1
+    const nasal = script.finalNasal && last > 1 && parts[last] === 'n' && script.finalNasal.after.includes(parts[last - 1])
+      ? script.finalNasal.letter
+      : null
+
+    let output = ''
+    parts.forEach((part, i) => {
+      const vowel = script.vowels[part]
+      if (!vowel) {
+        // Doubled consonants are written once; the shadda marking them is left out, like short vowels
+        if (part === parts[i - 1]) return
+
+        if (nasal && i === last) {
+          output += nasal
+        } else {
+          output += part === '2' && i === 0 ? 'أ' : script.consonants[part]
+        }
+        return
+      }
+
+      if (i === 0) {
+        output += vowel.initial
+      } else if (i === last) {
+        output += vowel.final
+      } else if (nasal && i === last - 1) {
+        // Written long before the nasal, as in Roman Urdu "hun" and "kyun"
+        output += vowel.medial || vowel.final
+      } else {
+        output += vowel.medial
+      }
+    })
+
+    return output
+  }
+}
+
+// --- Russian -------------------------------------------------------------------------------
+
+const CYRILLIC: Record<string, string> = {
+  shch: 'щ', sch: 'щ', zh: 'ж', kh: 'х', ts: 'ц', ch: 'ч', sh: 'ш',
+  yu: 'ю', ya: 'я', yo: 'ё', ye: 'е', ju: 'ю', ja: 'я', jo: 'ё',
+  a: 'а', b: 'б', v: 'в', g: 'г', d: 'д', e: 'е', z: 'з', i: 'и', j: 'й', k: 'к', l: 'л', m: 'м',
+  n: 'н', o: 'о', p: 'п', r: 'р', s: 'с', t: 'т', u: 'у', f: 'ф', h: 'х', c: 'ц', w: 'в', x: 'кс',
+  q: 'к', y: 'ы', "'": 'ь'
+}
+const CYRILLIC_SPELLINGS = byLength(Object.keys(CYRILLIC))
+const LATIN_VOWELS = 'aeiouy'
+
+const toCyrillic: WordConverter = (word) => {
+  if (/\d/.test(word)) {
+    return null
+  }
+  const parts = splitSpellings(word, CYRILLIC_SPELLINGS)
+  if (!parts) {
+    return null
+  }
+
+  return parts.map((part, i) => {
+    const previous = parts[i - 1]
+    // y is ы after a consonant and й after a vowel or at the start of a word
+    if (part === 'y' && (!previous || LATIN_VOWELS.includes(previous[previous.length - 1]))) return 'й'
+    // A word-initial e is э (eto, etot)
+    if (part === 'e' && i === 0) return 'э'
+    return CYRILLIC[part]
+  }).join('')
+}
+
+// --- Japanese ------------------------------------------------------------------------------
+
+const KANA: Record<string, string> = {
+  a: 'あ', i: 'い', u: 'う', e: 'え', o: 'お',
+  ka: 'か', ki: 'き', ku: 'く', ke: 'け', ko: 'こ', ga: 'が', gi: 'ぎ', gu: 'ぐ', ge: 'げ', go: 'ご',
+  sa: 'さ', shi: 'し', si: 'し', su: 'す', se: 'せ', so: 'そ', za: 'ざ', ji: 'じ', zi: 'じ', zu: 'ず', ze: 'ぜ', zo: 'ぞ',
+  ta: 'た', chi: 'ち', ti: 'ち', tsu: 'つ', tu: 'つ', te: 'て', to: 'と', da: 'だ', di: 'ぢ', du: 'づ', de: 'で', do: 'ど',
+  na: 'な', ni: 'に', nu: 'ぬ', ne: 'ね', no: 'の',
+  ha: 'は', hi: 'ひ', fu: 'ふ', hu: 'ふ', he: 'へ', ho: 'ほ', ba: 'ば', bi: 'び', bu: 'ぶ', be: 'べ', bo: 'ぼ',
+  pa: 'ぱ', pi: 'ぴ', pu: 'ぷ', pe: 'ぺ', po: 'ぽ', ma: 'ま', mi: 'み', mu: 'む', me: 'め', mo: 'も',
+  ya: 'や', yu: 'ゆ', yo: 'よ', ra: 'ら', ri: 'り', ru: 'る', re: 'れ', ro: 'ろ', wa: 'わ', wo: 'を',
+  kya: 'きゃ', kyu: 'きゅ', kyo: 'きょ', gya: 'ぎゃ', gyu: 'ぎゅ', gyo: 'ぎょ',
+  sha: 'しゃ', shu: 'しゅ', sho: 'しょ', she: 'しぇ', ja: 'じゃ', ju: 'じゅ', jo: 'じょ', je: 'じぇ',
+  cha: 'ちゃ', chu: 'ちゅ', cho: 'ちょ', che: 'ちぇ', nya: 'にゃ', nyu: 'にゅ', nyo: 'にょ',
+  hya: 'ひゃ', hyu: 'ひゅ', hyo: 'ひょ', bya: 'びゃ', byu: 'びゅ', byo: 'びょ', pya: 'ぴゃ', pyu: 'ぴゅ', pyo: 'ぴょ',
+  mya: 'みゃ', myu: 'みゅ', myo: 'みょ', rya: 'りゃ', ryu: 'りゅ', ryo: 'りょ',
+  fa: 'ふぁ', fi: 'ふぃ', fe: 'ふぇ', fo: 'ふぉ'
+}
+
+// The particles は, へ and を are pronounced, and typed, wa, e and o
+const KANA_PARTICLES: Record<string, string> = { wa: 'は', e: 'へ', wo: 'を' }
+
+const toHiragana: WordConverter = (word) => {
+  if (KANA_PARTICLES[word]) {
+    return KANA_PARTICLES[word]
+  }
+
+  let output = ''
+  let i = 0
+  while (i < word.length) {
+    const letter = word[i]
+    const next = word[i + 1]
+
+    // n is ん at the end of a word and before another consonant other than y
+    if (letter === 'n' && (!next || !'aeiouy'.includes(next))) {
+      output += 'ん'
+      i++
+      continue
+    }
+    // A doubled consonant (kk, tt, tch) is a small っ
+    if (next && !'aeiou'.includes(letter) && (next === letter || (letter === 't' && next === 'c'))) {
+      output += 'っ'
+      i++
+      continue
+    }
+
+    const syllable = [3, 2, 1].map(length => word.slice(i, i + length)).find(candidate => KANA[candidate])
+    if (!syllable) {
+      return null // Not romaji, such as an English word
+    }
+    output += KANA[syllable]
+    i += syllable.length
+  }
+
+  return output
+}
+
+// --- Public surface ------------------------------------------------------------------------
+
+const NATIVE_SCRIPTS: Record<string, { name: string; convert: WordConverter }> = {
+  hi: { name: 'Devanagari', convert: indicConverter(INDIC_SCRIPTS.hi) },
+  mr: { name: 'Devanagari', convert: indicConverter(INDIC_SCRIPTS.mr) },
+  bn: { name: 'Bengali script', convert: indicConverter(INDIC_SCRIPTS.bn) },
+  ta: { name: 'Tamil script', convert: indicConverter(INDIC_SCRIPTS.ta) },
+  te: { name: 'Telugu script', convert: indicConverter(INDIC_SCRIPTS.te) },
+  ur: { name: 'Urdu script', convert: arabicConverter(ARABIC_SCRIPTS.ur) },
+  ar: { name: 'Arabic script', convert: arabicConverter(ARABIC_SCRIPTS.ar) },
+  ru: { name: 'Cyrillic', convert: toCyrillic },
+  ja: { name: 'Hiragana', convert: toHiragana }
+}
+
+/**
+ * Whether romanized text in the language can be shown in its native script
+ */
+export function canTransliterate(language: string): boolean {
+  return language in NATIVE_SCRIPTS
+}
+
+/**
+ * Name of the script a language is transliterated into, for labels such as "Show in Devanagari"
+ */
+export function getNativeScriptName(language: string): string | undefined {
+  return NATIVE_SCRIPTS[language]?.name
+}
+
+/**
+ * Write romanized text in the language's native script by spelling rules
+ * The result is a phonetic approximation for reading, not a translation: code, links,
+ * mentions, hashtags, acronyms and words the rules cannot spell are kept as typed
+ */
+export function transliterate(text: string, language: string): string {
+  const script = NATIVE_SCRIPTS[language]
+  if (!script) {
+    return text
+  }
+
+  return text.replace(TOKEN_PATTERN, token => {
+    if (!WORD_PATTERN.test(token) || ACRONYM_PATTERN.test(token) || !/[A-Za-z]/.test(token)) {
+      return token
+    }
+
+    const converted = script.convert(token.toLowerCase())
+    if (converted === null) {
+      return token
+    }
+    // Cyrillic has capitals; keep a capitalized word capitalized
+    return /^[A-Z]/.test(token) ? converted.charAt(0).toUpperCase() + converted.slice(1) : converted
+  })
+}
@@ -3,6 +3,8 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
 import crypto from 'crypto'
+import { SnippetSegment, LanguagePreferences } from '@/types'
+import { SEARCH_CONFIG } from './constants'
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -130,9 +132,90 @@ export function isValidLanguageCode(code: string): boolean {
   return /^[a-z]{2}(-[A-Z]{2})?$/.test(code)
 }
 
+/**
+ * Language a viewer reads a channel (or conversation) in: its override, else their primary language
+ */
+export function getViewerLanguage(preferences: Partial<LanguagePreferences>, channelId?: string): string {
+  return (channelId && preferences.channelLanguages?.[channelId]) || preferences.primaryLanguage || 'en'
+}
+
+/**
+ * Whether a viewer reads a language without translation: the language they view the channel in,
+ * or one of their understood languages
+ */
+export function understandsLanguage(
+  preferences: Partial<LanguagePreferences>,
+  language: string | undefined,
+  channelId?: string
+): boolean {
+  if (!language) return false
+  return language === getViewerLanguage(preferences, channelId) ||
+    (preferences.understoodLanguages || []).includes(language)
+}
+
 /**
  * Generate a unique ID
  */
 export function generateId(): string {
   return crypto.randomUUID()
-}
\ No newline at end of file
+}
+
+/**
+ * Extract the words and quoted phrases a text search matches on (negated terms are skipped)
+ */
+export function extractSearchTerms(query: string): string[] {
+  const terms: string[] = []
+  const phraseRegex = /"([^"]+)"/g
+  let match
+
+  while ((match = phraseRegex.exec(query)) !== null) {
+    terms.push(match[1].trim().toLowerCase())
+  }
+
+  for (const word of query.replace(phraseRegex, ' ').split(/\s+/)) {
+    if (!word || word.startsWith('-')) continue
+    terms.push(word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '').toLowerCase())
+  }
+
+  return [...new Set(terms.filter(Boolean))]
+}
+
+/**
+ * Check whether text contains any of the search terms (case-insensitive)
+ */
+export function containsSearchTerm(text: string, terms: string[]): boolean {
+  const lower = text.toLowerCase()
+  return terms.some(term => lower.includes(term))
+}
+
+/**
+ * Cut a snippet around the first search term match and split it into highlighted segments
+ */
+export function buildHighlightedSnippet(
+  text: string,
+  terms: string[],
+  radius: number = SEARCH_CONFIG.SNIPPET_RADIUS
+): SnippetSegment[] {
+  const escaped = terms
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  const pattern = escaped.length > 0 ? new RegExp(`(${escaped.join('|')})`, 'giu') : null
+
+  const first = pattern?.exec(text)
+  const start = first ? Math.max(0, first.index - radius) : 0
+  const end = first
+    ? Math.min(text.length, first.index + first[0].length + radius)
+    : Math.min(text.length, radius * 2)
+
+  const excerpt = text.slice(start, end)
+  // With a capture group, split puts the matched terms at the odd indices
+  const segments: SnippetSegment[] = (pattern ? excerpt.split(pattern) : [excerpt])
+    .map((part, index) => ({ text: part, highlight: index % 2 === 1 }))
+    .filter(segment => segment.text)
+
+  if (start > 0) segments.unshift({ text: '…', highlight: false })
+  if (end < text.length) segments.push({ text: '…', highlight: false })
+
+  return segments
+}
@@ -0,0 +1,168 @@
+import { ObjectId, Document, WithId } from 'mongodb'
+import { getDatabase } from '@/lib/mongodb'
+import { Message, StoredAttachment } from '@/types'
+import { AttachmentService, AttachmentStorage, AttachmentUpload } from './interfaces'
+import { ChatError, ValidationError, NotFoundError, handleError } from '@/lib/errors'
+import { ATTACHMENT_CONFIG } from '@/lib/constants'
+import { sniffContentType, isInlineImage, sanitizeFileName } from '@/lib/fileTypes'
+import { createAttachmentStorage } from './AttachmentStorage'
+
+const COLLECTION = 'attachments'
+
+/**
+ * Uploaded attachments: metadata in Mongo, bytes (and image thumbnails) in a storage backend.
+ * Messages carry a reference to the upload instead of the file itself.
+ */
+export class MongoAttachmentService implements AttachmentService {
+  private readonly storage: AttachmentStorage
+
+  constructor(storage: AttachmentStorage = createAttachmentStorage()) {
+    this.storage = storage
+  }
+
+  /**
+   * Store an upload for a channel or conversation
+   * The content type is sniffed from the bytes; images that can be shown inline get a thumbnail
+   */
+  async upload(upload: AttachmentUpload, uploaderId: string): Promise<StoredAttachment> {
+    try {
+      if (upload.data.length === 0) {
+        throw new ValidationError('File is empty', 'file')
+      }
+      if (upload.data.length > ATTACHMENT_CONFIG.MAX_FILE_SIZE) {
+        throw new ChatError(
+          `Attachment too large (max ${ATTACHMENT_CONFIG.MAX_FILE_SIZE / (1024 * 1024)}MB)`,
+          'ATTACHMENT_TOO_LARGE',
+          413
+        )
+      }
+
+      const id = new ObjectId()
+      const mimeType = sniffContentType(upload.data, upload.declaredType)
+      const type = isInlineImage(mimeType) ? 'image' : 'file'
+      const storageKey = `${upload.channelId}/${id.toString()}`
+
+      await this.storage.put(storageKey, upload.data, mimeType)
+
+      let thumbnailKey: string | undefined
+      if (type === 'image') {
+        const thumbnail = await this.createThumbnail(upload.data)
+        if (thumbnail) {
+          thumbnailKey = `${storageKey}-thumb`
+          await this.storage.put(thumbnailKey, thumbnail, 'image/webp')
+        }
+      }
+
+      const doc = {
+        _id: id,
+        channelId: upload.channelId,
+        ...(upload.conversationId ? { conversationId: upload.conversationId } : {}),
+        uploaderId,
+        type,
+        name: sanitizeFileName(upload.name),
+        mimeType,
+        size: upload.data.length,
+        storage: this.storage.name,
+        storageKey,
+        ...(thumbnailKey ? { thumbnailKey } : {}),
+        createdAt: new Date()
+      }
+
+      const db = await getDatabase()
+      await db.collection(COLLECTION).insertOne(doc)
+
+      return this.mapAttachment(doc)
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoAttachmentService.upload')
+    }
+  }
+
+  /**
+   * Get an upload's metadata
+   */
+  async getAttachment(attachmentId: string): Promise<StoredAttachment | null> {
+    try {
+      if (!ObjectId.isValid(attachmentId)) {
+        return null
+      }
+      const db = await getDatabase()
+      const doc = await db.collection(COLLECTION).findOne({ _id: new ObjectId(attachmentId) })
+      return doc ? this.mapAttachment(doc) : null
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoAttachmentService.getAttachment')
+    }
+  }
+
+  /**
+   * Stream an upload (or its thumbnail) from the storage backend
+   */
+  async openAttachment(attachment: StoredAttachment, thumbnail = false): Promise<ReadableStream<Uint8Array> | null> {
+    try {
+      const key = thumbnail ? attachment.thumbnailKey : attachment.storageKey
+      return key ? await this.storage.get(key) : null
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoAttachmentService.openAttachment')
+    }
+  }
+
+  /**
+   * The attachment reference stored on a message
+   * Only the uploader can attach an upload, and only in the channel it was uploaded to
+   */
+  async resolveMessageAttachment(
+    attachmentId: string,
+    uploaderId: string,
+    channelId: string
+  ): Promise<NonNullable<Message['attachment']>> {
+    const attachment = await this.getAttachment(attachmentId)
+    if (!attachment || attachment.uploaderId !== uploaderId || attachment.channelId !== channelId) {
+      throw new NotFoundError('Attachment')
+    }
+
+    const url = `/api/attachments/${attachment.id}`
+    return {
+      id: attachment.id,
+      type: attachment.type,
+      url,
+      ...(attachment.thumbnailKey ? { thumbnailUrl: `${url}?thumbnail=1` } : {}),
+      name: attachment.name,
+      mimeType: attachment.mimeType,
+      size: attachment.size
+    }
+  }
+
+  /**
+   * Helper: A WebP thumbnail of an image, or null when sharp is unavailable or cannot read it
+   */
+  private async createThumbnail(data: Buffer): Promise<Buffer | null> {
+    try {
+      const { default: sharp } = await import('sharp')
+      return await sharp(data)
+        .rotate()
+        .resize(ATTACHMENT_CONFIG.THUMBNAIL_SIZE, ATTACHMENT_CONFIG.THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .webp()
+        .toBuffer()
+    } catch (error) {
+      console.warn('Could not create attachment thumbnail:', error)
+      return null
+    }
+  }
+
+  private mapAttachment(doc: WithId<Document>): StoredAttachment {
+    return {
+      id: doc._id.toString(),
+      channelId: doc.channelId,
+      conversationId: doc.conversationId,
+      uploaderId: doc.uploaderId,
+      type: doc.type,
+      name: doc.name,
+      mimeType: doc.mimeType,
+      size: doc.size,
+      storage: doc.storage,
+      storageKey: doc.storageKey,
+      thumbnailKey: doc.thumbnailKey,
+      text: doc.text,
+      createdAt: doc.createdAt
+    }
+  }
+}
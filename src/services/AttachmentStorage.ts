@@ -0,0 +1,183 @@
+// Storage backends for uploaded attachments
+
+import { promises as fs, createReadStream } from 'fs'
+import path from 'path'
+import { Readable } from 'stream'
+import { createHash, createHmac } from 'crypto'
+import { AttachmentStorage } from './interfaces'
+import { StorageError } from '@/lib/errors'
+import { ATTACHMENT_CONFIG, ATTACHMENT_STORAGE_BACKENDS } from '@/lib/constants'
+
+/**
+ * Keeps attachments as files under a directory on the server's disk
+ */
+export class LocalFileAttachmentStorage implements AttachmentStorage {
+  readonly name = ATTACHMENT_STORAGE_BACKENDS.LOCAL
+  private readonly root: string
+
+  constructor(root: string = process.env.ATTACHMENT_STORAGE_DIR || ATTACHMENT_CONFIG.LOCAL_STORAGE_DIR) {
+    this.root = path.resolve(root)
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key)
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.writeFile(filePath, data)
+    } catch (error) {
+      throw new StorageError(`Failed to write attachment ${key}`, error)
+    }
+  }
+
+  async get(key: string): Promise<ReadableStream<Uint8Array> | null> {
+    const filePath = this.resolve(key)
+    try {
+      await fs.access(filePath)
+    } catch {
+      return null
+    }
+    return Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true })
+  }
+
+  /**
+   * Helper: Absolute path of a key, refusing keys that point outside the storage directory
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key)
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new StorageError(`Invalid attachment key: ${key}`)
+    }
+    return filePath
+  }
+}
+
+export interface S3StorageOptions {
+  endpoint: string // e.g. https://s3.eu-west-1.amazonaws.com or a MinIO / R2 URL
+  bucket: string
+  region: string
+  accessKeyId: string
+  secretAccessKey: string
+}
+
+/**
+ * Keeps attachments in an S3-compatible bucket, using path-style URLs and SigV4-signed requests
+ */
+export class S3AttachmentStorage implements AttachmentStorage {
+  readonly name = ATTACHMENT_STORAGE_BACKENDS.S3
+  private readonly options: S3StorageOptions
+
+  constructor(options: S3StorageOptions) {
+    this.options = { ...options, endpoint: options.endpoint.replace(/\/+$/, '') }
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, data, { 'content-type': contentType })
+    if (!response.ok) {
+      throw new StorageError(`Failed to upload attachment ${key}: ${response.status}`)
+    }
+  }
+
+  async get(key: string): Promise<ReadableStream<Uint8Array> | null> {
+    const response = await this.request('GET', key)
+    if (response.status === 404) {
+      return null
+    }
+    if (!response.ok || !response.body) {
+      throw new StorageError(`Failed to read attachment ${key}: ${response.status}`)
+    }
+    return response.body
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key)
+    if (!response.ok && response.status !== 404) {
+      throw new StorageError(`Failed to delete attachment ${key}: ${response.status}`)
+    }
+  }
+
+  /**
+   * Helper: Send a signed request for an object
+   */
+  private async request(
+    method: string,
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<Response> {
+    const { endpoint, bucket, region, accessKeyId, secretAccessKey } = this.options
+    const url = new URL(`${endpoint}/${bucket}/${key.split('/').map(encodeURIComponent).join('/')}`)
+    const now = new Date()
+    const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+    const dateStamp = amzDate.slice(0, 8)
+    const payloadHash = sha256(body ?? '')
+
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    }
+    const signedHeaders = Object.keys(headers).sort()
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      ...signedHeaders.map(name => `${name}:${headers[name].trim()}`),
+      '',
+      signedHeaders.join(';'),
+      payloadHash
+    ].join('\n')
+
+    const scope = `${dateStamp}/${region}/s3/aws4_request`
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n')
+    let signingKey: Buffer = Buffer.from(`AWS4${secretAccessKey}`)
+    for (const part of [dateStamp, region, 's3', 'aws4_request']) {
+      signingKey = createHmac('sha256', signingKey).update(part).digest()
+    }
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+
+    // fetch sets the Host header itself
+    const requestHeaders: Record<string, string> = { ...headers }
+    delete requestHeaders.host
+    try {
+      return await fetch(url, {
+        method,
+        headers: {
+          ...requestHeaders,
+          authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`
+        },
+        body: body ? new Uint8Array(body) : undefined
+      })
+    } catch (error) {
+      throw new StorageError(`Attachment storage request failed for ${key}`, error)
+    }
+  }
+}
+
+/**
+ * Build the storage backend selected by ATTACHMENT_STORAGE (local by default)
+ */
+export function createAttachmentStorage(): AttachmentStorage {
+  if (process.env.ATTACHMENT_STORAGE === ATTACHMENT_STORAGE_BACKENDS.S3) {
+    const { S3_ENDPOINT, S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env
+    if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new StorageError('S3 attachment storage needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY')
+    }
+    return new S3AttachmentStorage({
+      endpoint: S3_ENDPOINT,
+      bucket: S3_BUCKET,
+      region: S3_REGION || 'us-east-1',
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY
+    })
+  }
+  return new LocalFileAttachmentStorage()
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
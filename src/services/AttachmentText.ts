@@ -0,0 +1,112 @@
+import { ObjectId } from 'mongodb'
+import { getDatabase } from '@/lib/mongodb'
+import { AttachmentText, AttachmentTextTranslation, LanguageCode, StoredAttachment } from '@/types'
+import { AttachmentTextService, OcrProvider } from './interfaces'
+import { NotFoundError, handleError } from '@/lib/errors'
+import { ATTACHMENT_TEXT_CONFIG } from '@/lib/constants'
+import { getTextSource } from '@/lib/fileTypes'
+import { extractPdfText } from '@/lib/pdfText'
+import { LocalMetadataOcrProvider } from './OcrProviders'
+import { getAttachmentService, getLanguageDetector, getTranslationEngine } from './index'
+
+const COLLECTION = 'attachments'
+
+/**
+ * Reads the text of text, Markdown, PDF and image attachments and translates it, so readers
+ * get a preview of a file in their language. Extracted text is kept on the attachment and
+ * translations go through the translation memory, so each file is read once.
+ * Turned off with ATTACHMENT_TRANSLATION=off.
+ */
+export class MongoAttachmentTextService implements AttachmentTextService {
+  private readonly ocr: OcrProvider
+
+  constructor(ocr: OcrProvider = new LocalMetadataOcrProvider()) {
+    this.ocr = ocr
+  }
+
+  isEnabled(): boolean {
+    return process.env.ATTACHMENT_TRANSLATION !== 'off'
+  }
+
+  /**
+   * The text of an attachment, or null when it has none that can be read
+   */
+  async extractText(attachment: StoredAttachment): Promise<AttachmentText | null> {
+    try {
+      if (attachment.text) {
+        return attachment.text
+      }
+
+      const source = getTextSource(attachment.mimeType)
+      if (!source || attachment.size > ATTACHMENT_TEXT_CONFIG.MAX_SOURCE_SIZE) {
+        return null
+      }
+      if (source === 'ocr' && !this.ocr.isAvailable()) {
+        return null
+      }
+
+      const stream = await getAttachmentService().openAttachment(attachment)
+      if (!stream) {
+        throw new NotFoundError('Attachment')
+      }
+      const data = Buffer.from(await new Response(stream).arrayBuffer())
+
+      const raw = source === 'text'
+        ? data.toString('utf8')
+        : source === 'pdf'
+          ? extractPdfText(data)
+          : await this.ocr.recognize(data, attachment.mimeType)
+
+      const trimmed = raw.trim()
+      if (!trimmed) {
+        return null
+      }
+
+      const truncated = trimmed.length > ATTACHMENT_TEXT_CONFIG.MAX_TEXT_LENGTH
+      const content = truncated ? trimmed.slice(0, ATTACHMENT_TEXT_CONFIG.MAX_TEXT_LENGTH) : trimmed
+      const text: AttachmentText = {
+        content,
+        source,
+        language: await getLanguageDetector().detectPrimaryLanguage(content),
+        truncated
+      }
+
+      const db = await getDatabase()
+      await db.collection(COLLECTION).updateOne({ _id: new ObjectId(attachment.id) }, { $set: { text } })
+
+      return text
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoAttachmentTextService.extractText')
+    }
+  }
+
+  /**
+   * An attachment's text translated into one language, or null when it has no text
+   */
+  async translateAttachment(
+    attachment: StoredAttachment,
+    targetLang: LanguageCode,
+    communityId?: string
+  ): Promise<AttachmentTextTranslation | null> {
+    const text = await this.extractText(attachment)
+    if (!text) {
+      return null
+    }
+
+    try {
+      const translatedText = await getTranslationEngine().translateContent(text.content, text.language, targetLang, communityId)
+
+      return {
+        attachmentId: attachment.id,
+        source: text.source,
+        sourceLanguage: text.language,
+        originalText: text.content,
+        targetLanguage: targetLang,
+        translatedText,
+        truncated: text.truncated
+      }
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoAttachmentTextService.translateAttachment')
+    }
+  }
+}
@@ -3,6 +3,14 @@
 
 import { LanguageCode } from '@/types'
 import { TranslationError, handleError } from '@/lib/errors'
+import { SUPPORTED_LANGUAGES, ROMANIZED_LANGUAGES } from '@/lib/constants'
+import { transliterate } from '@/lib/transliteration'
+import { LanguageDetectorImpl } from './LanguageDetector'
+
+// Romanized variants the prompts name, e.g. "Hinglish (hi), Arabizi (ar)"
+const ROMANIZED_VARIANTS = Object.entries(ROMANIZED_LANGUAGES)
+  .map(([code, variant]) => `${variant} (${code})`)
+  .join(', ')
 
 export interface GeminiTranslationResult {
   translatedText: string
@@ -22,6 +30,7 @@ export interface RomanizedDetectionResult {
 export class GeminiTranslationService {
   private readonly apiKey: string
   private readonly baseUrl = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent'
+  private readonly languageDetector = new LanguageDetectorImpl()
 
   constructor() {
     this.apiKey = process.env.GEMINI_API_KEY || ''
@@ -67,7 +76,7 @@ INPUT: "${content}"
 
 RULES:
 1. Detect if the input is romanized text (native language written in English/Roman letters)
-2. Common romanized languages: Hinglish (Hindi in Roman), Tanglish (Tamil in Roman), etc.
+2. Common romanized languages: ${ROMANIZED_VARIANTS}; Arabizi writes some Arabic letters as digits (3 = ع, 7 = ح)
 3. Translate the SEMANTIC MEANING, not literal word-by-word
 4. Preserve natural sentence structure in the target language
 5. If the text contains proper nouns (names, brands, apps), keep them unchanged${preserveList}
@@ -75,7 +84,7 @@ RULES:
 RESPOND IN THIS EXACT JSON FORMAT ONLY:
 {
   "translatedText": "the translation here",
-  "detectedLanguage": "language code (hi, ta, bn, en, etc.)",
+  "detectedLanguage": "language code of the native language (hi, ta, ur, ar, ja, en, etc.)",
   "isRomanized": true/false,
   "confidence": 0.0 to 1.0
 }
@@ -145,37 +154,106 @@ Only output the JSON, no other text.`
   }
 
   /**
-   * Detect if content is romanized and identify the original language
+   * Plain translation between two known languages (used as a registry provider)
    */
-  async detectRomanizedLanguage(content: string): Promise<RomanizedDetectionResult> {
+  async translateText(
+    content: string,
+    sourceLanguage: LanguageCode,
+    targetLanguage: LanguageCode
+  ): Promise<string> {
     try {
       if (!this.apiKey) {
         throw new TranslationError('Gemini API key not configured')
       }
 
-      if (!content.trim()) {
-        return {
-          isRomanized: false,
-          originalLanguage: 'en',
-          normalizedText: content,
-          confidence: 1
-        }
+      if (!content.trim() || sourceLanguage === targetLanguage) {
+        return content
+      }
+
+      const prompt = `Translate the following message from ${this.getLanguageName(sourceLanguage)} to ${this.getLanguageName(targetLanguage)}.
+Keep placeholders, code, URLs, @mentions and proper nouns exactly as they are.
+Only output the translated message, no explanations or quotes.
+
+${content}`
+
+      const response = await fetch(`${this.baseUrl}?key=${this.apiKey}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          contents: [{
+            parts: [{ text: prompt }]
+          }],
+          generationConfig: {
+            temperature: 0.1,
+            maxOutputTokens: 2048,
+          }
+        })
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new TranslationError(
+          `Gemini API error: ${response.status}`,
+          JSON.stringify(errorData)
+        )
+      }
+
+      const data = await response.json()
+      const textContent = data.candidates?.[0]?.content?.parts?.[0]?.text
+
+      if (!textContent || !textContent.trim()) {
+        throw new TranslationError('Empty response from Gemini API')
       }
 
+      return textContent.trim()
+    } catch (error) {
+      if (error instanceof TranslationError) {
+        throw error
+      }
+      throw handleError(error, 'GeminiTranslationService.translateText')
+    }
+  }
+
+  /**
+   * Detect if content is romanized and identify the original language
+   * Without an API key, or when the API fails, the local detector and transliterator answer
+   */
+  async detectRomanizedLanguage(content: string): Promise<RomanizedDetectionResult> {
+    if (!content.trim()) {
+      return {
+        isRomanized: false,
+        originalLanguage: 'en',
+        normalizedText: content,
+        confidence: 1
+      }
+    }
+
+    if (!this.apiKey) {
+      return this.detectRomanizedLocally(content)
+    }
+
+    try {
       const prompt = `Analyze this text and determine if it's romanized/transliterated:
 
 TEXT: "${content}"
 
 Romanized text = Native language written using English/Roman letters
+Known romanized variants: ${ROMANIZED_VARIANTS}
 Examples:
 - "muje aapki help chahiye" → Hindi (Romanized)
 - "naan oru developer" → Tamil (Romanized)
 - "ami tomake bhalobashi" → Bengali (Romanized)
+- "mujhe nahi pata yr" → Urdu (Romanized)
+- "ana 3ayez a2ool shukran" → Arabic (Arabizi)
+- "privet, kak dela" → Russian (Translit)
+- "arigatou gozaimasu" → Japanese (Romaji)
 
 RESPOND IN THIS EXACT JSON FORMAT ONLY:
 {
   "isRomanized": true/false,
-  "originalLanguage": "language code (hi=Hindi, ta=Tamil, bn=Bengali, en=English, etc.)",
+  "originalLanguage": "language code (hi=Hindi, ta=Tamil, te=Telugu, bn=Bengali, mr=Marathi, ur=Urdu, ar=Arabic, ru=Russian, ja=Japanese, en=English, etc.)",
   "normalizedText": "text converted to native script if romanized, otherwise same as input",
   "confidence": 0.0 to 1.0
 }
@@ -229,7 +307,27 @@ Only output the JSON, no other text.`
       }
 
     } catch (error) {
-      console.error('Gemini romanized detection failed:', error)
+      console.error('Gemini romanized detection failed, detecting locally:', error)
+      return this.detectRomanizedLocally(content)
+    }
+  }
+
+  /**
+   * Helper: Romanized detection with the n-gram detector, written out in the native
+   * script by the rule-based transliterator
+   */
+  private async detectRomanizedLocally(content: string): Promise<RomanizedDetectionResult> {
+    try {
+      const result = await this.languageDetector.detectLanguage(content)
+
+      return {
+        isRomanized: result.isRomanized,
+        originalLanguage: result.language,
+        normalizedText: result.isRomanized ? transliterate(content, result.language) : content,
+        confidence: result.confidence
+      }
+    } catch (error) {
+      console.error('Local romanized detection failed:', error)
       return {
         isRomanized: false,
         originalLanguage: 'en',
@@ -243,25 +341,7 @@ Only output the JSON, no other text.`
    * Get language display name from code
    */
   private getLanguageName(code: LanguageCode): string {
-    const names: Record<string, string> = {
-      'en': 'English',
-      'hi': 'Hindi',
-      'es': 'Spanish',
-      'fr': 'French',
-      'de': 'German',
-      'it': 'Italian',
-      'pt': 'Portuguese',
-      'ru': 'Russian',
-      'ja': 'Japanese',
-      'ko': 'Korean',
-      'zh': 'Chinese',
-      'ar': 'Arabic',
-      'ta': 'Tamil',
-      'bn': 'Bengali',
-      'te': 'Telugu',
-      'mr': 'Marathi'
-    }
-    return names[code] || code
+    return SUPPORTED_LANGUAGES[code as keyof typeof SUPPORTED_LANGUAGES] || code
   }
 
   /**
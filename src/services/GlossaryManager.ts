@@ -1,14 +1,22 @@
 // Enhanced Glossary Manager Service with Proper Noun and Brand Name Protection
 
+import { Document, AnyBulkWriteOperation } from 'mongodb'
 import { GlossaryManager } from './interfaces'
-import { GlossaryTerm } from '@/types'
-import { handleError } from '@/lib/errors'
+import { GlossaryTerm, GlossaryTermCategory, GlossaryCaseRule, GlossaryTermSettings, GlossaryImportEntry, GlossaryImportPreview, LanguageCode } from '@/types'
+import { getDatabase } from '@/lib/mongodb'
+import { NotFoundError, ValidationError, handleError } from '@/lib/errors'
+import { GLOSSARY_CONFIG, GLOSSARY_TERM_CATEGORIES, GLOSSARY_CASE_RULES, SUPPORTED_LANGUAGES, DEFAULT_GLOSSARY_TERMS } from '@/lib/constants'
+import { generateHash } from '@/lib/utils'
+
+const COLLECTION = 'glossary_terms'
 
 export interface ProtectedTerm {
   term: string
-  category: 'technical' | 'brand' | 'proper_noun' | 'custom'
+  category: GlossaryTermCategory
   romanizedVariants?: string[]
   preserveCase: boolean
+  caseRule?: GlossaryCaseRule
+  translations?: Record<LanguageCode, string>
 }
 
 export interface ProtectedContent {
@@ -17,6 +25,7 @@ export interface ProtectedContent {
     original: string
     placeholder: string
     position: number
+    replacement?: string // Approved translation to restore instead of the original
   }>
 }
 
@@ -112,7 +121,6 @@ export class GlossaryManagerImpl implements GlossaryManager {
     { term: 'Kotlin', category: 'technical', preserveCase: true }
   ]
 
-  private communityTerms: Map<string, ProtectedTerm[]> = new Map()
   private properNounPatterns: RegExp[] = [
     /\b[A-Z][a-z]+(?:\s+[A-Z][a-z]+)*\b/g, // Capitalized words (names)
     /\b[A-Z]{2,}\b/g, // All caps acronyms
@@ -123,40 +131,124 @@ export class GlossaryManagerImpl implements GlossaryManager {
    */
   async getProtectedTerms(communityId: string): Promise<string[]> {
     try {
-      const communityTerms = this.communityTerms.get(communityId) || []
-      const allTerms = [...this.defaultGlossary, ...communityTerms]
+      const communityTerms = await this.findCommunityTerms(communityId)
+      const allTerms = [...this.defaultGlossary.map(t => t.term), ...communityTerms.map(t => t.term)]
       
       // Return unique terms
-      return Array.from(new Set(allTerms.map(t => t.term)))
+      return Array.from(new Set(allTerms))
     } catch (error) {
       throw handleError(error, 'GlossaryManager.getProtectedTerms')
     }
   }
 
   /**
-   * Add a protected term to a community
+   * Get default and community terms with their category and case handling
    */
-  async addProtectedTerm(communityId: string, term: string): Promise<void> {
+  async getProtectedTermDetails(communityId: string): Promise<ProtectedTerm[]> {
     try {
-      const existingTerms = this.communityTerms.get(communityId) || []
-      
-      // Check if term already exists
-      if (existingTerms.some(t => t.term.toLowerCase() === term.toLowerCase())) {
-        return
-      }
+      const communityTerms: ProtectedTerm[] = (await this.findCommunityTerms(communityId)).map(doc => ({
+        term: doc.term,
+        category: doc.category || 'custom',
+        preserveCase: doc.preserveCase ?? this.shouldPreserveCase(doc.term),
+        caseRule: doc.caseRule,
+        translations: doc.translations
+      }))
 
-      const newTerm: ProtectedTerm = {
-        term,
-        category: 'custom',
-        preserveCase: this.shouldPreserveCase(term)
+      // Community entries override defaults with the same spelling
+      const merged = new Map<string, ProtectedTerm>()
+      for (const term of [...this.defaultGlossary, ...communityTerms]) {
+        merged.set(term.term.toLowerCase(), term)
       }
+      return Array.from(merged.values())
+    } catch (error) {
+      throw handleError(error, 'GlossaryManager.getProtectedTermDetails')
+    }
+  }
+
+  /**
+   * Version of a glossary: changes whenever a term, its category, its case handling
+   * or one of its forced translations changes
+   */
+  getGlossaryVersion(terms: ProtectedTerm[]): string {
+    const canonical = terms
+      .map(t => {
+        const translations = Object.entries(t.translations || {})
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([lang, value]) => `${lang}=${value}`)
+          .join(',')
+        return `${t.term}|${t.category}|${t.preserveCase ? 1 : 0}|${t.caseRule || ''}|${translations}`
+      })
+      .sort()
+      .join('\n')
+    return generateHash(canonical).slice(0, 12)
+  }
+
+  /**
+   * Add a protected term to a community (terms already present in any case are left alone)
+   */
+  async addProtectedTerm(communityId: string, term: string, createdBy: string = 'system'): Promise<void> {
+    try {
+      const value = this.validateTerm(term)
+      const db = await getDatabase()
 
-      this.communityTerms.set(communityId, [...existingTerms, newTerm])
+      await db.collection(COLLECTION).updateOne(
+        { communityId, normalizedTerm: value.toLowerCase() },
+        { $setOnInsert: this.buildTermDocument(communityId, value, createdBy) },
+        { upsert: true }
+      )
     } catch (error) {
       throw handleError(error, 'GlossaryManager.addProtectedTerm')
     }
   }
 
+  /**
+   * Change a term's category, case handling or forced translations
+   * Built-in terms are copied into the community glossary the first time they are changed
+   */
+  async updateTermSettings(
+    communityId: string,
+    term: string,
+    settings: GlossaryTermSettings,
+    updatedBy: string = 'system'
+  ): Promise<GlossaryTerm> {
+    try {
+      const normalizedTerm = term.trim().toLowerCase()
+      const update = this.validateTermSettings(settings)
+      const db = await getDatabase()
+
+      let doc = await db.collection(COLLECTION).findOneAndUpdate(
+        { communityId, normalizedTerm },
+        { $set: update },
+        { returnDocument: 'after' }
+      )
+
+      if (!doc) {
+        const builtIn = this.defaultGlossary.find(t => t.term.toLowerCase() === normalizedTerm)
+        if (!builtIn) {
+          throw new NotFoundError('Glossary term')
+        }
+
+        // Fields being set must not also appear in $setOnInsert
+        const inserted: Document = {
+          ...this.buildTermDocument(communityId, builtIn.term, updatedBy),
+          category: builtIn.category,
+          preserveCase: builtIn.preserveCase
+        }
+        Object.keys(update).forEach(key => delete inserted[key])
+
+        doc = await db.collection(COLLECTION).findOneAndUpdate(
+          { communityId, normalizedTerm },
+          { $set: update, $setOnInsert: inserted },
+          { upsert: true, returnDocument: 'after' }
+        )
+      }
+
+      return this.mapTermDocument(doc!)
+    } catch (error) {
+      throw handleError(error, 'GlossaryManager.updateTermSettings')
+    }
+  }
+
   /**
    * Apply glossary protection to content
    */
@@ -195,11 +287,11 @@ export class GlossaryManagerImpl implements GlossaryManager {
    */
   async removeProtectedTerm(communityId: string, term: string): Promise<void> {
     try {
-      const existingTerms = this.communityTerms.get(communityId) || []
-      const filteredTerms = existingTerms.filter(
-        t => t.term.toLowerCase() !== term.toLowerCase()
-      )
-      this.communityTerms.set(communityId, filteredTerms)
+      const db = await getDatabase()
+      await db.collection(COLLECTION).deleteOne({
+        communityId,
+        normalizedTerm: term.trim().toLowerCase()
+      })
     } catch (error) {
       throw handleError(error, 'GlossaryManager.removeProtectedTerm')
     }
@@ -210,14 +302,8 @@ export class GlossaryManagerImpl implements GlossaryManager {
    */
   async getCustomTerms(communityId: string): Promise<GlossaryTerm[]> {
     try {
-      const terms = this.communityTerms.get(communityId) || []
-      return terms.map((t, index) => ({
-        id: `${communityId}-${index}`,
-        communityId,
-        term: t.term,
-        createdBy: 'admin',
-        createdAt: new Date()
-      }))
+      const docs = await this.findCommunityTerms(communityId)
+      return docs.map(doc => this.mapTermDocument(doc))
     } catch (error) {
       throw handleError(error, 'GlossaryManager.getCustomTerms')
     }
@@ -260,16 +346,78 @@ export class GlossaryManagerImpl implements GlossaryManager {
   /**
    * Add multiple terms at once
    */
-  async addMultipleTerms(communityId: string, terms: string[]): Promise<void> {
+  async addMultipleTerms(communityId: string, terms: string[], createdBy: string = 'system'): Promise<void> {
     try {
+      if (terms.length > GLOSSARY_CONFIG.MAX_BULK_TERMS) {
+        throw new ValidationError(`At most ${GLOSSARY_CONFIG.MAX_BULK_TERMS} terms can be added at once`, 'terms')
+      }
+
+      // Validate everything before writing so a bad entry does not leave a partial import
+      const unique = new Map<string, string>()
       for (const term of terms) {
-        await this.addProtectedTerm(communityId, term)
+        const value = this.validateTerm(term)
+        if (!unique.has(value.toLowerCase())) {
+          unique.set(value.toLowerCase(), value)
+        }
       }
+      if (unique.size === 0) {
+        return
+      }
+
+      const operations: AnyBulkWriteOperation<Document>[] = [...unique].map(([normalizedTerm, value]) => ({
+        updateOne: {
+          filter: { communityId, normalizedTerm },
+          update: { $setOnInsert: this.buildTermDocument(communityId, value, createdBy) },
+          upsert: true
+        }
+      }))
+
+      const db = await getDatabase()
+      await db.collection(COLLECTION).bulkWrite(operations, { ordered: false })
     } catch (error) {
       throw handleError(error, 'GlossaryManager.addMultipleTerms')
     }
   }
 
+  /**
+   * Dry run of an import: which terms would be added, skipped as duplicates,
+   * override a built-in term, or are invalid
+   */
+  async previewImport(communityId: string, entries: GlossaryImportEntry[]): Promise<GlossaryImportPreview> {
+    try {
+      const existing = await this.getCustomTerms(communityId)
+      return this.planImport(entries, existing).preview
+    } catch (error) {
+      throw handleError(error, 'GlossaryManager.previewImport')
+    }
+  }
+
+  /**
+   * Import terms with their settings; duplicates and invalid entries are skipped
+   */
+  async importTerms(
+    communityId: string,
+    entries: GlossaryImportEntry[],
+    createdBy: string = 'system'
+  ): Promise<GlossaryImportPreview> {
+    try {
+      const existing = await this.getCustomTerms(communityId)
+      const { preview, accepted } = this.planImport(entries, existing)
+
+      await this.addMultipleTerms(communityId, accepted.map(entry => entry.term), createdBy)
+
+      for (const { term, ...settings } of accepted) {
+        if (this.hasTermSettings(settings)) {
+          await this.updateTermSettings(communityId, term, settings, createdBy)
+        }
+      }
+
+      return preview
+    } catch (error) {
+      throw handleError(error, 'GlossaryManager.importTerms')
+    }
+  }
+
   /**
    * Search for terms
    */
@@ -319,36 +467,29 @@ export class GlossaryManagerImpl implements GlossaryManager {
 
   /**
    * Apply glossary protection with detailed tracking
+   * With a target language, terms that have an approved translation for it carry that
+   * translation (cased by the term's case rule) as their replacement
    */
   async applyGlossaryProtectionDetailed(
     content: string,
-    terms: ProtectedTerm[]
+    terms: ProtectedTerm[],
+    targetLang?: LanguageCode
   ): Promise<ProtectedContent> {
     try {
-      let processedContent = content
       const protectedSegments: ProtectedContent['protectedSegments'] = []
 
-      // Sort terms by length (longest first)
-      const sortedTerms = [...terms].sort((a, b) => b.term.length - a.term.length)
+      const processedContent = this.replaceTerms(content, terms, (match, termObj, position) => {
+        const placeholder = `__PROTECTED_${protectedSegments.length}__`
+        const forced = targetLang ? termObj.translations?.[targetLang] : undefined
 
-      for (const termObj of sortedTerms) {
-        const regex = new RegExp(`\\b${this.escapeRegex(termObj.term)}\\b`, 'gi')
-        const matches = processedContent.matchAll(regex)
-
-        for (const match of matches) {
-          if (match.index !== undefined) {
-            const placeholder = `__PROTECTED_${protectedSegments.length}__`
-            
-            protectedSegments.push({
-              original: match[0],
-              placeholder,
-              position: match.index
-            })
-
-            processedContent = processedContent.replace(match[0], placeholder)
-          }
-        }
-      }
+        protectedSegments.push({
+          original: match,
+          placeholder,
+          position,
+          ...(forced ? { replacement: this.applyCaseRule(forced, match, termObj.caseRule) } : {})
+        })
+        return placeholder
+      })
 
       return {
         processedContent,
@@ -359,6 +500,254 @@ export class GlossaryManagerImpl implements GlossaryManager {
     }
   }
 
+  /**
+   * Terms in the source with an approved translation for the target language
+   * that does not appear in the translated content
+   */
+  findGlossaryViolations(
+    sourceContent: string,
+    translatedContent: string,
+    terms: ProtectedTerm[],
+    targetLang: LanguageCode
+  ): string[] {
+    const forcedTerms = terms.filter(t => t.translations?.[targetLang])
+    const violations = new Set<string>()
+
+    this.replaceTerms(sourceContent, forcedTerms, (match, termObj) => {
+      const expected = this.applyCaseRule(termObj.translations![targetLang], match, termObj.caseRule)
+      // Sentence position can change the case of a match_source translation, so only
+      // as_written and uppercase rules are checked case-sensitively
+      const found = termObj.caseRule === 'as_written' || termObj.caseRule === 'uppercase'
+        ? translatedContent.includes(expected)
+        : translatedContent.toLowerCase().includes(expected.toLowerCase())
+
+      if (!found) {
+        violations.add(termObj.term)
+      }
+      return match
+    })
+
+    return Array.from(violations)
+  }
+
+  /**
+   * Helper: Replace every glossary term in content in one pass
+   * Longest first so multi-word terms win over their parts; one pass keeps
+   * replacements from being matched again
+   */
+  private replaceTerms(
+    content: string,
+    terms: ProtectedTerm[],
+    replacer: (match: string, term: ProtectedTerm, position: number) => string
+  ): string {
+    if (terms.length === 0) {
+      return content
+    }
+
+    const sortedTerms = [...terms].sort((a, b) => b.term.length - a.term.length)
+    const byLowerTerm = new Map(sortedTerms.map(t => [t.term.toLowerCase(), t]))
+    const regex = new RegExp(
+      `(?<!\\w)(?:${sortedTerms.map(t => this.escapeRegex(t.term)).join('|')})(?!\\w)`,
+      'gi'
+    )
+
+    return content.replace(regex, (match: string, position: number) => {
+      const termObj = byLowerTerm.get(match.toLowerCase())
+      // Case-sensitive terms only match as written ("Go" the language, not "go" the verb)
+      if (!termObj || (termObj.preserveCase && match !== termObj.term)) {
+        return match
+      }
+      return replacer(match, termObj, position)
+    })
+  }
+
+  /**
+   * Helper: Case a forced translation for the place it replaces `match`
+   */
+  private applyCaseRule(translation: string, match: string, rule: GlossaryCaseRule = 'match_source'): string {
+    switch (rule) {
+      case 'as_written':
+        return translation
+      case 'lowercase':
+        return translation.toLowerCase()
+      case 'uppercase':
+        return translation.toUpperCase()
+      default:
+        // Acronyms stay upper case; a capitalised match (e.g. at the start of a sentence) is capitalised
+        if (match.length > 1 && match === match.toUpperCase() && match !== match.toLowerCase()) {
+          return translation.toUpperCase()
+        }
+        if (match[0] !== match[0].toLowerCase()) {
+          return translation.charAt(0).toUpperCase() + translation.slice(1)
+        }
+        return translation
+    }
+  }
+
+  /**
+   * Helper: Sort import entries into new, duplicate, built-in and invalid terms
+   */
+  private planImport(
+    entries: GlossaryImportEntry[],
+    existing: GlossaryTerm[]
+  ): { preview: GlossaryImportPreview; accepted: GlossaryImportEntry[] } {
+    if (entries.length > GLOSSARY_CONFIG.MAX_BULK_TERMS) {
+      throw new ValidationError(`At most ${GLOSSARY_CONFIG.MAX_BULK_TERMS} terms can be imported at once`, 'terms')
+    }
+
+    const builtIn = new Set(DEFAULT_GLOSSARY_TERMS.map(term => term.toLowerCase()))
+    const seen = new Set(existing.map(term => term.term.toLowerCase()))
+    const preview: GlossaryImportPreview = { added: [], duplicates: [], conflicts: [], invalid: [] }
+    const accepted: GlossaryImportEntry[] = []
+
+    for (const { term: rawTerm, ...settings } of entries) {
+      let term: string
+      try {
+        term = this.validateTerm(rawTerm)
+        if (this.hasTermSettings(settings)) {
+          this.validateTermSettings(settings)
+        }
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          preview.invalid.push({ term: String(rawTerm ?? ''), error: error.message })
+          continue
+        }
+        throw error
+      }
+
+      const key = term.toLowerCase()
+      if (seen.has(key)) {
+        preview.duplicates.push(term)
+        continue
+      }
+      seen.add(key)
+
+      if (builtIn.has(key)) {
+        preview.conflicts.push(term)
+      }
+      preview.added.push(term)
+      accepted.push({ term, ...settings })
+    }
+
+    return { preview, accepted }
+  }
+
+  /**
+   * Helper: Whether any term setting is given
+   */
+  private hasTermSettings(settings: GlossaryTermSettings): boolean {
+    return Object.values(settings).some(value => value !== undefined)
+  }
+
+  /**
+   * Helper: Load a community's stored terms, alphabetically
+   */
+  private async findCommunityTerms(communityId: string): Promise<Document[]> {
+    const db = await getDatabase()
+    return db.collection(COLLECTION)
+      .find({ communityId })
+      .sort({ normalizedTerm: 1 })
+      .toArray()
+  }
+
+  /**
+   * Helper: Document stored for a new community term
+   */
+  private buildTermDocument(communityId: string, term: string, createdBy: string): Document {
+    return {
+      communityId,
+      term,
+      normalizedTerm: term.toLowerCase(),
+      category: 'custom',
+      preserveCase: this.shouldPreserveCase(term),
+      createdBy,
+      createdAt: new Date()
+    }
+  }
+
+  /**
+   * Helper: Map a stored term document
+   */
+  private mapTermDocument(doc: Document): GlossaryTerm {
+    return {
+      id: doc._id.toString(),
+      communityId: doc.communityId,
+      term: doc.term,
+      category: doc.category || 'custom',
+      preserveCase: doc.preserveCase ?? this.shouldPreserveCase(doc.term),
+      caseRule: doc.caseRule,
+      translations: doc.translations,
+      createdBy: doc.createdBy,
+      createdAt: doc.createdAt
+    }
+  }
+
+  /**
+   * Helper: Check term settings and turn them into a $set update
+   * Forced translations replace the previous set; empty values remove a language
+   */
+  private validateTermSettings(settings: GlossaryTermSettings): Document {
+    const update: Document = {}
+
+    if (settings.category !== undefined) {
+      if (!GLOSSARY_TERM_CATEGORIES.includes(settings.category as GlossaryTermCategory)) {
+        throw new ValidationError(`Category must be one of: ${GLOSSARY_TERM_CATEGORIES.join(', ')}`, 'category')
+      }
+      update.category = settings.category
+    }
+
+    if (settings.preserveCase !== undefined) {
+      if (typeof settings.preserveCase !== 'boolean') {
+        throw new ValidationError('preserveCase must be a boolean', 'preserveCase')
+      }
+      update.preserveCase = settings.preserveCase
+    }
+
+    if (settings.caseRule !== undefined) {
+      if (!GLOSSARY_CASE_RULES.includes(settings.caseRule as GlossaryCaseRule)) {
+        throw new ValidationError(`Case rule must be one of: ${GLOSSARY_CASE_RULES.join(', ')}`, 'caseRule')
+      }
+      update.caseRule = settings.caseRule
+    }
+
+    if (settings.translations !== undefined) {
+      if (!settings.translations || typeof settings.translations !== 'object' || Array.isArray(settings.translations)) {
+        throw new ValidationError('Translations must map language codes to terms', 'translations')
+      }
+
+      const translations: Record<LanguageCode, string> = {}
+      for (const [lang, value] of Object.entries(settings.translations)) {
+        if (!Object.hasOwn(SUPPORTED_LANGUAGES, lang)) {
+          throw new ValidationError(`Unsupported language: ${lang}`, 'translations')
+        }
+        if (typeof value === 'string' && !value.trim()) {
+          continue
+        }
+        translations[lang] = this.validateTerm(value)
+      }
+      update.translations = translations
+    }
+
+    if (Object.keys(update).length === 0) {
+      throw new ValidationError('No term settings to update')
+    }
+    return update
+  }
+
+  /**
+   * Helper: Trim a term and check it is usable
+   */
+  private validateTerm(term: string): string {
+    const value = typeof term === 'string' ? term.trim() : ''
+    if (!value) {
+      throw new ValidationError('Term cannot be empty', 'term')
+    }
+    if (value.length > GLOSSARY_CONFIG.MAX_TERM_LENGTH) {
+      throw new ValidationError(`Terms must be at most ${GLOSSARY_CONFIG.MAX_TERM_LENGTH} characters`, 'term')
+    }
+    return value
+  }
+
   /**
    * Helper: Determine if term should preserve case
    */
@@ -385,6 +774,8 @@ export class GlossaryManagerImpl implements GlossaryManager {
       id: `default-${index}`,
       communityId: 'default',
       term: t.term,
+      category: t.category,
+      preserveCase: t.preserveCase,
       createdBy: 'system',
       createdAt: new Date()
     }))
@@ -403,6 +794,8 @@ export class GlossaryManagerImpl implements GlossaryManager {
       id,
       communityId: updates.communityId || 'default',
       term: updates.term || '',
+      category: updates.category || 'custom',
+      preserveCase: updates.preserveCase ?? false,
       createdBy: updates.createdBy || 'system',
       createdAt: new Date()
     }
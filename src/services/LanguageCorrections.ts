@@ -0,0 +1,153 @@
+import { ObjectId, Document, WithId } from 'mongodb'
+import { getDatabase } from '@/lib/mongodb'
+import { LanguageCode, LanguageCorrection, LanguageCorrectionRole, Message } from '@/types'
+import { LanguageCorrectionService } from './interfaces'
+import { ValidationError, NotFoundError, AuthorizationError, handleError } from '@/lib/errors'
+import { SUPPORTED_LANGUAGES, LANGUAGE_CORRECTION_CONFIG } from '@/lib/constants'
+import { getMessageService, getCommunityService } from './index'
+
+const COLLECTION = 'language_corrections'
+
+/**
+ * Mongo-backed log of corrections to the language messages were detected as.
+ * The sender, or a moderator of the message's community, sets the right language; the
+ * message takes it at once and the caller re-translates it. Every correction is kept,
+ * with the text it applied to, so detection can be evaluated and retrained against them.
+ */
+export class MongoLanguageCorrectionService implements LanguageCorrectionService {
+  /**
+   * Mark a message as written in another language and record the correction
+   * Direct messages can only be corrected by their sender
+   */
+  async correctLanguage(
+    messageId: string,
+    language: LanguageCode,
+    userId: string
+  ): Promise<{ message: Message; correction: LanguageCorrection }> {
+    try {
+      if (typeof language !== 'string' || !Object.hasOwn(SUPPORTED_LANGUAGES, language)) {
+        throw new ValidationError('Unsupported language', 'language')
+      }
+
+      const message = await getMessageService().getMessageById(messageId)
+      if (!message) {
+        throw new NotFoundError('Message')
+      }
+      if (!message.content.trim()) {
+        throw new ValidationError('Message has no text to set the language of')
+      }
+      if (message.sourceLanguage === language) {
+        throw new ValidationError(`Message is already marked as ${SUPPORTED_LANGUAGES[language as keyof typeof SUPPORTED_LANGUAGES]}`, 'language')
+      }
+
+      const { role, communityId } = await this.requireCorrectionAccess(message, userId)
+
+      const updated = await getMessageService().setSourceLanguage(message.id, language, message.content)
+      if (!updated) {
+        throw new ValidationError('Message was changed by another edit, please retry')
+      }
+
+      const doc = {
+        messageId: new ObjectId(message.id),
+        channelId: message.conversationId || message.channelId,
+        ...(communityId ? { communityId } : {}),
+        content: message.content,
+        previousLanguage: message.sourceLanguage,
+        correctedLanguage: language,
+        correctedBy: userId,
+        correctedByRole: role,
+        createdAt: new Date()
+      }
+
+      const db = await getDatabase()
+      const result = await db.collection(COLLECTION).insertOne(doc)
+
+      return { message: updated, correction: this.mapCorrection({ _id: result.insertedId, ...doc }) }
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoLanguageCorrectionService.correctLanguage')
+    }
+  }
+
+  /**
+   * All corrections, optionally only those made after a date, newest first
+   */
+  async getCorrections(since?: Date): Promise<LanguageCorrection[]> {
+    try {
+      const db = await getDatabase()
+      const docs = await db.collection(COLLECTION)
+        .find(since ? { createdAt: { $gt: since } } : {})
+        .sort({ createdAt: -1 })
+        .limit(LANGUAGE_CORRECTION_CONFIG.MAX_EXPORT_SIZE)
+        .toArray()
+
+      return docs.map(doc => this.mapCorrection(doc))
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoLanguageCorrectionService.getCorrections')
+    }
+  }
+
+  /**
+   * Corrected texts grouped by their language, in the shape of the detector's training
+   * corpus (data/languageTraining.json); only a message's latest correction counts
+   */
+  async exportCorpus(since?: Date): Promise<Record<string, string[]>> {
+    try {
+      const corpus: Record<string, string[]> = {}
+      const seen = new Set<string>()
+
+      for (const correction of await this.getCorrections(since)) {
+        if (seen.has(correction.messageId)) continue
+        seen.add(correction.messageId)
+
+        const texts = corpus[correction.correctedLanguage] || (corpus[correction.correctedLanguage] = [])
+        if (!texts.includes(correction.content)) {
+          texts.push(correction.content)
+        }
+      }
+
+      return corpus
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoLanguageCorrectionService.exportCorpus')
+    }
+  }
+
+  /**
+   * Helper: Whether the user corrects as the sender or as a community moderator
+   */
+  private async requireCorrectionAccess(
+    message: Message,
+    userId: string
+  ): Promise<{ role: LanguageCorrectionRole; communityId?: string }> {
+    const isSender = message.senderId === userId
+
+    if (message.conversationId) {
+      if (!isSender) {
+        throw new AuthorizationError('Only the sender can change the language of a direct message')
+      }
+      return { role: 'sender' }
+    }
+
+    // Senders still need to be in the community; anyone else needs to moderate it
+    const { communityId } = await getCommunityService().requireChannelPermission(
+      message.channelId,
+      userId,
+      isSender ? 'view_channels' : 'moderate_messages'
+    )
+    return { role: isSender ? 'sender' : 'moderator', communityId }
+  }
+
+  private mapCorrection(doc: WithId<Document>): LanguageCorrection {
+    return {
+      id: doc._id.toString(),
+      messageId: doc.messageId.toString(),
+      channelId: doc.channelId,
+      communityId: doc.communityId,
+      content: doc.content,
+      previousLanguage: doc.previousLanguage,
+      correctedLanguage: doc.correctedLanguage,
+      correctedBy: doc.correctedBy,
+      correctedByRole: doc.correctedByRole as LanguageCorrectionRole,
+      createdAt: doc.createdAt
+    }
+  }
+}
@@ -1,9 +1,20 @@
 // Enhanced Language Detection Service with Romanized Language Support
 
-import { LanguageDetector } from './interfaces'
+import { LanguageDetectionPriors, LanguageDetector } from './interfaces'
 import { LanguageCode } from '@/types'
-import { SUPPORTED_LANGUAGES } from '@/lib/constants'
+import { LANGUAGE_DETECTION_CONFIG, SUPPORTED_LANGUAGES } from '@/lib/constants'
 import { LanguageDetectionError, handleError } from '@/lib/errors'
+import { NgramLanguageModel } from './NgramLanguageModel'
+
+// Texts with fewer letters than this are never reported as confidently detected
+const SHORT_TEXT_LETTERS = 20
+
+// Candidates scoring below this share of the detected language are not worth suggesting
+const MIN_SUGGESTION_SHARE = 0.25
+
+// Sentences with fewer letters than this are kept with the sentence before them when
+// content is split by language, rather than guessed at on their own
+const MIN_SEGMENT_LETTERS = 8
 
 export interface LanguageDetectionResult {
   language: LanguageCode
@@ -15,252 +26,30 @@ export interface LanguageDetectionResult {
 export interface MixedLanguageResult {
   primaryLanguage: LanguageCode
   segments: Array<{
-    text: string
+    text: string // Joined in order, the segments give back the content
     language: LanguageCode
+    isRomanized: boolean
     isProtected: boolean
   }>
 }
 
+/**
+ * Detects languages with a character n-gram model trained on sample sentences, nudged by
+ * the writing systems and letters that only some languages use
+ */
 export class LanguageDetectorImpl implements LanguageDetector {
-  private commonWords: Record<string, string[]> = {
-    'en': [
-      'the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
-      'from', 'up', 'about', 'into', 'over', 'after', 'is', 'are', 'was', 'were',
-      'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did', 'will',
-      'would', 'could', 'should', 'may', 'might', 'must', 'can', 'this', 'that',
-      'these', 'those', 'i', 'you', 'he', 'she', 'it', 'we', 'they', 'me', 'him',
-      'her', 'us', 'them', 'my', 'your', 'his', 'our', 'their', 'what', 'which',
-      'who', 'when', 'where', 'why', 'how', 'all', 'any', 'both', 'each', 'few',
-      'more', 'most', 'other', 'some', 'such', 'no', 'nor', 'not', 'only', 'own',
-      'same', 'so', 'than', 'too', 'very', 'just', 'now'
-    ],
-    'es': [
-      'el', 'la', 'de', 'que', 'y', 'a', 'en', 'un', 'es', 'se', 'no', 'te', 'lo',
-      'le', 'da', 'su', 'por', 'son', 'con', 'para', 'al', 'del', 'los', 'las',
-      'una', 'como', 'pero', 'sus', 'le', 'ya', 'o', 'porque', 'cuando', 'muy',
-      'sin', 'sobre', 'también', 'me', 'hasta', 'hay', 'donde', 'quien', 'desde',
-      'todo', 'nos', 'durante', 'todos', 'uno', 'les', 'ni', 'contra', 'otros',
-      'ese', 'eso', 'ante', 'ellos', 'e', 'esto', 'mí', 'antes', 'algunos', 'qué',
-      'unos', 'yo', 'otro', 'otras', 'otra', 'él', 'tanto', 'esa', 'estos', 'mucho',
-      'quienes', 'nada', 'muchos', 'cual', 'poco', 'ella', 'estar', 'estas', 'algunas',
-      'algo', 'nosotros', 'mi', 'mis', 'tú', 'te', 'ti', 'tu', 'tus', 'ellas', 'nosotras'
-    ],
-    'fr': [
-      'le', 'de', 'et', 'à', 'un', 'il', 'être', 'et', 'en', 'avoir', 'que', 'pour',
-      'dans', 'ce', 'son', 'une', 'sur', 'avec', 'ne', 'se', 'pas', 'tout', 'plus',
-      'par', 'grand', 'en', 'une', 'être', 'et', 'en', 'avoir', 'que', 'pour', 'dans',
-      'ce', 'son', 'une', 'sur', 'avec', 'ne', 'se', 'pas', 'tout', 'plus', 'par',
-      'grand', 'en', 'une', 'être', 'et', 'en', 'avoir', 'que', 'pour', 'dans', 'ce',
-      'son', 'une', 'sur', 'avec', 'ne', 'se', 'pas', 'tout', 'plus', 'par', 'grand',
-      'du', 'la', 'des', 'les', 'au', 'aux', 'je', 'tu', 'nous', 'vous', 'ils', 'elles',
-      'me', 'te', 'se', 'nous', 'vous', 'leur', 'leurs', 'mon', 'ma', 'mes', 'ton', 'ta',
-      'tes', 'son', 'sa', 'ses', 'notre', 'nos', 'votre', 'vos'
-    ],
-    'de': [
-      'der', 'die', 'und', 'in', 'den', 'von', 'zu', 'das', 'mit', 'sich', 'des',
-      'auf', 'für', 'ist', 'im', 'dem', 'nicht', 'ein', 'eine', 'als', 'auch',
-      'es', 'an', 'werden', 'aus', 'er', 'hat', 'dass', 'sie', 'nach', 'wird',
-      'bei', 'einer', 'um', 'am', 'sind', 'noch', 'wie', 'einem', 'über', 'einen',
-      'so', 'zum', 'war', 'haben', 'nur', 'oder', 'aber', 'vor', 'zur', 'bis',
-      'mehr', 'durch', 'man', 'sein', 'wurde', 'sei', 'in', 'ich', 'du', 'er',
-      'sie', 'es', 'wir', 'ihr', 'sie', 'mich', 'mir', 'mein', 'dich', 'dir',
-      'dein', 'ihn', 'ihm', 'sein', 'uns', 'unser', 'euch', 'euer', 'ihnen', 'ihr'
-    ],
-    'it': [
-      'il', 'di', 'che', 'e', 'la', 'per', 'un', 'in', 'con', 'del', 'da', 'a',
-      'al', 'le', 'si', 'dei', 'come', 'su', 'le', 'alla', 'nel', 'una', 'sono',
-      'dalla', 'questo', 'hanno', 'lo', 'ma', 'all', 'o', 'anche', 'più', 'dopo',
-      'molto', 'fare', 'dove', 'quella', 'anni', 'cui', 'mi', 'stato', 'oggi',
-      'mai', 'fra', 'durante', 'loro', 'mio', 'tempo', 'senza', 'forse', 'suo',
-      'così', 'dire', 'quando', 'questo', 'ogni', 'viene', 'è', 'tutti', 'già',
-      'attraverso', 'anche', 'solo', 'però', 'anni', 'ancora', 'fino', 'ora',
-      'mentre', 'qui', 'dove', 'perché', 'tanto', 'cosa', 'quella', 'volta',
-      'sempre', 'tutto', 'lei', 'ci', 'durante', 'tutti', 'tempo', 'molto'
-    ],
-    'pt': [
-      'o', 'de', 'a', 'e', 'do', 'da', 'em', 'um', 'para', 'é', 'com', 'não',
-      'uma', 'os', 'no', 'se', 'na', 'por', 'mais', 'as', 'dos', 'como', 'mas',
-      'foi', 'ao', 'ele', 'das', 'tem', 'à', 'seu', 'sua', 'ou', 'ser', 'quando',
-      'muito', 'há', 'nos', 'já', 'está', 'eu', 'também', 'só', 'pelo', 'pela',
-      'até', 'isso', 'ela', 'entre', 'era', 'depois', 'sem', 'mesmo', 'aos',
-      'ter', 'seus', 'suas', 'numa', 'pelos', 'pelas', 'esse', 'eles', 'estão',
-      'você', 'tinha', 'foram', 'essa', 'num', 'nem', 'suas', 'meu', 'às',
-      'minha', 'têm', 'numa', 'pelos', 'pelas', 'essas', 'esses', 'pelas',
-      'aquela', 'aquele', 'deles', 'delas', 'esta', 'estas', 'este', 'estes'
-    ],
-    'ru': [
-      'в', 'и', 'не', 'на', 'я', 'быть', 'то', 'он', 'оно', 'как', 'по', 'но',
-      'они', 'мы', 'этот', 'она', 'а', 'к', 'мой', 'вы', 'ты', 'из', 'у', 'же',
-      'за', 'если', 'ли', 'более', 'эти', 'так', 'чем', 'была', 'сам', 'чтобы',
-      'без', 'будто', 'человек', 'чего', 'раз', 'тоже', 'себя', 'под', 'будет',
-      'жизнь', 'будут', 'же', 'для', 'надо', 'любить', 'уж', 'во', 'над',
-      'долго', 'быстро', 'никогда', 'совсем', 'ни', 'теперь', 'новый', 'может',
-      'старый', 'где', 'каждый', 'главный', 'место', 'работа', 'слово', 'дело',
-      'жить', 'такой', 'какой', 'здесь', 'свой', 'образ', 'под', 'формула'
-    ],
-    'ja': [
-      'の', 'に', 'は', 'を', 'た', 'が', 'で', 'て', 'と', 'し', 'れ', 'さ',
-      'ある', 'いる', 'も', 'する', 'から', 'な', 'こと', 'として', 'い', 'や',
-      'れる', 'など', 'なっ', 'ない', 'この', 'ため', 'その', 'あっ', 'よう',
-      'また', 'もの', 'という', 'あり', 'まで', 'られ', 'なる', 'へ', 'か',
-      'だ', 'これ', 'によって', 'により', 'おり', 'より', 'による', 'ず',
-      'なり', 'られる', 'において', 'ば', 'なかっ', 'なく', 'しかし', 'について',
-      'せ', 'だっ', 'その後', 'できる', 'それ', 'う', 'ので', 'なお', 'のみ',
-      'でき', 'き', 'つ', 'における', 'および', 'いう', 'さらに', 'でも',
-      'ら', 'たり', 'その他', 'に関して', 'たち', 'ます', 'ん', 'なら'
-    ],
-    'ko': [
-      '이', '의', '가', '을', '는', '에', '한', '하다', '있다', '되다', '와', '로',
-      '으로', '자', '에게', '와서', '에서', '으로서', '를', '과', '도', '만', '에서도',
-      '부터', '까지', '에게서', '로부터', '에게로', '으로부터', '에게까지', '로서',
-      '에 대해', '에 관해', '에 의해', '로 인해', '때문에', '에 따라', '에 비해',
-      '에 반해', '에 대한', '에 관한', '에 의한', '로 인한', '때문인', '에 따른',
-      '에 비한', '에 반한', '그리고', '그러나', '하지만', '그런데', '따라서',
-      '그러므로', '그래서', '또한', '또', '역시', '물론', '예를 들어', '즉',
-      '다시 말해', '바꿔 말하면', '요약하면', '결론적으로', '마지막으로'
-    ],
-    'zh': [
-      '的', '一', '是', '在', '不', '了', '有', '和', '人', '这', '中', '大', '为',
-      '上', '个', '国', '我', '以', '要', '他', '时', '来', '用', '们', '生', '到',
-      '作', '地', '于', '出', '就', '分', '对', '成', '会', '可', '主', '发', '年',
-      '动', '同', '工', '也', '能', '下', '过', '子', '说', '产', '种', '面', '而',
-      '方', '后', '多', '定', '行', '学', '法', '所', '民', '得', '经', '十', '三',
-      '之', '进', '着', '等', '部', '度', '家', '电', '力', '里', '如', '水', '化',
-      '高', '自', '二', '理', '起', '小', '物', '现', '实', '加', '量', '都', '两',
-      '体', '制', '机', '当', '使', '点', '从', '业', '本', '去', '把', '性', '好',
-      '应', '开', '它', '合', '还', '因', '由', '其', '些', '然', '前', '外', '天',
-      '政', '四', '日', '那', '社', '义', '事', '平', '形', '相', '全', '表', '间',
-      '样', '与', '关', '各', '重', '新', '线', '内', '数', '正', '心', '反', '你',
-      '明', '看', '原', '又', '么', '利', '比', 'ä¸', 'ä¸€', 'æ˜¯', 'åœ¨', 'ä¸', 'äº†'
-    ],
-    'ar': [
-      'في', 'من', 'إلى', 'على', 'هذا', 'هذه', 'التي', 'الذي', 'أن', 'كان', 'لم',
-      'قد', 'ما', 'لا', 'أو', 'إذا', 'كل', 'بعد', 'عند', 'أي', 'حيث', 'بين',
-      'خلال', 'قبل', 'حول', 'ضد', 'نحو', 'عبر', 'فوق', 'تحت', 'أمام', 'خلف',
-      'يمين', 'يسار', 'داخل', 'خارج', 'معا', 'سويا', 'أيضا', 'كذلك', 'هكذا',
-      'هناك', 'هنا', 'أين', 'كيف', 'متى', 'لماذا', 'ماذا', 'من', 'أي', 'كم',
-      'أنا', 'أنت', 'هو', 'هي', 'نحن', 'أنتم', 'هم', 'هن', 'لي', 'لك', 'له',
-      'لها', 'لنا', 'لكم', 'لهم', 'لهن', 'بي', 'بك', 'به', 'بها', 'بنا', 'بكم',
-      'بهم', 'بهن', 'عني', 'عنك', 'عنه', 'عنها', 'عنا', 'عنكم', 'عنهم', 'عنهن'
-    ],
-    'hi': [
-      'के', 'में', 'की', 'को', 'से', 'पर', 'है', 'और', 'एक', 'यह', 'वह', 'था',
-      'हैं', 'थे', 'होगा', 'होगी', 'होंगे', 'करना', 'किया', 'करते', 'करती',
-      'करेंगे', 'करेगा', 'करेगी', 'कर', 'कि', 'जो', 'भी', 'अब', 'तब', 'यदि',
-      'तो', 'या', 'नहीं', 'न', 'ना', 'मत', 'क्या', 'कैसे', 'कब', 'कहाँ', 'क्यों',
-      'कौन', 'कितना', 'कितनी', 'कितने', 'मैं', 'तू', 'तुम', 'आप', 'वे', 'हम',
-      'मेरा', 'मेरी', 'मेरे', 'तेरा', 'तेरी', 'तेरे', 'तुम्हारा', 'तुम्हारी',
-      'तुम्हारे', 'आपका', 'आपकी', 'आपके', 'उसका', 'उसकी', 'उसके', 'उनका',
-      'उनकी', 'उनके', 'हमारा', 'हमारी', 'हमारे', 'इस', 'उस', 'इन', 'उन',
-      'यहाँ', 'वहाँ', 'जहाँ', 'कहीं', 'सब', 'कुछ', 'कोई', 'सभी', 'अधिक', 'कम'
-    ],
-    // Romanized Hindi (Hinglish) - common romanized words and phrases
-    'hi-rom': [
-      // Common words
-      'hai', 'hain', 'tha', 'the', 'hoga', 'hogi', 'honge', 'karna', 'kiya', 'karte',
-      'karti', 'karenge', 'karega', 'karegi', 'kar', 'ki', 'jo', 'bhi', 'ab', 'tab',
-      'yadi', 'to', 'ya', 'nahi', 'na', 'mat', 'kya', 'kaise', 'kab', 'kahan', 'kyon',
-      'kaun', 'kitna', 'kitni', 'kitne', 'main', 'tu', 'tum', 'aap', 've', 'hum',
-      'mera', 'meri', 'mere', 'tera', 'teri', 'tere', 'tumhara', 'tumhari', 'tumhare',
-      'aapka', 'aapki', 'aapke', 'uska', 'uski', 'uske', 'unka', 'unki', 'unke',
-      'hamara', 'hamari', 'hamare', 'is', 'us', 'in', 'un', 'yahan', 'vahan', 'jahan',
-      'kahin', 'sab', 'kuch', 'koi', 'sabhi', 'adhik', 'kam', 'ke', 'mein', 'se',
-      'par', 'aur', 'ek', 'yeh', 'vah', 'chahiye', 'chahte', 'chahti', 'liye', 'liya',
-      'diya', 'dena', 'lena', 'jaana', 'aana', 'gaya', 'aayi', 'gaye', 'aaye', 'muje',
-      'mujhe', 'tuje', 'tujhe', 'use', 'unhe', 'hame', 'tumhe', 'apne', 'apni', 'apna',
-      // Additional common phrases
-      'accha', 'theek', 'bahut', 'zyada', 'thoda', 'abhi', 'baad', 'pehle', 'saath',
-      'wala', 'wali', 'wale', 'karo', 'bolo', 'batao', 'dekho', 'suno', 'jao', 'aao',
-      'raho', 'khao', 'piyo', 'padho', 'likho', 'samjho', 'socho', 'baitho', 'uthao',
-      'project', 'help', 'please', 'thanks', 'sorry', 'hello', 'bye', 'ok', 'done',
-      // Question patterns
-      'kyun', 'kaise', 'kidhar', 'kiska', 'kiski', 'kiske', 'kaisa', 'kaisi', 'kaise'
-    ]
-  }
+  private readonly model: NgramLanguageModel
 
-  private languagePatterns: Record<string, RegExp[]> = {
-    'en': [
-      /\b(the|and|or|but|in|on|at|to|for|of|with|by)\b/gi,
-      /\b(is|are|was|were|be|been|being|have|has|had)\b/gi,
-      /\b(this|that|these|those|what|which|who|when|where|why|how)\b/gi
-    ],
-    'es': [
-      /\b(el|la|los|las|un|una|unos|unas)\b/gi,
-      /\b(de|del|en|con|por|para|desde|hasta)\b/gi,
-      /\b(que|como|cuando|donde|porque|si)\b/gi,
-      /ción\b/gi,
-      /mente\b/gi
-    ],
-    'fr': [
-      /\b(le|la|les|un|une|des|du|de|des)\b/gi,
-      /\b(je|tu|il|elle|nous|vous|ils|elles)\b/gi,
-      /\b(que|qui|quoi|comment|quand|où|pourquoi)\b/gi,
-      /tion\b/gi,
-      /ment\b/gi
-    ],
-    'de': [
-      /\b(der|die|das|den|dem|des|ein|eine|einen|einem|einer)\b/gi,
-      /\b(ich|du|er|sie|es|wir|ihr|sie)\b/gi,
-      /\b(und|oder|aber|wenn|weil|dass|wie)\b/gi,
-      /ung\b/gi,
-      /keit\b/gi,
-      /lich\b/gi
-    ],
-    'it': [
-      /\b(il|la|lo|gli|le|un|una|uno)\b/gi,
-      /\b(di|da|in|con|su|per|tra|fra)\b/gi,
-      /\b(che|chi|cosa|come|quando|dove|perché)\b/gi,
-      /zione\b/gi,
-      /mente\b/gi
-    ],
-    'pt': [
-      /\b(o|a|os|as|um|uma|uns|umas)\b/gi,
-      /\b(de|da|do|em|na|no|com|por|para)\b/gi,
-      /\b(que|quem|o que|como|quando|onde|por que)\b/gi,
-      /ção\b/gi,
-      /mente\b/gi
-    ],
-    'ru': [
-      /[а-яё]/gi,
-      /\b(и|в|не|на|я|быть|то|он|как|по|но|они|мы|этот|она|а)\b/gi
-    ],
-    'ja': [
-      /[ひらがな]/gi,
-      /[カタカナ]/gi,
-      /[一-龯]/gi,
-      /\b(です|ます|である|だ|の|に|は|を|が|で|て|と)\b/gi
-    ],
-    'ko': [
-      /[가-힣]/gi,
-      /\b(이|그|저|의|가|을|는|에|한|하다|있다|되다)\b/gi
-    ],
-    'zh': [
-      /[一-龯]/gi,
-      /\b(的|一|是|在|不|了|有|和|人|这|中|大|为|上|个)\b/gi
-    ],
-    'ar': [
-      /[ا-ي]/gi,
-      /\b(في|من|إلى|على|هذا|هذه|التي|الذي|أن|كان)\b/gi
-    ],
-    'hi': [
-      /[अ-ह]/gi,
-      /\b(के|में|की|को|से|पर|है|और|एक|यह|वह|था)\b/gi
-    ],
-    // Romanized Hindi patterns
-    'hi-rom': [
-      /\b(hai|hain|tha|the|hoga|hogi|honge|karna|kiya|karte|karti)\b/gi,
-      /\b(muje|mujhe|tuje|tujhe|use|unhe|hame|tumhe)\b/gi,
-      /\b(chahiye|chahte|chahti|liye|liya|diya|dena|lena)\b/gi,
-      /\b(jaana|aana|gaya|aayi|gaye|aaye|apne|apni|apna)\b/gi,
-      /\b(ke|mein|ki|ko|se|par|aur|ek|yeh|vah)\b/gi,
-      /\b(kya|kaise|kab|kahan|kyon|kaun|kitna|kitni)\b/gi
-    ]
+  constructor(model: NgramLanguageModel = new NgramLanguageModel()) {
+    this.model = model
   }
 
   /**
    * Detect the language of the given content with romanization support
+   * Priors about the sender and channel decide short or ambiguous messages and give way as
+   * the content gets longer
    */
-  async detectLanguage(content: string): Promise<LanguageDetectionResult> {
+  async detectLanguage(content: string, priors?: LanguageDetectionPriors): Promise<LanguageDetectionResult> {
     try {
       if (!content || !content.trim()) {
         throw new LanguageDetectionError('Content is required for language detection')
@@ -268,23 +57,32 @@ export class LanguageDetectorImpl implements LanguageDetector {
 
       const cleanContent = this.cleanContent(content)
 
-      // If content is too short, return English as default with low confidence
-      if (cleanContent.length < 10) {
+      const letters = this.countLetters(cleanContent)
+      const priorScores = this.calculatePriorScores(priors)
+
+      // Nothing but code, links or symbols: there is no language to detect, so go by the priors alone
+      if (letters === 0) {
+        const likelyLanguages = Object.entries(priorScores)
+          .sort(([, a], [, b]) => b - a)
+          .map(([lang]) => lang as LanguageCode)
+
         return {
-          language: 'en',
-          confidence: 0.3,
+          language: likelyLanguages[0] || 'en',
+          confidence: 0,
           isRomanized: false,
-          fallbackSuggestions: []
+          fallbackSuggestions: likelyLanguages.slice(1, 4)
         }
       }
 
       const scores = this.calculateLanguageScores(cleanContent)
+      this.addPriorScores(scores, priorScores, letters)
+
       const sortedScores = Object.entries(scores)
         .sort(([, a], [, b]) => b - a)
         .slice(0, 5) // Top 5 candidates
 
       // Check for romanized languages
-      const romanizedResult = this.detectRomanizedLanguage(cleanContent, sortedScores)
+      const romanizedResult = this.detectRomanizedLanguage(sortedScores, letters)
       if (romanizedResult) {
         return romanizedResult
       }
@@ -292,7 +90,7 @@ export class LanguageDetectorImpl implements LanguageDetector {
       // Calculate confidence based on score distribution
       const topScore = sortedScores[0][1]
       const secondScore = sortedScores[1]?.[1] || 0
-      const confidence = this.calculateConfidence(topScore, secondScore)
+      const confidence = this.limitConfidence(this.calculateConfidence(topScore, secondScore), letters)
 
       const topLanguage = sortedScores[0][0] as LanguageCode
 
@@ -301,7 +99,11 @@ export class LanguageDetectorImpl implements LanguageDetector {
 
       // Generate fallback suggestions if confidence is low
       const fallbackSuggestions = confidence < 0.6
-        ? sortedScores.slice(1, 4).map(([lang]) => lang as LanguageCode)
+        ? sortedScores
+          .filter(([lang, score]) => lang !== detectedLanguage && lang in SUPPORTED_LANGUAGES &&
+            score >= topScore * MIN_SUGGESTION_SHARE)
+          .map(([lang]) => lang)
+          .slice(0, 3) as LanguageCode[]
         : []
 
       return {
@@ -328,7 +130,7 @@ export class LanguageDetectorImpl implements LanguageDetector {
       const scores = this.calculateLanguageScores(cleanContent)
 
       // Check if any romanized language has a significant score
-      const romanizedLanguages = ['hi-rom'] // Can be extended for other languages
+      const romanizedLanguages = this.model.getLanguages().filter(lang => lang.endsWith('-rom'))
       for (const romLang of romanizedLanguages) {
         if (scores[romLang] && scores[romLang] > 0.1) {
           return true
@@ -341,6 +143,22 @@ export class LanguageDetectorImpl implements LanguageDetector {
     }
   }
 
+  /**
+   * Whether content known to be in a language is written in Latin letters rather than the
+   * language's own script, for languages with a romanized variant (Hinglish for hi...)
+   * Code, links and mentions do not count, so a message of mostly links is not romanized
+   */
+  async isRomanizedAs(content: string, language: LanguageCode): Promise<boolean> {
+    if (!this.model.getLanguages().includes(`${language}-rom`)) {
+      return false
+    }
+
+    const cleanContent = this.cleanContent(content)
+    const letters = this.countLetters(cleanContent)
+    const latin = cleanContent.match(/[a-z]/g)?.length || 0
+    return latin > 0 && latin * 2 >= letters
+  }
+
   /**
    * Get confidence score for a specific language
    */
@@ -360,37 +178,63 @@ export class LanguageDetectorImpl implements LanguageDetector {
   }
 
   /**
-   * Detect mixed language content with segmentation
+   * Split content into runs of sentences that share a language
+   * The segments cover the content in order, punctuation and spacing included, so joining
+   * their text gives the content back. Fragments too short to judge join the run before them
    */
-  async detectMixedLanguageContent(content: string): Promise<MixedLanguageResult> {
+  async detectMixedLanguageContent(content: string, priors?: LanguageDetectionPriors): Promise<MixedLanguageResult> {
     try {
       if (!content || !content.trim()) {
         throw new LanguageDetectionError('Content is required for mixed language detection')
       }
 
-      // Split content into sentences
-      const sentences = this.splitIntoSentences(content)
       const segments: MixedLanguageResult['segments'] = []
       const languageCounts: Record<string, number> = {}
+      let pending = '' // Leading fragments, until a sentence long enough to judge follows
+
+      for (const sentence of this.splitIntoSentences(content)) {
+        const letters = this.countLetters(this.cleanContent(sentence))
+        const last = segments[segments.length - 1]
+
+        if (letters < MIN_SEGMENT_LETTERS) {
+          if (last) {
+            last.text += sentence
+          } else {
+            pending += sentence
+          }
+          continue
+        }
 
-      for (const sentence of sentences) {
-        if (sentence.trim().length > 5) {
-          const result = await this.detectLanguage(sentence)
-          const lang = result.isRomanized ? `${result.language}-rom` : result.language
-
-          languageCounts[lang] = (languageCounts[lang] || 0) + sentence.length
+        const result = await this.detectLanguage(sentence, priors)
+        const lang = result.isRomanized ? `${result.language}-rom` : result.language
+        languageCounts[lang] = (languageCounts[lang] || 0) + letters
 
+        if (last && last.language === result.language && last.isRomanized === result.isRomanized) {
+          last.text += sentence
+        } else {
           segments.push({
-            text: sentence,
+            text: pending + sentence,
             language: result.language,
+            isRomanized: result.isRomanized,
             isProtected: false // Will be determined by Glossary Manager
           })
+          pending = ''
         }
       }
 
       // Determine primary language
-      const primaryLanguage = Object.entries(languageCounts)
-        .sort(([, a], [, b]) => b - a)[0]?.[0]?.replace('-rom', '') || 'en'
+      const primaryLabel = Object.entries(languageCounts).sort(([, a], [, b]) => b - a)[0]?.[0]
+      const primaryLanguage = primaryLabel?.replace('-rom', '') || priors?.primaryLanguage || 'en'
+
+      // Nothing was long enough to judge; the whole content is one segment
+      if (pending) {
+        segments.push({
+          text: pending,
+          language: primaryLanguage,
+          isRomanized: !!primaryLabel?.endsWith('-rom'),
+          isProtected: false
+        })
+      }
 
       return {
         primaryLanguage: primaryLanguage as LanguageCode,
@@ -402,29 +246,37 @@ export class LanguageDetectorImpl implements LanguageDetector {
   }
 
   /**
-   * Detect romanized language from scores
+   * Detect a language written in Latin letters (Hinglish, Arabizi, romaji...) from scores
+   * Its label either leads or follows English closely, which romanized text is often mixed with
    */
   private detectRomanizedLanguage(
-    content: string,
-    sortedScores: [string, number][]
+    sortedScores: [string, number][],
+    letters: number
   ): LanguageDetectionResult | null {
-    // Check for romanized Hindi (Hinglish)
-    const hinglishScore = sortedScores.find(([lang]) => lang === 'hi-rom')?.[1] || 0
+    const [topLabel] = sortedScores[0]
+    const romanized = topLabel.endsWith('-rom')
+      ? sortedScores[0]
+      : topLabel === 'en' ? sortedScores.find(([lang]) => lang.endsWith('-rom')) : undefined
+    if (!romanized) {
+      return null
+    }
+
+    const [label, romanizedScore] = romanized
     const englishScore = sortedScores.find(([lang]) => lang === 'en')?.[1] || 0
+    const language = label.replace('-rom', '')
 
-    // If romanized Hindi score is significant and comparable to English
-    if (hinglishScore > 0.15 && hinglishScore > englishScore * 0.5) {
-      const confidence = this.calculateConfidence(hinglishScore, englishScore)
+    if (romanizedScore > 0.15 && romanizedScore > englishScore * 0.5 && language in SUPPORTED_LANGUAGES) {
+      const otherScore = Math.max(0, ...sortedScores.filter(([lang]) => lang !== label).map(([, score]) => score))
+      const confidence = this.limitConfidence(this.calculateConfidence(romanizedScore, otherScore), letters)
 
       return {
-        language: 'hi',
+        language: language as LanguageCode,
         confidence,
         isRomanized: true,
         fallbackSuggestions: confidence < 0.6 ? ['en'] : []
       }
     }
 
-    // Can be extended for other romanized languages
     return null
   }
 
@@ -445,6 +297,23 @@ export class LanguageDetectorImpl implements LanguageDetector {
     return 0.4
   }
 
+  /**
+   * Number of letters in cleaned content, where a Chinese, Japanese or Korean character
+   * counts as three since each one says about as much as a short word
+   */
+  private countLetters(content: string): number {
+    const letters = content.match(/[\p{L}\p{M}]/gu)?.length || 0
+    const syllables = content.match(/[\u4e00-\u9fff\u3040-\u30ff\uac00-\ud7af]/g)?.length || 0
+    return letters + syllables * 2
+  }
+
+  /**
+   * Short texts share too many letter sequences between languages to be sure of any of them
+   */
+  private limitConfidence(confidence: number, letters: number): number {
+    return letters < SHORT_TEXT_LETTERS ? Math.min(confidence, 0.4) : confidence
+  }
+
   /**
    * Detect the primary language in mixed-language content
    */
@@ -490,47 +359,60 @@ export class LanguageDetectorImpl implements LanguageDetector {
       .replace(/https?:\/\/[^\s]+/g, '') // Remove URLs
       .replace(/@[^\s]+/g, '') // Remove mentions
       .replace(/#[^\s]+/g, '') // Remove hashtags
-      .replace(/[^\w\s\u00C0-\u017F\u0400-\u04FF\u4e00-\u9fff\u3040-\u309f\u30a0-\u30ff\uac00-\ud7af\u0600-\u06ff\u0900-\u097f]/g, ' ') // Keep only letters and basic punctuation
+      .replace(/[^\w\s\u00C0-\u017F\u0400-\u04FF\u4e00-\u9fff\u3040-\u309f\u30a0-\u30ff\uac00-\ud7af\u0600-\u06ff\u0900-\u097f\u0980-\u09ff\u0b80-\u0bff\u0c00-\u0c7f\u0e00-\u0e7f]/g, ' ') // Keep only letters and basic punctuation
       .replace(/\s+/g, ' ') // Normalize whitespace
       .trim()
   }
 
   /**
-   * Calculate language scores based on common words and patterns
+   * Calculate language scores from the n-gram model and the writing system
    */
   private calculateLanguageScores(content: string): Record<string, number> {
-    const scores: Record<string, number> = {}
-    const words = content.split(/\s+/)
-    const totalWords = words.length
-
-    // Initialize scores
-    Object.keys(this.commonWords).forEach(lang => {
-      scores[lang] = 0
-    })
-
-    // Score based on common words
-    for (const word of words) {
-      for (const [lang, commonWords] of Object.entries(this.commonWords)) {
-        if (commonWords.includes(word)) {
-          scores[lang] += 2 / totalWords // Weight by inverse of total words
-        }
+    const scores = this.model.classify(content)
+
+    // Bonus for character sets
+    this.addCharacterSetBonus(content, scores)
+
+    return scores
+  }
+
+  /**
+   * How likely each language is from what is known about the sender and channel, summing to at most 1
+   */
+  private calculatePriorScores(priors?: LanguageDetectionPriors): Record<string, number> {
+    const priorScores: Record<string, number> = {}
+    const add = (language: string | undefined, weight: number) => {
+      if (language && language in SUPPORTED_LANGUAGES) {
+        priorScores[language] = (priorScores[language] || 0) + weight
       }
     }
 
-    // Score based on language patterns
-    for (const [lang, patterns] of Object.entries(this.languagePatterns)) {
-      for (const pattern of patterns) {
-        const matches = content.match(pattern)
-        if (matches) {
-          scores[lang] += matches.length * 0.5 / content.length
-        }
-      }
+    add(priors?.primaryLanguage, LANGUAGE_DETECTION_CONFIG.PRIMARY_LANGUAGE_WEIGHT)
+    const recentLanguages = priors?.recentLanguages || []
+    for (const language of recentLanguages) {
+      add(language, LANGUAGE_DETECTION_CONFIG.RECENT_LANGUAGES_WEIGHT / recentLanguages.length)
     }
+    add(priors?.channelLanguage, LANGUAGE_DETECTION_CONFIG.CHANNEL_LANGUAGE_WEIGHT)
 
-    // Bonus for character sets
-    this.addCharacterSetBonus(content, scores)
+    return priorScores
+  }
 
-    return scores
+  /**
+   * Add prior scores to content scores, weighted down as the content gets longer
+   */
+  private addPriorScores(scores: Record<string, number>, priorScores: Record<string, number>, letters: number): void {
+    const fade = LANGUAGE_DETECTION_CONFIG.PRIOR_FADE_LETTERS
+    const weight = fade / (fade + letters)
+
+    for (const [language, priorScore] of Object.entries(priorScores)) {
+      scores[language] = (scores[language] || 0) + priorScore * weight
+
+      // Someone who writes Hindi may write it in Latin letters too
+      const romanized = `${language}-rom`
+      if (romanized in scores) {
+        scores[romanized] += priorScore * weight
+      }
+    }
   }
 
   /**
@@ -547,8 +429,8 @@ export class LanguageDetectorImpl implements LanguageDetector {
       scores['zh'] += 0.5
     }
 
-    // Japanese characters
-    if (/[ひらがなカタカナ]/.test(content)) {
+    // Japanese characters (hiragana and katakana)
+    if (/[\u3040-\u30ff]/.test(content)) {
       scores['ja'] += 0.5
     }
 
@@ -557,18 +439,54 @@ export class LanguageDetectorImpl implements LanguageDetector {
       scores['ko'] += 0.5
     }
 
-    // Arabic characters
+    // Arabic script (Arabic and Urdu)
     if (/[ا-ي]/.test(content)) {
       scores['ar'] += 0.5
+      scores['ur'] += 0.5
     }
 
-    // Hindi characters
+    // Letters Urdu adds to the Arabic alphabet, or writes differently
+    if (/[ٹڈڑںھہۂیےکگ]/.test(content)) {
+      scores['ur'] += 0.3
+    }
+
+    // Devanagari characters (Hindi and Marathi)
     if (/[अ-ह]/.test(content)) {
       scores['hi'] += 0.5
+      scores['mr'] += 0.5
+    }
+
+    // Bengali characters
+    if (/[\u0980-\u09ff]/.test(content)) {
+      scores['bn'] += 0.5
+    }
+
+    // Tamil characters
+    if (/[\u0b80-\u0bff]/.test(content)) {
+      scores['ta'] += 0.5
+    }
+
+    // Telugu characters
+    if (/[\u0c00-\u0c7f]/.test(content)) {
+      scores['te'] += 0.5
+    }
+
+    // Arabizi writes the Arabic letters Latin lacks as digits (3 for ع, 7 for ح...), which the
+    // n-gram model never sees; ordinals, times and the like (2nd, 9am, 5g) are not counted
+    const arabiziWords = content.split(' ')
+      .filter(word => /[235679][a-z]/.test(word) && !/^\d+([a-z]|st|nd|rd|th|am|pm)$/.test(word))
+      .length
+    if (arabiziWords > 0 && 'ar-rom' in scores) {
+      scores['ar-rom'] += Math.min(arabiziWords * 0.25, 0.75)
+    }
+
+    // Thai characters
+    if (/[ก-๛]/.test(content)) {
+      scores['th'] += 0.5
     }
 
     // Accented characters (Romance languages)
-    if (/[àáâãäåæçèéêëìíîïñòóôõöøùúûüý]/.test(content)) {
+    if (/[àáâãçèéêìíîòóôõùú]/.test(content)) {
       scores['fr'] += 0.2
       scores['es'] += 0.2
       scores['pt'] += 0.2
@@ -579,15 +497,41 @@ export class LanguageDetectorImpl implements LanguageDetector {
     if (/[äöüß]/.test(content)) {
       scores['de'] += 0.3
     }
+
+    // Swedish and Finnish ä and ö
+    if (/[äö]/.test(content)) {
+      scores['sv'] += 0.3
+      scores['fi'] += 0.3
+    }
+
+    // Scandinavian å, æ and ø
+    if (/[å]/.test(content)) {
+      scores['sv'] += 0.3
+      scores['no'] += 0.3
+      scores['da'] += 0.3
+    }
+    if (/[æø]/.test(content)) {
+      scores['no'] += 0.3
+      scores['da'] += 0.3
+    }
+
+    // Polish letters
+    if (/[ąćęłńśźż]/.test(content)) {
+      scores['pl'] += 0.5
+    }
+
+    // Turkish letters
+    if (/[ğış]/.test(content)) {
+      scores['tr'] += 0.5
+    }
   }
 
   /**
    * Split content into sentences for analysis
    */
   private splitIntoSentences(content: string): string[] {
-    return content
-      .split(/[.!?]+/)
-      .map(s => s.trim())
-      .filter(s => s.length > 0)
+    // A sentence runs to a full stop, question or exclamation mark followed by a space (or
+    // the end), a CJK one, or a line break, and keeps the whitespace after it
+    return (content.match(/[\s\S]*?(?:[。！？]+|[.!?]+(?=\s|$)|\n|$)\s*/g) || []).filter(Boolean)
   }
-}
\ No newline at end of file
+}
@@ -1,6 +1,8 @@
-import { ObjectId } from 'mongodb'
+import { ObjectId, Document } from 'mongodb'
 import { getDatabase } from '@/lib/mongodb'
-import { Community, Channel } from '@/types'
+import { Community, Channel, CommunityMember, CommunityPermission, CommunityRole } from '@/types'
+import { AuthorizationError, NotFoundError, ValidationError } from '@/lib/errors'
+import { hasPermission, canAssignRole } from '@/lib/permissions'
 
 export class MongoCommunityService {
   /**
@@ -32,7 +34,8 @@ export class MongoCommunityService {
           name: c.name,
           description: c.description,
           createdBy: c.createdBy.toString(),
-          createdAt: c.createdAt
+          createdAt: c.createdAt,
+          role: this.resolveRole(c, userId)
         })),
         channels: channels.map(ch => ({
           id: ch._id.toString(),
@@ -65,6 +68,7 @@ export class MongoCommunityService {
         description,
         createdBy: createdByObjectId,
         members: [createdByObjectId],
+        memberRoles: { [createdBy]: 'owner' },
         createdAt: new Date()
       })
 
@@ -138,7 +142,7 @@ export class MongoCommunityService {
 
       await db.collection('communities').updateOne(
         { _id: new ObjectId(communityId) },
-        { $pull: { members: new ObjectId(userId) } } as any
+        { $pull: { members: new ObjectId(userId) }, $unset: { [`memberRoles.${userId}`]: '' } } as Document
       )
     } catch (error) {
       console.error('Error removing user from community:', error)
@@ -190,4 +194,232 @@ export class MongoCommunityService {
       return false
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Get a single community by ID
+   */
+  async getCommunityById(communityId: string): Promise<Community | null> {
+    try {
+      if (!ObjectId.isValid(communityId)) {
+        return null
+      }
+      const db = await getDatabase()
+
+      const community = await db.collection('communities').findOne({ _id: new ObjectId(communityId) })
+      if (!community) {
+        return null
+      }
+
+      return {
+        id: community._id.toString(),
+        name: community.name,
+        description: community.description,
+        createdBy: community.createdBy.toString(),
+        createdAt: community.createdAt,
+        translationProviders: community.translationProviders
+      }
+    } catch (error) {
+      console.error('Error getting community:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the translation provider fallback chain configured for a community
+   */
+  async getTranslationProviders(communityId: string): Promise<string[] | null> {
+    try {
+      const db = await getDatabase()
+
+      const community = await db.collection('communities').findOne(
+        { _id: new ObjectId(communityId) },
+        { projection: { translationProviders: 1 } }
+      )
+
+      return community?.translationProviders || null
+    } catch (error) {
+      console.error('Error getting translation providers:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Set (or with null, clear) the translation provider fallback chain of a community
+   */
+  async setTranslationProviders(communityId: string, providers: string[] | null): Promise<void> {
+    try {
+      const db = await getDatabase()
+
+      await db.collection('communities').updateOne(
+        { _id: new ObjectId(communityId) },
+        providers
+          ? { $set: { translationProviders: providers } }
+          : { $unset: { translationProviders: '' } }
+      )
+    } catch (error) {
+      console.error('Error setting translation providers:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get a member's role, or null if the user is not a member
+   */
+  async getMemberRole(communityId: string, userId: string): Promise<CommunityRole | null> {
+    try {
+      if (!ObjectId.isValid(communityId)) {
+        throw new NotFoundError('Community')
+      }
+      // A malformed user ID cannot belong to a member
+      if (!ObjectId.isValid(userId)) {
+        return null
+      }
+      const db = await getDatabase()
+
+      const community = await db.collection('communities').findOne(
+        { _id: new ObjectId(communityId), members: new ObjectId(userId) },
+        { projection: { createdBy: 1, memberRoles: 1 } }
+      )
+
+      return community ? this.resolveRole(community, userId) : null
+    } catch (error) {
+      console.error('Error getting member role:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Ensure the user's role in the community grants a permission, returning the role
+   */
+  async requirePermission(
+    communityId: string,
+    userId: string,
+    permission: CommunityPermission
+  ): Promise<CommunityRole> {
+    const role = await this.getMemberRole(communityId, userId)
+    if (!role) {
+      throw new AuthorizationError('You are not a member of this community')
+    }
+    if (!hasPermission(role, permission)) {
+      throw new AuthorizationError(`Your role (${role}) does not allow this action`)
+    }
+    return role
+  }
+
+  /**
+   * Ensure the user holds a permission in the community that owns a channel
+   */
+  async requireChannelPermission(
+    channelId: string,
+    userId: string,
+    permission: CommunityPermission
+  ): Promise<{ communityId: string; role: CommunityRole }> {
+    const db = await getDatabase()
+
+    const channel = ObjectId.isValid(channelId)
+      ? await db.collection('channels').findOne({ _id: new ObjectId(channelId) }, { projection: { communityId: 1 } })
+      : null
+    if (!channel) {
+      throw new NotFoundError('Channel')
+    }
+
+    const communityId = channel.communityId.toString()
+    const role = await this.requirePermission(communityId, userId, permission)
+    return { communityId, role }
+  }
+
+  /**
+   * List the members of a community with their roles
+   */
+  async getCommunityMembers(communityId: string): Promise<CommunityMember[]> {
+    try {
+      if (!ObjectId.isValid(communityId)) {
+        throw new NotFoundError('Community')
+      }
+      const db = await getDatabase()
+
+      const community = await db.collection('communities').findOne({ _id: new ObjectId(communityId) })
+      if (!community) {
+        throw new NotFoundError('Community')
+      }
+
+      const users = await db.collection('users')
+        .find(
+          { _id: { $in: community.members || [] } },
+          { projection: { username: 1, avatar: 1, primaryLanguage: 1 } }
+        )
+        .toArray()
+
+      return users.map(user => ({
+        userId: user._id.toString(),
+        username: user.username,
+        avatar: user.avatar,
+        primaryLanguage: user.primaryLanguage,
+        role: this.resolveRole(community, user._id.toString())
+      }))
+    } catch (error) {
+      console.error('Error getting community members:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Change a member's role; the actor must outrank both the current and the new role
+   */
+  async setMemberRole(communityId: string, actorId: string, userId: string, role: CommunityRole): Promise<void> {
+    try {
+      const actorRole = await this.requirePermission(communityId, actorId, 'manage_roles')
+      const currentRole = await this.getMemberRole(communityId, userId)
+      if (!currentRole) {
+        throw new ValidationError('User is not a member of this community', 'userId')
+      }
+      if (!canAssignRole(actorRole, currentRole, role)) {
+        throw new AuthorizationError(`A ${actorRole} cannot change a ${currentRole} to ${role}`)
+      }
+
+      const db = await getDatabase()
+      await db.collection('communities').updateOne(
+        { _id: new ObjectId(communityId) },
+        { $set: { [`memberRoles.${userId}`]: role } }
+      )
+    } catch (error) {
+      console.error('Error setting member role:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Remove a member on behalf of an actor who outranks them (or the member leaving)
+   */
+  async removeMember(communityId: string, actorId: string, userId: string): Promise<void> {
+    const currentRole = await this.getMemberRole(communityId, userId)
+    if (!currentRole) {
+      throw new ValidationError('User is not a member of this community', 'userId')
+    }
+
+    if (actorId === userId) {
+      if (currentRole === 'owner') {
+        throw new ValidationError('The owner cannot leave their own community')
+      }
+    } else {
+      const actorRole = await this.requirePermission(communityId, actorId, 'manage_roles')
+      if (!canAssignRole(actorRole, currentRole)) {
+        throw new AuthorizationError(`A ${actorRole} cannot remove a ${currentRole}`)
+      }
+    }
+
+    await this.removeUserFromCommunity(communityId, userId)
+  }
+
+  /**
+   * Role stored on the membership; communities created before roles existed
+   * fall back to owner for the creator and member for everyone else
+   */
+  private resolveRole(community: Document, userId: string): CommunityRole {
+    const stored = community.memberRoles?.[userId]
+    if (stored) {
+      return stored
+    }
+    return community.createdBy?.toString() === userId ? 'owner' : 'member'
+  }
+}
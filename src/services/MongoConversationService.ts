@@ -1,7 +1,8 @@
-import { ObjectId } from 'mongodb'
+import { ObjectId, Document } from 'mongodb'
 import { getDatabase } from '@/lib/mongodb'
-import { Conversation } from '@/types'
-import { ValidationError, handleError } from '@/lib/errors'
+import { Conversation, LanguageCode } from '@/types'
+import { ValidationError, AuthorizationError, NotFoundError, handleError } from '@/lib/errors'
+import { CONVERSATION_CONFIG } from '@/lib/constants'
 
 export class MongoConversationService {
     /**
@@ -22,7 +23,8 @@ export class MongoConversationService {
 
             // Check if conversation already exists
             const existing = await db.collection('conversations').findOne({
-                participants: { $all: participants, $size: 2 }
+                participants: { $all: participants, $size: 2 },
+                isGroup: { $ne: true }
             })
 
             if (existing) {
@@ -47,6 +49,169 @@ export class MongoConversationService {
         }
     }
 
+    /**
+     * Create a named group conversation between the creator and several other users
+     */
+    async createGroupConversation(creatorId: string, participantIds: string[], name?: string): Promise<Conversation> {
+        try {
+            if (!creatorId) {
+                throw new ValidationError('Creator ID is required')
+            }
+
+            const participants = [...new Set([creatorId, ...participantIds])]
+            if (participants.length < CONVERSATION_CONFIG.MIN_GROUP_SIZE) {
+                throw new ValidationError('A group needs at least two other participants', 'participants')
+            }
+            if (participants.length > CONVERSATION_CONFIG.MAX_GROUP_SIZE) {
+                throw new ValidationError(`A group can have at most ${CONVERSATION_CONFIG.MAX_GROUP_SIZE} participants`, 'participants')
+            }
+
+            const groupName = this.validateGroupName(name)
+            const db = await getDatabase()
+            const now = new Date()
+
+            const result = await db.collection('conversations').insertOne({
+                participants,
+                isGroup: true,
+                name: groupName,
+                createdBy: creatorId,
+                createdAt: now,
+                lastMessageAt: now
+            })
+
+            return {
+                id: result.insertedId.toString(),
+                participants,
+                isGroup: true,
+                name: groupName,
+                createdBy: creatorId,
+                lastMessageAt: now,
+                createdAt: now
+            }
+        } catch (error) {
+            throw handleError(error, 'MongoConversationService.createGroupConversation')
+        }
+    }
+
+    /**
+     * Add users to a group conversation (any participant may invite)
+     */
+    async addParticipants(conversationId: string, actorId: string, userIds: string[]): Promise<Conversation> {
+        try {
+            const conversation = await this.requireGroupParticipant(conversationId, actorId)
+            const tooLarge = new ValidationError(`A group can have at most ${CONVERSATION_CONFIG.MAX_GROUP_SIZE} participants`, 'participants')
+
+            const added = [...new Set(userIds)].filter(userId => !conversation.participants.includes(userId))
+            if (added.length === 0) {
+                return conversation
+            }
+            if (conversation.participants.length + added.length > CONVERSATION_CONFIG.MAX_GROUP_SIZE) {
+                throw tooLarge
+            }
+
+            // The size guard is part of the filter, so concurrent invites cannot push the group past the cap
+            const db = await getDatabase()
+            const updated = await db.collection('conversations').findOneAndUpdate(
+                {
+                    _id: new ObjectId(conversationId),
+                    [`participants.${CONVERSATION_CONFIG.MAX_GROUP_SIZE - added.length}`]: { $exists: false }
+                },
+                { $addToSet: { participants: { $each: added } } },
+                { returnDocument: 'after' }
+            )
+            if (!updated) {
+                const exists = await db.collection('conversations').countDocuments({ _id: new ObjectId(conversationId) }, { limit: 1 })
+                throw exists ? tooLarge : new NotFoundError('Conversation')
+            }
+
+            return this.mapDocToConversation(updated)
+        } catch (error) {
+            throw handleError(error, 'MongoConversationService.addParticipants')
+        }
+    }
+
+    /**
+     * Remove a user from a group conversation
+     * Participants may always leave, and a leaving creator hands the group to the longest-standing
+     * participant; only the creator can remove others, and not below the minimum group size
+     */
+    async removeParticipant(conversationId: string, actorId: string, userId: string): Promise<Conversation> {
+        try {
+            const conversation = await this.requireGroupParticipant(conversationId, actorId)
+            const leaving = userId === actorId
+
+            if (!leaving && conversation.createdBy !== actorId) {
+                throw new AuthorizationError('Only the group creator can remove participants')
+            }
+            if (!conversation.participants.includes(userId)) {
+                throw new ValidationError('User is not a participant in this conversation', 'userId')
+            }
+            const tooSmall = new ValidationError(`A group needs at least ${CONVERSATION_CONFIG.MIN_GROUP_SIZE} participants`, 'userId')
+            if (!leaving && conversation.participants.length <= CONVERSATION_CONFIG.MIN_GROUP_SIZE) {
+                throw tooSmall
+            }
+
+            // A pipeline update removes the user and picks the next creator from the same document
+            // version, so concurrent changes cannot leave the group without one
+            const db = await getDatabase()
+            const updated = await db.collection('conversations').findOneAndUpdate(
+                {
+                    _id: new ObjectId(conversationId),
+                    participants: userId,
+                    ...(leaving ? {} : { [`participants.${CONVERSATION_CONFIG.MIN_GROUP_SIZE}`]: { $exists: true } })
+                },
+                [
+                    { $set: { participants: { $filter: { input: '$participants', cond: { $ne: ['$$this', { $literal: userId }] } } } } },
+                    {
+                        $set: {
+                            createdBy: {
+                                $cond: [{ $eq: ['$createdBy', { $literal: userId }] }, { $arrayElemAt: ['$participants', 0] }, '$createdBy']
+                            }
+                        }
+                    },
+                    { $unset: `lastReadAt.${userId}` }
+                ],
+                { returnDocument: 'after' }
+            )
+            if (!updated) {
+                const current = await this.getConversationById(conversationId)
+                if (!current) {
+                    throw new NotFoundError('Conversation')
+                }
+                throw current.participants.includes(userId)
+                    ? tooSmall
+                    : new ValidationError('User is not a participant in this conversation', 'userId')
+            }
+
+            return this.mapDocToConversation(updated)
+        } catch (error) {
+            throw handleError(error, 'MongoConversationService.removeParticipant')
+        }
+    }
+
+    /**
+     * Rename a group conversation (any participant may rename)
+     */
+    async renameConversation(conversationId: string, actorId: string, name: string): Promise<Conversation> {
+        try {
+            await this.requireGroupParticipant(conversationId, actorId)
+
+            const db = await getDatabase()
+            const updated = await db.collection('conversations').findOneAndUpdate(
+                { _id: new ObjectId(conversationId) },
+                { $set: { name: this.validateGroupName(name) } },
+                { returnDocument: 'after' }
+            )
+            if (!updated) {
+                throw new NotFoundError('Conversation')
+            }
+
+            return this.mapDocToConversation(updated)
+        } catch (error) {
+            throw handleError(error, 'MongoConversationService.renameConversation')
+        }
+    }
+
     /**
      * Get all conversations for a user
      */
@@ -67,29 +232,28 @@ export class MongoConversationService {
             const results = await Promise.all(conversations.map(async (conv) => {
                 const conversation = this.mapDocToConversation(conv)
 
-                // Get other participant's info
-                const otherUserId = conversation.participants.find(p => p !== userId)
-                if (otherUserId) {
-                    const user = await db.collection('users').findOne(
-                        { _id: new ObjectId(otherUserId) },
-                        { projection: { username: 1, avatar: 1, status: 1, primaryLanguage: 1 } }
-                    )
-
-                    if (user) {
-                        conversation.participantsData = [{
-                            id: user._id.toString(),
-                            username: user.username,
-                            primaryLanguage: user.primaryLanguage,
-                            createdAt: user.createdAt
-                        }]
-
-                        if (conversation.participantsData && conversation.participantsData[0]) {
-                            (conversation.participantsData[0] as any).avatar = user.avatar;
-                            (conversation.participantsData[0] as any).status = user.status;
-                        }
-                    }
+                // Get the other participants' info (one user for direct chats)
+                const otherUserIds = conversation.participants.filter(p => p !== userId)
+                if (otherUserIds.length > 0) {
+                    const users = await db.collection('users')
+                        .find(
+                            { _id: { $in: otherUserIds.map(id => new ObjectId(id)) } },
+                            { projection: { username: 1, avatar: 1, status: 1, primaryLanguage: 1, createdAt: 1 } }
+                        )
+                        .toArray()
+
+                    conversation.participantsData = users.map(user => ({
+                        id: user._id.toString(),
+                        username: user.username,
+                        primaryLanguage: user.primaryLanguage,
+                        avatar: user.avatar,
+                        status: user.status,
+                        createdAt: user.createdAt
+                    }))
                 }
 
+                conversation.unreadCount = await this.countUnread(conv, userId)
+
                 return conversation
             }))
 
@@ -99,10 +263,156 @@ export class MongoConversationService {
         }
     }
 
+    /**
+     * Resolve usernames (or pasted user IDs) to user IDs
+     */
+    async resolveUserIds(identifiers: string[]): Promise<string[]> {
+        try {
+            const db = await getDatabase()
+
+            return await Promise.all(identifiers.map(async (identifier) => {
+                const value = identifier.trim()
+                const user = await db.collection('users').findOne({ username: value }) ||
+                    (ObjectId.isValid(value) ? await db.collection('users').findOne({ _id: new ObjectId(value) }) : null)
+
+                if (!user) {
+                    throw new NotFoundError(`User "${value}"`)
+                }
+                return user._id.toString()
+            }))
+        } catch (error) {
+            throw handleError(error, 'MongoConversationService.resolveUserIds')
+        }
+    }
+
+    /**
+     * Get a conversation by ID
+     */
+    async getConversationById(conversationId: string): Promise<Conversation | null> {
+        try {
+            if (!conversationId) {
+                throw new ValidationError('Conversation ID is required')
+            }
+
+            // Malformed IDs cannot match a conversation
+            if (!ObjectId.isValid(conversationId)) {
+                return null
+            }
+
+            const db = await getDatabase()
+            const doc = await db.collection('conversations').findOne({ _id: new ObjectId(conversationId) })
+
+            return doc ? this.mapDocToConversation(doc) : null
+        } catch (error) {
+            throw handleError(error, 'MongoConversationService.getConversationById')
+        }
+    }
+
+    /**
+     * Get a conversation the user takes part in, or throw if it is missing or not theirs
+     */
+    async requireParticipant(conversationId: string, userId: string): Promise<Conversation> {
+        const conversation = await this.getConversationById(conversationId)
+        if (!conversation) {
+            throw new NotFoundError('Conversation')
+        }
+        if (!conversation.participants.includes(userId)) {
+            throw new AuthorizationError('You are not a participant in this conversation')
+        }
+        return conversation
+    }
+
+    /**
+     * Distinct primary languages of the conversation's participants
+     */
+    async getParticipantLanguages(conversationId: string): Promise<LanguageCode[]> {
+        try {
+            const conversation = await this.getConversationById(conversationId)
+            if (!conversation) {
+                return []
+            }
+
+            const db = await getDatabase()
+            const users = await db.collection('users')
+                .find(
+                    { _id: { $in: conversation.participants.map(id => new ObjectId(id)) } },
+                    { projection: { primaryLanguage: 1 } }
+                )
+                .toArray()
+
+            return [...new Set(users.map(user => user.primaryLanguage).filter(Boolean))]
+        } catch (error) {
+            throw handleError(error, 'MongoConversationService.getParticipantLanguages')
+        }
+    }
+
+    /**
+     * Bump lastMessageAt for a new message; the sender has read everything up to it
+     */
+    async recordMessage(conversationId: string, senderId: string, sentAt: Date): Promise<void> {
+        try {
+            const db = await getDatabase()
+            await db.collection('conversations').updateOne(
+                { _id: new ObjectId(conversationId) },
+                { $set: { lastMessageAt: sentAt, [`lastReadAt.${senderId}`]: sentAt } }
+            )
+        } catch (error) {
+            throw handleError(error, 'MongoConversationService.recordMessage')
+        }
+    }
+
+    /**
+     * Mark the conversation as read by the user up to now
+     */
+    async markRead(conversationId: string, userId: string): Promise<void> {
+        try {
+            const db = await getDatabase()
+            await db.collection('conversations').updateOne(
+                { _id: new ObjectId(conversationId), participants: userId },
+                { $set: { [`lastReadAt.${userId}`]: new Date() } }
+            )
+        } catch (error) {
+            throw handleError(error, 'MongoConversationService.markRead')
+        }
+    }
+
+    /**
+     * Count messages from other participants newer than the user's last read time
+     */
+    private async countUnread(doc: Document, userId: string): Promise<number> {
+        const db = await getDatabase()
+        const lastReadAt: Date | undefined = doc.lastReadAt?.[userId]
+
+        return db.collection('messages').countDocuments({
+            conversationId: doc._id,
+            senderId: { $ne: new ObjectId(userId) },
+            ...(lastReadAt ? { timestamp: { $gt: lastReadAt } } : {})
+        })
+    }
+
+    private async requireGroupParticipant(conversationId: string, userId: string): Promise<Conversation> {
+        const conversation = await this.requireParticipant(conversationId, userId)
+        if (!conversation.isGroup) {
+            throw new ValidationError('Participants can only be changed in group conversations')
+        }
+        return conversation
+    }
+
+    private validateGroupName(name?: string): string | undefined {
+        const trimmed = name?.trim()
+        if (trimmed && trimmed.length > CONVERSATION_CONFIG.MAX_NAME_LENGTH) {
+            throw new ValidationError(`Group name must be at most ${CONVERSATION_CONFIG.MAX_NAME_LENGTH} characters`, 'name')
+        }
+        return trimmed || undefined
+    }
+
     private mapDocToConversation(doc: any): Conversation {
         return {
             id: doc._id.toString(),
             participants: doc.participants,
+            isGroup: !!doc.isGroup,
+            name: doc.name,
+            createdBy: doc.createdBy,
             lastMessageAt: doc.lastMessageAt,
             createdAt: doc.createdAt
         }
@@ -1,11 +1,15 @@
-import { ObjectId, Document, WithId } from 'mongodb'
+import { ObjectId, Document, WithId, Filter } from 'mongodb'
 import { getDatabase } from '@/lib/mongodb'
-import { Message, MessageStatus, Translation } from '@/types'
-import { MessageService } from './interfaces'
-import { ValidationError, DatabaseError, handleError } from '@/lib/errors'
-import { MESSAGE_STATUS } from '@/lib/constants'
+import { Message, MessagePage, MessagePageOptions, MessageSearchOptions, MessageSearchResult, MessageStatus, MessageLanguageSource, Translation, LanguageCode } from '@/types'
+import { LanguageDetectionPriors, MessageService } from './interfaces'
+import { ValidationError, AuthorizationError, NotFoundError, handleError } from '@/lib/errors'
+import { LANGUAGE_DETECTION_CONFIG, MESSAGE_STATUS, SEARCH_CONFIG } from '@/lib/constants'
+import { extractSearchTerms, containsSearchTerm, buildHighlightedSnippet, getViewerLanguage } from '@/lib/utils'
 import { LanguageDetectorImpl } from './LanguageDetector'
 
+// Upper bound on messages returned by a single page request
+const MAX_PAGE_SIZE = 100
+
 export class MongoMessageService implements MessageService {
   private languageDetector = new LanguageDetectorImpl()
 
@@ -17,7 +21,8 @@ export class MongoMessageService implements MessageService {
     content: string,
     senderId: string,
     detectedLanguage?: string,
-    attachment?: Message['attachment']
+    attachment?: Message['attachment'],
+    parentMessageId?: string
   ): Promise<Message> {
     try {
       if (!channelId || !senderId) {
@@ -30,30 +35,19 @@ export class MongoMessageService implements MessageService {
 
       const db = await getDatabase()
 
-      // Step 1: Detect the actual language of the content (don't trust user preference)
-      let sourceLanguage = detectedLanguage
-      // Only detect if there is text content
-      if (!sourceLanguage && content.trim()) {
-        try {
-          const detectionResult = await this.languageDetector.detectLanguage(content)
-          // Handle both string and object return types
-          sourceLanguage = typeof detectionResult === 'string' ? detectionResult : detectionResult.language
-          console.log(`🔍 Language detected for message: "${content}" -> ${sourceLanguage}`)
-        } catch (error: unknown) {
-          console.warn('Language detection failed, proceeding with translation:', error)
+      const { sourceLanguage, languageSource, isRomanized } = await this.resolveSourceLanguage(content, senderId, channelId, detectedLanguage)
+
+      // Replies attach to a top-level message in the same channel; threads do not nest
+      let parentId: ObjectId | undefined
+      if (parentMessageId) {
+        const parent = await db.collection('messages').findOne({ _id: new ObjectId(parentMessageId) })
+        if (!parent || parent.channelId.toString() !== channelId) {
+          throw new ValidationError('Parent message not found in this channel', 'parentMessageId')
         }
-        // Fallback to sender's profile language
-        if (!sourceLanguage) { // If detection failed or returned null/undefined
-          const sender = await db.collection('users').findOne({ _id: new ObjectId(senderId) })
-          if (!sender) {
-            throw new DatabaseError('Sender not found', new Error('User not found'))
-          }
-          sourceLanguage = sender.primaryLanguage || 'en'
+        if (parent.parentMessageId) {
+          throw new ValidationError('Cannot reply to a reply', 'parentMessageId')
         }
-      } else if (!sourceLanguage) {
-        // If no content, default to user's language or 'en'
-        const sender = await db.collection('users').findOne({ _id: new ObjectId(senderId) })
-        sourceLanguage = sender?.primaryLanguage || 'en'
+        parentId = parent._id
       }
 
       const messageDoc = {
@@ -61,24 +55,41 @@ export class MongoMessageService implements MessageService {
         senderId: new ObjectId(senderId),
         content: content.trim(),
         sourceLanguage: sourceLanguage,
+        languageSource,
+        isRomanized,
         status: MESSAGE_STATUS.SENT,
         timestamp: new Date(),
         translations: [],
-        attachment: attachment
+        attachment: attachment,
+        ...(parentId ? { parentMessageId: parentId } : {})
       }
 
       const result = await db.collection('messages').insertOne(messageDoc)
 
+      if (parentId) {
+        await db.collection('messages').updateOne(
+          { _id: parentId },
+          {
+            $inc: { 'thread.replyCount': 1 },
+            $set: { 'thread.lastReplyAt': messageDoc.timestamp },
+            $addToSet: { 'thread.participantIds': senderId }
+          }
+        )
+      }
+
       return {
         id: result.insertedId.toString(),
         channelId,
         senderId,
         content: messageDoc.content,
         sourceLanguage: messageDoc.sourceLanguage || 'en',
+        languageSource,
+        isRomanized,
         status: messageDoc.status as MessageStatus,
         timestamp: messageDoc.timestamp,
         translations: [],
-        attachment: messageDoc.attachment
+        attachment: messageDoc.attachment,
+        parentMessageId: parentId?.toString()
       }
     } catch (error: unknown) {
       throw handleError(error, 'MongoMessageService.createMessage')
@@ -86,7 +97,144 @@ export class MongoMessageService implements MessageService {
   }
 
   /**
-   * Get messages for a specific channel
+   * Create a direct message inside a conversation
+   * The conversation ID doubles as the channel ID so paging, translation jobs and realtime
+   * events work on the same timeline key as channels
+   */
+  async createConversationMessage(
+    conversationId: string,
+    content: string,
+    senderId: string,
+    attachment?: Message['attachment'],
+    detectedLanguage?: string
+  ): Promise<Message> {
+    try {
+      if (!conversationId || !senderId) {
+        throw new ValidationError('Conversation ID and sender ID are required')
+      }
+      if (!content.trim() && !attachment) {
+        throw new ValidationError('Content or attachment is required')
+      }
+
+      const db = await getDatabase()
+      const { sourceLanguage, languageSource, isRomanized } = await this.resolveSourceLanguage(content, senderId, conversationId, detectedLanguage)
+      const conversationObjectId = new ObjectId(conversationId)
+
+      const messageDoc = {
+        channelId: conversationObjectId,
+        conversationId: conversationObjectId,
+        senderId: new ObjectId(senderId),
+        content: content.trim(),
+        sourceLanguage,
+        languageSource,
+        isRomanized,
+        status: MESSAGE_STATUS.SENT,
+        timestamp: new Date(),
+        translations: [],
+        attachment
+      }
+
+      const result = await db.collection('messages').insertOne(messageDoc)
+
+      return {
+        id: result.insertedId.toString(),
+        channelId: conversationId,
+        conversationId,
+        senderId,
+        content: messageDoc.content,
+        sourceLanguage,
+        languageSource,
+        isRomanized,
+        status: messageDoc.status as MessageStatus,
+        timestamp: messageDoc.timestamp,
+        translations: [],
+        attachment
+      }
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoMessageService.createConversationMessage')
+    }
+  }
+
+  /**
+   * Replace the content of a message, keeping the previous version in its edit history
+   * Stored translations are dropped because they describe the old content, and the language
+   * is detected again unless it was pinned or corrected
+   */
+  async editMessage(messageId: string, editorId: string, content: string): Promise<Message> {
+    try {
+      if (!messageId || !editorId) {
+        throw new ValidationError('Message ID and editor ID are required')
+      }
+
+      const db = await getDatabase()
+      const existing = await db.collection('messages').findOne({ _id: new ObjectId(messageId) })
+      if (!existing) {
+        throw new NotFoundError('Message')
+      }
+      if (existing.senderId.toString() !== editorId) {
+        throw new AuthorizationError('Only the sender can edit this message')
+      }
+
+      const newContent = content.trim()
+      if (!newContent && !existing.attachment) {
+        throw new ValidationError('Content is required', 'content')
+      }
+      if (newContent === existing.content) {
+        return this.mapMongoMessageToMessage(existing)
+      }
+
+      // A language the sender pinned or someone corrected is kept; only detected ones are redone
+      let sourceLanguage: string = existing.sourceLanguage
+      const languageSource: MessageLanguageSource = existing.languageSource || 'detected'
+      let isRomanized = await this.languageDetector.isRomanizedAs(newContent, sourceLanguage)
+      if (newContent && languageSource === 'detected') {
+        try {
+          const priors = await this.getDetectionPriors(existing.senderId.toString(), existing.channelId.toString())
+          const detectionResult = await this.languageDetector.detectLanguage(newContent, priors)
+          sourceLanguage = detectionResult.language || sourceLanguage
+          isRomanized = detectionResult.isRomanized
+        } catch (error: unknown) {
+          console.warn('Language detection failed, keeping previous language:', error)
+        }
+      }
+
+      const editedAt = new Date()
+      const updated = await db.collection('messages').findOneAndUpdate(
+        // Matching the old content guards against two edits racing each other
+        { _id: existing._id, content: existing.content },
+        {
+          $set: {
+            content: newContent,
+            sourceLanguage,
+            isRomanized,
+            status: MESSAGE_STATUS.SENT,
+            translations: [],
+            editedAt,
+            updatedAt: editedAt
+          },
+          $push: {
+            editHistory: {
+              content: existing.content,
+              sourceLanguage: existing.sourceLanguage,
+              editedAt
+            }
+          }
+        } as Document,
+        { returnDocument: 'after' }
+      )
+
+      if (!updated) {
+        throw new ValidationError('Message was changed by another edit, please retry')
+      }
+
+      return this.mapMongoMessageToMessage(updated)
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoMessageService.editMessage')
+    }
+  }
+
+  /**
+   * Get the most recent messages for a specific channel
    */
   async getChannelMessages(channelId: string, limit: number = 50): Promise<Message[]> {
     try {
@@ -96,91 +244,84 @@ export class MongoMessageService implements MessageService {
 
       const db = await getDatabase()
 
-      // Use aggregation to join with users collection
-      const pipeline = [
-        { $match: { channelId: new ObjectId(channelId) } },
-        { $sort: { timestamp: 1 } },
-        { $limit: Math.min(limit, 100) },
-        {
-          $lookup: {
-            from: 'users',
-            localField: 'senderId',
-            foreignField: '_id',
-            as: 'sender'
-          }
-        },
-        {
-          $unwind: {
-            path: '$sender',
-            preserveNullAndEmptyArrays: true
-          }
-        }
-      ]
+      // Newest window first, then flip back to chronological order for display
+      const pipeline = this.buildPagePipeline(
+        { channelId: new ObjectId(channelId), conversationId: null, parentMessageId: null },
+        -1,
+        Math.min(limit, MAX_PAGE_SIZE)
+      )
 
       const messages = await db.collection('messages').aggregate(pipeline).toArray()
 
-      return messages.map(this.mapMongoMessageToMessage)
+      return messages.reverse().map(this.mapMongoMessageToMessage)
     } catch (error: unknown) {
       throw handleError(error, 'MongoMessageService.getChannelMessages')
     }
   }
 
   /**
-   * Get messages for a user in their preferred language
+   * Get the most recent messages for a user in their preferred language
    */
   async getChannelMessagesForUser(channelId: string, userId: string, limit: number = 50): Promise<Message[]> {
+    const page = await this.getChannelMessagePage(channelId, userId, { limit })
+    return page.messages
+  }
+
+  /**
+   * Get a cursor-based window of channel messages for a user.
+   * Without a cursor (or with `before`) the window is the newest `limit` messages
+   * older than the cursor; with `after` it is the oldest `limit` messages newer than it.
+   */
+  async getChannelMessagePage(
+    channelId: string,
+    userId: string,
+    options: MessagePageOptions = {}
+  ): Promise<MessagePage> {
     try {
       if (!channelId || !userId) {
         throw new ValidationError('Channel ID and user ID are required')
       }
 
-      const db = await getDatabase()
-
-      // Get user's preferred language
-      const user = await db.collection('users').findOne({ _id: new ObjectId(userId) })
-      const userLanguage = user?.primaryLanguage || 'en'
+      if (options.before && options.after) {
+        throw new ValidationError('Only one of before or after may be provided')
+      }
 
-      // Use aggregation to join with users collection
-      const pipeline = [
-        { $match: { channelId: new ObjectId(channelId) } },
-        { $sort: { timestamp: 1 } },
-        { $limit: Math.min(limit, 100) },
-        {
-          $lookup: {
-            from: 'users',
-            localField: 'senderId',
-            foreignField: '_id',
-            as: 'sender'
-          }
-        },
-        {
-          $unwind: {
-            path: '$sender',
-            preserveNullAndEmptyArrays: true
-          }
-        }
-      ]
+      // Replies live in threads, not in the channel timeline
+      return await this.loadMessagePage(
+        { channelId: new ObjectId(channelId), conversationId: null, parentMessageId: null },
+        userId,
+        options
+      )
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoMessageService.getChannelMessagePage')
+    }
+  }
 
-      const messages = await db.collection('messages').aggregate(pipeline).toArray()
+  /**
+   * Get a cursor-based window of replies in a thread
+   * Accepts the same cursors as getChannelMessagePage
+   */
+  async getThreadMessagePage(
+    parentMessageId: string,
+    userId: string,
+    options: MessagePageOptions = {}
+  ): Promise<MessagePage> {
+    try {
+      if (!parentMessageId || !userId) {
+        throw new ValidationError('Parent message ID and user ID are required')
+      }
 
-      return messages.map(msg => {
-        const message = this.mapMongoMessageToMessage(msg)
-
-        // Find translation for user's language
-        const translation = msg.translations?.find((t: Translation) => t.targetLanguage === userLanguage)
-        if (translation) {
-          message.translations = [{
-            messageId: message.id,
-            targetLanguage: userLanguage,
-            translatedContent: translation.translatedContent,
-            createdAt: translation.createdAt
-          }]
-        }
+      if (options.before && options.after) {
+        throw new ValidationError('Only one of before or after may be provided')
+      }
 
-        return message
-      })
+      return await this.loadMessagePage(
+        { parentMessageId: new ObjectId(parentMessageId) },
+        userId,
+        options
+      )
     } catch (error: unknown) {
-      throw handleError(error, 'MongoMessageService.getChannelMessagesForUser')
+      throw handleError(error, 'MongoMessageService.getThreadMessagePage')
     }
   }
 
@@ -214,6 +355,121 @@ export class MongoMessageService implements MessageService {
     }
   }
 
+  /**
+   * Store a translation unless the message already has one for that language
+   * (one translation per language, like $addToSet keyed by targetLanguage).
+   * `sourceContent` is the text that was translated; if the message was edited
+   * in the meantime the stale translation is dropped. Returns whether it was stored
+   */
+  async addTranslation(messageId: string, translation: Translation, sourceContent: string): Promise<boolean> {
+    try {
+      const db = await getDatabase()
+      const result = await db.collection('messages').updateOne(
+        {
+          _id: new ObjectId(messageId),
+          content: sourceContent,
+          'translations.targetLanguage': { $ne: translation.targetLanguage }
+        },
+        {
+          $push: {
+            translations: {
+              targetLanguage: translation.targetLanguage,
+              translatedContent: translation.translatedContent,
+              createdAt: translation.createdAt,
+              ...(translation.glossaryViolations ? { glossaryViolations: translation.glossaryViolations } : {})
+            }
+          }
+        } as Document
+      )
+      return result.modifiedCount > 0
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoMessageService.addTranslation')
+    }
+  }
+
+  /**
+   * Replace the stored translation for a language, e.g. with an approved human correction
+   * Like addTranslation, nothing is written if the message was edited since `sourceContent`
+   * Returns whether a translation was replaced
+   */
+  async replaceTranslation(messageId: string, translation: Translation, sourceContent: string): Promise<boolean> {
+    try {
+      const db = await getDatabase()
+      const result = await db.collection('messages').updateOne(
+        {
+          _id: new ObjectId(messageId),
+          content: sourceContent,
+          'translations.targetLanguage': translation.targetLanguage
+        },
+        {
+          $set: {
+            'translations.$': {
+              targetLanguage: translation.targetLanguage,
+              translatedContent: translation.translatedContent,
+              createdAt: translation.createdAt,
+              ...(translation.correctedAt ? { correctedAt: translation.correctedAt, correctedBy: translation.correctedBy } : {})
+            }
+          }
+        }
+      )
+      return result.matchedCount > 0
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoMessageService.replaceTranslation')
+    }
+  }
+
+  /**
+   * Change the language a message is marked as written in
+   * Stored translations are dropped because they were made from the wrong language
+   * Returns null when the message was edited or deleted since sourceContent was read
+   */
+  async setSourceLanguage(messageId: string, language: LanguageCode, sourceContent: string): Promise<Message | null> {
+    try {
+      const db = await getDatabase()
+      const updated = await db.collection('messages').findOneAndUpdate(
+        { _id: new ObjectId(messageId), content: sourceContent },
+        {
+          $set: {
+            sourceLanguage: language,
+            languageSource: 'corrected',
+            isRomanized: await this.languageDetector.isRomanizedAs(sourceContent, language),
+            status: MESSAGE_STATUS.SENT,
+            translations: [],
+            updatedAt: new Date()
+          }
+        },
+        { returnDocument: 'after' }
+      )
+
+      return updated ? this.mapMongoMessageToMessage(updated) : null
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoMessageService.setSourceLanguage')
+    }
+  }
+
+  /**
+   * Get a window of a conversation's direct messages
+   */
+  async getConversationMessagePage(
+    conversationId: string,
+    userId: string,
+    options: MessagePageOptions = {}
+  ): Promise<MessagePage> {
+    try {
+      if (!conversationId) {
+        throw new ValidationError('Conversation ID is required')
+      }
+
+      return await this.loadMessagePage(
+        { conversationId: new ObjectId(conversationId) },
+        userId,
+        options
+      )
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoMessageService.getConversationMessagePage')
+    }
+  }
+
   /**
    * Get a specific message by ID
    */
@@ -264,10 +520,10 @@ export class MongoMessageService implements MessageService {
       const messages = await db.collection('messages')
         .find({
           channelId: new ObjectId(channelId),
-          content: { $regex: query, $options: 'i' }
+          $text: { $search: query }
         })
-        .sort({ timestamp: -1 })
-        .limit(Math.min(limit, 50))
+        .sort({ score: { $meta: 'textScore' }, timestamp: -1 })
+        .limit(Math.min(limit, SEARCH_CONFIG.MAX_LIMIT))
         .toArray()
 
       return messages.map(this.mapMongoMessageToMessage)
@@ -276,6 +532,97 @@ export class MongoMessageService implements MessageService {
     }
   }
 
+  /**
+   * Search original content and stored translations across every channel the user can access
+   */
+  async searchUserMessages(
+    userId: string,
+    query: string,
+    options: MessageSearchOptions = {}
+  ): Promise<MessageSearchResult[]> {
+    try {
+      const terms = extractSearchTerms(query)
+      if (!userId || terms.length === 0) {
+        throw new ValidationError('User ID and search query are required')
+      }
+
+      const db = await getDatabase()
+      const userObjectId = new ObjectId(userId)
+
+      const user = await db.collection('users').findOne({ _id: userObjectId })
+      const preferences = { primaryLanguage: user?.primaryLanguage, channelLanguages: user?.channelLanguages }
+
+      // Only channels in communities the user belongs to are searchable
+      const communities = await db.collection('communities')
+        .find({ members: userObjectId }, { projection: { _id: 1 } })
+        .toArray()
+      const channels = await db.collection('channels')
+        .find({ communityId: { $in: communities.map(c => c._id) } })
+        .toArray()
+
+      let searchable = channels
+      if (options.channelId) {
+        searchable = channels.filter(channel => channel._id.toString() === options.channelId)
+        if (searchable.length === 0) {
+          throw new AuthorizationError('You do not have access to this channel')
+        }
+      }
+      if (searchable.length === 0) {
+        return []
+      }
+
+      const match: Filter<Document> = {
+        $text: { $search: query },
+        channelId: { $in: searchable.map(channel => channel._id) }
+      }
+      if (options.senderId) {
+        match.senderId = new ObjectId(options.senderId)
+      }
+      if (options.from || options.to) {
+        match.timestamp = {
+          ...(options.from && { $gte: options.from }),
+          ...(options.to && { $lte: options.to })
+        }
+      }
+      if (options.language) {
+        match.sourceLanguage = options.language
+      }
+      if (options.hasAttachment !== undefined) {
+        match.attachment = options.hasAttachment ? { $exists: true, $ne: null } : { $in: [null] }
+      }
+
+      const limit = Math.max(1, Math.min(options.limit || SEARCH_CONFIG.DEFAULT_LIMIT, SEARCH_CONFIG.MAX_LIMIT))
+      const docs = await db.collection('messages').aggregate([
+        { $match: match },
+        { $sort: { score: { $meta: 'textScore' }, timestamp: -1 } },
+        { $limit: limit },
+        { $addFields: { score: { $meta: 'textScore' } } },
+        { $lookup: { from: 'users', localField: 'senderId', foreignField: '_id', as: 'sender' } },
+        { $unwind: { path: '$sender', preserveNullAndEmptyArrays: true } }
+      ]).toArray()
+
+      const channelsById = new Map(channels.map(channel => [channel._id.toString(), channel]))
+
+      return docs.map(doc => {
+        const channel = channelsById.get(doc.channelId.toString())
+        // Per-channel language overrides decide which translation the viewer reads
+        const userLanguage = getViewerLanguage(preferences, doc.channelId.toString())
+        const source = this.pickSnippetSource(doc, terms, userLanguage)
+
+        return {
+          message: this.withViewerTranslation(doc, userLanguage),
+          channelName: channel?.name || 'unknown',
+          communityId: channel?.communityId?.toString() || '',
+          score: doc.score,
+          matchedLanguage: source.language,
+          snippet: buildHighlightedSnippet(source.text, terms)
+        }
+      })
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoMessageService.searchUserMessages')
+    }
+  }
+
   /**
    * Get message count for a channel
    */
@@ -295,6 +642,236 @@ export class MongoMessageService implements MessageService {
     }
   }
 
+  /**
+   * Load one page of messages matching `baseMatch`, with translations narrowed to the user's language
+   */
+  private async loadMessagePage(
+    baseMatch: Filter<Document>,
+    userId: string,
+    options: MessagePageOptions
+  ): Promise<MessagePage> {
+    const limit = Math.max(1, Math.min(options.limit || 50, MAX_PAGE_SIZE))
+    const db = await getDatabase()
+
+    // Get user's preferred language unless the caller resolved a channel override
+    const user = options.viewerLanguage
+      ? null
+      : await db.collection('users').findOne({ _id: new ObjectId(userId) })
+    const userLanguage: string = options.viewerLanguage || user?.primaryLanguage || 'en'
+
+    const cursorValue = options.before || options.after
+    const direction = options.after ? 1 : -1
+
+    let match = baseMatch
+    if (cursorValue) {
+      const position = await this.resolveCursor(cursorValue)
+      match = { $and: [baseMatch, this.buildCursorMatch(position, direction)] }
+    }
+
+    // Fetch one extra document to know whether another page exists
+    const pipeline = this.buildPagePipeline(match, direction, limit + 1)
+    const docs = await db.collection('messages').aggregate(pipeline).toArray()
+
+    const hasMore = docs.length > limit
+    const windowDocs = docs.slice(0, limit)
+    if (direction === -1) {
+      windowDocs.reverse()
+    }
+
+    const messages = windowDocs.map(msg => this.withViewerTranslation(msg, userLanguage))
+
+    return {
+      messages,
+      // Paging backwards from a cursor implies newer messages exist, and vice versa
+      hasMoreBefore: direction === -1 ? hasMore : !!cursorValue,
+      hasMoreAfter: direction === 1 ? hasMore : !!options.before,
+      oldestCursor: messages[0]?.id || null,
+      newestCursor: messages[messages.length - 1]?.id || null
+    }
+  }
+
+  /**
+   * Resolve a cursor (message ID or ISO timestamp) to a position in the timeline
+   */
+  private async resolveCursor(cursor: string): Promise<{ timestamp: Date; id?: ObjectId }> {
+    if (ObjectId.isValid(cursor) && /^[a-f\d]{24}$/i.test(cursor)) {
+      const db = await getDatabase()
+      const doc = await db.collection('messages').findOne(
+        { _id: new ObjectId(cursor) },
+        { projection: { timestamp: 1 } }
+      )
+      if (!doc) {
+        throw new ValidationError(`Unknown message cursor: ${cursor}`, 'cursor')
+      }
+      return { timestamp: doc.timestamp, id: doc._id }
+    }
+
+    const timestamp = new Date(cursor)
+    if (isNaN(timestamp.getTime())) {
+      throw new ValidationError(`Invalid cursor: ${cursor}`, 'cursor')
+    }
+    return { timestamp }
+  }
+
+  /**
+   * Build a match on (timestamp, _id) strictly before (-1) or after (1) a position
+   */
+  private buildCursorMatch(position: { timestamp: Date; id?: ObjectId }, direction: 1 | -1): Filter<Document> {
+    const op = direction === 1 ? '$gt' : '$lt'
+
+    if (!position.id) {
+      return { timestamp: { [op]: position.timestamp } }
+    }
+
+    // _id breaks ties between messages sharing a timestamp
+    return {
+      $or: [
+        { timestamp: { [op]: position.timestamp } },
+        { timestamp: position.timestamp, _id: { [op]: position.id } }
+      ]
+    }
+  }
+
+  /**
+   * Aggregation pipeline for a sorted, limited window joined with sender details
+   */
+  private buildPagePipeline(match: Filter<Document>, direction: 1 | -1, limit: number): Document[] {
+    return [
+      { $match: match },
+      { $sort: { timestamp: direction, _id: direction } },
+      { $limit: limit },
+      {
+        $lookup: {
+          from: 'users',
+          localField: 'senderId',
+          foreignField: '_id',
+          as: 'sender'
+        }
+      },
+      {
+        $unwind: {
+          path: '$sender',
+          preserveNullAndEmptyArrays: true
+        }
+      }
+    ]
+  }
+
+  /**
+   * Detect the language of new content, falling back to the sender's primary language
+   * A language the sender chose is taken as given and marked as pinned; either way the
+   * message is marked romanized when it is typed in Latin letters (Hinglish, Arabizi...)
+   */
+  private async resolveSourceLanguage(
+    content: string,
+    senderId: string,
+    channelId: string,
+    detectedLanguage?: string
+  ): Promise<{ sourceLanguage: string; languageSource: MessageLanguageSource; isRomanized: boolean }> {
+    if (detectedLanguage) {
+      const isRomanized = await this.languageDetector.isRomanizedAs(content, detectedLanguage)
+      return { sourceLanguage: detectedLanguage, languageSource: 'pinned', isRomanized }
+    }
+
+    const priors = await this.getDetectionPriors(senderId, channelId)
+
+    // Detect the actual language of the content (don't trust user preference)
+    // Only detect if there is text content
+    if (content.trim()) {
+      try {
+        const detectionResult = await this.languageDetector.detectLanguage(content, priors)
+        console.log(`🔍 Language detected for message: "${content}" -> ${detectionResult.language}`)
+        return { sourceLanguage: detectionResult.language, languageSource: 'detected', isRomanized: detectionResult.isRomanized }
+      } catch (error: unknown) {
+        console.warn('Language detection failed, proceeding with translation:', error)
+      }
+    }
+
+    // Fallback to sender's profile language
+    return { sourceLanguage: priors.primaryLanguage || 'en', languageSource: 'detected', isRomanized: false }
+  }
+
+  /**
+   * What the sender and channel say about the language of a new message: the sender's
+   * language (their language for this channel when they set one), the languages of their
+   * latest messages and the language most of the channel's latest messages are in
+   */
+  private async getDetectionPriors(senderId: string, channelId: string): Promise<LanguageDetectionPriors> {
+    const db = await getDatabase()
+    const senderObjectId = new ObjectId(senderId)
+
+    const [sender, recentMessages, channelLanguages] = await Promise.all([
+      db.collection('users').findOne(
+        { _id: senderObjectId },
+        { projection: { primaryLanguage: 1, channelLanguages: 1 } }
+      ),
+      db.collection('messages')
+        .find({ senderId: senderObjectId, sourceLanguage: { $exists: true } }, { projection: { sourceLanguage: 1 } })
+        .sort({ timestamp: -1 })
+        .limit(LANGUAGE_DETECTION_CONFIG.RECENT_MESSAGES)
+        .toArray(),
+      db.collection('messages').aggregate([
+        { $match: { channelId: new ObjectId(channelId) } },
+        { $sort: { timestamp: -1 } },
+        { $limit: LANGUAGE_DETECTION_CONFIG.CHANNEL_MESSAGES },
+        { $group: { _id: '$sourceLanguage', count: { $sum: 1 } } },
+        { $sort: { count: -1 } },
+        { $limit: 1 }
+      ]).toArray()
+    ])
+
+    return {
+      primaryLanguage: sender?.channelLanguages?.[channelId] || sender?.primaryLanguage,
+      recentLanguages: recentMessages.map(message => message.sourceLanguage),
+      channelLanguage: channelLanguages[0]?._id ?? undefined
+    }
+  }
+
+  /**
+   * Map a message, keeping only the translation for the viewer's language when one exists
+   */
+  private withViewerTranslation(doc: Document, userLanguage: string): Message {
+    const message = this.mapMongoMessageToMessage(doc)
+
+    const translation = doc.translations?.find((t: Translation) => t.targetLanguage === userLanguage)
+    if (translation) {
+      message.translations = [{
+        messageId: message.id,
+        targetLanguage: userLanguage,
+        translatedContent: translation.translatedContent,
+        createdAt: translation.createdAt,
+        glossaryViolations: translation.glossaryViolations,
+        correctedAt: translation.correctedAt,
+        correctedBy: translation.correctedBy
+      }]
+    }
+
+    return message
+  }
+
+  /**
+   * Choose the text a search snippet is cut from: the viewer's translation,
+   * then the original, then any other translation that contains a query term
+   */
+  private pickSnippetSource(
+    doc: Document,
+    terms: string[],
+    userLanguage: string
+  ): { text: string; language: string } {
+    const translations: Translation[] = doc.translations || []
+    const viewerTranslation = translations.find(t => t.targetLanguage === userLanguage)
+
+    const candidates = [
+      ...(viewerTranslation ? [{ text: viewerTranslation.translatedContent, language: userLanguage }] : []),
+      { text: doc.content as string, language: doc.sourceLanguage as string },
+      ...translations
+        .filter(t => t !== viewerTranslation)
+        .map(t => ({ text: t.translatedContent, language: t.targetLanguage }))
+    ]
+
+    return candidates.find(candidate => containsSearchTerm(candidate.text, terms)) || candidates[0]
+  }
+
   /**
    * Map MongoDB document to Message type
    */
@@ -305,15 +882,25 @@ export class MongoMessageService implements MessageService {
       senderId: doc.senderId.toString(),
       content: doc.content,
       sourceLanguage: doc.sourceLanguage,
+      languageSource: doc.languageSource,
+      isRomanized: doc.isRomanized,
       status: doc.status as MessageStatus,
       timestamp: doc.timestamp,
       translations: (doc.translations || []).map((t: Translation) => ({
         messageId: doc._id.toString(),
         targetLanguage: t.targetLanguage,
         translatedContent: t.translatedContent,
-        createdAt: t.createdAt
+        createdAt: t.createdAt,
+        glossaryViolations: t.glossaryViolations,
+        correctedAt: t.correctedAt,
+        correctedBy: t.correctedBy
       })),
       attachment: doc.attachment,
+      editedAt: doc.editedAt,
+      editHistory: doc.editHistory,
+      parentMessageId: doc.parentMessageId?.toString(),
+      conversationId: doc.conversationId?.toString(),
+      thread: doc.thread,
       senderName: doc.sender?.username || 'Unknown User',
       senderAvatar: doc.sender?.avatar,
       reactions: (doc.reactions || []).map((r: any) => ({
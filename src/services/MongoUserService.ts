@@ -1,8 +1,9 @@
-import { ObjectId } from 'mongodb'
+import { ObjectId, Document } from 'mongodb'
 import { getDatabase } from '@/lib/mongodb'
-import { UserProfile } from '@/types'
+import { UserProfile, LanguagePreferences, LanguageCode } from '@/types'
 import { UserService } from './interfaces'
-import { ValidationError, DatabaseError, handleError } from '@/lib/errors'
+import { ValidationError, NotFoundError, DatabaseError, handleError } from '@/lib/errors'
+import { SUPPORTED_LANGUAGES } from '@/lib/constants'
 
 export class MongoUserService implements UserService {
     /**
@@ -34,4 +35,108 @@ export class MongoUserService implements UserService {
             throw handleError(error, 'MongoUserService.getUserProfile')
         }
     }
+
+    /**
+     * Get the languages a user reads and their per-channel overrides
+     */
+    async getLanguagePreferences(userId: string): Promise<LanguagePreferences> {
+        try {
+            const db = await getDatabase()
+            const user = await db.collection('users').findOne(
+                { _id: new ObjectId(userId) },
+                { projection: { primaryLanguage: 1, understoodLanguages: 1, channelLanguages: 1 } }
+            )
+
+            if (!user) {
+                throw new NotFoundError('User')
+            }
+
+            return this.mapLanguagePreferences(user)
+        } catch (error) {
+            throw handleError(error, 'MongoUserService.getLanguagePreferences')
+        }
+    }
+
+    /**
+     * Replace the languages a user reads without translation
+     */
+    async setUnderstoodLanguages(userId: string, languages: LanguageCode[]): Promise<LanguagePreferences> {
+        try {
+            if (!Array.isArray(languages)) {
+                throw new ValidationError('Understood languages must be a list', 'understoodLanguages')
+            }
+            languages.forEach(language => this.validateLanguage(language, 'understoodLanguages'))
+
+            return await this.updateLanguagePreferences(userId, {
+                $set: { understoodLanguages: Array.from(new Set(languages)), updatedAt: new Date() }
+            })
+        } catch (error) {
+            throw handleError(error, 'MongoUserService.setUnderstoodLanguages')
+        }
+    }
+
+    /**
+     * Set the language a channel or conversation is shown in for a user, or clear it with null
+     */
+    async setChannelLanguage(userId: string, channelId: string, language: LanguageCode | null): Promise<LanguagePreferences> {
+        try {
+            // Channel IDs become field names, so only ObjectIds are accepted
+            if (!channelId || !ObjectId.isValid(channelId)) {
+                throw new ValidationError('A valid channel ID is required', 'channelId')
+            }
+
+            const field = `channelLanguages.${channelId}`
+            if (language === null) {
+                return await this.updateLanguagePreferences(userId, {
+                    $unset: { [field]: '' },
+                    $set: { updatedAt: new Date() }
+                })
+            }
+
+            this.validateLanguage(language, 'language')
+            return await this.updateLanguagePreferences(userId, {
+                $set: { [field]: language, updatedAt: new Date() }
+            })
+        } catch (error) {
+            throw handleError(error, 'MongoUserService.setChannelLanguage')
+        }
+    }
+
+    /**
+     * Helper: Apply an update to a user's language fields and return the result
+     */
+    private async updateLanguagePreferences(userId: string, update: Document): Promise<LanguagePreferences> {
+        const db = await getDatabase()
+        const user = await db.collection('users').findOneAndUpdate(
+            { _id: new ObjectId(userId) },
+            update,
+            { returnDocument: 'after', projection: { primaryLanguage: 1, understoodLanguages: 1, channelLanguages: 1 } }
+        )
+
+        if (!user) {
+            throw new NotFoundError('User')
+        }
+
+        return this.mapLanguagePreferences(user)
+    }
+
+    /**
+     * Helper: Map a user document to its language preferences
+     */
+    private mapLanguagePreferences(user: Document): LanguagePreferences {
+        return {
+            primaryLanguage: user.primaryLanguage || 'en',
+            understoodLanguages: user.understoodLanguages || [],
+            channelLanguages: user.channelLanguages || {}
+        }
+    }
+
+    /**
+     * Helper: Reject language codes the platform does not translate
+     */
+    private validateLanguage(language: unknown, field: string): void {
+        if (typeof language !== 'string' || !Object.hasOwn(SUPPORTED_LANGUAGES, language)) {
+            throw new ValidationError(`Unsupported language: ${String(language)}`, field)
+        }
+    }
 }
@@ -0,0 +1,119 @@
+// Character n-gram language identification model
+
+import bundledProfiles from './data/languageProfiles.json'
+
+/**
+ * How often each of a language's most frequent n-grams occurred in its training text
+ */
+export interface LanguageProfile {
+  total: number
+  ngrams: Record<string, number>
+}
+
+export type LanguageProfiles = Record<string, LanguageProfile>
+
+// Labelled sample sentences per language, the shape of the training and evaluation corpora
+export type LanguageCorpus = Record<string, string[]>
+
+const NGRAM_SIZES = [1, 2, 3]
+
+// Most frequent n-grams kept per language; rarer ones are scored as unseen
+const PROFILE_SIZE = 600
+
+// Add-one smoothing over a vocabulary of roughly this many distinct n-grams per language
+const SMOOTHING_VOCABULARY = 5000
+
+// Overlapping n-grams are far from independent, so log-likelihoods are flattened before
+// they are turned into probabilities; this keeps short texts from looking certain
+const LIKELIHOOD_TEMPERATURE = 4
+
+/**
+ * Character 1- to 3-grams of each word, padded with spaces so word starts and ends count
+ * Scripts written without spaces (Chinese, Japanese, Thai) give one long run per phrase
+ */
+export function extractNgrams(text: string): string[] {
+  const words = text.toLowerCase().split(/[^\p{L}\p{M}]+/u).filter(Boolean)
+  const ngrams: string[] = []
+
+  for (const word of words) {
+    const chars = Array.from(` ${word} `)
+    for (const size of NGRAM_SIZES) {
+      for (let i = 0; i + size <= chars.length; i++) {
+        const ngram = chars.slice(i, i + size).join('')
+        if (ngram !== ' ') {
+          ngrams.push(ngram)
+        }
+      }
+    }
+  }
+
+  return ngrams
+}
+
+/**
+ * Build a profile per language from labelled sample sentences
+ * This is how data/languageProfiles.json is produced from data/languageTraining.json
+ */
+export function trainLanguageProfiles(corpus: LanguageCorpus): LanguageProfiles {
+  const profiles: LanguageProfiles = {}
+
+  for (const [language, texts] of Object.entries(corpus)) {
+    const counts = new Map<string, number>()
+    let total = 0
+    for (const ngram of texts.flatMap(extractNgrams)) {
+      counts.set(ngram, (counts.get(ngram) || 0) + 1)
+      total++
+    }
+
+    const ngrams = Array.from(counts.entries())
+      .sort(([a, countA], [b, countB]) => countB - countA || (a < b ? -1 : a > b ? 1 : 0))
+      .slice(0, PROFILE_SIZE)
+
+    profiles[language] = { total, ngrams: Object.fromEntries(ngrams) }
+  }
+
+  return profiles
+}
+
+/**
+ * Naive Bayes classifier over character n-gram profiles
+ */
+export class NgramLanguageModel {
+  private readonly profiles: LanguageProfiles
+
+  constructor(profiles: LanguageProfiles = bundledProfiles) {
+    this.profiles = profiles
+  }
+
+  /**
+   * Language codes the model has a profile for
+   */
+  getLanguages(): string[] {
+    return Object.keys(this.profiles)
+  }
+
+  /**
+   * Probability of each profiled language for the text, summing to 1
+   * Every language gets 0 when the text has no letters to judge by
+   */
+  classify(text: string): Record<string, number> {
+    const languages = this.getLanguages()
+    const ngrams = extractNgrams(text)
+
+    if (ngrams.length === 0) {
+      return Object.fromEntries(languages.map(language => [language, 0]))
+    }
+
+    const logLikelihoods = languages.map(language => {
+      const { total, ngrams: counts } = this.profiles[language]
+      const denominator = Math.log(total + SMOOTHING_VOCABULARY)
+      return ngrams.reduce((sum, ngram) => sum + Math.log((counts[ngram] || 0) + 1) - denominator, 0)
+    })
+
+    const best = Math.max(...logLikelihoods)
+    const weights = logLikelihoods.map(value => Math.exp((value - best) / LIKELIHOOD_TEMPERATURE))
+    const sum = weights.reduce((a, b) => a + b, 0)
+
+    return Object.fromEntries(languages.map((language, i) => [language, weights[i] / sum]))
+  }
+}
@@ -0,0 +1,97 @@
+// OCR providers used to read text from image attachments
+
+import { inflateSync } from 'zlib'
+import { OcrProvider } from './interfaces'
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+// PNG text chunk keywords that describe what the image shows
+const PNG_TEXT_KEYWORDS = ['Title', 'Description', 'Comment']
+
+/**
+ * Local stand-in for an OCR service, for development without network access
+ * It does no recognition: it returns the text an image carries in its metadata (PNG
+ * tEXt/zTXt/iTXt chunks, JPEG comments), so images can be given text to exercise the pipeline
+ */
+export class LocalMetadataOcrProvider implements OcrProvider {
+  readonly name = 'local'
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  async recognize(image: Buffer, mimeType: string): Promise<string> {
+    if (mimeType === 'image/png') {
+      return this.readPngText(image).join('\n')
+    }
+    if (mimeType === 'image/jpeg') {
+      return this.readJpegComments(image).join('\n')
+    }
+    return ''
+  }
+
+  /**
+   * Helper: Text of a PNG's descriptive text chunks
+   */
+  private readPngText(image: Buffer): string[] {
+    if (!image.subarray(0, 8).equals(PNG_SIGNATURE)) {
+      return []
+    }
+
+    const texts: string[] = []
+    let offset = 8
+    while (offset + 8 <= image.length) {
+      const length = image.readUInt32BE(offset)
+      const type = image.toString('latin1', offset + 4, offset + 8)
+      const data = image.subarray(offset + 8, Math.min(offset + 8 + length, image.length))
+      offset += 12 + length
+
+      if (type === 'IEND') {
+        break
+      }
+      const keywordEnd = data.indexOf(0)
+      if (keywordEnd === -1 || !PNG_TEXT_KEYWORDS.includes(data.toString('latin1', 0, keywordEnd))) {
+        continue
+      }
+
+      try {
+        if (type === 'tEXt') {
+          texts.push(data.toString('latin1', keywordEnd + 1))
+        } else if (type === 'zTXt') {
+          texts.push(inflateSync(data.subarray(keywordEnd + 2)).toString('latin1'))
+        } else if (type === 'iTXt') {
+          // keyword, compression flag and method, language tag, translated keyword, text
+          const compressed = data[keywordEnd + 1] === 1
+          const languageEnd = data.indexOf(0, keywordEnd + 3)
+          const translatedEnd = data.indexOf(0, languageEnd + 1)
+          const text = data.subarray(translatedEnd + 1)
+          texts.push((compressed ? inflateSync(text) : text).toString('utf8'))
+        }
+      } catch {
+        // Damaged chunk; keep reading the others
+      }
+    }
+
+    return texts.map(text => text.trim()).filter(Boolean)
+  }
+
+  /**
+   * Helper: Text of a JPEG's comment segments
+   */
+  private readJpegComments(image: Buffer): string[] {
+    const comments: string[] = []
+    let offset = 2 // After the SOI marker
+    while (offset + 4 <= image.length && image[offset] === 0xff) {
+      const marker = image[offset + 1]
+      if (marker === 0xda || marker === 0xd9) {
+        break // Image data follows; metadata segments come before it
+      }
+      const length = image.readUInt16BE(offset + 2)
+      if (marker === 0xfe) {
+        comments.push(image.toString('utf8', offset + 4, Math.min(offset + 2 + length, image.length)).trim())
+      }
+      offset += 2 + length
+    }
+    return comments.filter(Boolean)
+  }
+}
@@ -0,0 +1,202 @@
+// Real-time broadcaster for pushing chat events to connected clients
+
+import { RealTimeBroadcaster } from './interfaces'
+import { Message, MessageStatus, ThreadSummary, Translation, RealtimeEvent, Subscription } from '@/types'
+import { RealtimeError, ValidationError, handleError } from '@/lib/errors'
+import { generateId } from '@/lib/utils'
+
+type EventListener = (event: RealtimeEvent) => void
+
+/**
+ * In-process broadcaster backed by per-topic listener sets.
+ * Topics are channel IDs for channel events and `user:<id>` for
+ * per-user events (e.g. new conversations). Listeners are attached
+ * by the streaming endpoint, one per connected client.
+ */
+export class InMemoryRealTimeBroadcaster implements RealTimeBroadcaster {
+  private listeners = new Map<string, Map<string, EventListener>>()
+
+  /**
+   * Broadcast a newly created message to a channel
+   */
+  async broadcastMessage(channelId: string, message: Message): Promise<void> {
+    this.publish(channelId, { type: 'message', channelId, message })
+  }
+
+  /**
+   * Broadcast the new version of an edited message
+   */
+  async broadcastMessageEdit(channelId: string, message: Message): Promise<void> {
+    this.publish(channelId, { type: 'edit', channelId, message })
+  }
+
+  /**
+   * Broadcast the updated reply summary of a thread's parent message
+   */
+  async broadcastThreadUpdate(channelId: string, parentMessageId: string, thread: ThreadSummary): Promise<void> {
+    this.publish(channelId, { type: 'thread', channelId, messageId: parentMessageId, thread })
+  }
+
+  /**
+   * Broadcast a completed translation to a channel
+   */
+  async broadcastTranslation(channelId: string, translation: Translation): Promise<void> {
+    this.publish(channelId, {
+      type: 'translation',
+      channelId,
+      messageId: translation.messageId,
+      translation
+    })
+  }
+
+  /**
+   * Broadcast the current reaction list of a message
+   */
+  async broadcastReactions(
+    channelId: string,
+    messageId: string,
+    reactions: NonNullable<Message['reactions']>
+  ): Promise<void> {
+    this.publish(channelId, { type: 'reaction', channelId, messageId, reactions })
+  }
+
+  /**
+   * Broadcast that messages were deleted from a channel
+   */
+  async broadcastDeletion(channelId: string, messageIds: string[]): Promise<void> {
+    if (messageIds.length === 0) {
+      return
+    }
+    this.publish(channelId, { type: 'deletion', channelId, messageIds })
+  }
+
+  /**
+   * Broadcast that all messages in a channel were cleared
+   */
+  async broadcastChannelCleared(channelId: string): Promise<void> {
+    this.publish(channelId, { type: 'cleared', channelId })
+  }
+
+  /**
+   * Broadcast a message status change (e.g. translating -> translated)
+   */
+  async broadcastMessageStatus(channelId: string, messageId: string, status: MessageStatus): Promise<void> {
+    this.publish(channelId, { type: 'status', channelId, messageId, status })
+  }
+
+  /**
+   * Broadcast an event to every stream opened by a single user
+   */
+  async broadcastToUser(userId: string, event: RealtimeEvent): Promise<void> {
+    this.publish(this.userTopic(userId), event)
+  }
+
+  /**
+   * Subscribe to new messages in a channel
+   */
+  subscribeToChannel(channelId: string, callback: (message: Message) => void): Subscription {
+    return this.subscribeToChannelEvents(channelId, (event) => {
+      if (event.type === 'message') {
+        callback(event.message)
+      }
+    })
+  }
+
+  /**
+   * Subscribe to translations of a single message
+   */
+  subscribeToTranslations(messageId: string, callback: (translation: Translation) => void): Subscription {
+    return this.subscribe(this.translationTopic(messageId), (event) => {
+      if (event.type === 'translation') {
+        callback(event.translation)
+      }
+    })
+  }
+
+  /**
+   * Subscribe to every event published to a channel
+   */
+  subscribeToChannelEvents(channelId: string, callback: (event: RealtimeEvent) => void): Subscription {
+    if (!channelId) {
+      throw new ValidationError('Channel ID is required')
+    }
+    return this.subscribe(channelId, callback)
+  }
+
+  /**
+   * Subscribe to events addressed to a single user
+   */
+  subscribeToUser(userId: string, callback: (event: RealtimeEvent) => void): Subscription {
+    if (!userId) {
+      throw new ValidationError('User ID is required')
+    }
+    return this.subscribe(this.userTopic(userId), callback)
+  }
+
+  /**
+   * Number of active listeners for a topic (useful for diagnostics)
+   */
+  getListenerCount(topic?: string): number {
+    if (topic) {
+      return this.listeners.get(topic)?.size || 0
+    }
+
+    let total = 0
+    for (const topicListeners of this.listeners.values()) {
+      total += topicListeners.size
+    }
+    return total
+  }
+
+  private subscribe(topic: string, callback: EventListener): Subscription {
+    const id = generateId()
+    const topicListeners = this.listeners.get(topic) || new Map<string, EventListener>()
+    topicListeners.set(id, callback)
+    this.listeners.set(topic, topicListeners)
+
+    return {
+      id,
+      unsubscribe: () => {
+        const current = this.listeners.get(topic)
+        if (!current) return
+        current.delete(id)
+        if (current.size === 0) {
+          this.listeners.delete(topic)
+        }
+      }
+    }
+  }
+
+  private publish(topic: string, event: RealtimeEvent): void {
+    try {
+      const targets = [topic]
+      if (event.type === 'translation') {
+        targets.push(this.translationTopic(event.messageId))
+      }
+
+      for (const target of targets) {
+        const topicListeners = this.listeners.get(target)
+        if (!topicListeners) continue
+
+        for (const listener of topicListeners.values()) {
+          try {
+            listener(event)
+          } catch (error) {
+            // One broken client stream must not stop delivery to the others
+            console.warn('Realtime listener failed:', error)
+          }
+        }
+      }
+    } catch (error) {
+      throw handleError(new RealtimeError('Failed to publish realtime event', error), 'RealTimeBroadcaster.publish')
+    }
+  }
+
+  private userTopic(userId: string): string {
+    return `user:${userId}`
+  }
+
+  private translationTopic(messageId: string): string {
+    return `translation:${messageId}`
+  }
+}
@@ -1,7 +1,7 @@
 // Translation Cache Service implementation
 
-import { TranslationCache } from './interfaces'
-import { LanguageCode } from '@/types'
+import { TranslationCache, TranslationMemoryStore } from './interfaces'
+import { LanguageCode, TranslationMemoryData } from '@/types'
 import { CACHE_CONFIG } from '@/lib/constants'
 import { CacheError, ValidationError, handleError } from '@/lib/errors'
 import { generateHash } from '@/lib/utils'
@@ -34,10 +34,15 @@ export class TranslationCacheImpl implements TranslationCache {
   private readonly ttl: number
   private readonly cleanupIntervalMs: number
 
+  /**
+   * The in-process map is an L1 layer; when a store is given, misses fall through
+   * to it and writes go to both, so translations survive restarts and are shared
+   */
   constructor(
     maxEntries: number = CACHE_CONFIG.MAX_ENTRIES,
     ttl: number = CACHE_CONFIG.DEFAULT_TTL,
-    cleanupInterval: number = CACHE_CONFIG.CLEANUP_INTERVAL
+    cleanupInterval: number = CACHE_CONFIG.CLEANUP_INTERVAL,
+    private readonly store?: TranslationMemoryStore
   ) {
     this.maxEntries = maxEntries
     this.ttl = ttl
@@ -59,16 +64,14 @@ export class TranslationCacheImpl implements TranslationCache {
       const entry = this.cache.get(key)
       
       if (!entry) {
-        this.stats.misses++
-        return null
+        return this.getFromStore(key)
       }
 
       // Check if entry has expired
       if (this.isExpired(entry)) {
         this.cache.delete(key)
-        this.stats.misses++
         this.updateStats()
-        return null
+        return this.getFromStore(key)
       }
 
       // Update access statistics
@@ -106,6 +109,14 @@ export class TranslationCacheImpl implements TranslationCache {
 
       this.cache.set(key, entry)
       this.updateStats()
+
+      if (this.store) {
+        try {
+          await this.store.set(key, value, now)
+        } catch (error) {
+          console.warn('Failed to persist translation memory entry:', error)
+        }
+      }
     } catch (error) {
       throw handleError(error, 'TranslationCache.set')
     }
@@ -113,8 +124,10 @@ export class TranslationCacheImpl implements TranslationCache {
 
   /**
    * Generate a cache key from content and target language
+   * Source language and glossary version keep identical text from different languages,
+   * or translated under a different glossary, from sharing an entry
    */
-  generateKey(content: string, targetLang: LanguageCode): string {
+  generateKey(content: string, targetLang: LanguageCode, sourceLang?: LanguageCode, glossaryVersion?: string): string {
     try {
       if (!content || !targetLang) {
         throw new ValidationError('Content and target language are required for key generation')
@@ -123,8 +136,11 @@ export class TranslationCacheImpl implements TranslationCache {
       // Normalize content for consistent caching
       const normalizedContent = this.normalizeContent(content)
       const contentHash = generateHash(normalizedContent)
+      const pair = sourceLang
+        ? `${sourceLang.toLowerCase()}:${targetLang.toLowerCase()}`
+        : targetLang.toLowerCase()
       
-      return `${contentHash}:${targetLang.toLowerCase()}`
+      return glossaryVersion ? `${contentHash}:${pair}:${glossaryVersion}` : `${contentHash}:${pair}`
     } catch (error) {
       throw handleError(error, 'TranslationCache.generateKey')
     }
@@ -136,6 +152,7 @@ export class TranslationCacheImpl implements TranslationCache {
   async clear(): Promise<void> {
     try {
       this.cache.clear()
+      await this.store?.clear()
       this.stats = {
         hits: 0,
         misses: 0,
@@ -244,6 +261,7 @@ export class TranslationCacheImpl implements TranslationCache {
 
       const existed = this.cache.has(key)
       this.cache.delete(key)
+      await this.store?.delete(key)
       
       if (existed) {
         this.updateStats()
@@ -314,6 +332,29 @@ export class TranslationCacheImpl implements TranslationCache {
 
   // Private helper methods
 
+  private async getFromStore(key: string): Promise<string | null> {
+    if (this.store) {
+      try {
+        const value = await this.store.get(key)
+        if (value !== null) {
+          this.stats.hits++
+          // Promote into L1 without writing back to the store
+          this.cache.set(key, { value, timestamp: Date.now(), accessCount: 1, lastAccessed: Date.now() })
+          if (this.cache.size > this.maxEntries) {
+            this.evictLeastRecentlyUsed()
+          }
+          this.updateStats()
+          return value
+        }
+      } catch (error) {
+        console.warn('Translation memory lookup failed:', error)
+      }
+    }
+
+    this.stats.misses++
+    return null
+  }
+
   private isExpired(entry: CacheEntry, now: number = Date.now()): boolean {
     return (now - entry.timestamp) > this.ttl
   }
@@ -377,32 +418,47 @@ export class TranslationCacheImpl implements TranslationCache {
   }
 
   /**
-   * Export cache data for persistence (if needed)
+   * Export cached translations, including the persistent translation memory
    */
-  exportData(): { [key: string]: { value: string; timestamp: number } } {
-    const data: { [key: string]: { value: string; timestamp: number } } = {}
-    
-    for (const [key, entry] of this.cache.entries()) {
-      if (!this.isExpired(entry)) {
-        data[key] = {
-          value: entry.value,
-          timestamp: entry.timestamp
+  async exportData(): Promise<TranslationMemoryData> {
+    try {
+      const data: TranslationMemoryData = this.store ? await this.store.exportData() : {}
+
+      for (const [key, entry] of this.cache.entries()) {
+        if (!this.isExpired(entry)) {
+          data[key] = {
+            value: entry.value,
+            timestamp: entry.timestamp
+          }
         }
       }
-    }
 
-    return data
+      return data
+    } catch (error) {
+      throw handleError(error, 'TranslationCache.exportData')
+    }
   }
 
   /**
-   * Import cache data from persistence (if needed)
+   * Import translations: all go to the persistent memory, unexpired ones also to L1
+   * L1 is only filled once the memory has accepted them, so a rejected import changes nothing
+   * Returns the number of entries imported
    */
-  async importData(data: { [key: string]: { value: string; timestamp: number } }): Promise<void> {
+  async importData(data: TranslationMemoryData): Promise<number> {
     try {
+      const valid: TranslationMemoryData = {}
+      for (const [key, item] of Object.entries(data)) {
+        if (key && typeof item?.value === 'string' && typeof item.timestamp === 'number') {
+          valid[key] = { value: item.value, timestamp: item.timestamp }
+        }
+      }
+
+      const storedCount = this.store ? await this.store.importData(valid) : null
+
       const now = Date.now()
       let importedCount = 0
 
-      for (const [key, item] of Object.entries(data)) {
+      for (const [key, item] of Object.entries(valid)) {
         // Only import non-expired entries
         if ((now - item.timestamp) <= this.ttl) {
           const entry: CacheEntry = {
@@ -417,10 +473,15 @@ export class TranslationCacheImpl implements TranslationCache {
         }
       }
 
+      if (storedCount !== null) {
+        importedCount = storedCount
+      }
+
       this.updateStats()
       console.log(`Imported ${importedCount} cache entries`)
+      return importedCount
     } catch (error) {
       throw handleError(error, 'TranslationCache.importData')
     }
   }
-}
\ No newline at end of file
+}
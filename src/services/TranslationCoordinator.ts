@@ -0,0 +1,69 @@
+// Single-flight coordination of message translations
+
+import { TranslationCoordinator } from './interfaces'
+import { LanguageCode, Translation } from '@/types'
+
+interface Flight {
+  sourceContent: string
+  promise: Promise<Translation>
+}
+
+/**
+ * In-process single-flight coordinator keyed by message ID and target language.
+ * Concurrent requests for the same pair (the worker, polling readers, translateMessage)
+ * share one in-flight translation instead of each calling the provider. A flight only
+ * serves callers translating the same source text, so an edit never receives the
+ * translation of the previous content.
+ */
+export class SingleFlightTranslationCoordinator implements TranslationCoordinator {
+  private readonly flights = new Map<string, Flight>()
+
+  /**
+   * Run `task` for a message/language pair, or join the flight already running for it
+   */
+  run(
+    messageId: string,
+    targetLang: LanguageCode,
+    sourceContent: string,
+    task: () => Promise<Translation>
+  ): Promise<Translation> {
+    const key = this.key(messageId, targetLang)
+    const existing = this.flights.get(key)
+    if (existing && existing.sourceContent === sourceContent) {
+      return existing.promise
+    }
+
+    const flight: Flight = {
+      sourceContent,
+      promise: Promise.resolve()
+        .then(task)
+        .finally(() => {
+          // A newer flight (after an edit) may have replaced this one
+          if (this.flights.get(key) === flight) {
+            this.flights.delete(key)
+          }
+        })
+    }
+
+    this.flights.set(key, flight)
+    return flight.promise
+  }
+
+  /**
+   * Check whether a message/language pair is being translated right now
+   */
+  isInFlight(messageId: string, targetLang: LanguageCode): boolean {
+    return this.flights.has(this.key(messageId, targetLang))
+  }
+
+  /**
+   * Number of translations in flight
+   */
+  getInFlightCount(): number {
+    return this.flights.size
+  }
+
+  private key(messageId: string, targetLang: LanguageCode): string {
+    return `${messageId}:${targetLang}`
+  }
+}
@@ -0,0 +1,265 @@
+import { ObjectId, Document, WithId } from 'mongodb'
+import { getDatabase } from '@/lib/mongodb'
+import { LanguageCode, Translation, TranslationCorrection, TranslationCorrectionStatus } from '@/types'
+import { TranslationCorrectionService } from './interfaces'
+import { ValidationError, NotFoundError, handleError } from '@/lib/errors'
+import { CORRECTION_CONFIG } from '@/lib/constants'
+import { getMessageService, getTranslationEngine, getRealTimeBroadcaster } from './index'
+
+const COLLECTION = 'translation_corrections'
+
+/**
+ * Mongo-backed review queue for human translation corrections.
+ * Readers propose a fix for a message's translation; community moderators approve or
+ * reject it. Approved corrections replace the stored translation and its translation
+ * memory entry. Corrections are never deleted, so they double as the audit history.
+ */
+export class MongoTranslationCorrectionService implements TranslationCorrectionService {
+  /**
+   * Propose a corrected translation of a channel message
+   * A reader's pending proposal for the same message and language is replaced
+   */
+  async submitCorrection(
+    messageId: string,
+    targetLang: LanguageCode,
+    proposedTranslation: string,
+    userId: string,
+    reason?: string
+  ): Promise<TranslationCorrection> {
+    try {
+      const proposed = typeof proposedTranslation === 'string' ? proposedTranslation.trim() : ''
+      if (!proposed) {
+        throw new ValidationError('A corrected translation is required', 'translation')
+      }
+      if (proposed.length > CORRECTION_CONFIG.MAX_TRANSLATION_LENGTH) {
+        throw new ValidationError(
+          `Translation exceeds ${CORRECTION_CONFIG.MAX_TRANSLATION_LENGTH} characters`,
+          'translation'
+        )
+      }
+      const note = typeof reason === 'string' ? reason.trim() : ''
+      if (note.length > CORRECTION_CONFIG.MAX_REASON_LENGTH) {
+        throw new ValidationError(`Reason exceeds ${CORRECTION_CONFIG.MAX_REASON_LENGTH} characters`, 'reason')
+      }
+
+      const message = await getMessageService().getMessageById(messageId)
+      if (!message) {
+        throw new NotFoundError('Message')
+      }
+      if (message.conversationId) {
+        throw new ValidationError('Corrections are reviewed by community moderators, so only channel messages can be corrected')
+      }
+
+      const current = message.translations?.find(t => t.targetLanguage === targetLang)
+      if (!current) {
+        throw new ValidationError(`Message has no ${targetLang} translation to correct`, 'language')
+      }
+      if (current.translatedContent === proposed) {
+        throw new ValidationError('The proposed translation matches the current one', 'translation')
+      }
+
+      const db = await getDatabase()
+      const channel = await db.collection('channels').findOne(
+        { _id: new ObjectId(message.channelId) },
+        { projection: { communityId: 1 } }
+      )
+      if (!channel) {
+        throw new NotFoundError('Channel')
+      }
+
+      const submitter = await db.collection('users').findOne({ _id: new ObjectId(userId) }, { projection: { username: 1 } })
+
+      const doc = await db.collection(COLLECTION).findOneAndUpdate(
+        { messageId: new ObjectId(messageId), targetLanguage: targetLang, submittedBy: userId, status: 'pending' },
+        {
+          $set: {
+            channelId: message.channelId,
+            communityId: channel.communityId.toString(),
+            sourceContent: message.content,
+            originalTranslation: current.translatedContent,
+            proposedTranslation: proposed,
+            submittedByName: submitter?.username || 'Unknown User',
+            createdAt: new Date(),
+            ...(note ? { reason: note } : {})
+          },
+          ...(note ? {} : { $unset: { reason: '' } })
+        },
+        { upsert: true, returnDocument: 'after' }
+      )
+
+      return this.mapCorrection(doc!)
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoTranslationCorrectionService.submitCorrection')
+    }
+  }
+
+  /**
+   * Corrections awaiting (or past) review in a community, newest first
+   */
+  async getCommunityCorrections(
+    communityId: string,
+    status: TranslationCorrectionStatus = 'pending'
+  ): Promise<TranslationCorrection[]> {
+    try {
+      const db = await getDatabase()
+      const docs = await db.collection(COLLECTION)
+        .find({ communityId, status })
+        .sort({ createdAt: -1 })
+        .limit(CORRECTION_CONFIG.MAX_LIST_SIZE)
+        .toArray()
+
+      return docs.map(doc => this.mapCorrection(doc))
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoTranslationCorrectionService.getCommunityCorrections')
+    }
+  }
+
+  /**
+   * Correction history of a message, newest first
+   */
+  async getMessageCorrections(messageId: string): Promise<TranslationCorrection[]> {
+    try {
+      const db = await getDatabase()
+      const docs = await db.collection(COLLECTION)
+        .find({ messageId: new ObjectId(messageId) })
+        .sort({ createdAt: -1 })
+        .limit(CORRECTION_CONFIG.MAX_LIST_SIZE)
+        .toArray()
+
+      return docs.map(doc => this.mapCorrection(doc))
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoTranslationCorrectionService.getMessageCorrections')
+    }
+  }
+
+  /**
+   * Approve or reject a pending correction
+   * Approval replaces the message's translation and translation memory entry and pushes
+   * the new translation to the channel. A correction of text that was edited since is
+   * refused and stays pending, so it can be rejected
+   */
+  async reviewCorrection(
+    communityId: string,
+    correctionId: string,
+    reviewerId: string,
+    approve: boolean,
+    note?: string
+  ): Promise<TranslationCorrection> {
+    try {
+      if (!ObjectId.isValid(correctionId)) {
+        throw new NotFoundError('Correction')
+      }
+      const reviewNote = typeof note === 'string' ? note.trim() : ''
+      if (reviewNote.length > CORRECTION_CONFIG.MAX_REASON_LENGTH) {
+        throw new ValidationError(`Note exceeds ${CORRECTION_CONFIG.MAX_REASON_LENGTH} characters`, 'note')
+      }
+
+      const db = await getDatabase()
+      const filter = { _id: new ObjectId(correctionId), communityId }
+      const now = new Date()
+
+      // Claim the correction so two moderators cannot review it at once
+      const claimed = await db.collection(COLLECTION).findOneAndUpdate(
+        { ...filter, status: 'pending' },
+        {
+          $set: {
+            status: approve ? 'approved' : 'rejected',
+            reviewedBy: reviewerId,
+            reviewedAt: now,
+            ...(reviewNote ? { reviewNote } : {})
+          }
+        },
+        { returnDocument: 'after' }
+      )
+
+      if (!claimed) {
+        const existing = await db.collection(COLLECTION).findOne(filter, { projection: { status: 1 } })
+        throw existing
+          ? new ValidationError(`Correction was already ${existing.status}`)
+          : new NotFoundError('Correction')
+      }
+
+      const correction = this.mapCorrection(claimed)
+      if (approve) {
+        try {
+          await this.applyCorrection(correction, reviewerId, now)
+        } catch (error: unknown) {
+          await db.collection(COLLECTION).updateOne(
+            { _id: claimed._id },
+            { $set: { status: 'pending' }, $unset: { reviewedBy: '', reviewedAt: '', reviewNote: '' } }
+          )
+          throw error
+        }
+      }
+
+      return correction
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoTranslationCorrectionService.reviewCorrection')
+    }
+  }
+
+  /**
+   * Helper: Write an approved correction to the message, the translation memory and the channel
+   * Only a failure to update the message throws; once it carries the corrected text the
+   * memory and broadcast are best-effort, so the approval is not undone after the fact
+   */
+  private async applyCorrection(correction: TranslationCorrection, reviewerId: string, now: Date): Promise<void> {
+    const message = await getMessageService().getMessageById(correction.messageId)
+    if (!message) {
+      throw new NotFoundError('Message')
+    }
+
+    const translation: Translation = {
+      messageId: correction.messageId,
+      targetLanguage: correction.targetLanguage,
+      translatedContent: correction.proposedTranslation,
+      createdAt: now,
+      correctedAt: now,
+      correctedBy: reviewerId
+    }
+
+    const replaced = await getMessageService().replaceTranslation(message.id, translation, correction.sourceContent)
+    if (!replaced) {
+      throw new ValidationError('The message or its translation changed after this correction was proposed')
+    }
+
+    try {
+      await getTranslationEngine().replaceCachedTranslation(
+        correction.sourceContent,
+        message.sourceLanguage,
+        correction.targetLanguage,
+        correction.proposedTranslation,
+        correction.communityId
+      )
+    } catch (error: unknown) {
+      console.error('Failed to update translation memory with the correction:', error)
+    }
+
+    try {
+      await getRealTimeBroadcaster().broadcastTranslation(message.channelId, translation)
+    } catch (error: unknown) {
+      console.error('Failed to broadcast corrected translation:', error)
+    }
+  }
+
+  private mapCorrection(doc: WithId<Document>): TranslationCorrection {
+    return {
+      id: doc._id.toString(),
+      messageId: doc.messageId.toString(),
+      channelId: doc.channelId,
+      communityId: doc.communityId,
+      targetLanguage: doc.targetLanguage,
+      sourceContent: doc.sourceContent,
+      originalTranslation: doc.originalTranslation,
+      proposedTranslation: doc.proposedTranslation,
+      reason: doc.reason,
+      status: doc.status as TranslationCorrectionStatus,
+      submittedBy: doc.submittedBy,
+      submittedByName: doc.submittedByName,
+      createdAt: doc.createdAt,
+      reviewedBy: doc.reviewedBy,
+      reviewedAt: doc.reviewedAt,
+      reviewNote: doc.reviewNote
+    }
+  }
+}
@@ -0,0 +1,209 @@
+// Helpers the message routes use to hand translation work to the job queue
+
+import { ObjectId } from 'mongodb'
+import { getDatabase } from '@/lib/mongodb'
+import { LanguageCode, Message } from '@/types'
+import { getTranslationJobQueue, getTranslationWorker, getRealTimeBroadcaster, getConversationService, getTranslationCoordinator, getTranslationEngine } from './index'
+
+/**
+ * Primary languages of the channel's community members, used as translation targets
+ */
+export async function getChannelTranslationTargets(
+  channelId: string
+): Promise<{ communityId?: string; languages: LanguageCode[] }> {
+  const db = await getDatabase()
+  const channel = await db.collection('channels').findOne({ _id: new ObjectId(channelId) })
+  if (!channel) {
+    return { languages: [] }
+  }
+
+  const communityId = channel.communityId?.toString()
+  const community = await db.collection('communities').findOne({ _id: channel.communityId })
+  if (!community || !community.members) {
+    return { communityId, languages: [] }
+  }
+
+  const members = await db.collection('users')
+    .find({ _id: { $in: community.members } })
+    .toArray()
+
+  return {
+    communityId,
+    languages: [...new Set(members.map(user => user.primaryLanguage).filter(Boolean))]
+  }
+}
+
+/**
+ * Translation targets for a message: its conversation's participants for direct messages,
+ * otherwise the members of its channel's community
+ */
+export async function getMessageTranslationTargets(
+  message: Message
+): Promise<{ communityId?: string; languages: LanguageCode[] }> {
+  if (message.conversationId) {
+    return { languages: await getConversationService().getParticipantLanguages(message.conversationId) }
+  }
+  return getChannelTranslationTargets(message.channelId)
+}
+
+/**
+ * Queue translations for the worker and announce the status change
+ * Returns whether any new job was created
+ */
+export async function queueTranslations(
+  messageId: string,
+  channelId: string,
+  languages: LanguageCode[],
+  communityId?: string
+): Promise<boolean> {
+  if (languages.length === 0) {
+    return false
+  }
+
+  try {
+    const created = await getTranslationJobQueue().enqueue(messageId, channelId, languages, communityId)
+    if (created === 0) {
+      return false
+    }
+
+    await getRealTimeBroadcaster().broadcastMessageStatus(channelId, messageId, 'translating')
+    getTranslationWorker().wake()
+    return true
+  } catch (error: unknown) {
+    // The message itself is stored; readers fall back to the original text
+    console.error('Failed to queue translations:', error)
+    return false
+  }
+}
+
+/**
+ * Queue a new or edited message for every language its readers use except its own
+ * Routes call this without awaiting it, so the sender gets a response as soon as the
+ * message is stored; status changes and translations arrive over the realtime stream
+ */
+export async function queueMessageTranslations(message: Message): Promise<boolean> {
+  if (!message.content.trim()) {
+    return false
+  }
+
+  try {
+    const { communityId, languages } = await getMessageTranslationTargets(message)
+    return await queueTranslations(
+      message.id,
+      message.conversationId || message.channelId,
+      languages.filter(lang => lang !== message.sourceLanguage),
+      communityId
+    )
+  } catch (error: unknown) {
+    console.error('Failed to queue translations:', error)
+    return false
+  }
+}
+
+/**
+ * Re-translate a message whose content or source language changed
+ * Translations cached for the previous version are invalidated and its old jobs cleared,
+ * then every language it was translated into, or its readers use, is queued again
+ * Returns whether any new job was created
+ */
+export async function requeueMessageTranslations(previous: Message, message: Message): Promise<boolean> {
+  const previousLanguages = (previous.translations || []).map(t => t.targetLanguage)
+
+  let targets: Awaited<ReturnType<typeof getMessageTranslationTargets>>
+  try {
+    targets = await getMessageTranslationTargets(message)
+  } catch (error: unknown) {
+    // The change itself is stored; readers fall back to the original text
+    console.error('Failed to queue translations:', error)
+    return false
+  }
+  const { communityId, languages } = targets
+
+  try {
+    await getTranslationEngine().invalidateCachedTranslations(
+      previous.content,
+      previousLanguages,
+      previous.sourceLanguage,
+      communityId
+    )
+  } catch (error: unknown) {
+    console.warn('Failed to invalidate cached translations:', error)
+  }
+
+  if (!message.content.trim()) {
+    return false
+  }
+
+  try {
+    // Old jobs would otherwise block re-queueing the same languages
+    await getTranslationJobQueue().clearJobsForMessage(message.id)
+  } catch (error: unknown) {
+    console.error('Failed to clear translation jobs:', error)
+  }
+
+  return queueTranslations(
+    message.id,
+    message.conversationId || message.channelId,
+    [...new Set([...languages, ...previousLanguages])].filter(lang => lang !== message.sourceLanguage),
+    communityId
+  )
+}
+
+/**
+ * Queue the viewer's language for every message that lacks it, without waiting for results
+ * Messages in one of the viewer's understood languages are left as they are
+ * Messages that got a new job come back marked as translating
+ */
+export async function queueViewerTranslations(
+  messages: Message[],
+  viewerId: string,
+  viewerLanguage: LanguageCode,
+  channelId: string,
+  understoodLanguages: LanguageCode[] = []
+): Promise<Message[]> {
+  const needsTranslation = messages.filter(message =>
+    message.senderId !== viewerId &&
+    message.content.trim() &&
+    message.sourceLanguage !== viewerLanguage &&
+    !understoodLanguages.includes(message.sourceLanguage) &&
+    !message.translations?.some(t => t.targetLanguage === viewerLanguage)
+  )
+
+  if (needsTranslation.length === 0) {
+    return messages
+  }
+
+  // Pairs already being translated in this process need no job; they are reported as
+  // translating, and a poll after an edit re-queues them if the flight's result is dropped
+  const coordinator = getTranslationCoordinator()
+  const queuedIds = new Set(
+    needsTranslation
+      .filter(message => coordinator.isInFlight(message.id, viewerLanguage))
+      .map(message => message.id)
+  )
+
+  try {
+    const db = await getDatabase()
+    const channel = await db.collection('channels').findOne({ _id: new ObjectId(channelId) })
+    const communityId = channel?.communityId?.toString()
+    const queue = getTranslationJobQueue()
+
+    await Promise.all(needsTranslation.filter(message => !queuedIds.has(message.id)).map(async (message) => {
+      const created = await queue.enqueue(message.id, channelId, [viewerLanguage], communityId)
+      if (created > 0) {
+        queuedIds.add(message.id)
+      }
+    }))
+
+    if (queuedIds.size > 0) {
+      getTranslationWorker().wake()
+    }
+  } catch (error: unknown) {
+    // Messages are still readable in their original language
+    console.error('Failed to queue translations:', error)
+  }
+
+  return messages.map(message =>
+    queuedIds.has(message.id) ? { ...message, status: 'translating' as const } : message
+  )
+}
@@ -1,33 +1,31 @@
-import { TranslationEngine } from './interfaces'
-import { LanguageCode } from '@/types'
+import { TranslationEngine, TranslationOptions, TranslationProviderRegistry } from './interfaces'
+import { LanguageCode, ContentTranslation, Message, Translation } from '@/types'
 import { getTranslationCache } from './index'
 import { getGlossaryManager } from './index'
 import { getMessageService } from './index'
+import { getCommunityService } from './index'
+import { getTranslationCoordinator } from './index'
+import { getRealTimeBroadcaster } from './index'
+import { getLanguageDetector } from './index'
 import { TranslationError, ValidationError } from '@/lib/errors'
 import { SUPPORTED_LANGUAGES } from '@/lib/constants'
 import { messageParser } from '@/lib/MessageParser'
+import { createDefaultProviderRegistry } from './TranslationProviderRegistry'
 
 /**
- * Translation Engine implementation with Lingo.dev API integration
+ * Translation Engine implementation on top of the provider registry
  * Handles translation requests with caching and glossary protection
  */
 export class TranslationEngineImpl implements TranslationEngine {
-  private readonly apiKey: string
-  private readonly baseUrl = 'https://api.lingo.dev/v1'
   private readonly cache = getTranslationCache()
   private readonly glossary = getGlossaryManager()
   private readonly messageService = getMessageService()
 
-  constructor() {
-    this.apiKey = process.env.LINGO_API_KEY || ''
-    if (!this.apiKey) {
-      console.warn('LINGO_API_KEY not found in environment variables')
-    }
-  }
+  constructor(private readonly providers: TranslationProviderRegistry = createDefaultProviderRegistry()) {}
 
   /**
-   * Translate a message into multiple target languages
-   * Updates message status and stores translations in database
+   * Translate a message into multiple target languages and store the results
+   * Updates message status; routes hand this work to the TranslationJobQueue instead
    */
   async translateMessage(messageId: string, targetLanguages: LanguageCode[]): Promise<void> {
     try {
@@ -49,58 +47,17 @@ export class TranslationEngineImpl implements TranslationEngine {
         throw new ValidationError('No valid target languages provided')
       }
 
-      // Get community ID from message (assuming we can derive it)
-      // For now, using 'default' community
-      const communityId = 'default'
-      const protectedTerms = await this.glossary.getProtectedTerms(communityId)
-
-      // Parse message content to handle code blocks properly
-      const parsedMessage = messageParser.parse(message.content)
-      if (!parsedMessage.isValid) {
-        throw new ValidationError(`Invalid message content: ${parsedMessage.errors.join(', ')}`)
-      }
-
-      // Get translatable content (with code blocks replaced by placeholders)
-      const translatableContent = messageParser.getTranslatableContent(parsedMessage)
-
-      // Protect glossary terms in translatable content
-      const protectedContent = this.glossary.applyGlossaryProtection(
-        translatableContent,
-        protectedTerms
-      )
-
-      // Translate to each target language
+      // Translate to each target language, sharing translations already in flight
       const translationPromises = validLanguages.map(async (targetLang) => {
         try {
-          // Check cache first
-          const cached = await this.getCachedTranslation(message.content, targetLang)
-          if (cached) {
-            return { targetLang, translation: cached, fromCache: true }
+          const translation = await this.translateMessageContent(message, targetLang)
+          if (await this.messageService.addTranslation(messageId, translation, message.content)) {
+            await getRealTimeBroadcaster().broadcastTranslation(message.conversationId || message.channelId, translation)
           }
-
-          // Translate using API
-          const translation = await this.translateText(
-            protectedContent,
-            message.sourceLanguage,
-            targetLang
-          )
-
-          // Restore protected terms
-          let restoredTranslation = this.glossary.restoreProtectedTerms(
-            translation,
-            translatableContent
-          )
-
-          // Restore code blocks and inline code
-          restoredTranslation = messageParser.restoreAllCode(restoredTranslation, parsedMessage)
-
-          // Cache the translation
-          await this.cacheTranslation(message.content, targetLang, restoredTranslation)
-
-          return { targetLang, translation: restoredTranslation, fromCache: false }
+          return { targetLang, translation }
         } catch (error) {
           console.error(`Translation failed for ${targetLang}:`, error)
-          return { targetLang, translation: message.content, fromCache: false, error }
+          return { targetLang, translation: null, error }
         }
       })
 
@@ -125,30 +82,274 @@ export class TranslationEngineImpl implements TranslationEngine {
     }
   }
 
+  /**
+   * Translate a message into one language
+   * Concurrent calls for the same message and language share one translation
+   * A language the sender pinned or someone corrected holds for the whole message, so such
+   * messages are never split into runs of re-detected languages
+   */
+  async translateMessageContent(
+    message: Message,
+    targetLang: LanguageCode,
+    communityId?: string
+  ): Promise<Translation> {
+    return getTranslationCoordinator().run(message.id, targetLang, message.content, async () => {
+      const isLanguageSet = message.languageSource === 'pinned' || message.languageSource === 'corrected'
+      const options = { isRomanized: !!message.isRomanized }
+      const { translatedContent, glossaryViolations } = isLanguageSet
+        ? await this.translateContentDetailed(message.content, message.sourceLanguage, targetLang, communityId, options)
+        : await this.translateMixedContentDetailed(message.content, message.sourceLanguage, targetLang, communityId, options)
+
+      return {
+        messageId: message.id,
+        targetLanguage: targetLang,
+        translatedContent,
+        createdAt: new Date(),
+        ...(glossaryViolations.length > 0 ? { glossaryViolations } : {})
+      }
+    })
+  }
+
+  /**
+   * Translate content whose sentences may be in different languages, such as Hinglish or
+   * Spanglish, into one language
+   * Each run of sentences is translated from its own detected language, romanized or not,
+   * and runs already in the target language are kept as written. The reassembled result is
+   * cached under the message's language like any other translation, so corrections and
+   * invalidation apply; options describe the content as a whole when it is not split
+   */
+  async translateMixedContentDetailed(
+    content: string,
+    sourceLang: LanguageCode,
+    targetLang: LanguageCode,
+    communityId: string = 'default',
+    options: TranslationOptions = {}
+  ): Promise<ContentTranslation> {
+    // Code blocks are never split; sentences inside them are not prose
+    if (sourceLang === targetLang || !content.trim() || content.includes('```')) {
+      return this.translateContentDetailed(content, sourceLang, targetLang, communityId, options)
+    }
+
+    const { segments } = await getLanguageDetector().detectMixedLanguageContent(content, { primaryLanguage: sourceLang })
+    if (segments.length < 2) {
+      return this.translateContentDetailed(content, sourceLang, targetLang, communityId, options)
+    }
+
+    const protectedTerms = await this.glossary.getProtectedTermDetails(communityId)
+    const glossaryVersion = this.glossary.getGlossaryVersion(protectedTerms)
+    const cached = await this.getCachedTranslation(content, targetLang, sourceLang, glossaryVersion)
+    if (cached) {
+      return {
+        translatedContent: cached,
+        glossaryViolations: this.glossary.findGlossaryViolations(content, cached, protectedTerms, targetLang)
+      }
+    }
+
+    const translatedSegments = await Promise.all(segments.map(async segment => {
+      if (segment.language === targetLang) {
+        return { translatedContent: segment.text, glossaryViolations: [] }
+      }
+
+      // Providers trim what they are sent, so the spacing between sentences is put back here
+      const [, leading, text, trailing] = segment.text.match(/^(\s*)([\s\S]*?)(\s*)$/)!
+      const translated = await this.translateContentDetailed(text, segment.language, targetLang, communityId, {
+        isRomanized: segment.isRomanized
+      })
+      return { ...translated, translatedContent: leading + translated.translatedContent + trailing }
+    }))
+
+    const translatedContent = translatedSegments.map(segment => segment.translatedContent).join('')
+    await this.cacheTranslation(content, targetLang, translatedContent, sourceLang, glossaryVersion)
+
+    return {
+      translatedContent,
+      glossaryViolations: [...new Set(translatedSegments.flatMap(segment => segment.glossaryViolations))]
+    }
+  }
+
+  /**
+   * Translate message content into one language, with cache lookup
+   */
+  async translateContent(
+    content: string,
+    sourceLang: LanguageCode,
+    targetLang: LanguageCode,
+    communityId: string = 'default'
+  ): Promise<string> {
+    const { translatedContent } = await this.translateContentDetailed(content, sourceLang, targetLang, communityId)
+    return translatedContent
+  }
+
+  /**
+   * Translate message content into one language and report glossary terms whose
+   * approved translation is missing from the result
+   * Code, URLs, mentions and glossary terms are swapped for placeholders so only
+   * the prose reaches the provider; terms with a forced translation for the target
+   * language come back as that translation. If any placeholder comes back damaged
+   * the original content is returned rather than a corrupted translation
+   */
+  async translateContentDetailed(
+    content: string,
+    sourceLang: LanguageCode,
+    targetLang: LanguageCode,
+    communityId: string = 'default',
+    options: TranslationOptions = {}
+  ): Promise<ContentTranslation> {
+    if (sourceLang === targetLang || !content.trim()) {
+      return { translatedContent: content, glossaryViolations: [] }
+    }
+
+    // Translation memory is keyed by language pair and glossary version, so a glossary
+    // change never serves translations made under the old terms
+    const protectedTerms = await this.glossary.getProtectedTermDetails(communityId)
+    const glossaryVersion = this.glossary.getGlossaryVersion(protectedTerms)
+    const withViolations = (translatedContent: string): ContentTranslation => ({
+      translatedContent,
+      glossaryViolations: this.glossary.findGlossaryViolations(content, translatedContent, protectedTerms, targetLang)
+    })
+
+    // Check cache first
+    const cached = await this.getCachedTranslation(content, targetLang, sourceLang, glossaryVersion)
+    if (cached) {
+      return withViolations(cached)
+    }
+
+    // Parse message content to handle code blocks properly
+    const parsedMessage = messageParser.parse(content)
+    if (!parsedMessage.isValid) {
+      throw new ValidationError(`Invalid message content: ${parsedMessage.errors.join(', ')}`)
+    }
+
+    // Code blocks and inline code, then URLs and mentions, then glossary terms
+    const translatableContent = messageParser.getTranslatableContent(parsedMessage)
+    const { content: withoutEntities, entities } = messageParser.protectEntities(translatableContent)
+    const { processedContent, protectedSegments } = await this.glossary.applyGlossaryProtectionDetailed(
+      withoutEntities,
+      protectedTerms,
+      targetLang
+    )
+
+    const placeholders = [
+      ...messageParser.getCodePlaceholders(parsedMessage),
+      ...entities.map(entity => entity.placeholder),
+      ...protectedSegments.map(segment => segment.placeholder)
+    ]
+
+    // Nothing but protected content (e.g. a lone code block or link) - nothing to translate
+    const prose = placeholders.reduce((text, placeholder) => text.split(placeholder).join(' '), processedContent)
+    if (!/\p{L}/u.test(prose)) {
+      return withViolations(content)
+    }
+
+    // Translate through the provider chain
+    const translation = await this.translateText(processedContent, sourceLang, targetLang, communityId, options)
+
+    const damaged = messageParser.findDamagedPlaceholders(translation, placeholders)
+    if (damaged.length > 0) {
+      console.warn(`Translation to ${targetLang} lost placeholders ${damaged.join(', ')}; keeping the original`)
+      return withViolations(content)
+    }
+
+    // Restore in reverse order of protection; forced glossary translations replace their term
+    let restoredTranslation = messageParser.restorePlaceholders(
+      translation,
+      protectedSegments.map(segment => ({ placeholder: segment.placeholder, original: segment.replacement ?? segment.original }))
+    )
+    restoredTranslation = messageParser.restorePlaceholders(restoredTranslation, entities)
+    restoredTranslation = messageParser.restoreAllCode(restoredTranslation, parsedMessage)
+
+    // Cache the translation
+    await this.cacheTranslation(content, targetLang, restoredTranslation, sourceLang, glossaryVersion)
+
+    return withViolations(restoredTranslation)
+  }
+
   /**
    * Get cached translation if available
    */
-  async getCachedTranslation(content: string, targetLang: LanguageCode): Promise<string | null> {
-    const key = this.cache.generateKey(content, targetLang)
+  async getCachedTranslation(
+    content: string,
+    targetLang: LanguageCode,
+    sourceLang?: LanguageCode,
+    glossaryVersion?: string
+  ): Promise<string | null> {
+    const key = this.cacheKey(content, targetLang, sourceLang, glossaryVersion)
     return await this.cache.get(key)
   }
 
   /**
    * Cache a translation for future use
    */
-  async cacheTranslation(content: string, targetLang: LanguageCode, translation: string): Promise<void> {
-    const key = this.cache.generateKey(content, targetLang)
+  async cacheTranslation(
+    content: string,
+    targetLang: LanguageCode,
+    translation: string,
+    sourceLang?: LanguageCode,
+    glossaryVersion?: string
+  ): Promise<void> {
+    const key = this.cacheKey(content, targetLang, sourceLang, glossaryVersion)
     await this.cache.set(key, translation)
   }
 
   /**
-   * Translate text using Lingo.dev SDK
+   * Build a cache key; without a source language this falls back to the legacy content/target key
    */
-  async translateText(content: string, sourceLang: LanguageCode, targetLang: LanguageCode): Promise<string> {
-    if (!this.apiKey) {
-      throw new TranslationError('Translation API key not configured')
-    }
+  private cacheKey(
+    content: string,
+    targetLang: LanguageCode,
+    sourceLang?: LanguageCode,
+    glossaryVersion?: string
+  ): string {
+    return sourceLang
+      ? this.cache.generateKey(content, targetLang, sourceLang, glossaryVersion)
+      : this.cache.generateKey(content, targetLang)
+  }
 
+  /**
+   * Drop cached translations of content that is no longer current (e.g. after an edit)
+   */
+  async invalidateCachedTranslations(
+    content: string,
+    targetLanguages: LanguageCode[],
+    sourceLang?: LanguageCode,
+    communityId: string = 'default'
+  ): Promise<void> {
+    const glossaryVersion = sourceLang
+      ? this.glossary.getGlossaryVersion(await this.glossary.getProtectedTermDetails(communityId))
+      : undefined
+
+    await Promise.all(
+      targetLanguages.map(targetLang =>
+        this.cache.delete(this.cacheKey(content, targetLang, sourceLang, glossaryVersion)))
+    )
+  }
+
+  /**
+   * Overwrite the translation memory entry for content under the community's current glossary,
+   * so an approved correction is served instead of the provider's translation
+   */
+  async replaceCachedTranslation(
+    content: string,
+    sourceLang: LanguageCode,
+    targetLang: LanguageCode,
+    translation: string,
+    communityId: string = 'default'
+  ): Promise<void> {
+    const glossaryVersion = this.glossary.getGlossaryVersion(await this.glossary.getProtectedTermDetails(communityId))
+    await this.cacheTranslation(content, targetLang, translation, sourceLang, glossaryVersion)
+  }
+
+  /**
+   * Translate text through the community's provider chain (or the default chain)
+   * Options such as romanized source text are handed to the providers
+   */
+  async translateText(
+    content: string,
+    sourceLang: LanguageCode,
+    targetLang: LanguageCode,
+    communityId?: string,
+    options: TranslationOptions = {}
+  ): Promise<string> {
     if (sourceLang === targetLang) {
       return content
     }
@@ -157,36 +358,28 @@ export class TranslationEngineImpl implements TranslationEngine {
       return content
     }
 
-    try {
-      // Use Lingo.dev SDK - import from correct path
-      const { LingoDotDevEngine } = await import('lingo.dev/sdk')
-
-      const lingoEngine = new LingoDotDevEngine({
-        apiKey: this.apiKey,
-      })
+    const chain = await this.getProviderChain(communityId)
+    const result = await this.providers.translate(content, sourceLang, targetLang, chain, options)
+    return result.translatedText
+  }
 
-      // Use the SDK's localizeText method
-      const result = await lingoEngine.localizeText(content, {
-        sourceLocale: sourceLang,
-        targetLocale: targetLang,
-      })
+  /**
+   * Resolve the fallback chain configured for a community
+   */
+  private async getProviderChain(communityId?: string): Promise<string[]> {
+    if (!communityId || communityId === 'default') {
+      return this.providers.getDefaultChain()
+    }
 
-      if (!result) {
-        throw new TranslationError('Invalid response from Lingo.dev SDK')
+    try {
+      const configured = await getCommunityService().getTranslationProviders(communityId)
+      if (configured && configured.length > 0) {
+        return this.providers.validateChain(configured)
       }
-
-      return result
     } catch (error) {
-      if (error instanceof TranslationError) {
-        throw error
-      }
-
-      // Network or other errors
-      throw new TranslationError(
-        `Translation API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        JSON.stringify({ originalError: String(error) })
-      )
+      console.warn(`Using default provider chain for community ${communityId}:`, error)
     }
+    return this.providers.getDefaultChain()
   }
 
   /**
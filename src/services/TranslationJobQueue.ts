@@ -0,0 +1,307 @@
+import { ObjectId, Document, WithId, AnyBulkWriteOperation } from 'mongodb'
+import { getDatabase } from '@/lib/mongodb'
+import { LanguageCode, MessageStatus, Translation, TranslationJob, TranslationJobStatus } from '@/types'
+import { TranslationJobQueue } from './interfaces'
+import { ValidationError, handleError } from '@/lib/errors'
+import { MESSAGE_STATUS, TRANSLATION_CONFIG } from '@/lib/constants'
+import { getMessageService } from './index'
+
+const COLLECTION = 'translation_jobs'
+
+/**
+ * Mongo-backed queue of pending translations, one job per message and target language.
+ * Jobs are claimed atomically, so several workers (or server instances) can drain
+ * the same collection without translating a pair twice. Completed and failed jobs get
+ * a finishedAt time, and a TTL index deletes them after FINISHED_JOB_TTL.
+ */
+export class MongoTranslationJobQueue implements TranslationJobQueue {
+  /**
+   * Enqueue translations for a message; pairs that already have a job are left alone,
+   * except jobs that ran out of retries at least FAILED_JOB_COOLDOWN ago, which start over
+   * Returns the number of newly created or restarted jobs
+   */
+  async enqueue(
+    messageId: string,
+    channelId: string,
+    targetLanguages: LanguageCode[],
+    communityId?: string
+  ): Promise<number> {
+    try {
+      if (!messageId || !channelId) {
+        throw new ValidationError('Message ID and channel ID are required')
+      }
+
+      const languages = [...new Set(targetLanguages.filter(Boolean))]
+      if (languages.length === 0) {
+        return 0
+      }
+
+      const db = await getDatabase()
+      const now = new Date()
+      const failedBefore = new Date(now.getTime() - TRANSLATION_CONFIG.FAILED_JOB_COOLDOWN)
+
+      // A provider outage would otherwise leave its failed pairs untranslated for good
+      const restarts: AnyBulkWriteOperation<Document>[] = languages.map(targetLanguage => ({
+        updateOne: {
+          filter: {
+            messageId: new ObjectId(messageId),
+            targetLanguage,
+            status: 'failed',
+            updatedAt: { $lte: failedBefore }
+          },
+          update: {
+            $set: { status: 'pending', attempts: 0, runAt: now, updatedAt: now },
+            $unset: { lastError: '', finishedAt: '' }
+          }
+        }
+      }))
+
+      const inserts: AnyBulkWriteOperation<Document>[] = languages.map(targetLanguage => ({
+        updateOne: {
+          filter: { messageId: new ObjectId(messageId), targetLanguage },
+          update: {
+            $setOnInsert: {
+              messageId: new ObjectId(messageId),
+              channelId,
+              communityId,
+              targetLanguage,
+              status: 'pending',
+              attempts: 0,
+              runAt: now,
+              createdAt: now,
+              updatedAt: now
+            }
+          },
+          upsert: true
+        }
+      }))
+
+      let created = 0
+      try {
+        const result = await db.collection(COLLECTION).bulkWrite([...restarts, ...inserts], { ordered: false })
+        created = result.upsertedCount + result.modifiedCount
+      } catch (error: unknown) {
+        // A concurrent enqueue won the upsert race; the job exists either way
+        if (!isDuplicateKeyError(error)) {
+          throw error
+        }
+      }
+
+      if (created > 0) {
+        await db.collection('messages').updateOne(
+          { _id: new ObjectId(messageId) },
+          { $set: { status: MESSAGE_STATUS.TRANSLATING, updatedAt: now } }
+        )
+      }
+
+      return created
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoTranslationJobQueue.enqueue')
+    }
+  }
+
+  /**
+   * Claim up to `size` runnable jobs for a worker
+   * Jobs locked by a worker that stopped reporting are reclaimed after JOB_LOCK_TIMEOUT
+   */
+  async claimBatch(workerId: string, size: number = TRANSLATION_CONFIG.BATCH_SIZE): Promise<TranslationJob[]> {
+    try {
+      if (!workerId) {
+        throw new ValidationError('Worker ID is required')
+      }
+
+      const db = await getDatabase()
+      const jobs: TranslationJob[] = []
+
+      while (jobs.length < size) {
+        const now = new Date()
+        const staleBefore = new Date(now.getTime() - TRANSLATION_CONFIG.JOB_LOCK_TIMEOUT)
+
+        const claimed = await db.collection(COLLECTION).findOneAndUpdate(
+          {
+            $or: [
+              { status: 'pending', runAt: { $lte: now } },
+              { status: 'processing', lockedAt: { $lt: staleBefore } }
+            ]
+          },
+          { $set: { status: 'processing', lockedBy: workerId, lockedAt: now, updatedAt: now } },
+          { sort: { runAt: 1 }, returnDocument: 'after' }
+        )
+
+        if (!claimed) {
+          break
+        }
+        jobs.push(this.mapJob(claimed))
+      }
+
+      return jobs
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoTranslationJobQueue.claimBatch')
+    }
+  }
+
+  /**
+   * Store the finished translation on the message and close the job
+   * `sourceContent` is the text that was translated; if the message was edited
+   * in the meantime the stale translation is dropped. Returns whether it was stored
+   */
+  async complete(job: TranslationJob, translation: Translation, sourceContent: string): Promise<boolean> {
+    try {
+      const db = await getDatabase()
+      const now = new Date()
+
+      // Only add the translation if the message has none for this language yet
+      const stored = await getMessageService().addTranslation(job.messageId, translation, sourceContent)
+
+      await db.collection(COLLECTION).updateOne(
+        { _id: new ObjectId(job.id), lockedBy: job.lockedBy },
+        {
+          $set: { status: 'completed', updatedAt: now, finishedAt: now },
+          $unset: { lockedBy: '', lockedAt: '', lastError: '' }
+        }
+      )
+
+      return stored
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoTranslationJobQueue.complete')
+    }
+  }
+
+  /**
+   * Record a failed attempt, rescheduling with exponential backoff until MAX_RETRIES
+   */
+  async fail(job: TranslationJob, error: unknown): Promise<void> {
+    try {
+      const db = await getDatabase()
+      const now = new Date()
+      const attempts = job.attempts + 1
+      const exhausted = attempts >= TRANSLATION_CONFIG.MAX_RETRIES
+      const delay = TRANSLATION_CONFIG.RETRY_DELAY * Math.pow(2, attempts - 1)
+
+      await db.collection(COLLECTION).updateOne(
+        { _id: new ObjectId(job.id), lockedBy: job.lockedBy },
+        {
+          $set: {
+            status: exhausted ? 'failed' : 'pending',
+            attempts,
+            lastError: error instanceof Error ? error.message : String(error),
+            runAt: exhausted ? job.runAt : new Date(now.getTime() + delay),
+            updatedAt: now,
+            ...(exhausted ? { finishedAt: now } : {})
+          },
+          $unset: { lockedBy: '', lockedAt: '' }
+        }
+      )
+    } catch (err) {
+      throw handleError(err, 'MongoTranslationJobQueue.fail')
+    }
+  }
+
+  /**
+   * Give up on a job without retrying (e.g. its message was deleted)
+   */
+  async cancel(job: TranslationJob, reason: string): Promise<void> {
+    try {
+      const db = await getDatabase()
+      const now = new Date()
+      await db.collection(COLLECTION).updateOne(
+        { _id: new ObjectId(job.id), lockedBy: job.lockedBy },
+        {
+          $set: { status: 'failed', lastError: reason, updatedAt: now, finishedAt: now },
+          $unset: { lockedBy: '', lockedAt: '' }
+        }
+      )
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoTranslationJobQueue.cancel')
+    }
+  }
+
+  /**
+   * Derive the message status from its jobs once none are outstanding
+   * translating while any job is open, translated if at least one succeeded, otherwise failed
+   */
+  async refreshMessageStatus(messageId: string): Promise<MessageStatus> {
+    try {
+      const jobs = await this.getJobsForMessage(messageId)
+
+      let status: MessageStatus = MESSAGE_STATUS.SENT
+      if (jobs.some(job => job.status === 'pending' || job.status === 'processing')) {
+        status = MESSAGE_STATUS.TRANSLATING
+      } else if (jobs.some(job => job.status === 'completed')) {
+        status = MESSAGE_STATUS.TRANSLATED
+      } else if (jobs.length > 0) {
+        status = MESSAGE_STATUS.FAILED
+      }
+
+      const db = await getDatabase()
+      await db.collection('messages').updateOne(
+        { _id: new ObjectId(messageId) },
+        { $set: { status, updatedAt: new Date() } }
+      )
+
+      return status
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoTranslationJobQueue.refreshMessageStatus')
+    }
+  }
+
+  /**
+   * List every job created for a message
+   */
+  async getJobsForMessage(messageId: string): Promise<TranslationJob[]> {
+    try {
+      if (!messageId) {
+        throw new ValidationError('Message ID is required')
+      }
+
+      const db = await getDatabase()
+      const jobs = await db.collection(COLLECTION)
+        .find({ messageId: new ObjectId(messageId) })
+        .toArray()
+
+      return jobs.map(job => this.mapJob(job))
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoTranslationJobQueue.getJobsForMessage')
+    }
+  }
+
+  /**
+   * Remove every job of a message so its translations can be queued afresh
+   */
+  async clearJobsForMessage(messageId: string): Promise<number> {
+    try {
+      if (!messageId) {
+        throw new ValidationError('Message ID is required')
+      }
+
+      const db = await getDatabase()
+      const result = await db.collection(COLLECTION).deleteMany({ messageId: new ObjectId(messageId) })
+      return result.deletedCount
+    } catch (error: unknown) {
+      throw handleError(error, 'MongoTranslationJobQueue.clearJobsForMessage')
+    }
+  }
+
+  private mapJob(doc: WithId<Document>): TranslationJob {
+    return {
+      id: doc._id.toString(),
+      messageId: doc.messageId.toString(),
+      channelId: doc.channelId,
+      communityId: doc.communityId || undefined,
+      targetLanguage: doc.targetLanguage,
+      status: doc.status as TranslationJobStatus,
+      attempts: doc.attempts || 0,
+      lastError: doc.lastError,
+      runAt: doc.runAt,
+      lockedBy: doc.lockedBy,
+      lockedAt: doc.lockedAt,
+      finishedAt: doc.finishedAt,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    }
+  }
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000
+}
@@ -0,0 +1,129 @@
+import { Document, AnyBulkWriteOperation } from 'mongodb'
+import { getDatabase } from '@/lib/mongodb'
+import { TranslationMemoryData } from '@/types'
+import { TranslationMemoryStore } from './interfaces'
+import { ValidationError, handleError } from '@/lib/errors'
+import { CACHE_CONFIG } from '@/lib/constants'
+
+const COLLECTION = 'translation_memory'
+
+/**
+ * Mongo-backed translation memory, shared by every server instance and kept across restarts.
+ * Entries are keyed by TranslationCache.generateKey, which covers source and target
+ * language, normalized content and glossary version.
+ * updatedAt is refreshed on every read and a TTL index drops entries unused for
+ * CACHE_CONFIG.DEFAULT_TTL, so keys for old glossary versions do not pile up.
+ */
+export class MongoTranslationMemoryStore implements TranslationMemoryStore {
+  /**
+   * Get a stored translation, marking it as recently used
+   */
+  async get(key: string): Promise<string | null> {
+    try {
+      const db = await getDatabase()
+      const entry = await db.collection(COLLECTION).findOneAndUpdate(
+        { key },
+        { $set: { updatedAt: new Date() } },
+        { projection: { value: 1 } }
+      )
+      return entry?.value ?? null
+    } catch (error) {
+      throw handleError(error, 'MongoTranslationMemoryStore.get')
+    }
+  }
+
+  /**
+   * Store (or replace) a translation
+   */
+  async set(key: string, value: string, timestamp: number = Date.now()): Promise<void> {
+    try {
+      const db = await getDatabase()
+      await db.collection(COLLECTION).updateOne(
+        { key },
+        { $set: { key, value, updatedAt: new Date(timestamp) } },
+        { upsert: true }
+      )
+    } catch (error) {
+      throw handleError(error, 'MongoTranslationMemoryStore.set')
+    }
+  }
+
+  /**
+   * Remove a stored translation
+   */
+  async delete(key: string): Promise<void> {
+    try {
+      const db = await getDatabase()
+      await db.collection(COLLECTION).deleteOne({ key })
+    } catch (error) {
+      throw handleError(error, 'MongoTranslationMemoryStore.delete')
+    }
+  }
+
+  /**
+   * Remove every stored translation
+   */
+  async clear(): Promise<void> {
+    try {
+      const db = await getDatabase()
+      await db.collection(COLLECTION).deleteMany({})
+    } catch (error) {
+      throw handleError(error, 'MongoTranslationMemoryStore.clear')
+    }
+  }
+
+  /**
+   * Export stored translations, most recently used first, up to CACHE_CONFIG.MAX_EXPORT_ENTRIES
+   */
+  async exportData(): Promise<TranslationMemoryData> {
+    try {
+      const db = await getDatabase()
+      const entries = await db.collection(COLLECTION)
+        .find({}, { projection: { key: 1, value: 1, updatedAt: 1 } })
+        .sort({ updatedAt: -1 })
+        .limit(CACHE_CONFIG.MAX_EXPORT_ENTRIES)
+        .toArray()
+
+      const data: TranslationMemoryData = {}
+      for (const entry of entries) {
+        data[entry.key] = { value: entry.value, timestamp: new Date(entry.updatedAt).getTime() }
+      }
+      return data
+    } catch (error) {
+      throw handleError(error, 'MongoTranslationMemoryStore.exportData')
+    }
+  }
+
+  /**
+   * Import translations, replacing entries with the same key
+   * Entries already past the TTL are skipped, since the TTL index would drop them
+   * Returns the number of entries written
+   */
+  async importData(data: TranslationMemoryData): Promise<number> {
+    try {
+      const entries = Object.entries(data)
+      if (entries.length > CACHE_CONFIG.MAX_IMPORT_ENTRIES) {
+        throw new ValidationError(`At most ${CACHE_CONFIG.MAX_IMPORT_ENTRIES} entries can be imported at once`)
+      }
+      const now = Date.now()
+      const fresh = entries.filter(([, item]) => now - item.timestamp <= CACHE_CONFIG.DEFAULT_TTL)
+      if (fresh.length === 0) {
+        return 0
+      }
+
+      const operations: AnyBulkWriteOperation<Document>[] = fresh.map(([key, item]) => ({
+        updateOne: {
+          filter: { key },
+          update: { $set: { key, value: item.value, updatedAt: new Date(item.timestamp) } },
+          upsert: true
+        }
+      }))
+
+      const db = await getDatabase()
+      await db.collection(COLLECTION).bulkWrite(operations, { ordered: false })
+      return fresh.length
+    } catch (error) {
+      throw handleError(error, 'MongoTranslationMemoryStore.importData')
+    }
+  }
+}
@@ -0,0 +1,151 @@
+// Registry of translation providers with an ordered fallback chain
+
+import { TranslationOptions, TranslationProvider, TranslationProviderRegistry } from './interfaces'
+import { LanguageCode, ProviderTranslationResult } from '@/types'
+import { TranslationError, ValidationError } from '@/lib/errors'
+import { TRANSLATION_CONFIG } from '@/lib/constants'
+import {
+  LingoDotDevProvider,
+  GeminiTranslationProvider,
+  LocalDictionaryProvider,
+  EchoTranslationProvider
+} from './TranslationProviders'
+
+/**
+ * Holds named providers and runs content through them in chain order.
+ * Providers that are unavailable (e.g. missing API key) are skipped, and a
+ * provider that throws or times out falls through to the next one.
+ */
+export class TranslationProviderRegistryImpl implements TranslationProviderRegistry {
+  private providers = new Map<string, TranslationProvider>()
+  private defaultChain: string[]
+
+  constructor(defaultChain: string[] = TRANSLATION_CONFIG.DEFAULT_PROVIDER_CHAIN) {
+    this.defaultChain = [...defaultChain]
+  }
+
+  /**
+   * Register a provider, replacing any provider with the same name
+   */
+  register(provider: TranslationProvider): void {
+    if (!provider.name) {
+      throw new ValidationError('Provider name is required')
+    }
+    this.providers.set(provider.name, provider)
+  }
+
+  /**
+   * Remove a provider from the registry
+   */
+  unregister(name: string): void {
+    this.providers.delete(name)
+  }
+
+  getProvider(name: string): TranslationProvider | undefined {
+    return this.providers.get(name)
+  }
+
+  getProviderNames(): string[] {
+    return Array.from(this.providers.keys())
+  }
+
+  getDefaultChain(): string[] {
+    return [...this.defaultChain]
+  }
+
+  /**
+   * Replace the chain used when no per-community chain is configured
+   */
+  setDefaultChain(chain: string[]): void {
+    this.defaultChain = this.validateChain(chain)
+  }
+
+  /**
+   * Check that a chain only names registered providers, dropping duplicates
+   */
+  validateChain(chain: string[]): string[] {
+    if (!Array.isArray(chain) || chain.length === 0) {
+      throw new ValidationError('Provider chain must list at least one provider', 'providers')
+    }
+
+    const unknown = chain.filter(name => !this.providers.has(name))
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown translation providers: ${unknown.join(', ')}`, 'providers')
+    }
+
+    return [...new Set(chain)]
+  }
+
+  /**
+   * Translate with the first provider in the chain that succeeds
+   */
+  async translate(
+    content: string,
+    sourceLang: LanguageCode,
+    targetLang: LanguageCode,
+    chain: string[] = this.defaultChain,
+    options: TranslationOptions = {}
+  ): Promise<ProviderTranslationResult> {
+    const failures: string[] = []
+
+    for (const name of chain) {
+      const provider = this.providers.get(name)
+      if (!provider || !provider.isAvailable()) {
+        failures.push(`${name}: unavailable`)
+        continue
+      }
+
+      try {
+        const translatedText = await this.withTimeout(
+          provider.translate(content, sourceLang, targetLang, options),
+          name
+        )
+        if (failures.length > 0) {
+          console.warn(`Translation fell back to ${name} after: ${failures.join('; ')}`)
+        }
+        return { translatedText, provider: name }
+      } catch (error) {
+        failures.push(`${name}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+
+    throw new TranslationError(
+      `All translation providers failed (${failures.join('; ') || 'empty chain'})`,
+      content
+    )
+  }
+
+  private withTimeout<T>(promise: Promise<T>, name: string): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new TranslationError(`Provider ${name} timed out`)),
+        TRANSLATION_CONFIG.TIMEOUT
+      )
+    })
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+  }
+}
+
+/**
+ * Registry with every built-in provider registered
+ * TRANSLATION_PROVIDER_CHAIN (comma separated) overrides the default chain
+ */
+export function createDefaultProviderRegistry(): TranslationProviderRegistryImpl {
+  const registry = new TranslationProviderRegistryImpl()
+  registry.register(new LingoDotDevProvider())
+  registry.register(new GeminiTranslationProvider())
+  registry.register(new LocalDictionaryProvider())
+  registry.register(new EchoTranslationProvider())
+
+  const configuredChain = process.env.TRANSLATION_PROVIDER_CHAIN
+  if (configuredChain) {
+    try {
+      registry.setDefaultChain(configuredChain.split(',').map(name => name.trim()).filter(Boolean))
+    } catch (error) {
+      console.warn('Ignoring invalid TRANSLATION_PROVIDER_CHAIN:', error)
+    }
+  }
+
+  return registry
+}
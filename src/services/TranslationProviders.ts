@@ -0,0 +1,199 @@
+// Translation providers that can be registered with the TranslationProviderRegistry
+
+import { TranslationOptions, TranslationProvider } from './interfaces'
+import { LanguageCode } from '@/types'
+import { TranslationError } from '@/lib/errors'
+import { TRANSLATION_PROVIDERS } from '@/lib/constants'
+import { getGeminiTranslationService } from './GeminiTranslationService'
+
+/**
+ * Lingo.dev SDK provider
+ */
+export class LingoDotDevProvider implements TranslationProvider {
+  readonly name = TRANSLATION_PROVIDERS.LINGO
+  private readonly apiKey: string
+
+  constructor(apiKey: string = process.env.LINGO_API_KEY || '') {
+    this.apiKey = apiKey
+    if (!this.apiKey) {
+      console.warn('LINGO_API_KEY not found in environment variables')
+    }
+  }
+
+  isAvailable(): boolean {
+    return !!this.apiKey
+  }
+
+  async translate(content: string, sourceLang: LanguageCode, targetLang: LanguageCode): Promise<string> {
+    if (!this.apiKey) {
+      throw new TranslationError('Translation API key not configured')
+    }
+
+    try {
+      // Use Lingo.dev SDK - import from correct path
+      const { LingoDotDevEngine } = await import('lingo.dev/sdk')
+
+      const lingoEngine = new LingoDotDevEngine({
+        apiKey: this.apiKey,
+      })
+
+      // Use the SDK's localizeText method
+      const result = await lingoEngine.localizeText(content, {
+        sourceLocale: sourceLang,
+        targetLocale: targetLang,
+      })
+
+      if (!result) {
+        throw new TranslationError('Invalid response from Lingo.dev SDK')
+      }
+
+      return result
+    } catch (error) {
+      if (error instanceof TranslationError) {
+        throw error
+      }
+
+      // Network or other errors
+      throw new TranslationError(
+        `Translation API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        JSON.stringify({ originalError: String(error) })
+      )
+    }
+  }
+}
+
+/**
+ * Google Gemini provider, backed by GeminiTranslationService
+ * Romanized text (Hinglish, Arabizi...) goes through its romanized prompt, which reads the
+ * Latin spelling for meaning instead of taking it as English
+ */
+export class GeminiTranslationProvider implements TranslationProvider {
+  readonly name = TRANSLATION_PROVIDERS.GEMINI
+  private readonly service = getGeminiTranslationService()
+
+  isAvailable(): boolean {
+    return this.service.isAvailable()
+  }
+
+  async translate(content: string, sourceLang: LanguageCode, targetLang: LanguageCode, options: TranslationOptions = {}): Promise<string> {
+    if (options.isRomanized) {
+      const { translatedText } = await this.service.translateRomanized(content, targetLang)
+      return translatedText
+    }
+    return this.service.translateText(content, sourceLang, targetLang)
+  }
+}
+
+// Phrase dictionary keyed by language, each entry aligned with the English phrase list
+export type OfflineDictionary = Record<LanguageCode, Record<string, string>>
+
+export const DEFAULT_OFFLINE_DICTIONARY: OfflineDictionary = {
+  es: {
+    'hello': 'hola', 'hi': 'hola', 'good morning': 'buenos días', 'good night': 'buenas noches',
+    'thank you': 'gracias', 'thanks': 'gracias', 'yes': 'sí', 'no': 'no', 'ok': 'vale',
+    'see you later': 'hasta luego', 'how are you': 'cómo estás', 'sorry': 'lo siento', 'please': 'por favor'
+  },
+  fr: {
+    'hello': 'bonjour', 'hi': 'salut', 'good morning': 'bonjour', 'good night': 'bonne nuit',
+    'thank you': 'merci', 'thanks': 'merci', 'yes': 'oui', 'no': 'non', 'ok': "d'accord",
+    'see you later': 'à plus tard', 'how are you': 'comment ça va', 'sorry': 'désolé', 'please': "s'il vous plaît"
+  },
+  de: {
+    'hello': 'hallo', 'hi': 'hallo', 'good morning': 'guten Morgen', 'good night': 'gute Nacht',
+    'thank you': 'danke', 'thanks': 'danke', 'yes': 'ja', 'no': 'nein', 'ok': 'okay',
+    'see you later': 'bis später', 'how are you': 'wie geht es dir', 'sorry': 'Entschuldigung', 'please': 'bitte'
+  },
+  pt: {
+    'hello': 'olá', 'hi': 'oi', 'good morning': 'bom dia', 'good night': 'boa noite',
+    'thank you': 'obrigado', 'thanks': 'obrigado', 'yes': 'sim', 'no': 'não', 'ok': 'tudo bem',
+    'see you later': 'até logo', 'how are you': 'como vai', 'sorry': 'desculpe', 'please': 'por favor'
+  },
+  it: {
+    'hello': 'ciao', 'hi': 'ciao', 'good morning': 'buongiorno', 'good night': 'buona notte',
+    'thank you': 'grazie', 'thanks': 'grazie', 'yes': 'sì', 'no': 'no', 'ok': "va bene",
+    'see you later': 'a dopo', 'how are you': 'come stai', 'sorry': 'scusa', 'please': 'per favore'
+  },
+  hi: {
+    'hello': 'नमस्ते', 'hi': 'नमस्ते', 'good morning': 'सुप्रभात', 'good night': 'शुभ रात्रि',
+    'thank you': 'धन्यवाद', 'thanks': 'धन्यवाद', 'yes': 'हाँ', 'no': 'नहीं', 'ok': 'ठीक है',
+    'see you later': 'फिर मिलेंगे', 'how are you': 'आप कैसे हैं', 'sorry': 'माफ़ कीजिए', 'please': 'कृपया'
+  }
+}
+
+/**
+ * Offline phrase-dictionary provider
+ * Translates whole short phrases via English as a pivot; anything it
+ * does not know is rejected so the chain can fall through.
+ */
+export class LocalDictionaryProvider implements TranslationProvider {
+  readonly name = TRANSLATION_PROVIDERS.LOCAL
+
+  constructor(private readonly dictionary: OfflineDictionary = DEFAULT_OFFLINE_DICTIONARY) {}
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  async translate(content: string, sourceLang: LanguageCode, targetLang: LanguageCode): Promise<string> {
+    const { phrase, trailing } = this.normalize(content)
+
+    const english = sourceLang === 'en' ? phrase : this.toEnglish(phrase, sourceLang)
+    const translated = english !== null && targetLang === 'en'
+      ? english
+      : english !== null ? this.dictionary[targetLang]?.[english] : undefined
+
+    if (!translated) {
+      throw new TranslationError(`No offline translation for ${sourceLang} -> ${targetLang}`, content)
+    }
+
+    return this.matchCase(translated, content.trim()) + trailing
+  }
+
+  private toEnglish(phrase: string, sourceLang: LanguageCode): string | null {
+    const entries = this.dictionary[sourceLang]
+    if (!entries) return null
+
+    for (const [english, translated] of Object.entries(entries)) {
+      if (translated.toLowerCase() === phrase) {
+        return english
+      }
+    }
+    return null
+  }
+
+  private normalize(content: string): { phrase: string; trailing: string } {
+    const trimmed = content.trim()
+    const match = trimmed.match(/[\s!?.,¡¿]*$/)
+    const trailing = match ? match[0] : ''
+    const phrase = trimmed
+      .slice(0, trimmed.length - trailing.length)
+      .replace(/^[¡¿]+/, '')
+      .replace(/\s+/g, ' ')
+      .toLowerCase()
+    return { phrase, trailing }
+  }
+
+  private matchCase(translated: string, original: string): string {
+    const first = original.charAt(0)
+    if (first && first !== first.toLowerCase()) {
+      return translated.charAt(0).toUpperCase() + translated.slice(1)
+    }
+    return translated
+  }
+}
+
+/**
+ * Deterministic stand-in that tags content with the target language
+ * Useful for exercising the pipeline end to end without network access
+ */
+export class EchoTranslationProvider implements TranslationProvider {
+  readonly name = TRANSLATION_PROVIDERS.ECHO
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  async translate(content: string, _sourceLang: LanguageCode, targetLang: LanguageCode): Promise<string> {
+    return `[${targetLang}] ${content}`
+  }
+}
@@ -0,0 +1,146 @@
+import { TranslationJob } from '@/types'
+import { getTranslationJobQueue, getTranslationEngine, getMessageService, getRealTimeBroadcaster } from './index'
+import { TRANSLATION_CONFIG } from '@/lib/constants'
+import { generateId } from '@/lib/utils'
+
+/**
+ * Background loop that drains the translation job queue.
+ * Polls every WORKER_POLL_INTERVAL while idle and immediately while a full batch
+ * was claimed; `wake()` lets the request path skip the wait after enqueueing.
+ */
+export class TranslationWorker {
+  private readonly workerId = `worker-${generateId()}`
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private running = false
+  private processing = false
+  private wakeRequested = false
+
+  /**
+   * Start the polling loop (no-op if already running)
+   */
+  start(): void {
+    if (this.running) {
+      return
+    }
+    this.running = true
+    this.schedule(0)
+  }
+
+  /**
+   * Stop polling; a batch already in progress finishes on its own
+   */
+  stop(): void {
+    this.running = false
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Start the loop if needed and poll right away for newly enqueued jobs
+   */
+  wake(): void {
+    if (!this.running) {
+      this.start()
+      return
+    }
+    if (this.processing) {
+      this.wakeRequested = true
+      return
+    }
+    this.schedule(0)
+  }
+
+  isRunning(): boolean {
+    return this.running
+  }
+
+  /**
+   * Claim and process one batch of jobs, returning how many were claimed
+   */
+  async processBatch(): Promise<number> {
+    const queue = getTranslationJobQueue()
+    const jobs = await queue.claimBatch(this.workerId, TRANSLATION_CONFIG.BATCH_SIZE)
+    if (jobs.length === 0) {
+      return 0
+    }
+
+    await Promise.all(jobs.map(job => this.processJob(job)))
+
+    // Settle each touched message once, after all of its jobs in this batch ran
+    const channelsByMessage = new Map(jobs.map(job => [job.messageId, job.channelId]))
+    const broadcaster = getRealTimeBroadcaster()
+    for (const [messageId, channelId] of channelsByMessage) {
+      try {
+        const status = await queue.refreshMessageStatus(messageId)
+        await broadcaster.broadcastMessageStatus(channelId, messageId, status)
+      } catch (error) {
+        console.error(`Failed to refresh status for message ${messageId}:`, error)
+      }
+    }
+
+    return jobs.length
+  }
+
+  private async processJob(job: TranslationJob): Promise<void> {
+    const queue = getTranslationJobQueue()
+
+    try {
+      const message = await getMessageService().getMessageById(job.messageId)
+      if (!message) {
+        await queue.cancel(job, 'Message no longer exists')
+        return
+      }
+
+      // Joins a translation of the same pair already running in this process
+      const translation = await getTranslationEngine().translateMessageContent(message, job.targetLanguage, job.communityId)
+
+      const stored = await queue.complete(job, translation, message.content)
+      if (stored) {
+        await getRealTimeBroadcaster().broadcastTranslation(job.channelId, translation)
+      }
+    } catch (error) {
+      console.warn(`Translation job ${job.id} (${job.targetLanguage}) failed:`, error)
+      try {
+        await queue.fail(job, error)
+      } catch (failError) {
+        // The lock expires after JOB_LOCK_TIMEOUT and the job is picked up again
+        console.error(`Failed to record failure for job ${job.id}:`, failError)
+      }
+    }
+  }
+
+  private schedule(delay: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+    }
+    this.timer = setTimeout(() => void this.tick(), delay)
+    // Never keep the process alive just for the queue
+    this.timer.unref?.()
+  }
+
+  private async tick(): Promise<void> {
+    this.timer = null
+    if (!this.running || this.processing) {
+      return
+    }
+
+    this.processing = true
+    this.wakeRequested = false
+    let claimed = 0
+    try {
+      claimed = await this.processBatch()
+    } catch (error) {
+      console.error('Translation worker batch failed:', error)
+    } finally {
+      this.processing = false
+    }
+
+    if (!this.running) {
+      return
+    }
+    const busy = claimed >= TRANSLATION_CONFIG.BATCH_SIZE || this.wakeRequested
+    this.schedule(busy ? 0 : TRANSLATION_CONFIG.WORKER_POLL_INTERVAL)
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for MongoAttachmentService
+
+import { MongoAttachmentService } from '../AttachmentService'
+import { AttachmentStorage } from '../interfaces'
+import { getDatabase } from '@/lib/mongodb'
+import { ChatError, NotFoundError, ValidationError } from '@/lib/errors'
+import { ATTACHMENT_CONFIG } from '@/lib/constants'
+
+jest.mock('@/lib/mongodb', () => ({ getDatabase: jest.fn() }))
+
+const mockSharp = {
+  rotate: jest.fn().mockReturnThis(),
+  resize: jest.fn().mockReturnThis(),
+  webp: jest.fn().mockReturnThis(),
+  toBuffer: jest.fn()
+}
+
+jest.mock('sharp', () => ({
+  __esModule: true,
+  default: jest.fn(() => mockSharp)
+}))
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00])
+
+class MemoryStorage implements AttachmentStorage {
+  readonly name = 'memory'
+  readonly objects = new Map<string, { data: Buffer; contentType: string }>()
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    this.objects.set(key, { data, contentType })
+  }
+
+  async get(key: string): Promise<ReadableStream<Uint8Array> | null> {
+    const object = this.objects.get(key)
+    return object ? new Blob([new Uint8Array(object.data)]).stream() : null
+  }
+
+  async delete(key: string): Promise<void> {
+    this.objects.delete(key)
+  }
+}
+
+describe('MongoAttachmentService', () => {
+  let storage: MemoryStorage
+  let service: MongoAttachmentService
+  const docs = new Map<string, Record<string, unknown>>()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    docs.clear()
+    ;(getDatabase as jest.Mock).mockResolvedValue({
+      collection: () => ({
+        insertOne: jest.fn(async (doc: { _id: { toString(): string } }) => {
+          docs.set(doc._id.toString(), doc)
+        }),
+        findOne: jest.fn(async ({ _id }: { _id: { toString(): string } }) => docs.get(_id.toString()) ?? null)
+      })
+    })
+    mockSharp.toBuffer.mockResolvedValue(Buffer.from('thumbnail'))
+    storage = new MemoryStorage()
+    service = new MongoAttachmentService(storage)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should store images with a sniffed type and a thumbnail', async () => {
+    const attachment = await service.upload(
+      { data: PNG, name: 'screens/shot.png', declaredType: 'application/octet-stream', channelId: 'channel-1' },
+      'user-1'
+    )
+
+    expect(attachment).toEqual(expect.objectContaining({
+      type: 'image',
+      name: 'shot.png',
+      mimeType: 'image/png',
+      size: PNG.length,
+      storage: 'memory',
+      storageKey: `channel-1/${attachment.id}`,
+      thumbnailKey: `channel-1/${attachment.id}-thumb`
+    }))
+    expect(storage.objects.get(attachment.storageKey)).toEqual({ data: PNG, contentType: 'image/png' })
+    expect(storage.objects.get(attachment.thumbnailKey!)?.contentType).toBe('image/webp')
+    expect(mockSharp.resize).toHaveBeenCalledWith(
+      ATTACHMENT_CONFIG.THUMBNAIL_SIZE,
+      ATTACHMENT_CONFIG.THUMBNAIL_SIZE,
+      expect.objectContaining({ fit: 'inside', withoutEnlargement: true })
+    )
+  })
+
+  it('should store an image without a thumbnail when one cannot be made', async () => {
+    mockSharp.toBuffer.mockRejectedValue(new Error('Input buffer contains unsupported image format'))
+
+    const attachment = await service.upload({ data: PNG, name: 'shot.png', channelId: 'channel-1' }, 'user-1')
+
+    expect(attachment.type).toBe('image')
+    expect(attachment.thumbnailKey).toBeUndefined()
+    expect(storage.objects.size).toBe(1)
+  })
+
+  it('should treat markup declared as an image as a plain file', async () => {
+    const attachment = await service.upload({
+      data: Buffer.from('<svg onload="alert(1)"></svg>'),
+      name: 'logo.svg',
+      declaredType: 'image/svg+xml',
+      channelId: 'channel-1'
+    }, 'user-1')
+
+    expect(attachment.type).toBe('file')
+    expect(attachment.mimeType).toBe('text/plain')
+    expect(mockSharp.toBuffer).not.toHaveBeenCalled()
+  })
+
+  it('should refuse empty and oversized files', async () => {
+    await expect(service.upload({ data: Buffer.alloc(0), name: 'empty.txt', channelId: 'channel-1' }, 'user-1'))
+      .rejects.toThrow(ValidationError)
+
+    const oversized = service.upload(
+      { data: Buffer.alloc(ATTACHMENT_CONFIG.MAX_FILE_SIZE + 1), name: 'big.bin', channelId: 'channel-1' },
+      'user-1'
+    )
+    await expect(oversized).rejects.toThrow(ChatError)
+    await expect(oversized).rejects.toMatchObject({ statusCode: 413 })
+    expect(storage.objects.size).toBe(0)
+  })
+
+  it('should reference uploads on messages by URL and stream them back', async () => {
+    const stored = await service.upload({ data: PNG, name: 'shot.png', channelId: 'channel-1' }, 'user-1')
+
+    const attachment = await service.resolveMessageAttachment(stored.id, 'user-1', 'channel-1')
+    expect(attachment).toEqual({
+      id: stored.id,
+      type: 'image',
+      url: `/api/attachments/${stored.id}`,
+      thumbnailUrl: `/api/attachments/${stored.id}?thumbnail=1`,
+      name: 'shot.png',
+      mimeType: 'image/png',
+      size: PNG.length
+    })
+
+    const stream = await service.openAttachment(stored)
+    expect(Buffer.from(await new Response(stream).arrayBuffer())).toEqual(PNG)
+  })
+
+  it('should only let the uploader attach an upload in its own channel', async () => {
+    const stored = await service.upload({ data: PNG, name: 'shot.png', channelId: 'channel-1' }, 'user-1')
+
+    await expect(service.resolveMessageAttachment(stored.id, 'user-2', 'channel-1')).rejects.toThrow(NotFoundError)
+    await expect(service.resolveMessageAttachment(stored.id, 'user-1', 'channel-2')).rejects.toThrow(NotFoundError)
+    await expect(service.resolveMessageAttachment('not-an-id', 'user-1', 'channel-1')).rejects.toThrow(NotFoundError)
+  })
+})
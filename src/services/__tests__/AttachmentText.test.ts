@@ -0,0 +1,149 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for MongoAttachmentTextService and the local OCR stand-in
+
+import { ObjectId } from 'mongodb'
+import { MongoAttachmentTextService } from '../AttachmentText'
+import { LocalMetadataOcrProvider } from '../OcrProviders'
+import { getDatabase } from '@/lib/mongodb'
+import { ATTACHMENT_TEXT_CONFIG } from '@/lib/constants'
+import { StoredAttachment } from '@/types'
+
+jest.mock('@/lib/mongodb', () => ({ getDatabase: jest.fn() }))
+
+const mockAttachmentService = {
+  openAttachment: jest.fn()
+}
+
+const mockDetector = {
+  detectPrimaryLanguage: jest.fn()
+}
+
+const mockEngine = {
+  translateContent: jest.fn()
+}
+
+jest.mock('../index', () => ({
+  getAttachmentService: () => mockAttachmentService,
+  getLanguageDetector: () => mockDetector,
+  getTranslationEngine: () => mockEngine
+}))
+
+const mockUpdateOne = jest.fn()
+
+const streamOf = (data: Buffer) => new Blob([new Uint8Array(data)]).stream()
+
+// A PNG with only a signature and a tEXt chunk, which is all the OCR stand-in reads
+const pngWithText = (keyword: string, text: string) => {
+  const data = Buffer.from(`${keyword}\u0000${text}`, 'latin1')
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    length, Buffer.from('tEXt', 'latin1'), data, Buffer.alloc(4),
+    Buffer.from([0, 0, 0, 0]), Buffer.from('IEND', 'latin1'), Buffer.alloc(4)
+  ])
+}
+
+const createAttachment = (overrides: Partial<StoredAttachment> = {}): StoredAttachment => ({
+  id: new ObjectId().toString(),
+  channelId: 'channel-1',
+  uploaderId: 'user-1',
+  type: 'file',
+  name: 'fehler.txt',
+  mimeType: 'text/plain',
+  size: 64,
+  storage: 'local',
+  storageKey: 'channel-1/file',
+  createdAt: new Date(),
+  ...overrides
+})
+
+describe('MongoAttachmentTextService', () => {
+  let service: MongoAttachmentTextService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(getDatabase as jest.Mock).mockResolvedValue({
+      collection: () => ({ updateOne: mockUpdateOne })
+    })
+    mockDetector.detectPrimaryLanguage.mockResolvedValue('de')
+    mockEngine.translateContent.mockResolvedValue('Error while saving')
+    service = new MongoAttachmentTextService()
+  })
+
+  it('should translate the text of a text file and keep the extracted text', async () => {
+    mockAttachmentService.openAttachment.mockResolvedValue(streamOf(Buffer.from('  Fehler beim Speichern\n')))
+    const attachment = createAttachment()
+
+    const translation = await service.translateAttachment(attachment, 'en', 'community-1')
+
+    expect(translation).toEqual({
+      attachmentId: attachment.id,
+      source: 'text',
+      sourceLanguage: 'de',
+      originalText: 'Fehler beim Speichern',
+      targetLanguage: 'en',
+      translatedText: 'Error while saving',
+      truncated: false
+    })
+    expect(mockEngine.translateContent).toHaveBeenCalledWith('Fehler beim Speichern', 'de', 'en', 'community-1')
+    expect(mockUpdateOne).toHaveBeenCalledWith(
+      { _id: new ObjectId(attachment.id) },
+      { $set: { text: { content: 'Fehler beim Speichern', source: 'text', language: 'de', truncated: false } } }
+    )
+  })
+
+  it('should reuse text extracted earlier without reading the file', async () => {
+    const attachment = createAttachment({
+      text: { content: 'Fehler beim Speichern', source: 'pdf', language: 'de', truncated: true }
+    })
+
+    const translation = await service.translateAttachment(attachment, 'en')
+
+    expect(mockAttachmentService.openAttachment).not.toHaveBeenCalled()
+    expect(translation).toEqual(expect.objectContaining({ source: 'pdf', truncated: true }))
+  })
+
+  it('should read images through the OCR provider', async () => {
+    mockAttachmentService.openAttachment.mockResolvedValue(streamOf(pngWithText('Description', 'Verbindung fehlgeschlagen')))
+
+    const text = await service.extractText(createAttachment({ type: 'image', mimeType: 'image/png' }))
+
+    expect(text).toEqual({ content: 'Verbindung fehlgeschlagen', source: 'ocr', language: 'de', truncated: false })
+  })
+
+  it('should keep only the start of long documents', async () => {
+    mockAttachmentService.openAttachment.mockResolvedValue(
+      streamOf(Buffer.from('Wort '.repeat(ATTACHMENT_TEXT_CONFIG.MAX_TEXT_LENGTH)))
+    )
+
+    const text = await service.extractText(createAttachment())
+
+    expect(text?.content).toHaveLength(ATTACHMENT_TEXT_CONFIG.MAX_TEXT_LENGTH)
+    expect(text?.truncated).toBe(true)
+  })
+
+  it('should return null for files without readable text', async () => {
+    expect(await service.extractText(createAttachment({ mimeType: 'application/zip' }))).toBeNull()
+    expect(await service.extractText(createAttachment({
+      mimeType: 'text/plain',
+      size: ATTACHMENT_TEXT_CONFIG.MAX_SOURCE_SIZE + 1
+    }))).toBeNull()
+    expect(mockAttachmentService.openAttachment).not.toHaveBeenCalled()
+
+    mockAttachmentService.openAttachment.mockResolvedValue(streamOf(pngWithText('Software', 'Screenshot tool 2.1')))
+    expect(await service.translateAttachment(createAttachment({ mimeType: 'image/png' }), 'en')).toBeNull()
+    expect(mockEngine.translateContent).not.toHaveBeenCalled()
+  })
+})
+
+describe('LocalMetadataOcrProvider', () => {
+  it('should return nothing for images without descriptive text', async () => {
+    const ocr = new LocalMetadataOcrProvider()
+
+    expect(await ocr.recognize(pngWithText('Software', 'Screenshot tool 2.1'), 'image/png')).toBe('')
+    expect(await ocr.recognize(Buffer.from([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02]), 'image/jpeg')).toBe('')
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for MongoLanguageCorrectionService
+
+import { ObjectId } from 'mongodb'
+import { MongoLanguageCorrectionService } from '../LanguageCorrections'
+import { getDatabase } from '@/lib/mongodb'
+import { AuthorizationError, ValidationError } from '@/lib/errors'
+
+jest.mock('@/lib/mongodb', () => ({ getDatabase: jest.fn() }))
+
+const mockMessageService = {
+  getMessageById: jest.fn(),
+  setSourceLanguage: jest.fn()
+}
+
+const mockCommunityService = {
+  requireChannelPermission: jest.fn()
+}
+
+jest.mock('../index', () => ({
+  getMessageService: () => mockMessageService,
+  getCommunityService: () => mockCommunityService
+}))
+
+const messageId = new ObjectId().toString()
+const channelId = new ObjectId().toString()
+const senderId = new ObjectId().toString()
+const moderatorId = new ObjectId().toString()
+
+const mockCollections = {
+  language_corrections: {
+    insertOne: jest.fn(),
+    find: jest.fn()
+  }
+}
+
+const createMessage = (overrides = {}) => ({
+  id: messageId,
+  channelId,
+  senderId,
+  content: 'Kommer du på mötet i morgon?',
+  sourceLanguage: 'no',
+  status: 'translated',
+  timestamp: new Date(),
+  translations: [{ messageId, targetLanguage: 'en', translatedContent: 'Are you coming?', createdAt: new Date() }],
+  ...overrides
+})
+
+const createCorrectionDoc = (id: string, content: string, correctedLanguage: string, createdAt: Date) => ({
+  _id: new ObjectId(),
+  messageId: new ObjectId(id),
+  channelId,
+  content,
+  previousLanguage: 'en',
+  correctedLanguage,
+  correctedBy: senderId,
+  correctedByRole: 'sender',
+  createdAt
+})
+
+describe('MongoLanguageCorrectionService', () => {
+  let service: MongoLanguageCorrectionService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    ;(getDatabase as jest.Mock).mockResolvedValue({
+      collection: (name: keyof typeof mockCollections) => mockCollections[name]
+    })
+    service = new MongoLanguageCorrectionService()
+    mockMessageService.getMessageById.mockResolvedValue(createMessage())
+    mockMessageService.setSourceLanguage.mockImplementation(async (id: string, language: string) =>
+      createMessage({ sourceLanguage: language, status: 'sent', translations: [] })
+    )
+    mockCommunityService.requireChannelPermission.mockResolvedValue({ communityId: 'community-1', role: 'member' })
+    mockCollections.language_corrections.insertOne.mockResolvedValue({ insertedId: new ObjectId() })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('correctLanguage', () => {
+    it('should let the sender change the language and record the correction', async () => {
+      const { message, correction } = await service.correctLanguage(messageId, 'sv', senderId)
+
+      expect(mockCommunityService.requireChannelPermission).toHaveBeenCalledWith(channelId, senderId, 'view_channels')
+      expect(mockMessageService.setSourceLanguage).toHaveBeenCalledWith(messageId, 'sv', 'Kommer du på mötet i morgon?')
+      expect(message.sourceLanguage).toBe('sv')
+      expect(message.translations).toEqual([])
+      expect(mockCollections.language_corrections.insertOne).toHaveBeenCalledWith(expect.objectContaining({
+        content: 'Kommer du på mötet i morgon?',
+        previousLanguage: 'no',
+        correctedLanguage: 'sv',
+        correctedBy: senderId,
+        correctedByRole: 'sender',
+        communityId: 'community-1'
+      }))
+      expect(correction.correctedByRole).toBe('sender')
+    })
+
+    it('should require moderators to hold moderate_messages for other members\' messages', async () => {
+      const { correction } = await service.correctLanguage(messageId, 'sv', moderatorId)
+
+      expect(mockCommunityService.requireChannelPermission).toHaveBeenCalledWith(channelId, moderatorId, 'moderate_messages')
+      expect(correction.correctedByRole).toBe('moderator')
+    })
+
+    it('should only let the sender correct a direct message', async () => {
+      mockMessageService.getMessageById.mockResolvedValue(createMessage({ conversationId: channelId }))
+
+      await expect(service.correctLanguage(messageId, 'sv', moderatorId)).rejects.toThrow(AuthorizationError)
+
+      const { correction } = await service.correctLanguage(messageId, 'sv', senderId)
+      expect(correction.communityId).toBeUndefined()
+      expect(mockCommunityService.requireChannelPermission).not.toHaveBeenCalled()
+    })
+
+    it('should reject unsupported and unchanged languages', async () => {
+      await expect(service.correctLanguage(messageId, 'xx', senderId)).rejects.toThrow('Unsupported language')
+      await expect(service.correctLanguage(messageId, 'toString', senderId)).rejects.toThrow('Unsupported language')
+      await expect(service.correctLanguage(messageId, 'no', senderId)).rejects.toThrow('already marked')
+      expect(mockMessageService.setSourceLanguage).not.toHaveBeenCalled()
+    })
+
+    it('should not record a correction when the message was edited in the meantime', async () => {
+      mockMessageService.setSourceLanguage.mockResolvedValue(null)
+
+      await expect(service.correctLanguage(messageId, 'sv', senderId)).rejects.toThrow(ValidationError)
+      expect(mockCollections.language_corrections.insertOne).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('exportCorpus', () => {
+    it('should group corrected texts by language using each message\'s latest correction', async () => {
+      const otherMessageId = new ObjectId().toString()
+      const docs = [
+        createCorrectionDoc(messageId, 'Kommer du på mötet i morgon?', 'sv', new Date('2026-03-02')),
+        createCorrectionDoc(otherMessageId, 'Kan du sende filen?', 'no', new Date('2026-03-01')),
+        createCorrectionDoc(messageId, 'Kommer du på mötet i morgon?', 'da', new Date('2026-02-28'))
+      ]
+      const cursor = {
+        sort: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        toArray: jest.fn().mockResolvedValue(docs)
+      }
+      mockCollections.language_corrections.find.mockReturnValue(cursor)
+
+      const corpus = await service.exportCorpus()
+
+      expect(cursor.sort).toHaveBeenCalledWith({ createdAt: -1 })
+      expect(corpus).toEqual({
+        sv: ['Kommer du på mötet i morgon?'],
+        no: ['Kan du sende filen?']
+      })
+    })
+  })
+})
@@ -255,4 +255,121 @@ describe('LanguageDetector', () => {
       expect(result).toBe('en')
     })
   })
-})
\ No newline at end of file
+
+  describe('detection priors', () => {
+    it('should resolve short messages to the sender\'s language', async () => {
+      const result = await languageDetector.detectLanguage('ok', {
+        primaryLanguage: 'es',
+        recentLanguages: ['es', 'fr', 'fr']
+      })
+
+      expect(result.language).toBe('es')
+      expect(result.confidence).toBeLessThan(0.6)
+      expect(result.fallbackSuggestions).toContain('fr')
+    })
+
+    it('should tell close languages apart by the sender\'s language', async () => {
+      expect((await languageDetector.detectLanguage('Vi ses i morgen', { primaryLanguage: 'no' })).language).toBe('no')
+      expect((await languageDetector.detectLanguage('Vi ses i morgen', { primaryLanguage: 'da' })).language).toBe('da')
+    })
+
+    it('should let clear content outweigh the priors', async () => {
+      const result = await languageDetector.detectLanguage(
+        'This is a clear English message with many common English words and phrases.',
+        { primaryLanguage: 'de', recentLanguages: ['de'], channelLanguage: 'de' }
+      )
+
+      expect(result.language).toBe('en')
+      expect(result.fallbackSuggestions).toEqual([])
+    })
+
+    it('should expect romanized text from senders who write a language in another script', async () => {
+      const result = await languageDetector.detectLanguage('ok', { primaryLanguage: 'hi' })
+
+      expect(result).toEqual(expect.objectContaining({ language: 'hi', isRomanized: true }))
+    })
+
+    it('should go by the priors alone when there is no text', async () => {
+      const result = await languageDetector.detectLanguage('```js\nrun()\n```', {
+        primaryLanguage: 'fr',
+        channelLanguage: 'de'
+      })
+
+      expect(result).toEqual({ language: 'fr', confidence: 0, isRomanized: false, fallbackSuggestions: ['de'] })
+    })
+  })
+
+  describe('mixed language segments', () => {
+    it('should split a Spanglish message into runs that join back into the message', async () => {
+      const content = 'Oye, ¿vienes a la fiesta esta noche? I have to finish my report first, sorry!  Luego te llamo.'
+
+      const result = await languageDetector.detectMixedLanguageContent(content)
+
+      expect(result.segments.map(segment => segment.language)).toEqual(['es', 'en', 'es'])
+      expect(result.segments.map(segment => segment.text).join('')).toBe(content)
+      expect(result.segments[1].text).toBe('I have to finish my report first, sorry!  ')
+    })
+
+    it('should keep short fragments with the sentence before them', async () => {
+      const content = 'Ich komme etwas später zum Treffen. OK? Bis gleich.'
+
+      const result = await languageDetector.detectMixedLanguageContent(content)
+
+      expect(result.segments).toHaveLength(1)
+      expect(result.segments[0]).toEqual(expect.objectContaining({ language: 'de', text: content }))
+    })
+
+    it('should not split at dots inside words and links', async () => {
+      const result = await languageDetector.detectMixedLanguageContent('The docs are on example.com and v1.2 is out')
+
+      expect(result.segments).toHaveLength(1)
+    })
+  })
+
+  describe('romanized languages', () => {
+    it('should report each romanized variant as its native language written in Latin letters', async () => {
+      const samples: Array<[string, string]> = [
+        ['ta', 'Naalaikku office-la irukka maatten, aana saayangaalam messages paapen.'],
+        ['ur', 'Mujhe nahi pata k server kyun restart ho rha hy, kal check krte hain.'],
+        ['ar', 'Momken 7ad yeshoof el pull request beta3y lama yekon fady?'],
+        ['ja', 'Ashita wa kaisha ni imasen ga, yoru ni messeeji wo kakunin shimasu.']
+      ]
+
+      for (const [language, text] of samples) {
+        expect(await languageDetector.detectLanguage(text)).toEqual(expect.objectContaining({ language, isRomanized: true }))
+      }
+    })
+
+    it('should read Arabizi digits as letters rather than noise', async () => {
+      const result = await languageDetector.detectLanguage('3ayez a2ool shukran 3ala el sa3a')
+
+      expect(result).toEqual(expect.objectContaining({ language: 'ar', isRomanized: true }))
+      expect(await languageDetector.detectLanguage('See you at 9am on the 2nd floor')).toEqual(
+        expect.objectContaining({ language: 'en', isRomanized: false })
+      )
+    })
+
+    it('should tell romanized text in a known language apart from its native script and from links', async () => {
+      expect(await languageDetector.isRomanizedAs('Kal meeting mein milte hain', 'hi')).toBe(true)
+      expect(await languageDetector.isRomanizedAs('कल मीटिंग में मिलते हैं', 'hi')).toBe(false)
+      expect(await languageDetector.isRomanizedAs('Смотри https://github.com/flowtalk/flowtalk/pull/42 `npm run build`', 'ru')).toBe(false)
+      expect(await languageDetector.isRomanizedAs('Bonjour tout le monde', 'fr')).toBe(false)
+    })
+
+    it('should keep romanized runs apart from native script runs when splitting content', async () => {
+      const { segments } = await languageDetector.detectMixedLanguageContent(
+        'कल मैं ऑफिस में नहीं रहूँगा, शाम को मैसेज देखूँगा. Kal meeting mein milte hain, sab log time pe aana.'
+      )
+
+      expect(segments.map(({ language, isRomanized }) => ({ language, isRomanized }))).toEqual([
+        { language: 'hi', isRomanized: false },
+        { language: 'hi', isRomanized: true }
+      ])
+    })
+
+    it('should tell Urdu from Arabic and Marathi from Hindi in their native scripts', async () => {
+      expect((await languageDetector.detectLanguage('میں کل دفتر میں نہیں ہوں گا، لیکن شام کو پیغامات دیکھ لوں گا۔')).language).toBe('ur')
+      expect((await languageDetector.detectLanguage('उद्या मी ऑफिसमध्ये नसेन, पण संध्याकाळी माझे मेसेज बघेन.')).language).toBe('mr')
+    })
+  })
+})
@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for MongoConversationService
+
+import { ObjectId } from 'mongodb'
+import { MongoConversationService } from '../MongoConversationService'
+import { getDatabase } from '@/lib/mongodb'
+import { AuthorizationError, NotFoundError, ValidationError } from '@/lib/errors'
+
+jest.mock('@/lib/mongodb', () => ({ getDatabase: jest.fn() }))
+
+const conversationId = new ObjectId()
+const [creatorId, aliceId, bobId, carolId] = Array.from({ length: 4 }, () => new ObjectId().toString())
+
+const mockCollections = {
+  conversations: {
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn()
+  }
+}
+
+const createGroupDoc = (participants: string[]) => ({
+  _id: conversationId,
+  participants,
+  isGroup: true,
+  name: 'Team',
+  createdBy: creatorId,
+  createdAt: new Date(),
+  lastMessageAt: new Date()
+})
+
+describe('MongoConversationService', () => {
+  let service: MongoConversationService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    ;(getDatabase as jest.Mock).mockResolvedValue({
+      collection: (name: keyof typeof mockCollections) => mockCollections[name]
+    })
+    service = new MongoConversationService()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('getConversationById', () => {
+    it('should return null for a malformed ID without querying', async () => {
+      await expect(service.getConversationById('not-an-id')).resolves.toBeNull()
+      await expect(service.requireParticipant('not-an-id', creatorId)).rejects.toThrow(NotFoundError)
+      expect(mockCollections.conversations.findOne).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('removeParticipant', () => {
+    it('should let the creator remove others while the group stays above the minimum', async () => {
+      mockCollections.conversations.findOne.mockResolvedValue(createGroupDoc([creatorId, aliceId, bobId, carolId]))
+      mockCollections.conversations.findOneAndUpdate.mockResolvedValue(createGroupDoc([creatorId, aliceId, bobId]))
+
+      const conversation = await service.removeParticipant(conversationId.toString(), creatorId, carolId)
+
+      expect(conversation.participants).toEqual([creatorId, aliceId, bobId])
+      expect(mockCollections.conversations.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ participants: carolId, 'participants.3': { $exists: true } }),
+        expect.any(Array),
+        { returnDocument: 'after' }
+      )
+    })
+
+    it('should not remove others below the minimum group size', async () => {
+      mockCollections.conversations.findOne.mockResolvedValue(createGroupDoc([creatorId, aliceId, bobId]))
+
+      await expect(service.removeParticipant(conversationId.toString(), creatorId, bobId)).rejects.toThrow(ValidationError)
+      expect(mockCollections.conversations.findOneAndUpdate).not.toHaveBeenCalled()
+    })
+
+    it('should only let the creator remove others', async () => {
+      mockCollections.conversations.findOne.mockResolvedValue(createGroupDoc([creatorId, aliceId, bobId, carolId]))
+
+      await expect(service.removeParticipant(conversationId.toString(), aliceId, bobId)).rejects.toThrow(AuthorizationError)
+    })
+
+    it('should let the creator leave and hand the group to the next participant', async () => {
+      mockCollections.conversations.findOne.mockResolvedValue(createGroupDoc([creatorId, aliceId, bobId]))
+      mockCollections.conversations.findOneAndUpdate.mockResolvedValue({ ...createGroupDoc([aliceId, bobId]), createdBy: aliceId })
+
+      const conversation = await service.removeParticipant(conversationId.toString(), creatorId, creatorId)
+
+      expect(conversation.createdBy).toBe(aliceId)
+      const [filter, pipeline] = mockCollections.conversations.findOneAndUpdate.mock.calls[0]
+      expect(Object.keys(filter)).toEqual(['_id', 'participants'])
+      expect(JSON.stringify(pipeline)).toContain('"$arrayElemAt":["$participants",0]')
+    })
+  })
+})
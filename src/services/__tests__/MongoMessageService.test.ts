@@ -0,0 +1,121 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for MongoMessageService
+
+import { ObjectId } from 'mongodb'
+import { MongoMessageService } from '../MongoMessageService'
+import { LanguageDetectorImpl } from '../LanguageDetector'
+import { getDatabase } from '@/lib/mongodb'
+
+jest.mock('@/lib/mongodb', () => ({ getDatabase: jest.fn() }))
+
+const messageId = new ObjectId()
+const channelId = new ObjectId()
+const senderId = new ObjectId()
+const communityId = new ObjectId()
+
+const cursor = (docs: object[]) => ({
+  sort: jest.fn().mockReturnThis(),
+  limit: jest.fn().mockReturnThis(),
+  toArray: jest.fn().mockResolvedValue(docs)
+})
+
+const mockCollections = {
+  messages: {
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    find: jest.fn(() => cursor([])),
+    aggregate: jest.fn(() => cursor([]))
+  },
+  users: {
+    findOne: jest.fn().mockResolvedValue({ _id: senderId, primaryLanguage: 'en' })
+  },
+  communities: {
+    find: jest.fn(() => cursor([{ _id: communityId }]))
+  },
+  channels: {
+    find: jest.fn(() => cursor([{ _id: channelId, communityId, name: 'general' }]))
+  }
+}
+
+// The stored message before the edit; the update is applied on top of it
+const mockStoredMessage = (doc: ReturnType<typeof createMessageDoc>) => {
+  mockCollections.messages.findOne.mockResolvedValue(doc)
+  mockCollections.messages.findOneAndUpdate.mockImplementation(async (_filter, update) => ({ ...doc, ...update.$set }))
+}
+
+const createMessageDoc = (overrides = {}) => ({
+  _id: messageId,
+  channelId,
+  senderId,
+  content: 'Kommer du på mötet i morgon?',
+  sourceLanguage: 'no',
+  status: 'translated',
+  timestamp: new Date(),
+  translations: [],
+  ...overrides
+})
+
+describe('MongoMessageService', () => {
+  let service: MongoMessageService
+  let detectSpy: jest.SpyInstance
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(getDatabase as jest.Mock).mockResolvedValue({
+      collection: (name: keyof typeof mockCollections) => mockCollections[name]
+    })
+    detectSpy = jest.spyOn(LanguageDetectorImpl.prototype, 'detectLanguage')
+      .mockResolvedValue({ language: 'da', confidence: 0.8, isRomanized: false })
+    service = new MongoMessageService()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('editMessage', () => {
+    it('should detect the language of the new content when it was detected before', async () => {
+      mockStoredMessage(createMessageDoc({ languageSource: 'detected' }))
+
+      const message = await service.editMessage(messageId.toString(), senderId.toString(), 'Kommer du til mødet i morgen?')
+
+      expect(detectSpy).toHaveBeenCalled()
+      expect(message.sourceLanguage).toBe('da')
+    })
+
+    it('should keep a language that was corrected or pinned', async () => {
+      for (const languageSource of ['corrected', 'pinned']) {
+        mockStoredMessage(createMessageDoc({ sourceLanguage: 'sv', languageSource }))
+
+        const message = await service.editMessage(messageId.toString(), senderId.toString(), 'Kommer du på mötet i övermorgon?')
+
+        expect(message.sourceLanguage).toBe('sv')
+        expect(message.languageSource).toBe(languageSource)
+      }
+      expect(detectSpy).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('searchUserMessages', () => {
+    it('should show the translation for the language the viewer reads the channel in', async () => {
+      mockCollections.users.findOne.mockResolvedValueOnce({
+        _id: senderId,
+        primaryLanguage: 'en',
+        channelLanguages: { [channelId.toString()]: 'de' }
+      })
+      mockCollections.messages.aggregate.mockReturnValueOnce(cursor([createMessageDoc({
+        translations: [
+          { targetLanguage: 'en', translatedContent: 'Are you coming to the meeting tomorrow?', createdAt: new Date() },
+          { targetLanguage: 'de', translatedContent: 'Kommst du morgen zum Meeting?', createdAt: new Date() }
+        ]
+      })]))
+
+      const [result] = await service.searchUserMessages(senderId.toString(), 'meeting')
+
+      expect(result.matchedLanguage).toBe('de')
+      expect(result.message.translations).toEqual([expect.objectContaining({ targetLanguage: 'de' })])
+    })
+  })
+})
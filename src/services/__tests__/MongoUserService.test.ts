@@ -0,0 +1,61 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for MongoUserService
+
+import { ObjectId } from 'mongodb'
+import { MongoUserService } from '../MongoUserService'
+import { getDatabase } from '@/lib/mongodb'
+
+jest.mock('@/lib/mongodb', () => ({ getDatabase: jest.fn() }))
+
+const userId = new ObjectId().toString()
+const channelId = new ObjectId().toString()
+
+const mockCollections = {
+  users: {
+    findOneAndUpdate: jest.fn()
+  }
+}
+
+describe('MongoUserService', () => {
+  let service: MongoUserService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    ;(getDatabase as jest.Mock).mockResolvedValue({
+      collection: (name: keyof typeof mockCollections) => mockCollections[name]
+    })
+    mockCollections.users.findOneAndUpdate.mockImplementation(async (_filter, update) => ({
+      primaryLanguage: 'en',
+      understoodLanguages: update.$set.understoodLanguages || [],
+      channelLanguages: {}
+    }))
+    service = new MongoUserService()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('setUnderstoodLanguages', () => {
+    it('should store supported languages once each', async () => {
+      const preferences = await service.setUnderstoodLanguages(userId, ['es', 'fr', 'es'])
+
+      expect(preferences.understoodLanguages).toEqual(['es', 'fr'])
+    })
+
+    it('should reject names inherited from Object.prototype', async () => {
+      await expect(service.setUnderstoodLanguages(userId, ['es', 'constructor'])).rejects.toThrow('Unsupported language')
+      expect(mockCollections.users.findOneAndUpdate).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('setChannelLanguage', () => {
+    it('should reject names inherited from Object.prototype', async () => {
+      await expect(service.setChannelLanguage(userId, channelId, 'constructor')).rejects.toThrow('Unsupported language')
+      expect(mockCollections.users.findOneAndUpdate).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,88 @@
+// Unit tests for the n-gram language model and an accuracy report on the evaluation corpus
+
+import { NgramLanguageModel, extractNgrams, trainLanguageProfiles } from '../NgramLanguageModel'
+import { LanguageDetectorImpl } from '../LanguageDetector'
+import { SUPPORTED_LANGUAGES, ROMANIZED_LANGUAGES } from '@/lib/constants'
+import bundledProfiles from '../data/languageProfiles.json'
+import trainingCorpus from '../data/languageTraining.json'
+import evaluationCorpus from '../data/languageEvaluation.json'
+
+describe('NgramLanguageModel', () => {
+  it('should split words into padded 1- to 3-grams and ignore everything but letters', () => {
+    expect(extractNgrams('Hi, 42!')).toEqual(['h', 'i', ' h', 'hi', 'i ', ' hi', 'hi '])
+    expect(extractNgrams('123 :)')).toEqual([])
+  })
+
+  it('should ship the profiles trained from the training corpus', () => {
+    // Rebuild data/languageProfiles.json with trainLanguageProfiles after editing the corpus
+    expect(trainLanguageProfiles(trainingCorpus)).toEqual(bundledProfiles)
+  })
+
+  it('should have a profile for every supported language and its romanized variant', () => {
+    const romanized = Object.keys(ROMANIZED_LANGUAGES).map(language => `${language}-rom`)
+
+    expect(new NgramLanguageModel().getLanguages().sort())
+      .toEqual([...Object.keys(SUPPORTED_LANGUAGES), ...romanized].sort())
+  })
+
+  it('should return probabilities that sum to 1', () => {
+    const probabilities = new NgramLanguageModel().classify('Wie geht es dir heute?')
+    const total = Object.values(probabilities).reduce((a, b) => a + b, 0)
+
+    expect(total).toBeCloseTo(1)
+    expect(Object.entries(probabilities).sort(([, a], [, b]) => b - a)[0][0]).toBe('de')
+  })
+
+  it('should give no language any weight when there are no letters', () => {
+    const probabilities = new NgramLanguageModel().classify('!!! 123')
+    expect(Object.values(probabilities).every(probability => probability === 0)).toBe(true)
+  })
+})
+
+describe('language detection accuracy', () => {
+  it('should identify the evaluation corpus and report accuracy per language', async () => {
+    const detector = new LanguageDetectorImpl()
+    const rows: string[] = []
+    const misses: string[] = []
+    let correct = 0
+    let total = 0
+
+    for (const [label, texts] of Object.entries(evaluationCorpus)) {
+      let languageCorrect = 0
+      for (const text of texts) {
+        const result = await detector.detectLanguage(text)
+        const detected = result.isRomanized ? `${result.language}-rom` : result.language
+        if (detected === label) {
+          languageCorrect++
+        } else {
+          misses.push(`  ${label} -> ${detected}: ${text}`)
+        }
+      }
+
+      const accuracy = languageCorrect / texts.length
+      rows.push(`  ${label.padEnd(6)} ${languageCorrect}/${texts.length}  ${(accuracy * 100).toFixed(0)}%`)
+      correct += languageCorrect
+      total += texts.length
+
+      expect(accuracy).toBeGreaterThanOrEqual(0.6)
+    }
+
+    console.info([
+      `Language detection accuracy: ${correct}/${total} (${(correct / total * 100).toFixed(1)}%)`,
+      ...rows,
+      'Misidentified:',
+      ...misses
+    ].join('\n'))
+
+    expect(correct / total).toBeGreaterThanOrEqual(0.9)
+  })
+
+  it('should not be confident about very short texts', async () => {
+    const detector = new LanguageDetectorImpl()
+
+    const result = await detector.detectLanguage('Hola')
+
+    expect(result.confidence).toBeLessThan(0.6)
+    expect(result.fallbackSuggestions?.length).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,157 @@
+// Unit tests for RealTimeBroadcaster
+
+import { InMemoryRealTimeBroadcaster } from '../RealTimeBroadcaster'
+import { ValidationError } from '@/lib/errors'
+import { Message, RealtimeEvent } from '@/types'
+
+const createMessage = (id: string, channelId: string): Message => ({
+  id,
+  channelId,
+  senderId: 'user-1',
+  content: 'Hello world',
+  sourceLanguage: 'en',
+  status: 'sent',
+  timestamp: new Date()
+})
+
+describe('RealTimeBroadcaster', () => {
+  let broadcaster: InMemoryRealTimeBroadcaster
+
+  beforeEach(() => {
+    broadcaster = new InMemoryRealTimeBroadcaster()
+  })
+
+  describe('channel events', () => {
+    it('should deliver messages only to subscribers of that channel', async () => {
+      const channelA = jest.fn()
+      const channelB = jest.fn()
+      broadcaster.subscribeToChannel('channel-a', channelA)
+      broadcaster.subscribeToChannel('channel-b', channelB)
+
+      const message = createMessage('m1', 'channel-a')
+      await broadcaster.broadcastMessage('channel-a', message)
+
+      expect(channelA).toHaveBeenCalledWith(message)
+      expect(channelB).not.toHaveBeenCalled()
+    })
+
+    it('should deliver every event type to channel event subscribers', async () => {
+      const events: RealtimeEvent[] = []
+      broadcaster.subscribeToChannelEvents('channel-a', (event) => events.push(event))
+
+      await broadcaster.broadcastMessage('channel-a', createMessage('m1', 'channel-a'))
+      await broadcaster.broadcastTranslation('channel-a', {
+        messageId: 'm1',
+        targetLanguage: 'es',
+        translatedContent: 'Hola mundo',
+        createdAt: new Date()
+      })
+      await broadcaster.broadcastReactions('channel-a', 'm1', [{ emoji: '👍', userId: 'user-2' }])
+      await broadcaster.broadcastDeletion('channel-a', ['m1'])
+      await broadcaster.broadcastChannelCleared('channel-a')
+
+      expect(events.map(e => e.type)).toEqual(['message', 'translation', 'reaction', 'deletion', 'cleared'])
+    })
+
+    it('should carry the updated summary in thread events', async () => {
+      const events: RealtimeEvent[] = []
+      broadcaster.subscribeToChannelEvents('channel-a', (event) => events.push(event))
+
+      const lastReplyAt = new Date()
+      await broadcaster.broadcastThreadUpdate('channel-a', 'm1', {
+        replyCount: 2,
+        lastReplyAt,
+        participantIds: ['user-1', 'user-2']
+      })
+
+      expect(events).toEqual([{
+        type: 'thread',
+        channelId: 'channel-a',
+        messageId: 'm1',
+        thread: { replyCount: 2, lastReplyAt, participantIds: ['user-1', 'user-2'] }
+      }])
+    })
+
+    it('should skip deletion events with no message IDs', async () => {
+      const callback = jest.fn()
+      broadcaster.subscribeToChannelEvents('channel-a', callback)
+
+      await broadcaster.broadcastDeletion('channel-a', [])
+
+      expect(callback).not.toHaveBeenCalled()
+    })
+
+    it('should require a channel ID', () => {
+      expect(() => broadcaster.subscribeToChannelEvents('', jest.fn())).toThrow(ValidationError)
+    })
+  })
+
+  describe('translation subscriptions', () => {
+    it('should route translations to message-level subscribers', async () => {
+      const callback = jest.fn()
+      broadcaster.subscribeToTranslations('m1', callback)
+
+      const translation = {
+        messageId: 'm1',
+        targetLanguage: 'fr',
+        translatedContent: 'Bonjour le monde',
+        createdAt: new Date()
+      }
+      await broadcaster.broadcastTranslation('channel-a', translation)
+      await broadcaster.broadcastTranslation('channel-a', { ...translation, messageId: 'm2' })
+
+      expect(callback).toHaveBeenCalledTimes(1)
+      expect(callback).toHaveBeenCalledWith(translation)
+    })
+  })
+
+  describe('user events', () => {
+    it('should deliver events addressed to a user', async () => {
+      const callback = jest.fn()
+      broadcaster.subscribeToUser('user-2', callback)
+
+      const event: RealtimeEvent = {
+        type: 'conversation',
+        conversation: {
+          id: 'c1',
+          participants: ['user-1', 'user-2'],
+          lastMessageAt: new Date(),
+          createdAt: new Date()
+        }
+      }
+      await broadcaster.broadcastToUser('user-2', event)
+      await broadcaster.broadcastToUser('user-3', event)
+
+      expect(callback).toHaveBeenCalledTimes(1)
+      expect(callback).toHaveBeenCalledWith(event)
+    })
+  })
+
+  describe('subscription lifecycle', () => {
+    it('should stop delivering after unsubscribe', async () => {
+      const callback = jest.fn()
+      const subscription = broadcaster.subscribeToChannel('channel-a', callback)
+
+      expect(broadcaster.getListenerCount('channel-a')).toBe(1)
+      subscription.unsubscribe()
+      expect(broadcaster.getListenerCount('channel-a')).toBe(0)
+
+      await broadcaster.broadcastMessage('channel-a', createMessage('m1', 'channel-a'))
+      expect(callback).not.toHaveBeenCalled()
+    })
+
+    it('should keep delivering when one listener throws', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {})
+      const healthy = jest.fn()
+      broadcaster.subscribeToChannel('channel-a', () => {
+        throw new Error('stream closed')
+      })
+      broadcaster.subscribeToChannel('channel-a', healthy)
+
+      await broadcaster.broadcastMessage('channel-a', createMessage('m1', 'channel-a'))
+
+      expect(healthy).toHaveBeenCalled()
+      warnSpy.mockRestore()
+    })
+  })
+})
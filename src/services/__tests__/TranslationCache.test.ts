@@ -1,6 +1,8 @@
 // Unit tests for TranslationCache
 
 import { TranslationCacheImpl } from '../TranslationCache'
+import { TranslationMemoryStore } from '../interfaces'
+import { TranslationMemoryData } from '@/types'
 import { ValidationError } from '@/lib/errors'
 
 // Mock timers for testing TTL and cleanup
@@ -92,6 +94,17 @@ describe('TranslationCache', () => {
       expect(() => cache.generateKey('content', '')).toThrow(ValidationError)
     })
 
+    it('should separate keys by source language and glossary version', () => {
+      const fromEnglish = cache.generateKey('Hello world', 'es', 'en')
+      const fromFrench = cache.generateKey('Hello world', 'es', 'fr')
+      const newGlossary = cache.generateKey('Hello world', 'es', 'en', 'abc123')
+
+      expect(fromEnglish).not.toBe(fromFrench)
+      expect(fromEnglish).not.toBe(newGlossary)
+      expect(fromEnglish).toContain(':en:es')
+      expect(newGlossary.endsWith(':abc123')).toBe(true)
+    })
+
     it('should handle special characters in content', () => {
       const key1 = cache.generateKey('Hello! How are you?', 'es')
       const key2 = cache.generateKey('Hello! How are you?', 'es')
@@ -440,6 +453,107 @@ describe('TranslationCache', () => {
     })
   })
 
+  describe('persistent translation memory', () => {
+    // In-memory stand-in for the Mongo-backed store
+    function createMemoryStore(): TranslationMemoryStore & { entries: Map<string, { value: string; timestamp: number }> } {
+      const entries = new Map<string, { value: string; timestamp: number }>()
+      return {
+        entries,
+        get: jest.fn(async (key: string) => entries.get(key)?.value ?? null),
+        set: jest.fn(async (key: string, value: string, timestamp: number = Date.now()) => {
+          entries.set(key, { value, timestamp })
+        }),
+        delete: jest.fn(async (key: string) => {
+          entries.delete(key)
+        }),
+        clear: jest.fn(async () => entries.clear()),
+        exportData: jest.fn(async () => Object.fromEntries(entries)),
+        importData: jest.fn(async (data: TranslationMemoryData) => {
+          Object.entries(data).forEach(([key, item]) => entries.set(key, item))
+          return Object.keys(data).length
+        })
+      }
+    }
+
+    let store: ReturnType<typeof createMemoryStore>
+    let backed: TranslationCacheImpl
+
+    beforeEach(() => {
+      store = createMemoryStore()
+      backed = new TranslationCacheImpl(100, 1000, 500, store)
+    })
+
+    afterEach(() => {
+      backed.destroy()
+    })
+
+    it('should write translations through to the store', async () => {
+      await backed.set('key1', 'value1')
+
+      expect(store.entries.get('key1')?.value).toBe('value1')
+    })
+
+    it('should fall back to the store on a memory miss', async () => {
+      store.entries.set('key1', { value: 'stored', timestamp: Date.now() })
+
+      expect(await backed.get('key1')).toBe('stored')
+      expect(backed.getStats().hits).toBe(1)
+
+      // Promoted into memory, so the store is not asked again
+      await backed.get('key1')
+      expect(store.get).toHaveBeenCalledTimes(1)
+    })
+
+    it('should keep serving from memory when the store fails', async () => {
+      store.set = jest.fn(() => Promise.reject(new Error('offline')))
+      store.get = jest.fn(() => Promise.reject(new Error('offline')))
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+      await backed.set('key1', 'value1')
+      expect(await backed.get('key1')).toBe('value1')
+      expect(await backed.get('missing')).toBeNull()
+
+      warn.mockRestore()
+    })
+
+    it('should export stored and in-memory entries together', async () => {
+      store.entries.set('stored', { value: 'from store', timestamp: 1 })
+      await backed.set('fresh', 'from memory')
+
+      const data = await backed.exportData()
+
+      expect(data.stored.value).toBe('from store')
+      expect(data.fresh.value).toBe('from memory')
+    })
+
+    it('should import entries into the store and memory', async () => {
+      const imported = await backed.importData({
+        key1: { value: 'value1', timestamp: Date.now() }
+      })
+
+      expect(imported).toBe(1)
+      expect(store.entries.get('key1')?.value).toBe('value1')
+      expect(await backed.has('key1')).toBe(true)
+    })
+
+    it('should leave memory untouched when the store rejects an import', async () => {
+      (store.importData as jest.Mock).mockRejectedValueOnce(new ValidationError('At most 50000 entries can be imported at once'))
+
+      await expect(backed.importData({ key1: { value: 'value1', timestamp: Date.now() } })).rejects.toThrow(ValidationError)
+      expect(await backed.has('key1')).toBe(false)
+    })
+
+    it('should skip malformed import entries', async () => {
+      const imported = await backed.importData({
+        key1: { value: 42 as unknown as string, timestamp: Date.now() },
+        key2: { value: 'value2', timestamp: Date.now() }
+      })
+
+      expect(imported).toBe(1)
+      expect(store.entries.has('key1')).toBe(false)
+    })
+  })
+
   describe('destroy operation', () => {
     it('should clean up resources', () => {
       cache.destroy()
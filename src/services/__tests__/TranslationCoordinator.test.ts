@@ -0,0 +1,96 @@
+// Unit tests for SingleFlightTranslationCoordinator
+
+import { SingleFlightTranslationCoordinator } from '../TranslationCoordinator'
+import { Translation } from '@/types'
+
+const createTranslation = (targetLanguage: string, translatedContent: string): Translation => ({
+  messageId: 'msg-1',
+  targetLanguage,
+  translatedContent,
+  createdAt: new Date()
+})
+
+// Promise the test resolves by hand, to hold a flight open
+function deferred<T>() {
+  let resolve!: (value: T) => void
+  let reject!: (error: unknown) => void
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  return { promise, resolve, reject }
+}
+
+describe('SingleFlightTranslationCoordinator', () => {
+  let coordinator: SingleFlightTranslationCoordinator
+
+  beforeEach(() => {
+    coordinator = new SingleFlightTranslationCoordinator()
+  })
+
+  it('should run one task for concurrent requests of the same pair', async () => {
+    const pending = deferred<Translation>()
+    const task = jest.fn(() => pending.promise)
+
+    const first = coordinator.run('msg-1', 'es', 'Hello', task)
+    const second = coordinator.run('msg-1', 'es', 'Hello', task)
+    expect(coordinator.isInFlight('msg-1', 'es')).toBe(true)
+
+    pending.resolve(createTranslation('es', 'Hola'))
+
+    await expect(first).resolves.toEqual(expect.objectContaining({ translatedContent: 'Hola' }))
+    await expect(second).resolves.toEqual(expect.objectContaining({ translatedContent: 'Hola' }))
+    expect(task).toHaveBeenCalledTimes(1)
+    expect(coordinator.getInFlightCount()).toBe(0)
+  })
+
+  it('should translate different languages independently', async () => {
+    const task = jest.fn((lang: string) => Promise.resolve(createTranslation(lang, lang)))
+
+    await Promise.all([
+      coordinator.run('msg-1', 'es', 'Hello', () => task('es')),
+      coordinator.run('msg-1', 'fr', 'Hello', () => task('fr'))
+    ])
+
+    expect(task).toHaveBeenCalledTimes(2)
+  })
+
+  it('should start a new flight once the previous one settled', async () => {
+    const task = jest.fn(() => Promise.resolve(createTranslation('es', 'Hola')))
+
+    await coordinator.run('msg-1', 'es', 'Hello', task)
+    await coordinator.run('msg-1', 'es', 'Hello', task)
+
+    expect(task).toHaveBeenCalledTimes(2)
+  })
+
+  it('should not serve a flight for previous content after an edit', async () => {
+    const oldFlight = deferred<Translation>()
+    const oldTask = jest.fn(() => oldFlight.promise)
+    const newTask = jest.fn(() => Promise.resolve(createTranslation('es', 'Adiós')))
+
+    const before = coordinator.run('msg-1', 'es', 'Hello', oldTask)
+    const after = coordinator.run('msg-1', 'es', 'Goodbye', newTask)
+
+    await expect(after).resolves.toEqual(expect.objectContaining({ translatedContent: 'Adiós' }))
+    oldFlight.resolve(createTranslation('es', 'Hola'))
+    await before
+
+    expect(oldTask).toHaveBeenCalledTimes(1)
+    expect(newTask).toHaveBeenCalledTimes(1)
+    expect(coordinator.getInFlightCount()).toBe(0)
+  })
+
+  it('should share failures and clear the flight', async () => {
+    const pending = deferred<Translation>()
+    const task = jest.fn(() => pending.promise)
+
+    const first = coordinator.run('msg-1', 'es', 'Hello', task)
+    const second = coordinator.run('msg-1', 'es', 'Hello', task)
+    pending.reject(new Error('Provider unavailable'))
+
+    await expect(first).rejects.toThrow('Provider unavailable')
+    await expect(second).rejects.toThrow('Provider unavailable')
+    expect(coordinator.isInFlight('msg-1', 'es')).toBe(false)
+  })
+})
@@ -0,0 +1,223 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for MongoTranslationCorrectionService
+
+import { ObjectId } from 'mongodb'
+import { MongoTranslationCorrectionService } from '../TranslationCorrections'
+import { getDatabase } from '@/lib/mongodb'
+import { ValidationError } from '@/lib/errors'
+
+jest.mock('@/lib/mongodb', () => ({ getDatabase: jest.fn() }))
+
+const mockMessageService = {
+  getMessageById: jest.fn(),
+  replaceTranslation: jest.fn()
+}
+
+const mockEngine = {
+  replaceCachedTranslation: jest.fn()
+}
+
+const mockBroadcaster = {
+  broadcastTranslation: jest.fn()
+}
+
+jest.mock('../index', () => ({
+  getMessageService: () => mockMessageService,
+  getTranslationEngine: () => mockEngine,
+  getRealTimeBroadcaster: () => mockBroadcaster
+}))
+
+const messageId = new ObjectId().toString()
+const channelId = new ObjectId().toString()
+const correctionId = new ObjectId()
+const readerId = new ObjectId().toString()
+
+const mockCollections = {
+  translation_corrections: {
+    findOneAndUpdate: jest.fn(),
+    findOne: jest.fn(),
+    updateOne: jest.fn()
+  },
+  channels: {
+    findOne: jest.fn()
+  },
+  users: {
+    findOne: jest.fn()
+  }
+}
+
+const createMessage = (overrides = {}) => ({
+  id: messageId,
+  channelId,
+  senderId: 'user-1',
+  content: 'Ship the pull request today',
+  sourceLanguage: 'en',
+  status: 'translated',
+  timestamp: new Date(),
+  translations: [{
+    messageId,
+    targetLanguage: 'es',
+    translatedContent: 'Envía la solicitud hoy',
+    createdAt: new Date()
+  }],
+  ...overrides
+})
+
+const createCorrectionDoc = (overrides = {}) => ({
+  _id: correctionId,
+  messageId: new ObjectId(messageId),
+  channelId,
+  communityId: 'community-1',
+  targetLanguage: 'es',
+  sourceContent: 'Ship the pull request today',
+  originalTranslation: 'Envía la solicitud hoy',
+  proposedTranslation: 'Publica la solicitud de extracción hoy',
+  status: 'approved',
+  submittedBy: readerId,
+  createdAt: new Date(),
+  ...overrides
+})
+
+describe('MongoTranslationCorrectionService', () => {
+  let service: MongoTranslationCorrectionService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    ;(getDatabase as jest.Mock).mockResolvedValue({
+      collection: (name: keyof typeof mockCollections) => mockCollections[name]
+    })
+    service = new MongoTranslationCorrectionService()
+    mockMessageService.getMessageById.mockResolvedValue(createMessage())
+    mockCollections.channels.findOne.mockResolvedValue({ communityId: new ObjectId() })
+    mockCollections.users.findOne.mockResolvedValue({ username: 'reader' })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('submitCorrection', () => {
+    it('should store a pending correction with the flagged translation', async () => {
+      mockCollections.translation_corrections.findOneAndUpdate.mockResolvedValue(
+        createCorrectionDoc({ status: 'pending', reason: 'Term not translated' })
+      )
+
+      const correction = await service.submitCorrection(
+        messageId,
+        'es',
+        '  Publica la solicitud de extracción hoy ',
+        readerId,
+        'Term not translated'
+      )
+
+      const [filter, update, options] = mockCollections.translation_corrections.findOneAndUpdate.mock.calls[0]
+      expect(filter).toEqual(expect.objectContaining({ targetLanguage: 'es', submittedBy: readerId, status: 'pending' }))
+      expect(update.$set).toEqual(expect.objectContaining({
+        originalTranslation: 'Envía la solicitud hoy',
+        proposedTranslation: 'Publica la solicitud de extracción hoy',
+        sourceContent: 'Ship the pull request today',
+        reason: 'Term not translated'
+      }))
+      expect(options).toEqual(expect.objectContaining({ upsert: true }))
+      expect(correction.status).toBe('pending')
+    })
+
+    it('should reject empty and unchanged translations', async () => {
+      await expect(service.submitCorrection(messageId, 'es', '   ', readerId)).rejects.toThrow(ValidationError)
+      await expect(service.submitCorrection(messageId, 'es', 'Envía la solicitud hoy', readerId))
+        .rejects.toThrow('matches the current one')
+      expect(mockCollections.translation_corrections.findOneAndUpdate).not.toHaveBeenCalled()
+    })
+
+    it('should reject languages the message has no translation for', async () => {
+      await expect(service.submitCorrection(messageId, 'fr', 'Publiez la demande', readerId))
+        .rejects.toThrow('no fr translation')
+    })
+
+    it('should reject direct messages', async () => {
+      mockMessageService.getMessageById.mockResolvedValue(createMessage({ conversationId: 'conversation-1' }))
+
+      await expect(service.submitCorrection(messageId, 'es', 'Publica la solicitud', readerId))
+        .rejects.toThrow('only channel messages')
+    })
+  })
+
+  describe('reviewCorrection', () => {
+    it('should replace the translation, the translation memory entry and notify the channel on approval', async () => {
+      mockCollections.translation_corrections.findOneAndUpdate.mockResolvedValue(createCorrectionDoc())
+      mockMessageService.replaceTranslation.mockResolvedValue(true)
+
+      const correction = await service.reviewCorrection('community-1', correctionId.toString(), 'moderator-1', true)
+
+      expect(correction.status).toBe('approved')
+      expect(mockMessageService.replaceTranslation).toHaveBeenCalledWith(
+        messageId,
+        expect.objectContaining({
+          targetLanguage: 'es',
+          translatedContent: 'Publica la solicitud de extracción hoy',
+          correctedBy: 'moderator-1'
+        }),
+        'Ship the pull request today'
+      )
+      expect(mockEngine.replaceCachedTranslation).toHaveBeenCalledWith(
+        'Ship the pull request today',
+        'en',
+        'es',
+        'Publica la solicitud de extracción hoy',
+        'community-1'
+      )
+      expect(mockBroadcaster.broadcastTranslation).toHaveBeenCalledWith(
+        channelId,
+        expect.objectContaining({ translatedContent: 'Publica la solicitud de extracción hoy' })
+      )
+    })
+
+    it('should leave the translation alone when a correction is rejected', async () => {
+      mockCollections.translation_corrections.findOneAndUpdate.mockResolvedValue(createCorrectionDoc({ status: 'rejected' }))
+
+      const correction = await service.reviewCorrection('community-1', correctionId.toString(), 'moderator-1', false)
+
+      expect(correction.status).toBe('rejected')
+      expect(mockMessageService.replaceTranslation).not.toHaveBeenCalled()
+      expect(mockEngine.replaceCachedTranslation).not.toHaveBeenCalled()
+    })
+
+    it('should put the correction back in the queue when the message was edited', async () => {
+      mockCollections.translation_corrections.findOneAndUpdate.mockResolvedValue(createCorrectionDoc())
+      mockMessageService.replaceTranslation.mockResolvedValue(false)
+
+      await expect(service.reviewCorrection('community-1', correctionId.toString(), 'moderator-1', true))
+        .rejects.toThrow(ValidationError)
+
+      expect(mockCollections.translation_corrections.updateOne).toHaveBeenCalledWith(
+        { _id: correctionId },
+        expect.objectContaining({ $set: { status: 'pending' } })
+      )
+      expect(mockEngine.replaceCachedTranslation).not.toHaveBeenCalled()
+    })
+
+    it('should keep the approval when only the translation memory or broadcast fails', async () => {
+      mockCollections.translation_corrections.findOneAndUpdate.mockResolvedValue(createCorrectionDoc())
+      mockMessageService.replaceTranslation.mockResolvedValue(true)
+      mockEngine.replaceCachedTranslation.mockRejectedValueOnce(new Error('Cache unavailable'))
+      mockBroadcaster.broadcastTranslation.mockRejectedValueOnce(new Error('Broadcast failed'))
+
+      const correction = await service.reviewCorrection('community-1', correctionId.toString(), 'moderator-1', true)
+
+      expect(correction.status).toBe('approved')
+      expect(mockBroadcaster.broadcastTranslation).toHaveBeenCalled()
+      expect(mockCollections.translation_corrections.updateOne).not.toHaveBeenCalled()
+    })
+
+    it('should refuse corrections that were already reviewed', async () => {
+      mockCollections.translation_corrections.findOneAndUpdate.mockResolvedValue(null)
+      mockCollections.translation_corrections.findOne.mockResolvedValue({ status: 'approved' })
+
+      await expect(service.reviewCorrection('community-1', correctionId.toString(), 'moderator-1', true))
+        .rejects.toThrow('already approved')
+    })
+  })
+})
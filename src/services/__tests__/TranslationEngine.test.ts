@@ -1,4 +1,10 @@
 import { TranslationEngineImpl } from '../TranslationEngine'
+import { TranslationProviderRegistryImpl } from '../TranslationProviderRegistry'
+import { LocalDictionaryProvider, EchoTranslationProvider } from '../TranslationProviders'
+import { GlossaryManagerImpl } from '../GlossaryManager'
+import { SingleFlightTranslationCoordinator } from '../TranslationCoordinator'
+import { LanguageDetectorImpl } from '../LanguageDetector'
+import { TranslationProvider } from '../interfaces'
 import { TranslationError, ValidationError } from '@/lib/errors'
 import { LanguageCode } from '@/types'
 
@@ -14,18 +20,60 @@ const mockCache = {
 const mockGlossary = {
   getProtectedTerms: jest.fn(() => Promise.resolve(['API', 'GitHub', 'React'])),
   applyGlossaryProtection: jest.fn((content: string) => content.replace(/API/g, '__PROTECTED_0__')),
-  restoreProtectedTerms: jest.fn((content: string) => content.replace(/__PROTECTED_0__/g, 'API'))
+  restoreProtectedTerms: jest.fn((content: string) => content.replace(/__PROTECTED_0__/g, 'API')),
+  getProtectedTermDetails: jest.fn(() => Promise.resolve([
+    { term: 'API', category: 'technical', preserveCase: true },
+    { term: 'GitHub', category: 'brand', preserveCase: true }
+  ])),
+  getGlossaryVersion: jest.fn(() => 'v1'),
+  // Term matching itself needs no database
+  applyGlossaryProtectionDetailed: jest.fn((content: string, terms: ProtectedTermArg, targetLang?: string) =>
+    new GlossaryManagerImpl().applyGlossaryProtectionDetailed(content, terms, targetLang)),
+  findGlossaryViolations: jest.fn((source: string, translation: string, terms: ProtectedTermArg, targetLang: string) =>
+    new GlossaryManagerImpl().findGlossaryViolations(source, translation, terms, targetLang))
+}
+
+type ProtectedTermArg = Parameters<GlossaryManagerImpl['applyGlossaryProtectionDetailed']>[1]
+
+// Provider that records what it was sent and answers with a fixed transform
+function createRecordingProvider(transform: (content: string) => string) {
+  const received: string[] = []
+  const provider: TranslationProvider = {
+    name: 'recording',
+    isAvailable: () => true,
+    translate: async (content: string) => {
+      received.push(content)
+      return transform(content)
+    }
+  }
+  return { provider, received }
 }
 
 const mockMessageService = {
   updateMessageStatus: jest.fn(),
-  getMessageById: jest.fn()
+  getMessageById: jest.fn(),
+  addTranslation: jest.fn()
+}
+
+const mockBroadcaster = {
+  broadcastTranslation: jest.fn()
 }
 
+const coordinator = new SingleFlightTranslationCoordinator()
+const languageDetector = new LanguageDetectorImpl()
+
+// GlossaryManagerImpl is used for term matching only; keep the database driver out of the test
+jest.mock('@/lib/mongodb', () => ({
+  getDatabase: jest.fn()
+}))
+
 jest.mock('../index', () => ({
   getTranslationCache: () => mockCache,
   getGlossaryManager: () => mockGlossary,
-  getMessageService: () => mockMessageService
+  getMessageService: () => mockMessageService,
+  getTranslationCoordinator: () => coordinator,
+  getRealTimeBroadcaster: () => mockBroadcaster,
+  getLanguageDetector: () => languageDetector
 }))
 
 // Mock fetch globally
@@ -279,6 +327,288 @@ describe('TranslationEngine', () => {
     })
   })
 
+  describe('provider chain', () => {
+    it('should translate end to end with offline providers', async () => {
+      const registry = new TranslationProviderRegistryImpl(['local', 'echo'])
+      registry.register(new LocalDictionaryProvider())
+      registry.register(new EchoTranslationProvider())
+      const offlineEngine = new TranslationEngineImpl(registry)
+      mockCache.get.mockResolvedValue(null)
+
+      await expect(offlineEngine.translateContent('Thank you', 'en', 'es')).resolves.toBe('Gracias')
+      // Unknown phrases fall through the dictionary to the echo provider
+      await expect(offlineEngine.translateContent('Ship it', 'en', 'es')).resolves.toBe('[es] Ship it')
+      expect(mockCache.set).toHaveBeenCalledWith('Thank you-es', 'Gracias')
+    })
+  })
+
+  describe('content protection', () => {
+    const createEngine = (provider: TranslationProvider) => {
+      const registry = new TranslationProviderRegistryImpl([provider.name])
+      registry.register(provider)
+      return new TranslationEngineImpl(registry)
+    }
+
+    beforeEach(() => {
+      mockCache.get.mockResolvedValue(null)
+    })
+
+    it('should send only prose to the provider and restore everything else', async () => {
+      const { provider, received } = createRecordingProvider(content => content.replace('Check', 'Revisa'))
+      const content = 'Check the API docs at https://example.com/docs, @sam, then run `npm test`'
+
+      const result = await createEngine(provider).translateContent(content, 'en', 'es')
+
+      expect(result).toBe('Revisa the API docs at https://example.com/docs, @sam, then run `npm test`')
+      expect(received[0]).not.toContain('https://')
+      expect(received[0]).not.toContain('@sam')
+      expect(received[0]).not.toContain('npm test')
+      expect(received[0]).not.toContain('API')
+    })
+
+    it('should keep code blocks intact', async () => {
+      const { provider } = createRecordingProvider(content => `[es] ${content}`)
+      const content = 'Try this:\n```js\nconst api = fetch(url)\n```'
+
+      const result = await createEngine(provider).translateContent(content, 'en', 'es')
+
+      expect(result).toContain('const api = fetch(url)')
+      expect(result.startsWith('[es] Try this:')).toBe(true)
+    })
+
+    it('should fall back to the original when a placeholder is lost', async () => {
+      const { provider } = createRecordingProvider(() => 'Ejecuta las pruebas')
+      const content = 'Run `npm test` please'
+
+      const result = await createEngine(provider).translateContent(content, 'en', 'es')
+
+      expect(result).toBe(content)
+      expect(mockCache.set).not.toHaveBeenCalled()
+    })
+
+    it('should fall back to the original when a placeholder is duplicated', async () => {
+      const { provider } = createRecordingProvider(content => `${content} ${content}`)
+
+      const result = await createEngine(provider).translateContent('Ping @sam now', 'en', 'es')
+
+      expect(result).toBe('Ping @sam now')
+    })
+
+    it('should not call the provider when only protected content remains', async () => {
+      const { provider, received } = createRecordingProvider(content => content)
+
+      const result = await createEngine(provider).translateContent('https://github.com/flowtalk', 'en', 'es')
+
+      expect(result).toBe('https://github.com/flowtalk')
+      expect(received).toHaveLength(0)
+    })
+  })
+
+  describe('single-flight message translation', () => {
+    const message = {
+      id: 'msg-1',
+      channelId: 'channel-1',
+      senderId: 'user-1',
+      content: 'Hello world',
+      sourceLanguage: 'en',
+      status: 'sent' as const,
+      timestamp: new Date()
+    }
+
+    it('should share one provider call between concurrent requests for a pair', async () => {
+      mockCache.get.mockResolvedValue(null)
+      const { provider, received } = createRecordingProvider(content => `[es] ${content}`)
+      const registry = new TranslationProviderRegistryImpl([provider.name])
+      registry.register(provider)
+      const singleFlightEngine = new TranslationEngineImpl(registry)
+
+      const [first, second] = await Promise.all([
+        singleFlightEngine.translateMessageContent(message, 'es'),
+        singleFlightEngine.translateMessageContent(message, 'es')
+      ])
+
+      expect(received).toHaveLength(1)
+      expect(second).toBe(first)
+      expect(first.translatedContent).toBe('[es] Hello world')
+      expect(coordinator.isInFlight('msg-1', 'es')).toBe(false)
+    })
+  })
+
+  describe('mixed language messages', () => {
+    const content = 'Oye, ¿vienes a la fiesta esta noche? I have to finish my report first, sorry!  Luego te llamo.'
+
+    const createEngine = (provider: TranslationProvider) => {
+      const registry = new TranslationProviderRegistryImpl([provider.name])
+      registry.register(provider)
+      return new TranslationEngineImpl(registry)
+    }
+
+    it('should translate each run from its own language and keep runs already in the target language', async () => {
+      mockCache.get.mockResolvedValue(null)
+      const sent: Array<{ text: string; sourceLang: string }> = []
+      const provider: TranslationProvider = {
+        name: 'recording',
+        isAvailable: () => true,
+        translate: async (text: string, sourceLang: LanguageCode) => {
+          sent.push({ text, sourceLang })
+          return `<${text}>`
+        }
+      }
+
+      const result = await createEngine(provider).translateMixedContentDetailed(content, 'es', 'en')
+
+      expect(sent).toEqual([
+        { text: 'Oye, ¿vienes a la fiesta esta noche?', sourceLang: 'es' },
+        { text: 'Luego te llamo.', sourceLang: 'es' }
+      ])
+      expect(result.translatedContent).toBe(
+        '<Oye, ¿vienes a la fiesta esta noche?> I have to finish my report first, sorry!  <Luego te llamo.>'
+      )
+      // The whole message is cached under its own language, so edits and corrections replace it
+      expect(mockCache.generateKey).toHaveBeenCalledWith(content, 'en', 'es', 'v1')
+      expect(mockCache.set).toHaveBeenCalledWith(`${content}-en`, result.translatedContent)
+    })
+
+    it('should serve a cached translation of the whole message, such as an approved correction', async () => {
+      mockCache.get.mockImplementation(async (key: string) => key === `${content}-en` ? 'Corrected translation' : null)
+      const { provider, received } = createRecordingProvider(text => text)
+
+      const result = await createEngine(provider).translateMixedContentDetailed(content, 'es', 'en')
+
+      expect(result.translatedContent).toBe('Corrected translation')
+      expect(received).toHaveLength(0)
+    })
+
+    it('should not split a message whose language was corrected', async () => {
+      mockCache.get.mockResolvedValue(null)
+      const sent: Array<{ text: string; sourceLang: string }> = []
+      const provider: TranslationProvider = {
+        name: 'recording',
+        isAvailable: () => true,
+        translate: async (text: string, sourceLang: LanguageCode) => {
+          sent.push({ text, sourceLang })
+          return `<${text}>`
+        }
+      }
+      const message = {
+        id: 'msg-mixed',
+        channelId: 'channel-1',
+        senderId: 'user-1',
+        content,
+        sourceLanguage: 'es',
+        languageSource: 'corrected' as const,
+        status: 'sent' as const,
+        timestamp: new Date()
+      }
+
+      const translation = await createEngine(provider).translateMessageContent(message, 'en')
+
+      expect(sent).toEqual([{ text: content, sourceLang: 'es' }])
+      expect(translation.translatedContent).toBe(`<${content}>`)
+    })
+
+    it('should tell providers which runs are romanized', async () => {
+      mockCache.get.mockResolvedValue(null)
+      const sent: Array<{ text: string; isRomanized?: boolean }> = []
+      const provider: TranslationProvider = {
+        name: 'recording',
+        isAvailable: () => true,
+        translate: async (text: string, _sourceLang: LanguageCode, _targetLang: LanguageCode, options) => {
+          sent.push({ text, isRomanized: options?.isRomanized })
+          return text
+        }
+      }
+
+      await createEngine(provider).translateMixedContentDetailed(
+        'कल मैं ऑफिस में नहीं रहूँगा, शाम को मैसेज देखूँगा. Kal meeting mein milte hain, sab log time pe aana.',
+        'hi',
+        'en'
+      )
+
+      expect(sent).toEqual([
+        { text: 'कल मैं ऑफिस में नहीं रहूँगा, शाम को मैसेज देखूँगा.', isRomanized: false },
+        { text: 'Kal meeting mein milte hain, sab log time pe aana.', isRomanized: true }
+      ])
+    })
+
+    it('should translate single-language messages as a whole', async () => {
+      mockCache.get.mockResolvedValue(null)
+      const { provider, received } = createRecordingProvider(text => `[de] ${text}`)
+
+      const result = await createEngine(provider).translateMixedContentDetailed('Good morning. See you at the meeting later.', 'en', 'de')
+
+      expect(received).toEqual(['Good morning. See you at the meeting later.'])
+      expect(result.translatedContent).toBe('[de] Good morning. See you at the meeting later.')
+    })
+  })
+
+  describe('forced glossary translations', () => {
+    const pullRequest = {
+      term: 'pull request',
+      category: 'technical' as const,
+      preserveCase: false,
+      translations: { es: 'solicitud de extracción' }
+    }
+
+    const createEngine = (provider: TranslationProvider) => {
+      const registry = new TranslationProviderRegistryImpl([provider.name])
+      registry.register(provider)
+      return new TranslationEngineImpl(registry)
+    }
+
+    beforeEach(() => {
+      mockCache.get.mockResolvedValue(null)
+      mockGlossary.getProtectedTermDetails.mockResolvedValueOnce([pullRequest])
+    })
+
+    it('should replace the term with its approved translation', async () => {
+      const { provider, received } = createRecordingProvider(content => content.replace('Please review the', 'Revisa la'))
+
+      const result = await createEngine(provider).translateContentDetailed('Please review the pull request', 'en', 'es')
+
+      expect(result.translatedContent).toBe('Revisa la solicitud de extracción')
+      expect(result.glossaryViolations).toEqual([])
+      expect(received[0]).not.toContain('pull request')
+    })
+
+    it('should case the translation like the source by default', async () => {
+      const { provider } = createRecordingProvider(content => content.replace(' is ready', ' está lista'))
+
+      const result = await createEngine(provider).translateContent('Pull request is ready', 'en', 'es')
+
+      expect(result).toBe('Solicitud de extracción está lista')
+    })
+
+    it('should keep the term as written for languages without a mapping', async () => {
+      const { provider } = createRecordingProvider(content => content.replace('Open a', 'Ouvrez une'))
+
+      const result = await createEngine(provider).translateContent('Open a pull request', 'en', 'fr')
+
+      expect(result).toBe('Ouvrez une pull request')
+    })
+
+    it('should keep the original and flag the term when the provider drops its placeholder', async () => {
+      const { provider } = createRecordingProvider(() => 'Revisa el cambio')
+
+      const result = await createEngine(provider).translateContentDetailed('Review the pull request', 'en', 'es')
+
+      expect(result.translatedContent).toBe('Review the pull request')
+      expect(result.glossaryViolations).toEqual(['pull request'])
+    })
+
+    it('should flag a cached translation that does not use the approved term', async () => {
+      // e.g. a reviewed correction stored in translation memory
+      mockCache.get.mockResolvedValue('Revisa la petición de cambios')
+      const { provider, received } = createRecordingProvider(content => content)
+
+      const result = await createEngine(provider).translateContentDetailed('Review the pull request', 'en', 'es')
+
+      expect(received).toEqual([])
+      expect(result.translatedContent).toBe('Revisa la petición de cambios')
+      expect(result.glossaryViolations).toEqual(['pull request'])
+    })
+  })
+
   // Property-based tests
   describe('Property-based tests', () => {
     it('should preserve content length relationship', async () => {
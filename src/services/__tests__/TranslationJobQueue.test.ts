@@ -0,0 +1,149 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for MongoTranslationJobQueue
+
+import { ObjectId } from 'mongodb'
+import { MongoTranslationJobQueue } from '../TranslationJobQueue'
+import { getDatabase } from '@/lib/mongodb'
+import { TRANSLATION_CONFIG } from '@/lib/constants'
+import { getMessageService } from '../index'
+
+jest.mock('@/lib/mongodb', () => ({ getDatabase: jest.fn() }))
+
+jest.mock('../index', () => ({
+  getMessageService: jest.fn()
+}))
+
+const messageId = new ObjectId().toString()
+
+// Applies bulk updateOne operations to an in-memory collection, enough to exercise enqueue
+function createJobCollection(jobs: Record<string, unknown>[]) {
+  const matches = (job: Record<string, unknown>, filter: Record<string, unknown>) =>
+    Object.entries(filter).every(([field, condition]) => {
+      const value = job[field]
+      if (condition instanceof ObjectId) {
+        return condition.equals(value as ObjectId)
+      }
+      if (condition && typeof condition === 'object' && '$lte' in condition) {
+        return (value as Date) <= (condition as { $lte: Date }).$lte
+      }
+      return value === condition
+    })
+
+  return {
+    jobs,
+    bulkWrite: jest.fn(async (operations: { updateOne: { filter: Record<string, unknown>; update: Record<string, Record<string, unknown>>; upsert?: boolean } }[]) => {
+      let upsertedCount = 0
+      let modifiedCount = 0
+      for (const { updateOne: { filter, update, upsert } } of operations) {
+        const job = jobs.find(candidate => matches(candidate, filter))
+        if (job) {
+          if (update.$set) {
+            Object.assign(job, update.$set)
+            modifiedCount++
+          }
+          Object.keys(update.$unset || {}).forEach(field => delete job[field])
+        } else if (upsert) {
+          jobs.push({ ...update.$setOnInsert })
+          upsertedCount++
+        }
+      }
+      return { upsertedCount, modifiedCount }
+    })
+  }
+}
+
+describe('MongoTranslationJobQueue', () => {
+  let queue: MongoTranslationJobQueue
+  const messages = { updateOne: jest.fn() }
+
+  const useJobs = (jobs: Record<string, unknown>[]) => {
+    const collection = createJobCollection(jobs)
+    ;(getDatabase as jest.Mock).mockResolvedValue({
+      collection: (name: string) => name === 'messages' ? messages : collection
+    })
+    return collection
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    queue = new MongoTranslationJobQueue()
+  })
+
+  describe('enqueue', () => {
+    it('should create jobs only for pairs that have none', async () => {
+      const { jobs } = useJobs([
+        { messageId: new ObjectId(messageId), targetLanguage: 'es', status: 'completed', updatedAt: new Date(0) }
+      ])
+
+      expect(await queue.enqueue(messageId, 'channel-1', ['es', 'fr'])).toBe(1)
+      expect(jobs.map(job => [job.targetLanguage, job.status])).toEqual([['es', 'completed'], ['fr', 'pending']])
+      expect(messages.updateOne).toHaveBeenCalled()
+    })
+
+    it('should restart jobs that ran out of retries once the cooldown has passed', async () => {
+      const failedAt = new Date(Date.now() - TRANSLATION_CONFIG.FAILED_JOB_COOLDOWN - 1000)
+      const { jobs } = useJobs([
+        { messageId: new ObjectId(messageId), targetLanguage: 'es', status: 'failed', attempts: 3, lastError: 'Provider down', updatedAt: failedAt, finishedAt: failedAt },
+        { messageId: new ObjectId(messageId), targetLanguage: 'fr', status: 'failed', attempts: 3, lastError: 'Provider down', updatedAt: new Date() }
+      ])
+
+      expect(await queue.enqueue(messageId, 'channel-1', ['es', 'fr'])).toBe(1)
+      expect(jobs[0]).toEqual(expect.objectContaining({ status: 'pending', attempts: 0 }))
+      expect(jobs[0].lastError).toBeUndefined()
+      expect(jobs[0].finishedAt).toBeUndefined()
+      expect(jobs[1]).toEqual(expect.objectContaining({ status: 'failed', attempts: 3 }))
+    })
+  })
+
+  describe('finishing jobs', () => {
+    const job = {
+      id: new ObjectId().toString(),
+      messageId,
+      channelId: 'channel-1',
+      targetLanguage: 'es',
+      status: 'processing' as const,
+      attempts: 0,
+      runAt: new Date(),
+      lockedBy: 'worker-1',
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }
+    const jobs = { updateOne: jest.fn() }
+
+    beforeEach(() => {
+      ;(getDatabase as jest.Mock).mockResolvedValue({ collection: () => jobs })
+    })
+
+    it('should mark completed jobs as finished so they expire', async () => {
+      ;(getMessageService as jest.Mock).mockReturnValue({ addTranslation: jest.fn().mockResolvedValue(true) })
+
+      await queue.complete(job, { messageId, targetLanguage: 'es', translatedContent: 'Hola', createdAt: new Date() }, 'Hello')
+
+      expect(jobs.updateOne).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ $set: expect.objectContaining({ status: 'completed', finishedAt: expect.any(Date) }) })
+      )
+    })
+
+    it('should mark cancelled jobs as finished so they expire', async () => {
+      await queue.cancel(job, 'Message deleted')
+
+      expect(jobs.updateOne).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ $set: expect.objectContaining({ status: 'failed', finishedAt: expect.any(Date) }) })
+      )
+    })
+
+    it('should only mark failed attempts as finished once retries run out', async () => {
+      await queue.fail(job, new Error('Provider down'))
+      await queue.fail({ ...job, attempts: TRANSLATION_CONFIG.MAX_RETRIES - 1 }, new Error('Provider down'))
+
+      const [retry, exhausted] = jobs.updateOne.mock.calls.map(([, update]) => update.$set)
+      expect(retry.status).toBe('pending')
+      expect(retry).not.toHaveProperty('finishedAt')
+      expect(exhausted).toEqual(expect.objectContaining({ status: 'failed', finishedAt: expect.any(Date) }))
+    })
+  })
+})
@@ -0,0 +1,69 @@
+/**
+ * @jest-environment node
+ */
+// Unit tests for MongoTranslationMemoryStore
+
+import { MongoTranslationMemoryStore } from '../TranslationMemory'
+import { getDatabase } from '@/lib/mongodb'
+import { CACHE_CONFIG } from '@/lib/constants'
+
+jest.mock('@/lib/mongodb', () => ({ getDatabase: jest.fn() }))
+
+const cursor = {
+  sort: jest.fn().mockReturnThis(),
+  limit: jest.fn().mockReturnThis(),
+  toArray: jest.fn()
+}
+
+const mockCollection = {
+  findOneAndUpdate: jest.fn(),
+  find: jest.fn(() => cursor),
+  bulkWrite: jest.fn()
+}
+
+describe('MongoTranslationMemoryStore', () => {
+  let store: MongoTranslationMemoryStore
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(getDatabase as jest.Mock).mockResolvedValue({ collection: () => mockCollection })
+    store = new MongoTranslationMemoryStore()
+  })
+
+  it('should mark entries as used when they are read', async () => {
+    mockCollection.findOneAndUpdate.mockResolvedValue({ value: 'Hola' })
+
+    await expect(store.get('key-1')).resolves.toBe('Hola')
+    expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
+      { key: 'key-1' },
+      { $set: { updatedAt: expect.any(Date) } },
+      { projection: { value: 1 } }
+    )
+  })
+
+  it('should export the most recently used entries up to the export limit', async () => {
+    const updatedAt = new Date('2026-05-01T10:00:00Z')
+    cursor.toArray.mockResolvedValue([{ key: 'key-1', value: 'Hola', updatedAt }])
+
+    const data = await store.exportData()
+
+    expect(cursor.sort).toHaveBeenCalledWith({ updatedAt: -1 })
+    expect(cursor.limit).toHaveBeenCalledWith(CACHE_CONFIG.MAX_EXPORT_ENTRIES)
+    expect(data).toEqual({ 'key-1': { value: 'Hola', timestamp: updatedAt.getTime() } })
+  })
+
+  it('should skip imported entries that are already past the TTL', async () => {
+    const now = Date.now()
+
+    const written = await store.importData({
+      fresh: { value: 'Hola', timestamp: now },
+      stale: { value: 'Adiós', timestamp: now - CACHE_CONFIG.DEFAULT_TTL - 1000 }
+    })
+
+    expect(written).toBe(1)
+    expect(mockCollection.bulkWrite).toHaveBeenCalledWith(
+      [expect.objectContaining({ updateOne: expect.objectContaining({ filter: { key: 'fresh' } }) })],
+      { ordered: false }
+    )
+  })
+})
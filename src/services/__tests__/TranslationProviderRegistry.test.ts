@@ -0,0 +1,135 @@
+// Unit tests for TranslationProviderRegistry and the offline providers
+
+import { TranslationProviderRegistryImpl } from '../TranslationProviderRegistry'
+import { LocalDictionaryProvider, EchoTranslationProvider } from '../TranslationProviders'
+import { TranslationProvider } from '../interfaces'
+import { TranslationError, ValidationError } from '@/lib/errors'
+
+const createProvider = (
+  name: string,
+  translate: TranslationProvider['translate'],
+  available = true
+): TranslationProvider => ({
+  name,
+  isAvailable: () => available,
+  translate: jest.fn(translate)
+})
+
+describe('TranslationProviderRegistry', () => {
+  let registry: TranslationProviderRegistryImpl
+
+  beforeEach(() => {
+    registry = new TranslationProviderRegistryImpl(['primary', 'secondary'])
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('translate', () => {
+    it('should use the first provider in the chain', async () => {
+      const primary = createProvider('primary', async () => 'Hola')
+      const secondary = createProvider('secondary', async () => 'unused')
+      registry.register(primary)
+      registry.register(secondary)
+
+      const result = await registry.translate('Hello', 'en', 'es')
+
+      expect(result).toEqual({ translatedText: 'Hola', provider: 'primary' })
+      expect(secondary.translate).not.toHaveBeenCalled()
+    })
+
+    it('should fall through to the next provider on failure', async () => {
+      registry.register(createProvider('primary', async () => {
+        throw new TranslationError('Service down')
+      }))
+      registry.register(createProvider('secondary', async () => 'Bonjour'))
+
+      const result = await registry.translate('Hello', 'en', 'fr')
+
+      expect(result).toEqual({ translatedText: 'Bonjour', provider: 'secondary' })
+    })
+
+    it('should skip unavailable providers', async () => {
+      const primary = createProvider('primary', async () => 'unused', false)
+      registry.register(primary)
+      registry.register(createProvider('secondary', async () => 'Hallo'))
+
+      const result = await registry.translate('Hello', 'en', 'de')
+
+      expect(result.provider).toBe('secondary')
+      expect(primary.translate).not.toHaveBeenCalled()
+    })
+
+    it('should honour an explicit chain', async () => {
+      registry.register(createProvider('primary', async () => 'from primary'))
+      registry.register(createProvider('secondary', async () => 'from secondary'))
+
+      const result = await registry.translate('Hello', 'en', 'es', ['secondary', 'primary'])
+
+      expect(result.provider).toBe('secondary')
+    })
+
+    it('should throw when every provider fails', async () => {
+      registry.register(createProvider('primary', async () => {
+        throw new Error('Network error')
+      }))
+      registry.register(createProvider('secondary', async () => 'unused', false))
+
+      await expect(registry.translate('Hello', 'en', 'es')).rejects.toThrow(TranslationError)
+    })
+  })
+
+  describe('chains', () => {
+    it('should reject chains naming unknown providers', () => {
+      registry.register(new EchoTranslationProvider())
+
+      expect(() => registry.validateChain(['echo', 'missing'])).toThrow(ValidationError)
+      expect(() => registry.validateChain([])).toThrow(ValidationError)
+    })
+
+    it('should drop duplicate providers from a chain', () => {
+      registry.register(new EchoTranslationProvider())
+      registry.register(new LocalDictionaryProvider())
+
+      expect(registry.validateChain(['local', 'echo', 'local'])).toEqual(['local', 'echo'])
+    })
+
+    it('should replace the default chain', async () => {
+      registry.register(new EchoTranslationProvider())
+      registry.setDefaultChain(['echo'])
+
+      expect(registry.getDefaultChain()).toEqual(['echo'])
+      await expect(registry.translate('Hello', 'en', 'es')).resolves.toEqual({
+        translatedText: '[es] Hello',
+        provider: 'echo'
+      })
+    })
+  })
+})
+
+describe('LocalDictionaryProvider', () => {
+  const provider = new LocalDictionaryProvider()
+
+  it('should translate known phrases from English', async () => {
+    await expect(provider.translate('Thank you!', 'en', 'es')).resolves.toBe('Gracias!')
+    await expect(provider.translate('good morning', 'en', 'de')).resolves.toBe('guten Morgen')
+  })
+
+  it('should pivot through English between other languages', async () => {
+    await expect(provider.translate('gracias', 'es', 'fr')).resolves.toBe('merci')
+    await expect(provider.translate('Merci', 'fr', 'en')).resolves.toBe('Thank you')
+  })
+
+  it('should reject phrases it does not know', async () => {
+    await expect(provider.translate('The build is broken again', 'en', 'es'))
+      .rejects.toThrow(TranslationError)
+  })
+
+  it('should accept a custom dictionary', async () => {
+    const custom = new LocalDictionaryProvider({ es: { 'pull request': 'solicitud de extracción' } })
+
+    await expect(custom.translate('pull request', 'en', 'es')).resolves.toBe('solicitud de extracción')
+  })
+})
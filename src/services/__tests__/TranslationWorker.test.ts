@@ -0,0 +1,183 @@
+// Unit tests for TranslationWorker
+
+import { TranslationWorker } from '../TranslationWorker'
+import { TranslationJob } from '@/types'
+
+const mockQueue = {
+  claimBatch: jest.fn(),
+  complete: jest.fn(),
+  fail: jest.fn(),
+  cancel: jest.fn(),
+  refreshMessageStatus: jest.fn()
+}
+
+const mockEngine = {
+  translateMessageContent: jest.fn()
+}
+
+const mockMessageService = {
+  getMessageById: jest.fn()
+}
+
+const mockBroadcaster = {
+  broadcastTranslation: jest.fn(),
+  broadcastMessageStatus: jest.fn()
+}
+
+jest.mock('../index', () => ({
+  getTranslationJobQueue: () => mockQueue,
+  getTranslationEngine: () => mockEngine,
+  getMessageService: () => mockMessageService,
+  getRealTimeBroadcaster: () => mockBroadcaster
+}))
+
+const createJob = (id: string, messageId: string, targetLanguage: string): TranslationJob => ({
+  id,
+  messageId,
+  channelId: 'channel-1',
+  communityId: 'community-1',
+  targetLanguage,
+  status: 'processing',
+  attempts: 0,
+  runAt: new Date(),
+  lockedBy: 'worker-test',
+  lockedAt: new Date(),
+  createdAt: new Date(),
+  updatedAt: new Date()
+})
+
+describe('TranslationWorker', () => {
+  let worker: TranslationWorker
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    worker = new TranslationWorker()
+    mockMessageService.getMessageById.mockResolvedValue({
+      id: 'msg-1',
+      channelId: 'channel-1',
+      senderId: 'user-1',
+      content: 'Hello world',
+      sourceLanguage: 'en',
+      status: 'translating',
+      timestamp: new Date()
+    })
+    mockQueue.refreshMessageStatus.mockResolvedValue('translated')
+    mockQueue.complete.mockResolvedValue(true)
+  })
+
+  afterEach(() => {
+    worker.stop()
+  })
+
+  it('should return zero when no jobs are runnable', async () => {
+    mockQueue.claimBatch.mockResolvedValue([])
+
+    await expect(worker.processBatch()).resolves.toBe(0)
+    expect(mockEngine.translateMessageContent).not.toHaveBeenCalled()
+  })
+
+  it('should translate, store and broadcast each claimed job', async () => {
+    mockQueue.claimBatch.mockResolvedValue([
+      createJob('job-1', 'msg-1', 'es'),
+      createJob('job-2', 'msg-1', 'fr')
+    ])
+    mockEngine.translateMessageContent.mockImplementation(
+      (message: { id: string }, target: string) => Promise.resolve({
+        messageId: message.id,
+        targetLanguage: target,
+        translatedContent: `translated-${target}`,
+        createdAt: new Date()
+      })
+    )
+
+    await expect(worker.processBatch()).resolves.toBe(2)
+
+    expect(mockEngine.translateMessageContent).toHaveBeenCalledWith(
+      expect.objectContaining({ content: 'Hello world' }),
+      'es',
+      'community-1'
+    )
+    expect(mockQueue.complete).toHaveBeenCalledTimes(2)
+    expect(mockBroadcaster.broadcastTranslation).toHaveBeenCalledWith(
+      'channel-1',
+      expect.objectContaining({ messageId: 'msg-1', targetLanguage: 'fr', translatedContent: 'translated-fr' })
+    )
+    // Status is settled once per message, not once per job
+    expect(mockQueue.refreshMessageStatus).toHaveBeenCalledTimes(1)
+    expect(mockBroadcaster.broadcastMessageStatus).toHaveBeenCalledWith('channel-1', 'msg-1', 'translated')
+  })
+
+  it('should not broadcast translations dropped because the message was edited', async () => {
+    mockQueue.claimBatch.mockResolvedValue([createJob('job-1', 'msg-1', 'es')])
+    mockEngine.translateMessageContent.mockResolvedValue({
+      messageId: 'msg-1',
+      targetLanguage: 'es',
+      translatedContent: 'Hola mundo',
+      createdAt: new Date()
+    })
+    mockQueue.complete.mockResolvedValue(false)
+
+    await worker.processBatch()
+
+    expect(mockQueue.complete).toHaveBeenCalledWith(expect.anything(), expect.anything(), 'Hello world')
+    expect(mockBroadcaster.broadcastTranslation).not.toHaveBeenCalled()
+  })
+
+  it('should store glossary violations with the translation', async () => {
+    mockQueue.claimBatch.mockResolvedValue([createJob('job-1', 'msg-1', 'es')])
+    mockEngine.translateMessageContent.mockResolvedValue({
+      messageId: 'msg-1',
+      targetLanguage: 'es',
+      translatedContent: 'Revisa el cambio',
+      createdAt: new Date(),
+      glossaryViolations: ['pull request']
+    })
+
+    await worker.processBatch()
+
+    expect(mockQueue.complete).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ glossaryViolations: ['pull request'] }),
+      'Hello world'
+    )
+  })
+
+  it('should record failures for retry instead of throwing', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {})
+    const job = createJob('job-1', 'msg-1', 'es')
+    const error = new Error('Provider unavailable')
+    mockQueue.claimBatch.mockResolvedValue([job])
+    mockEngine.translateMessageContent.mockRejectedValue(error)
+    mockQueue.refreshMessageStatus.mockResolvedValue('translating')
+
+    await expect(worker.processBatch()).resolves.toBe(1)
+
+    expect(mockQueue.fail).toHaveBeenCalledWith(job, error)
+    expect(mockQueue.complete).not.toHaveBeenCalled()
+    expect(mockBroadcaster.broadcastMessageStatus).toHaveBeenCalledWith('channel-1', 'msg-1', 'translating')
+    warnSpy.mockRestore()
+  })
+
+  it('should cancel jobs whose message was deleted', async () => {
+    const job = createJob('job-1', 'msg-gone', 'es')
+    mockQueue.claimBatch.mockResolvedValue([job])
+    mockMessageService.getMessageById.mockResolvedValue(null)
+
+    await worker.processBatch()
+
+    expect(mockQueue.cancel).toHaveBeenCalledWith(job, 'Message no longer exists')
+    expect(mockEngine.translateMessageContent).not.toHaveBeenCalled()
+  })
+
+  it('should only start one polling loop', () => {
+    mockQueue.claimBatch.mockResolvedValue([])
+
+    worker.start()
+    worker.start()
+    worker.wake()
+
+    expect(worker.isRunning()).toBe(true)
+    worker.stop()
+    expect(worker.isRunning()).toBe(false)
+  })
+})
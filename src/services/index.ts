@@ -4,20 +4,39 @@
 import { MongoMessageService } from './MongoMessageService'
 import { MongoCommunityService } from './MongoCommunityService'
 import { MongoConversationService } from './MongoConversationService'
+import { MongoUserService } from './MongoUserService'
 import { LanguageDetectorImpl } from './LanguageDetector'
 import { GlossaryManagerImpl } from './GlossaryManager'
 import { TranslationCacheImpl } from './TranslationCache'
+import { MongoTranslationMemoryStore } from './TranslationMemory'
 import { TranslationEngineImpl } from './TranslationEngine'
-import { MessageService, LanguageDetector, GlossaryManager, TranslationCache, TranslationEngine } from './interfaces'
+import { createDefaultProviderRegistry } from './TranslationProviderRegistry'
+import { InMemoryRealTimeBroadcaster } from './RealTimeBroadcaster'
+import { MongoTranslationJobQueue } from './TranslationJobQueue'
+import { MongoTranslationCorrectionService } from './TranslationCorrections'
+import { MongoLanguageCorrectionService } from './LanguageCorrections'
+import { MongoAttachmentService } from './AttachmentService'
+import { MongoAttachmentTextService } from './AttachmentText'
+import { TranslationWorker } from './TranslationWorker'
+import { SingleFlightTranslationCoordinator } from './TranslationCoordinator'
+import { MessageService, UserService, LanguageDetector, GlossaryManager, TranslationCache, TranslationEngine, TranslationProviderRegistry, TranslationJobQueue, TranslationCorrectionService, LanguageCorrectionService, AttachmentService, AttachmentTextService, TranslationCoordinator, RealTimeBroadcaster } from './interfaces'
+import { CACHE_CONFIG } from '@/lib/constants'
 
 // Service instances (singletons)
 let messageServiceInstance: MessageService | null = null
 let communityServiceInstance: MongoCommunityService | null = null
 let conversationServiceInstance: MongoConversationService | null = null
+let userServiceInstance: UserService | null = null
 let languageDetectorInstance: LanguageDetector | null = null
 let glossaryManagerInstance: GlossaryManager | null = null
 let translationCacheInstance: TranslationCache | null = null
 let translationEngineInstance: TranslationEngine | null = null
+let translationProviderRegistryInstance: TranslationProviderRegistry | null = null
+let translationJobQueueInstance: TranslationJobQueue | null = null
+let translationCorrectionServiceInstance: TranslationCorrectionService | null = null
+let languageCorrectionServiceInstance: LanguageCorrectionService | null = null
+let attachmentServiceInstance: AttachmentService | null = null
+let attachmentTextServiceInstance: AttachmentTextService | null = null
 
 /**
  * Get MessageService instance (singleton) - MongoDB-based
@@ -49,6 +68,16 @@ export function getConversationService(): MongoConversationService {
   return conversationServiceInstance
 }
 
+/**
+ * Get UserService instance (singleton) - MongoDB-based
+ */
+export function getUserService(): UserService {
+  if (!userServiceInstance) {
+    userServiceInstance = new MongoUserService()
+  }
+  return userServiceInstance
+}
+
 /**
  * Get LanguageDetector instance (singleton)
  */
@@ -74,21 +103,122 @@ export function getGlossaryManager(): GlossaryManager {
  */
 export function getTranslationCache(): TranslationCache {
   if (!translationCacheInstance) {
-    translationCacheInstance = new TranslationCacheImpl()
+    translationCacheInstance = new TranslationCacheImpl(
+      CACHE_CONFIG.MAX_ENTRIES,
+      CACHE_CONFIG.DEFAULT_TTL,
+      CACHE_CONFIG.CLEANUP_INTERVAL,
+      new MongoTranslationMemoryStore()
+    )
   }
   return translationCacheInstance
 }
 
+/**
+ * Get TranslationProviderRegistry instance (singleton) with the built-in providers
+ */
+export function getTranslationProviderRegistry(): TranslationProviderRegistry {
+  if (!translationProviderRegistryInstance) {
+    translationProviderRegistryInstance = createDefaultProviderRegistry()
+  }
+  return translationProviderRegistryInstance
+}
+
 /**
  * Get TranslationEngine instance (singleton)
  */
 export function getTranslationEngine(): TranslationEngine {
   if (!translationEngineInstance) {
-    translationEngineInstance = new TranslationEngineImpl()
+    translationEngineInstance = new TranslationEngineImpl(getTranslationProviderRegistry())
   }
   return translationEngineInstance
 }
 
+/**
+ * Get TranslationJobQueue instance (singleton) - MongoDB-based
+ */
+export function getTranslationJobQueue(): TranslationJobQueue {
+  if (!translationJobQueueInstance) {
+    translationJobQueueInstance = new MongoTranslationJobQueue()
+  }
+  return translationJobQueueInstance
+}
+
+/**
+ * Get TranslationCorrectionService instance (singleton) - MongoDB-based
+ */
+export function getTranslationCorrectionService(): TranslationCorrectionService {
+  if (!translationCorrectionServiceInstance) {
+    translationCorrectionServiceInstance = new MongoTranslationCorrectionService()
+  }
+  return translationCorrectionServiceInstance
+}
+
+/**
+ * Get LanguageCorrectionService instance (singleton) - MongoDB-based
+ */
+export function getLanguageCorrectionService(): LanguageCorrectionService {
+  if (!languageCorrectionServiceInstance) {
+    languageCorrectionServiceInstance = new MongoLanguageCorrectionService()
+  }
+  return languageCorrectionServiceInstance
+}
+
+/**
+ * Get AttachmentService instance (singleton) - MongoDB metadata, storage backend from ATTACHMENT_STORAGE
+ */
+export function getAttachmentService(): AttachmentService {
+  if (!attachmentServiceInstance) {
+    attachmentServiceInstance = new MongoAttachmentService()
+  }
+  return attachmentServiceInstance
+}
+
+/**
+ * Get AttachmentTextService instance (singleton) - text extraction and translation for attachments
+ */
+export function getAttachmentTextService(): AttachmentTextService {
+  if (!attachmentTextServiceInstance) {
+    attachmentTextServiceInstance = new MongoAttachmentTextService()
+  }
+  return attachmentTextServiceInstance
+}
+
+/**
+ * Get TranslationWorker instance (singleton)
+ * Kept on globalThis so route bundles never start a second polling loop
+ */
+export function getTranslationWorker(): TranslationWorker {
+  const globalRef = globalThis as typeof globalThis & { __flowtalkTranslationWorker?: TranslationWorker }
+  if (!globalRef.__flowtalkTranslationWorker) {
+    globalRef.__flowtalkTranslationWorker = new TranslationWorker()
+  }
+  return globalRef.__flowtalkTranslationWorker
+}
+
+/**
+ * Get TranslationCoordinator instance (singleton)
+ * Kept on globalThis so every route handler and the worker share one set of in-flight translations
+ */
+export function getTranslationCoordinator(): TranslationCoordinator {
+  const globalRef = globalThis as typeof globalThis & { __flowtalkTranslationCoordinator?: TranslationCoordinator }
+  if (!globalRef.__flowtalkTranslationCoordinator) {
+    globalRef.__flowtalkTranslationCoordinator = new SingleFlightTranslationCoordinator()
+  }
+  return globalRef.__flowtalkTranslationCoordinator
+}
+
+/**
+ * Get RealTimeBroadcaster instance (singleton)
+ * Kept on globalThis so every route handler in the process shares one listener registry
+ */
+export function getRealTimeBroadcaster(): RealTimeBroadcaster {
+  const globalRef = globalThis as typeof globalThis & { __flowtalkBroadcaster?: RealTimeBroadcaster }
+  if (!globalRef.__flowtalkBroadcaster) {
+    globalRef.__flowtalkBroadcaster = new InMemoryRealTimeBroadcaster()
+  }
+  return globalRef.__flowtalkBroadcaster
+}
+
 // Export service interfaces
 export * from './interfaces'
 
@@ -101,6 +231,20 @@ export { MongoConversationService } from './MongoConversationService'
 export { LanguageDetectorImpl } from './LanguageDetector'
 export { GlossaryManagerImpl } from './GlossaryManager'
 export { TranslationCacheImpl } from './TranslationCache'
+export { MongoTranslationMemoryStore } from './TranslationMemory'
 export { TranslationEngineImpl } from './TranslationEngine'
+export { TranslationProviderRegistryImpl, createDefaultProviderRegistry } from './TranslationProviderRegistry'
+export { LingoDotDevProvider, GeminiTranslationProvider, LocalDictionaryProvider, EchoTranslationProvider } from './TranslationProviders'
+export { InMemoryRealTimeBroadcaster } from './RealTimeBroadcaster'
+export { MongoTranslationJobQueue } from './TranslationJobQueue'
+export { MongoTranslationCorrectionService } from './TranslationCorrections'
+export { MongoLanguageCorrectionService } from './LanguageCorrections'
+export { MongoAttachmentService } from './AttachmentService'
+export { LocalFileAttachmentStorage, S3AttachmentStorage, createAttachmentStorage } from './AttachmentStorage'
+export { MongoAttachmentTextService } from './AttachmentText'
+export { LocalMetadataOcrProvider } from './OcrProviders'
+export { TranslationWorker } from './TranslationWorker'
+export { SingleFlightTranslationCoordinator } from './TranslationCoordinator'
+export { getChannelTranslationTargets, getMessageTranslationTargets, queueTranslations, queueMessageTranslations, requeueMessageTranslations, queueViewerTranslations } from './TranslationDispatch'
 export { MongoUserService } from './MongoUserService'
 
@@ -1,6 +1,6 @@
 // Service interfaces for the multilingual chat system
 
-import { Message, Translation, GlossaryTerm, UserProfile, LanguageCode, Subscription } from '@/types'
+import { Message, MessagePage, ThreadSummary, MessagePageOptions, MessageSearchOptions, MessageSearchResult, MessageStatus, Translation, TranslationJob, TranslationCorrection, TranslationCorrectionStatus, LanguageCorrection, StoredAttachment, AttachmentText, AttachmentTextTranslation, TranslationMemoryData, ContentTranslation, ProviderTranslationResult, GlossaryTerm, GlossaryTermCategory, GlossaryCaseRule, GlossaryTermSettings, GlossaryImportEntry, GlossaryImportPreview, UserProfile, LanguagePreferences, LanguageCode, Subscription, RealtimeEvent } from '@/types'
 
 export interface MessageService {
   createMessage(
@@ -8,14 +8,30 @@ export interface MessageService {
     content: string,
     senderId: string,
     detectedLanguage?: string,
-    attachment?: any
+    attachment?: any,
+    parentMessageId?: string
+  ): Promise<Message>
+  createConversationMessage(
+    conversationId: string,
+    content: string,
+    senderId: string,
+    attachment?: Message['attachment'],
+    detectedLanguage?: string
   ): Promise<Message>
   getChannelMessages(channelId: string, limit?: number): Promise<Message[]>
+  editMessage(messageId: string, editorId: string, content: string): Promise<Message>
   updateMessageStatus(messageId: string, status: Message['status']): Promise<void>
+  addTranslation(messageId: string, translation: Translation, sourceContent: string): Promise<boolean>
+  replaceTranslation(messageId: string, translation: Translation, sourceContent: string): Promise<boolean>
+  setSourceLanguage(messageId: string, language: LanguageCode, sourceContent: string): Promise<Message | null>
   getMessageById(messageId: string): Promise<Message | null>
   deleteMessage(messageId: string): Promise<void>
   getChannelMessagesForUser(channelId: string, userId: string, limit?: number): Promise<Message[]>
+  getChannelMessagePage(channelId: string, userId: string, options?: MessagePageOptions): Promise<MessagePage>
+  getThreadMessagePage(parentMessageId: string, userId: string, options?: MessagePageOptions): Promise<MessagePage>
+  getConversationMessagePage(conversationId: string, userId: string, options?: MessagePageOptions): Promise<MessagePage>
   searchMessages(channelId: string, query: string, limit?: number): Promise<Message[]>
+  searchUserMessages(userId: string, query: string, options?: MessageSearchOptions): Promise<MessageSearchResult[]>
   getChannelMessageCount(channelId: string): Promise<number>
 }
 
@@ -23,20 +39,85 @@ export interface MessageService {
 
 export interface UserService {
   getUserProfile(userId: string): Promise<UserProfile | null>
+  getLanguagePreferences(userId: string): Promise<LanguagePreferences>
+  setUnderstoodLanguages(userId: string, languages: LanguageCode[]): Promise<LanguagePreferences>
+  setChannelLanguage(userId: string, channelId: string, language: LanguageCode | null): Promise<LanguagePreferences>
 }
 
 export interface TranslationEngine {
   translateMessage(messageId: string, targetLanguages: LanguageCode[]): Promise<void>
-  getCachedTranslation(content: string, targetLang: LanguageCode): Promise<string | null>
-  cacheTranslation(content: string, targetLang: LanguageCode, translation: string): Promise<void>
-  translateText(content: string, sourceLang: LanguageCode, targetLang: LanguageCode): Promise<string>
+  getCachedTranslation(content: string, targetLang: LanguageCode, sourceLang?: LanguageCode, glossaryVersion?: string): Promise<string | null>
+  cacheTranslation(content: string, targetLang: LanguageCode, translation: string, sourceLang?: LanguageCode, glossaryVersion?: string): Promise<void>
+  translateText(content: string, sourceLang: LanguageCode, targetLang: LanguageCode, communityId?: string, options?: TranslationOptions): Promise<string>
+  translateContent(content: string, sourceLang: LanguageCode, targetLang: LanguageCode, communityId?: string): Promise<string>
+  translateContentDetailed(content: string, sourceLang: LanguageCode, targetLang: LanguageCode, communityId?: string, options?: TranslationOptions): Promise<ContentTranslation>
+  translateMixedContentDetailed(content: string, sourceLang: LanguageCode, targetLang: LanguageCode, communityId?: string, options?: TranslationOptions): Promise<ContentTranslation>
+  translateMessageContent(message: Message, targetLang: LanguageCode, communityId?: string): Promise<Translation>
+  invalidateCachedTranslations(content: string, targetLanguages: LanguageCode[], sourceLang?: LanguageCode, communityId?: string): Promise<void>
+  replaceCachedTranslation(content: string, sourceLang: LanguageCode, targetLang: LanguageCode, translation: string, communityId?: string): Promise<void>
+}
+
+/**
+ * What is known about the source text beyond its language
+ */
+export interface TranslationOptions {
+  isRomanized?: boolean // Written in Latin letters rather than the language's own script (Hinglish, Arabizi...)
+}
+
+export interface TranslationProvider {
+  readonly name: string
+  isAvailable(): boolean
+  translate(content: string, sourceLang: LanguageCode, targetLang: LanguageCode, options?: TranslationOptions): Promise<string>
+}
+
+export interface TranslationProviderRegistry {
+  register(provider: TranslationProvider): void
+  unregister(name: string): void
+  getProvider(name: string): TranslationProvider | undefined
+  getProviderNames(): string[]
+  getDefaultChain(): string[]
+  setDefaultChain(chain: string[]): void
+  validateChain(chain: string[]): string[]
+  translate(content: string, sourceLang: LanguageCode, targetLang: LanguageCode, chain?: string[], options?: TranslationOptions): Promise<ProviderTranslationResult>
+}
+
+export interface TranslationCoordinator {
+  run(messageId: string, targetLang: LanguageCode, sourceContent: string, task: () => Promise<Translation>): Promise<Translation>
+  isInFlight(messageId: string, targetLang: LanguageCode): boolean
+  getInFlightCount(): number
+}
+
+export interface TranslationCorrectionService {
+  submitCorrection(messageId: string, targetLang: LanguageCode, proposedTranslation: string, userId: string, reason?: string): Promise<TranslationCorrection>
+  getCommunityCorrections(communityId: string, status?: TranslationCorrectionStatus): Promise<TranslationCorrection[]>
+  getMessageCorrections(messageId: string): Promise<TranslationCorrection[]>
+  reviewCorrection(communityId: string, correctionId: string, reviewerId: string, approve: boolean, note?: string): Promise<TranslationCorrection>
+}
+
+export interface LanguageCorrectionService {
+  correctLanguage(messageId: string, language: LanguageCode, userId: string): Promise<{ message: Message; correction: LanguageCorrection }>
+  getCorrections(since?: Date): Promise<LanguageCorrection[]>
+  exportCorpus(since?: Date): Promise<Record<string, string[]>>
+}
+
+export interface TranslationJobQueue {
+  enqueue(messageId: string, channelId: string, targetLanguages: LanguageCode[], communityId?: string): Promise<number>
+  claimBatch(workerId: string, size?: number): Promise<TranslationJob[]>
+  complete(job: TranslationJob, translation: Translation, sourceContent: string): Promise<boolean>
+  fail(job: TranslationJob, error: unknown): Promise<void>
+  cancel(job: TranslationJob, reason: string): Promise<void>
+  refreshMessageStatus(messageId: string): Promise<MessageStatus>
+  getJobsForMessage(messageId: string): Promise<TranslationJob[]>
+  clearJobsForMessage(messageId: string): Promise<number>
 }
 
 export interface ProtectedTerm {
   term: string
-  category: 'technical' | 'brand' | 'proper_noun' | 'custom'
+  category: GlossaryTermCategory
   romanizedVariants?: string[]
   preserveCase: boolean
+  caseRule?: GlossaryCaseRule
+  translations?: Record<LanguageCode, string>
 }
 
 export interface ProtectedContent {
@@ -45,30 +126,46 @@ export interface ProtectedContent {
     original: string
     placeholder: string
     position: number
+    replacement?: string // Approved translation to restore instead of the original
   }>
 }
 
 export interface GlossaryManager {
   getProtectedTerms(communityId: string): Promise<string[]>
-  addProtectedTerm(communityId: string, term: string): Promise<void>
+  getProtectedTermDetails(communityId: string): Promise<ProtectedTerm[]>
+  getGlossaryVersion(terms: ProtectedTerm[]): string
+  addProtectedTerm(communityId: string, term: string, createdBy?: string): Promise<void>
+  updateTermSettings(communityId: string, term: string, settings: GlossaryTermSettings, updatedBy?: string): Promise<GlossaryTerm>
   applyGlossaryProtection(content: string, terms: string[]): string
   getDefaultGlossary(): string[]
   removeProtectedTerm(communityId: string, term: string): Promise<void>
   getCustomTerms(communityId: string): Promise<GlossaryTerm[]>
   restoreProtectedTerms(content: string, originalContent: string): string
   isTermProtected(communityId: string, term: string): Promise<boolean>
-  addMultipleTerms(communityId: string, terms: string[]): Promise<void>
+  addMultipleTerms(communityId: string, terms: string[], createdBy?: string): Promise<void>
+  previewImport(communityId: string, entries: GlossaryImportEntry[]): Promise<GlossaryImportPreview>
+  importTerms(communityId: string, entries: GlossaryImportEntry[], createdBy?: string): Promise<GlossaryImportPreview>
   searchTerms(communityId: string, query: string): Promise<string[]>
   identifyProperNouns(content: string): Promise<string[]>
   expandDefaultGlossary(): Promise<ProtectedTerm[]>
-  applyGlossaryProtectionDetailed(content: string, terms: ProtectedTerm[]): Promise<ProtectedContent>
+  applyGlossaryProtectionDetailed(content: string, terms: ProtectedTerm[], targetLang?: LanguageCode): Promise<ProtectedContent>
+  findGlossaryViolations(sourceContent: string, translatedContent: string, terms: ProtectedTerm[], targetLang: LanguageCode): string[]
 }
 
 export interface RealTimeBroadcaster {
   broadcastMessage(channelId: string, message: Message): Promise<void>
-  broadcastTranslation(messageId: string, translation: Translation): Promise<void>
+  broadcastMessageEdit(channelId: string, message: Message): Promise<void>
+  broadcastThreadUpdate(channelId: string, parentMessageId: string, thread: ThreadSummary): Promise<void>
+  broadcastTranslation(channelId: string, translation: Translation): Promise<void>
+  broadcastReactions(channelId: string, messageId: string, reactions: NonNullable<Message['reactions']>): Promise<void>
+  broadcastDeletion(channelId: string, messageIds: string[]): Promise<void>
+  broadcastChannelCleared(channelId: string): Promise<void>
+  broadcastMessageStatus(channelId: string, messageId: string, status: MessageStatus): Promise<void>
+  broadcastToUser(userId: string, event: RealtimeEvent): Promise<void>
   subscribeToChannel(channelId: string, callback: (message: Message) => void): Subscription
   subscribeToTranslations(messageId: string, callback: (translation: Translation) => void): Subscription
+  subscribeToChannelEvents(channelId: string, callback: (event: RealtimeEvent) => void): Subscription
+  subscribeToUser(userId: string, callback: (event: RealtimeEvent) => void): Subscription
 }
 
 export interface LanguageDetectionResult {
@@ -78,28 +175,39 @@ export interface LanguageDetectionResult {
   fallbackSuggestions?: LanguageCode[]
 }
 
+/**
+ * What is known about the language a message is likely in, apart from its content
+ */
+export interface LanguageDetectionPriors {
+  primaryLanguage?: LanguageCode // The sender's language, in this channel if they set one
+  recentLanguages?: LanguageCode[] // Languages of the sender's latest messages
+  channelLanguage?: LanguageCode // The language most recent messages in the channel are in
+}
+
 export interface MixedLanguageResult {
   primaryLanguage: LanguageCode
   segments: Array<{
-    text: string
+    text: string // Joined in order, the segments give back the content
     language: LanguageCode
+    isRomanized: boolean
     isProtected: boolean
   }>
 }
 
 export interface LanguageDetector {
-  detectLanguage(content: string): Promise<LanguageDetectionResult>
+  detectLanguage(content: string, priors?: LanguageDetectionPriors): Promise<LanguageDetectionResult>
   detectPrimaryLanguage(content: string): Promise<LanguageCode>
   isLanguageDetectionUncertain(content: string): Promise<boolean>
   isRomanizedNativeLanguage(content: string): Promise<boolean>
+  isRomanizedAs(content: string, language: LanguageCode): Promise<boolean>
   getConfidenceScore(content: string, language: LanguageCode): Promise<number>
-  detectMixedLanguageContent(content: string): Promise<MixedLanguageResult>
+  detectMixedLanguageContent(content: string, priors?: LanguageDetectionPriors): Promise<MixedLanguageResult>
 }
 
 export interface TranslationCache {
   get(key: string): Promise<string | null>
   set(key: string, value: string): Promise<void>
-  generateKey(content: string, targetLang: LanguageCode): string
+  generateKey(content: string, targetLang: LanguageCode, sourceLang?: LanguageCode, glossaryVersion?: string): string
   clear(): Promise<void>
   cleanup(): Promise<number>
   has(key: string): Promise<boolean>
@@ -108,4 +216,52 @@ export interface TranslationCache {
   delete(key: string): Promise<boolean>
   getKeys(pattern?: RegExp): string[]
   getStats(): { hits: number; misses: number; entries: number; memoryUsage: number; hitRate: number }
-}
\ No newline at end of file
+  exportData(): Promise<TranslationMemoryData>
+  importData(data: TranslationMemoryData): Promise<number>
+}
+
+// Persistent backend behind the in-memory translation cache
+export interface TranslationMemoryStore {
+  get(key: string): Promise<string | null>
+  set(key: string, value: string, timestamp?: number): Promise<void>
+  delete(key: string): Promise<void>
+  clear(): Promise<void>
+  exportData(): Promise<TranslationMemoryData>
+  importData(data: TranslationMemoryData): Promise<number>
+}
+
+// Where uploaded attachment bytes live; keys are chosen by the AttachmentService
+export interface AttachmentStorage {
+  readonly name: string
+  put(key: string, data: Buffer, contentType: string): Promise<void>
+  get(key: string): Promise<ReadableStream<Uint8Array> | null>
+  delete(key: string): Promise<void>
+}
+
+export interface AttachmentUpload {
+  data: Buffer
+  name: string
+  declaredType?: string // Type reported by the browser; the stored type is sniffed from the data
+  channelId: string // Channel, or the conversation for direct messages
+  conversationId?: string
+}
+
+export interface AttachmentService {
+  upload(upload: AttachmentUpload, uploaderId: string): Promise<StoredAttachment>
+  getAttachment(attachmentId: string): Promise<StoredAttachment | null>
+  openAttachment(attachment: StoredAttachment, thumbnail?: boolean): Promise<ReadableStream<Uint8Array> | null>
+  resolveMessageAttachment(attachmentId: string, uploaderId: string, channelId: string): Promise<NonNullable<Message['attachment']>>
+}
+
+// Reads the text shown in an image
+export interface OcrProvider {
+  readonly name: string
+  isAvailable(): boolean
+  recognize(image: Buffer, mimeType: string): Promise<string>
+}
+
+export interface AttachmentTextService {
+  isEnabled(): boolean
+  extractText(attachment: StoredAttachment): Promise<AttachmentText | null>
+  translateAttachment(attachment: StoredAttachment, targetLang: LanguageCode, communityId?: string): Promise<AttachmentTextTranslation | null>
+}
@@ -6,18 +6,27 @@ export interface Message {
   senderId: string
   content: string
   sourceLanguage: string
+  languageSource?: MessageLanguageSource // Missing on messages sent before it was stored, which were detected
+  isRomanized?: boolean // Written in Latin letters though its language has its own script (Hinglish, Arabizi...)
   status: 'sent' | 'translating' | 'translated' | 'failed'
   timestamp: Date
   translations?: Translation[]
   attachment?: {
+    id?: string // Stored upload; messages sent before uploads existed carry a data URL instead
     type: 'image' | 'file'
     url: string
+    thumbnailUrl?: string
     name: string
     mimeType: string
     size: number
   }
   senderName?: string
   senderAvatar?: string
+  editedAt?: Date
+  editHistory?: MessageEdit[]
+  parentMessageId?: string
+  thread?: ThreadSummary
+  conversationId?: string // Set on direct messages; channelId then holds the same ID
   reactions?: {
     emoji: string
     userId: string
@@ -26,11 +35,38 @@ export interface Message {
   }[]
 }
 
+// How a message's language was set: detected from its text, chosen by the sender when
+// sending, or corrected afterwards by the sender or a moderator
+export type MessageLanguageSource = 'detected' | 'pinned' | 'corrected'
+
+// Reply statistics kept on the parent message of a thread
+export interface ThreadSummary {
+  replyCount: number
+  lastReplyAt?: Date
+  participantIds?: string[]
+}
+
+// Previous version of a message, kept when the sender edits it
+export interface MessageEdit {
+  content: string
+  sourceLanguage: string
+  editedAt: Date
+}
+
 export interface Translation {
   messageId: string
   targetLanguage: string
   translatedContent: string
   createdAt: Date
+  glossaryViolations?: string[] // Glossary terms whose approved translation is missing
+  correctedAt?: Date // Set when a moderator approved a human correction
+  correctedBy?: string
+}
+
+// Translated content together with the glossary terms it failed to apply
+export interface ContentTranslation {
+  translatedContent: string
+  glossaryViolations: string[]
 }
 
 export interface UserProfile {
@@ -42,20 +78,78 @@ export interface UserProfile {
   createdAt: Date
 }
 
+// Which languages a user reads: messages in an understood language are never translated,
+// and a channel (or conversation) can override the language translations are shown in
+export interface LanguagePreferences {
+  primaryLanguage: LanguageCode
+  understoodLanguages: LanguageCode[]
+  channelLanguages: Record<string, LanguageCode>
+}
+
+export type GlossaryTermCategory = 'technical' | 'brand' | 'proper_noun' | 'custom'
+
+// How a forced translation is cased where it replaces a term
+export type GlossaryCaseRule = 'match_source' | 'as_written' | 'lowercase' | 'uppercase'
+
 export interface GlossaryTerm {
   id: string
   communityId: string
   term: string
+  category: GlossaryTermCategory
+  preserveCase: boolean // Only match the term as written
+  caseRule?: GlossaryCaseRule
+  translations?: Record<LanguageCode, string> // Approved translation per target language
   createdBy: string
   createdAt: Date
 }
 
+// Editable settings of a glossary term
+export type GlossaryTermSettings = Partial<Pick<GlossaryTerm, 'category' | 'preserveCase' | 'caseRule' | 'translations'>>
+
+export type GlossaryFileFormat = 'csv' | 'tbx'
+
+// A term read from an imported glossary file
+export interface GlossaryImportEntry extends GlossaryTermSettings {
+  term: string
+}
+
+// What a glossary import adds, skips and overrides
+export interface GlossaryImportPreview {
+  added: string[]
+  duplicates: string[] // Already in the community glossary or repeated in the file; skipped
+  conflicts: string[] // Same as a built-in term; imported, overriding the built-in handling
+  invalid: Array<{ term: string; error: string }>
+}
+
 export interface Community {
   id: string
   name: string
   description?: string
   createdBy: string
   createdAt: Date
+  translationProviders?: string[]
+  role?: CommunityRole // The requesting user's role, when listed for a member
+}
+
+// Ordered from most to least privileged
+export type CommunityRole = 'owner' | 'admin' | 'moderator' | 'member'
+
+export type CommunityPermission =
+  | 'view_channels'
+  | 'send_messages'
+  | 'moderate_messages'
+  | 'manage_glossary'
+  | 'manage_channels'
+  | 'manage_translation'
+  | 'manage_roles'
+  | 'manage_community'
+
+export interface CommunityMember {
+  userId: string
+  username: string
+  avatar?: string
+  primaryLanguage?: string
+  role: CommunityRole
 }
 
 export interface Channel {
@@ -66,6 +160,154 @@ export interface Channel {
   createdAt: Date
 }
 
+// Cursor-based window over a channel's history
+export interface MessagePageOptions {
+  before?: string // Message ID or ISO timestamp; returns messages older than this
+  after?: string // Message ID or ISO timestamp; returns messages newer than this
+  limit?: number
+  viewerLanguage?: LanguageCode // Translation language to keep; defaults to the user's primary language
+}
+
+export interface MessagePage {
+  messages: Message[] // Chronological (oldest first) within the window
+  hasMoreBefore: boolean
+  hasMoreAfter: boolean
+  oldestCursor: string | null
+  newestCursor: string | null
+}
+
+// Filters for searching messages across every channel a user can access
+export interface MessageSearchOptions {
+  channelId?: string
+  senderId?: string
+  from?: Date
+  to?: Date
+  language?: LanguageCode // Original language of the message
+  hasAttachment?: boolean
+  limit?: number
+}
+
+// Piece of a search snippet; highlighted pieces matched a query term
+export interface SnippetSegment {
+  text: string
+  highlight: boolean
+}
+
+export interface MessageSearchResult {
+  message: Message
+  channelName: string
+  communityId: string
+  score: number
+  matchedLanguage: LanguageCode // Language of the text the snippet was taken from
+  snippet: SnippetSegment[]
+}
+
+// Result of running content through a translation provider chain
+export interface ProviderTranslationResult {
+  translatedText: string
+  provider: string
+}
+
+export type TranslationCorrectionStatus = 'pending' | 'approved' | 'rejected'
+
+// A reader's proposed fix for a translation, kept after review as the correction history
+export interface TranslationCorrection {
+  id: string
+  messageId: string
+  channelId: string
+  communityId: string
+  targetLanguage: LanguageCode
+  sourceContent: string // Message text the translation was made from
+  originalTranslation: string // Translation the reader flagged
+  proposedTranslation: string
+  reason?: string
+  status: TranslationCorrectionStatus
+  submittedBy: string
+  submittedByName?: string
+  createdAt: Date
+  reviewedBy?: string
+  reviewedAt?: Date
+  reviewNote?: string
+}
+
+export type LanguageCorrectionRole = 'sender' | 'moderator'
+
+// A change to the language a message was detected as, kept to tune language detection
+export interface LanguageCorrection {
+  id: string
+  messageId: string
+  channelId: string // Channel, or the conversation for direct messages
+  communityId?: string
+  content: string // Message text when it was corrected
+  previousLanguage: LanguageCode
+  correctedLanguage: LanguageCode
+  correctedBy: string
+  correctedByRole: LanguageCorrectionRole
+  createdAt: Date
+}
+
+// An uploaded file; messages reference it by ID and it is streamed from the storage backend
+export interface StoredAttachment {
+  id: string
+  channelId: string // Channel, or the conversation for direct messages
+  conversationId?: string
+  uploaderId: string
+  type: 'image' | 'file'
+  name: string
+  mimeType: string // Sniffed from the content, not taken from the upload
+  size: number
+  storage: string // Backend the file was written to
+  storageKey: string
+  thumbnailKey?: string
+  text?: AttachmentText // Set once text has been extracted for translation
+  createdAt: Date
+}
+
+// Where an attachment's text came from
+export type AttachmentTextSource = 'text' | 'pdf' | 'ocr'
+
+// Text extracted from an attachment
+export interface AttachmentText {
+  content: string
+  source: AttachmentTextSource
+  language: LanguageCode
+  truncated: boolean // Only the start of a long document is kept
+}
+
+// An attachment's text in one language, shown as a preview next to the file
+export interface AttachmentTextTranslation {
+  attachmentId: string
+  source: AttachmentTextSource
+  sourceLanguage: LanguageCode
+  originalText: string
+  targetLanguage: LanguageCode
+  translatedText: string
+  truncated: boolean
+}
+
+// Out-of-band translation work item, one per message and target language
+export type TranslationJobStatus = 'pending' | 'processing' | 'completed' | 'failed'
+
+export interface TranslationJob {
+  id: string
+  messageId: string
+  channelId: string
+  communityId?: string
+  targetLanguage: string
+  status: TranslationJobStatus
+  attempts: number
+  lastError?: string
+  runAt: Date
+  lockedBy?: string
+  lockedAt?: Date
+  finishedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Translation memory in export/import form: cache key -> translation and when it was stored
+export type TranslationMemoryData = Record<string, { value: string; timestamp: number }>
+
 // Status types
 export type MessageStatus = 'sent' | 'translating' | 'translated' | 'failed'
 
@@ -81,7 +323,22 @@ export interface Subscription {
 export interface Conversation {
   id: string
   participants: string[] // User IDs
-  participantsData?: UserProfile[] // Hydrated user data
+  participantsData?: UserProfile[] // Hydrated data of the other participants
+  isGroup?: boolean
+  name?: string // Group conversations only
+  createdBy?: string
   lastMessageAt: Date
   createdAt: Date
-}
\ No newline at end of file
+  unreadCount?: number // Messages from others since the viewer last read the conversation
+}
+// Events pushed to clients over the real-time stream
+export type RealtimeEvent =
+  | { type: 'message'; channelId: string; message: Message }
+  | { type: 'edit'; channelId: string; message: Message }
+  | { type: 'thread'; channelId: string; messageId: string; thread: ThreadSummary }
+  | { type: 'translation'; channelId: string; messageId: string; translation: Translation }
+  | { type: 'reaction'; channelId: string; messageId: string; reactions: NonNullable<Message['reactions']> }
+  | { type: 'deletion'; channelId: string; messageIds: string[] }
+  | { type: 'cleared'; channelId: string }
+  | { type: 'status'; channelId: string; messageId: string; status: MessageStatus }
+  | { type: 'conversation'; conversation: Conversation }